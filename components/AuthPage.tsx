@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import type { AuthBackend, AuthSession } from '../services/auth';
+import { useI18n } from '../services/i18n';
+
+type AuthMode = 'signin' | 'signup' | 'magic';
+
+export const AuthPage = ({ backend, onAuthenticated }: {
+  backend: AuthBackend,
+  onAuthenticated: (session: AuthSession) => void,
+}) => {
+  const { m } = useI18n();
+  const [mode, setMode] = useState<AuthMode>('signin');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
+
+  const switchMode = (next: AuthMode) => {
+    setMode(next);
+    setError(null);
+    setMagicLinkSent(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (mode === 'magic') {
+        await backend.requestMagicLink(email, `${window.location.pathname}${window.location.search}`);
+        setMagicLinkSent(true);
+      } else {
+        const session = mode === 'signup'
+          ? await backend.signUp(name, email, password)
+          : await backend.signIn(email, password);
+        onAuthenticated(session);
+      }
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : m.auth.error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitLabel = {
+    signin: m.auth.signIn,
+    signup: m.auth.signUp,
+    magic: m.auth.sendMagic,
+  }[mode];
+
+  return (
+    <div className="page-container">
+      <div className="page-header">
+        <h1>{m.auth.title}</h1>
+        <p>{m.auth.subtitle}</p>
+      </div>
+      <div className="page-content auth-card">
+        <div className="auth-tabs" role="tablist">
+          <button type="button" role="tab" aria-selected={mode === 'signin'} className={mode === 'signin' ? 'active' : ''} onClick={() => switchMode('signin')}>{m.auth.signIn}</button>
+          <button type="button" role="tab" aria-selected={mode === 'signup'} className={mode === 'signup' ? 'active' : ''} onClick={() => switchMode('signup')}>{m.auth.signUp}</button>
+          <button type="button" role="tab" aria-selected={mode === 'magic'} className={mode === 'magic' ? 'active' : ''} onClick={() => switchMode('magic')}>{m.auth.magic}</button>
+        </div>
+        {magicLinkSent ? (
+          <div className="form-success">
+            <h4>{m.auth.checkEmail}</h4>
+            <p>{m.auth.magicSentBefore} <strong>{email}</strong> {m.auth.magicSentAfter}</p>
+          </div>
+        ) : (
+          <form className="contact-form" onSubmit={handleSubmit}>
+            {mode === 'signup' && (
+              <div className="form-group">
+                <label htmlFor="auth-name">{m.auth.name}</label>
+                <input type="text" id="auth-name" autoComplete="name" value={name} onChange={(e) => setName(e.target.value)} required />
+              </div>
+            )}
+            <div className="form-group">
+              <label htmlFor="auth-email">{m.auth.email}</label>
+              <input type="email" id="auth-email" autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+            </div>
+            {mode !== 'magic' && (
+              <div className="form-group">
+                <label htmlFor="auth-password">{m.auth.password}</label>
+                <input
+                  type="password"
+                  id="auth-password"
+                  autoComplete={mode === 'signup' ? 'new-password' : 'current-password'}
+                  minLength={mode === 'signup' ? 8 : undefined}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+            )}
+            {mode === 'magic' && <p className="auth-hint">{m.auth.magicHint}</p>}
+            {error && <p className="error-message" role="alert">{error}</p>}
+            <button type="submit" className="cta-button" disabled={isSubmitting}>{isSubmitting ? m.common.loading : submitLabel}</button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
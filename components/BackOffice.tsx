@@ -0,0 +1,439 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import type { AuthUser } from '../services/auth';
+import type { WorkshopRequestStatus } from '../types';
+import { ApiError } from '../services/http';
+import { REQUEST_STATUSES, adjacentStatuses, staffStatusLabel, StaffMember, StaffRequest, FinalQuoteInput } from '../services/requests/model';
+import { listStaffRequests, fetchStaffRequest, listStaffMembers, updateStaffRequest, addRequestNote, attachFinalQuote } from '../services/requests/staffApi';
+import { fetchRequestFile } from '../services/requests/requestsApi';
+import { STAFF_ROLE_LABELS, canAssign, canMoveRequest, canQuote } from '../services/staff/roles';
+import { describeItem, enabledItems } from '../services/suggestions/items';
+import { finishById, woodById } from '../services/materials/catalog';
+import { householdRules, describeRules, catName } from '../services/cats/rules';
+import { planToSVG } from '../services/floorPlan/exportPlan';
+import { DIMENSION_KEYS, DIMENSION_LABELS, formatLength, metresOf } from '../utils/dimensions';
+import { readAsBase64 } from '../utils/imageData';
+
+const formatMoney = (value: number, currency: string) =>
+  value.toLocaleString('es-ES', { style: 'currency', currency, maximumFractionDigits: 0 });
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('es-ES', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const svgURL = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+const errorMessage = (e: unknown, fallback: string) => (e instanceof ApiError ? e.message : fallback);
+
+/** A photo, render or document of a request, fetched on demand since the list carries only its metadata. */
+const RequestFileView = ({ token, requestId, file, name, mimeType }: { token: string, requestId: string, file: string, name: string, mimeType: string }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchRequestFile(token, requestId, file, controller.signal)
+      .then(loaded => setUrl(`data:${loaded.mimeType};base64,${loaded.base64}`))
+      .catch(e => {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching request file:', e);
+        setFailed(true);
+      });
+    return () => controller.abort();
+  }, [token, requestId, file]);
+
+  if (failed) return <p className="error-message">No se pudo cargar {name}.</p>;
+  if (!url) return <div className="backoffice-file placeholder" aria-label={`Cargando ${name}`}></div>;
+  return mimeType.startsWith('image/')
+    ? <a href={url} download={name} className="backoffice-file"><img src={url} alt={name} /></a>
+    : <a href={url} download={name} className="secondary-button">Descargar {name}</a>;
+};
+
+// --- Request List ---
+type Filters = { spaceType: string; status: WorkshopRequestStatus | ''; from: string; to: string };
+
+const RequestList = ({ requests, onOpen }: { requests: StaffRequest[], onOpen: (id: string) => void }) => {
+  const [filters, setFilters] = useState<Filters>({ spaceType: '', status: '', from: '', to: '' });
+  const spaceTypes = useMemo(
+    () => [...new Set(requests.map(request => request.snapshot.spaceType).filter((space): space is string => !!space))].sort(),
+    [requests]
+  );
+
+  // Date inputs give local calendar days; "to" includes the whole of its day.
+  const from = filters.from ? new Date(`${filters.from}T00:00`).getTime() : -Infinity;
+  const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : Infinity;
+  const visible = requests.filter(request =>
+    (!filters.spaceType || request.snapshot.spaceType === filters.spaceType) &&
+    (!filters.status || request.status === filters.status) &&
+    request.submittedAt >= from && request.submittedAt <= to
+  );
+  const update = (change: Partial<Filters>) => setFilters(f => ({ ...f, ...change }));
+
+  return (
+    <>
+      <div className="backoffice-filters">
+        <label>
+          Espacio
+          <select value={filters.spaceType} onChange={(e) => update({ spaceType: e.target.value })}>
+            <option value="">Todos</option>
+            {spaceTypes.map(space => <option key={space} value={space}>{space}</option>)}
+          </select>
+        </label>
+        <label>
+          Estado
+          <select value={filters.status} onChange={(e) => update({ status: e.target.value as Filters['status'] })}>
+            <option value="">Todos</option>
+            {REQUEST_STATUSES.map(entry => <option key={entry.value} value={entry.value}>{entry.staffLabel}</option>)}
+          </select>
+        </label>
+        <label>
+          Desde
+          <input type="date" value={filters.from} onChange={(e) => update({ from: e.target.value })} />
+        </label>
+        <label>
+          Hasta
+          <input type="date" value={filters.to} onChange={(e) => update({ to: e.target.value })} />
+        </label>
+      </div>
+      {visible.length === 0 ? (
+        <p className="text-center">{requests.length === 0 ? 'Todavía no ha llegado ninguna solicitud.' : 'Ninguna solicitud coincide con los filtros.'}</p>
+      ) : (
+        <table className="backoffice-table">
+          <thead>
+            <tr>
+              <th scope="col">Fecha</th>
+              <th scope="col">Proyecto</th>
+              <th scope="col">Cliente</th>
+              <th scope="col">Espacio</th>
+              <th scope="col">Estado</th>
+              <th scope="col">Diseñador</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map(request => (
+              <tr key={request.id}>
+                <td>{formatDate(request.submittedAt)}</td>
+                <td>
+                  <a href={`/taller/solicitudes?solicitud=${encodeURIComponent(request.id)}`} onClick={(e) => { e.preventDefault(); onOpen(request.id); }}>
+                    {request.snapshot.projectName || 'Sin nombre'}
+                  </a>
+                </td>
+                <td>{request.snapshot.contact.name}</td>
+                <td>{request.snapshot.spaceType || '—'}</td>
+                <td><span className={`request-badge ${request.status}`}>{staffStatusLabel(request.status)}</span></td>
+                <td>{request.assignee?.name ?? 'Sin asignar'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </>
+  );
+};
+
+// --- Request Detail ---
+/** Remounted (through its key) whenever a quote is saved, so the fields show what was stored. */
+const QuoteForm = ({ request, onSubmit }: { request: StaffRequest, onSubmit: (quote: FinalQuoteInput) => Promise<boolean> }) => {
+  const current = request.finalQuote;
+  const [total, setTotal] = useState(current ? String(current.total) : '');
+  const [validUntil, setValidUntil] = useState(current?.validUntil ?? '');
+  const [message, setMessage] = useState(current?.message ?? '');
+  const [file, setFile] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const attachment = file && { name: file.name, mimeType: file.type || 'application/pdf', base64: await readAsBase64(file) };
+    await onSubmit({ total: Number(total), currency: current?.currency ?? 'EUR', validUntil: validUntil || null, message, attachment });
+    setIsSaving(false);
+  };
+
+  return (
+    <form className="backoffice-quote-form" onSubmit={handleSubmit}>
+      <div className="form-row">
+        <label>
+          Total con IVA (€)
+          <input type="number" min={1} step={1} value={total} onChange={(e) => setTotal(e.target.value)} required />
+        </label>
+        <label>
+          Válida hasta
+          <input type="date" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} />
+        </label>
+      </div>
+      <label>
+        Mensaje para el cliente
+        <textarea rows={3} value={message} onChange={(e) => setMessage(e.target.value)} />
+      </label>
+      <label>
+        Documento (PDF o imagen){current?.attachment ? `; deja vacío para conservar ${current.attachment.name}` : ''}
+        <input type="file" accept="application/pdf,image/*" onChange={(e) => setFile(e.target.files?.[0] ?? null)} />
+      </label>
+      <button type="submit" className="cta-button" disabled={isSaving || !(Number(total) > 0)}>
+        {isSaving ? 'Guardando…' : current ? 'Actualizar cotización' : 'Adjuntar cotización'}
+      </button>
+    </form>
+  );
+};
+
+const RequestDetail = ({ token, user, request, members, onChange, onBack }: {
+  token: string,
+  user: AuthUser,
+  request: StaffRequest,
+  members: StaffMember[],
+  onChange: (request: StaffRequest) => void,
+  onBack: () => void,
+}) => {
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const { snapshot } = request;
+  const role = user.role;
+  const designers = members.filter(member => member.role === 'designer' || member.role === 'admin');
+  const selection = snapshot.quoteSelection;
+  const chosen = snapshot.suggestions[selection?.suggestionIndex ?? 0];
+
+  /** Applies a change and reports whether the backend accepted it. */
+  const run = async (action: () => Promise<StaffRequest>, failure: string) => {
+    setError(null);
+    try {
+      onChange(await action());
+      return true;
+    } catch (e) {
+      console.error(e);
+      setError(errorMessage(e, failure));
+      return false;
+    }
+  };
+
+  const handleAddNote = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!note.trim()) return;
+    run(() => addRequestNote(token, request.id, note), 'No se pudo guardar la nota.').then(saved => saved && setNote(''));
+  };
+
+  return (
+    <div className="backoffice-detail">
+      <button type="button" className="link-button" onClick={onBack}>← Volver a las solicitudes</button>
+      <div className="backoffice-detail-header">
+        <div>
+          <h3>{snapshot.projectName || 'Sin nombre'}</h3>
+          <p>{snapshot.spaceType || 'Sin espacio'} · recibida el {formatDate(request.submittedAt)}</p>
+        </div>
+        <span className={`request-badge ${request.status}`}>{staffStatusLabel(request.status)}</span>
+      </div>
+      {error && <p className="error-message" role="alert">{error}</p>}
+
+      <div className="backoffice-columns">
+        <div>
+          <section>
+            <h4>Cliente</h4>
+            <p>
+              {snapshot.contact.name} · <a href={`mailto:${snapshot.contact.email}`}>{snapshot.contact.email}</a>
+              {snapshot.contact.phone && <> · <a href={`tel:${snapshot.contact.phone}`}>{snapshot.contact.phone}</a></>}
+            </p>
+            {snapshot.contact.notes && <blockquote>{snapshot.contact.notes}</blockquote>}
+          </section>
+
+          <section>
+            <h4>Fotos y diseño</h4>
+            <div className="backoffice-gallery">
+              {snapshot.photos.map(photo => <RequestFileView key={photo.file} token={token} requestId={request.id} {...photo} />)}
+              {snapshot.render && <RequestFileView token={token} requestId={request.id} {...snapshot.render} name={`Diseño - ${snapshot.render.name}`} />}
+            </div>
+            {snapshot.render?.prompt && <p className="dimensions-hint">Último ajuste pedido: «{snapshot.render.prompt}»</p>}
+          </section>
+
+          {snapshot.floorPlan && (
+            <section>
+              <h4>Plano</h4>
+              <img className="backoffice-plan" src={svgURL(planToSVG(snapshot.floorPlan, 'metric'))} alt="Plano del espacio" />
+            </section>
+          )}
+
+          <section>
+            <h4>Análisis</h4>
+            {snapshot.dimensions && (
+              <p>{DIMENSION_KEYS.map(key => `${DIMENSION_LABELS[key]}: ${formatLength(metresOf(snapshot.dimensions![key]), 'metric')}`).join(' · ')}</p>
+            )}
+            {snapshot.suggestions.map((suggestion, index) => (
+              <div key={index} className={`suggestion-card${suggestion === chosen ? ' active' : ''}`}>
+                <h5>{suggestion.styleName}{suggestion === chosen && ' · elegida para cotizar'}</h5>
+                <p>{suggestion.description}</p>
+                <ul>
+                  {enabledItems(suggestion).map(item => <li key={item.id}>{describeItem(item)}</li>)}
+                </ul>
+              </div>
+            ))}
+            {selection && (
+              <p>
+                Materiales elegidos: {woodById(selection.woodId)?.name ?? selection.woodId}, {finishById(selection.finishId)?.name.toLowerCase() ?? selection.finishId}.
+              </p>
+            )}
+            {snapshot.cats.length > 0 && (
+              <>
+                <h5>Gatos</h5>
+                <ul>
+                  {snapshot.cats.map((cat, index) => (
+                    <li key={index}>{catName(cat, index)}: {cat.size}, {cat.age}{cat.weightKg ? `, ${cat.weightKg} kg` : ''}</li>
+                  ))}
+                </ul>
+                <ul>
+                  {describeRules(householdRules(snapshot.cats)).map(line => <li key={line}>{line}</li>)}
+                </ul>
+              </>
+            )}
+          </section>
+        </div>
+
+        <aside>
+          <section>
+            <h4>Estado</h4>
+            <ol className="backoffice-pipeline">
+              {REQUEST_STATUSES.map(entry => (
+                <li key={entry.value} className={entry.value === request.status ? 'current' : ''}>{entry.staffLabel}</li>
+              ))}
+            </ol>
+            <div className="backoffice-actions">
+              {adjacentStatuses(request.status)
+                .filter(status => canMoveRequest(role, request.status, status))
+                .map(status => (
+                  <button key={status} type="button" className="secondary-button"
+                    onClick={() => run(() => updateStaffRequest(token, request.id, { status }), 'No se pudo cambiar el estado.')}>
+                    Pasar a «{staffStatusLabel(status)}»
+                  </button>
+                ))}
+            </div>
+          </section>
+
+          <section>
+            <h4>Diseñador</h4>
+            {canAssign(role) ? (
+              <select value={request.assignee?.id ?? ''}
+                onChange={(e) => run(() => updateStaffRequest(token, request.id, { assigneeId: e.target.value || null }), 'No se pudo asignar la solicitud.')}>
+                <option value="">Sin asignar</option>
+                {designers.map(member => <option key={member.id} value={member.id}>{member.name} ({STAFF_ROLE_LABELS[member.role]})</option>)}
+              </select>
+            ) : (
+              <p>{request.assignee?.name ?? 'Sin asignar'}</p>
+            )}
+          </section>
+
+          <section>
+            <h4>Cotización final</h4>
+            {request.finalQuote && (
+              <div className="backoffice-quote">
+                <p className="quote-range">{formatMoney(request.finalQuote.total, request.finalQuote.currency)}</p>
+                {request.finalQuote.validUntil && <p>Válida hasta el {new Date(`${request.finalQuote.validUntil}T00:00`).toLocaleDateString('es-ES')}</p>}
+                {request.finalQuote.attachment && <RequestFileView token={token} requestId={request.id} {...request.finalQuote.attachment} />}
+              </div>
+            )}
+            {canQuote(role)
+              ? <QuoteForm key={request.finalQuote?.attachedAt ?? 0} request={request} onSubmit={(quote) => run(() => attachFinalQuote(token, request.id, quote), 'No se pudo guardar la cotización.')} />
+              : !request.finalQuote && <p>Aún sin cotizar.</p>}
+          </section>
+
+          <section>
+            <h4>Notas internas</h4>
+            <ul className="backoffice-notes">
+              {request.notes.map(entry => (
+                <li key={entry.id}>
+                  <p>{entry.text}</p>
+                  <small>{entry.authorName} · {formatDate(entry.createdAt)}</small>
+                </li>
+              ))}
+            </ul>
+            <form className="refine-form" onSubmit={handleAddNote}>
+              <input type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder="Añadir una nota para el equipo" aria-label="Nueva nota interna" />
+              <button type="submit" disabled={!note.trim()}>Añadir</button>
+            </form>
+          </section>
+
+          <section>
+            <h4>Historial</h4>
+            <ul className="backoffice-history">
+              {request.history.map((change, index) => (
+                <li key={index}>{staffStatusLabel(change.status)} · {change.changedBy} · {formatDate(change.changedAt)}</li>
+              ))}
+            </ul>
+          </section>
+        </aside>
+      </div>
+    </div>
+  );
+};
+
+/** Workshop back-office: incoming quote requests, for staff accounts only. */
+export const BackOffice = ({ token, user, requestId, onOpenRequest }: {
+  token: string,
+  user: AuthUser,
+  requestId: string | null,
+  onOpenRequest: (requestId: string | null) => void,
+}) => {
+  const [requests, setRequests] = useState<StaffRequest[]>([]);
+  const [members, setMembers] = useState<StaffMember[]>([]);
+  const [detail, setDetail] = useState<StaffRequest | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user.role) return;
+    const controller = new AbortController();
+    Promise.all([listStaffRequests(token, controller.signal), listStaffMembers(token, controller.signal)])
+      .then(([loaded, staff]) => {
+        setRequests(loaded);
+        setMembers(staff);
+        setError(null);
+      })
+      .catch(e => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading requests:', e);
+        setError(errorMessage(e, 'No se pudieron cargar las solicitudes.'));
+      })
+      .finally(() => setIsLoading(false));
+    return () => controller.abort();
+  }, [token, user.role]);
+
+  // The detail is fetched on its own so a bookmarked request opens without waiting for the list.
+  useEffect(() => {
+    setDetail(null);
+    if (!requestId || !user.role) return;
+    const controller = new AbortController();
+    fetchStaffRequest(token, requestId, controller.signal)
+      .then(setDetail)
+      .catch(e => {
+        if (controller.signal.aborted) return;
+        console.error('Error loading request:', e);
+        setError(errorMessage(e, 'No se pudo cargar la solicitud.'));
+      });
+    return () => controller.abort();
+  }, [token, requestId, user.role]);
+
+  const handleChange = useCallback((updated: StaffRequest) => {
+    setDetail(updated);
+    setRequests(list => list.map(request => request.id === updated.id ? updated : request));
+  }, []);
+
+  if (!user.role) {
+    return (
+      <div className="page-container text-center">
+        <h2>Solicitudes del Taller</h2>
+        <p className="error-message">Esta sección es solo para el equipo del taller.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="page-container backoffice">
+      <h2>Solicitudes del Taller</h2>
+      <p>Sesión de {user.name} · {STAFF_ROLE_LABELS[user.role]}</p>
+      {error && <p className="error-message">{error}</p>}
+      {isLoading && (
+        <div className="inspiration-loader">
+          <div className="spinner"></div>
+          <p>Cargando solicitudes...</p>
+        </div>
+      )}
+      {requestId
+        ? detail && <RequestDetail token={token} user={user} request={detail} members={members} onChange={handleChange} onBack={() => onOpenRequest(null)} />
+        : !isLoading && <RequestList requests={requests} onOpen={onOpenRequest} />}
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { composeBeforeAfter } from '../utils/comparisonImage';
+import { downloadBlob } from '../utils/download';
+import { useI18n } from '../services/i18n';
+
+type CompareMode = 'slider' | 'side' | 'flicker';
+
+const MODES: CompareMode[] = ['slider', 'side', 'flicker'];
+
+const FLICKER_MS = 900;
+
+export const BeforeAfterViewer = ({ beforeSrc, afterSrc, afterLabel, fileName }: {
+  beforeSrc: string,
+  afterSrc: string,
+  afterLabel: string,
+  fileName: string,
+}) => {
+  const { m } = useI18n();
+  const text = m.compare;
+  const [mode, setMode] = useState<CompareMode>('slider');
+  const [split, setSplit] = useState(50);
+  const [showBefore, setShowBefore] = useState(false);
+  const [autoFlicker, setAutoFlicker] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef(false);
+
+  useEffect(() => {
+    if (mode !== 'flicker' || !autoFlicker) return;
+    const intervalId = setInterval(() => setShowBefore(v => !v), FLICKER_MS);
+    return () => clearInterval(intervalId);
+  }, [mode, autoFlicker]);
+
+  // --- Split Slider ---
+  const moveSplit = (clientX: number) => {
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    draggingRef.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    moveSplit(e.clientX);
+  };
+
+  const handleSliderKey = (e: React.KeyboardEvent) => {
+    const step = e.shiftKey ? 10 : 2;
+    if (e.key === 'ArrowLeft') setSplit(v => Math.max(0, v - step));
+    else if (e.key === 'ArrowRight') setSplit(v => Math.min(100, v + step));
+    else if (e.key === 'Home') setSplit(0);
+    else if (e.key === 'End') setSplit(100);
+    else return;
+    e.preventDefault();
+  };
+
+  // --- Export ---
+  const exportComparison = async (share: boolean) => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const blob = await composeBeforeAfter(beforeSrc, afterSrc, [text.before, text.after], text.credit);
+      const file = new File([blob], `${fileName}.jpg`, { type: 'image/jpeg' });
+      if (share && navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title: text.shareTitle, text: text.shareText });
+      } else {
+        downloadBlob(blob, file.name);
+      }
+    } catch (e) {
+      // Closing the share sheet is not an error worth showing.
+      if (!(e instanceof DOMException && e.name === 'AbortError')) {
+        console.error(e);
+        setExportError(text.exportError);
+      }
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const canShare = typeof navigator !== 'undefined' && typeof navigator.share === 'function';
+
+  return (
+    <div className="compare-viewer">
+      <div className="compare-modes" role="group" aria-label={text.modeLabel}>
+        {MODES.map(option => (
+          <button key={option} type="button" className={mode === option ? 'active' : ''} aria-pressed={mode === option} onClick={() => setMode(option)}>
+            {text.modes[option]}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'slider' && (
+        <div
+          ref={frameRef}
+          className="compare-frame"
+          onPointerDown={handlePointerDown}
+          onPointerMove={(e) => { if (draggingRef.current) moveSplit(e.clientX); }}
+          onPointerUp={() => { draggingRef.current = false; }}
+          onPointerCancel={() => { draggingRef.current = false; }}
+        >
+          <img src={afterSrc} alt={afterLabel} className="compare-image" draggable={false} />
+          <img
+            src={beforeSrc}
+            alt={text.originalAlt}
+            className="compare-image compare-before"
+            style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+            draggable={false}
+          />
+          <span className="compare-tag before">{text.before}</span>
+          <span className="compare-tag after">{text.after}</span>
+          <div
+            className="compare-handle"
+            style={{ left: `${split}%` }}
+            role="slider"
+            tabIndex={0}
+            aria-label={text.position}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(split)}
+            onKeyDown={handleSliderKey}
+          />
+        </div>
+      )}
+
+      {mode === 'side' && (
+        <div className="compare-side">
+          <figure>
+            <img src={beforeSrc} alt={text.originalAlt} className="compare-image" />
+            <figcaption>{text.before}</figcaption>
+          </figure>
+          <figure>
+            <img src={afterSrc} alt={afterLabel} className="compare-image" />
+            <figcaption>{text.after}</figcaption>
+          </figure>
+        </div>
+      )}
+
+      {mode === 'flicker' && (
+        <>
+          <button
+            type="button"
+            className="compare-frame compare-flicker"
+            onPointerDown={() => setShowBefore(true)}
+            onPointerUp={() => setShowBefore(false)}
+            onPointerLeave={() => { if (!autoFlicker) setShowBefore(false); }}
+            onClick={(e) => { if (e.detail === 0) setShowBefore(v => !v); }}
+            aria-label={text.hold}
+          >
+            <img src={showBefore ? beforeSrc : afterSrc} alt={showBefore ? text.originalAlt : afterLabel} className="compare-image" draggable={false} />
+            <span className="compare-tag before">{showBefore ? text.before : text.after}</span>
+          </button>
+          <label className="compare-auto">
+            <input type="checkbox" checked={autoFlicker} onChange={(e) => setAutoFlicker(e.target.checked)} />
+            {text.autoFlicker}
+          </label>
+        </>
+      )}
+
+      <div className="compare-actions">
+        <button type="button" className="secondary-button" onClick={() => exportComparison(false)} disabled={isExporting}>
+          {isExporting ? text.exporting : text.download}
+        </button>
+        {canShare && (
+          <button type="button" className="secondary-button" onClick={() => exportComparison(true)} disabled={isExporting}>{text.share}</button>
+        )}
+      </div>
+      {exportError && <p className="error-message">{exportError}</p>}
+    </div>
+  );
+};
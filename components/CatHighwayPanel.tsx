@@ -0,0 +1,86 @@
+import React, { useState, useMemo } from 'react';
+import type { CatDetails, FloorPlan } from '../types';
+import { householdRules, describeRules } from '../services/cats/rules';
+import { generateCatHighway, checkCatHighway, highwaySVG, HEADROOM_M } from '../services/cats/highway';
+import { wallSegment } from '../services/floorPlan/model';
+import { useI18n } from '../services/i18n';
+
+const svgURL = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+/** A cat highway for one wall of the plan, laid out from the household's rules and checked against them. */
+export const CatHighwayPanel = ({ cats, plan, roomHeight, fileName }: {
+  cats: CatDetails[],
+  plan: FloorPlan,
+  roomHeight: number,
+  fileName: string,
+}) => {
+  const { m } = useI18n();
+  const text = m.catHighway;
+  const wallLengths = plan.corners.map((_, wall) => wallSegment(plan, wall).length);
+  const [wall, setWall] = useState(() => wallLengths.indexOf(Math.max(...wallLengths)));
+  const [peakCm, setPeakCm] = useState(180);
+  const [platformCm, setPlatformCm] = useState(40);
+
+  const rules = useMemo(() => householdRules(cats, m.cats.fallbackName), [cats, m]);
+  const wallLength = wallLengths[wall] ?? wallLengths[0] ?? 0;
+  const highway = useMemo(
+    () => generateCatHighway({ wallLength, roomHeight, peakHeight: peakCm / 100, platformWidth: platformCm / 100 }, rules),
+    [wallLength, roomHeight, peakCm, platformCm, rules]
+  );
+  const violations = useMemo(() => checkCatHighway(highway, rules, text.violations), [highway, rules, text]);
+  const svg = useMemo(
+    () => highwaySVG(highway, new Set(violations.flatMap(v => v.elementIds)), text.caption),
+    [highway, violations, text]
+  );
+
+  return (
+    <div className="cat-highway">
+      <div className="cat-highway-rules">
+        <h5>{text.rulesTitle}</h5>
+        <ul>
+          {describeRules(rules, m.cats.rules).map(line => <li key={line}>{line}</li>)}
+        </ul>
+        <ul className="cat-highway-cats">
+          {rules.cats.map(cat => (
+            <li key={cat.index}>
+              <strong>{cat.name}</strong>{text.catLimits(Math.round(cat.maxStep * 100), Math.round(cat.maxGap * 100), cat.needsRamp)}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="cat-highway-controls">
+        <label>
+          {text.wall}
+          <select value={wall} onChange={(e) => setWall(parseInt(e.target.value, 10))}>
+            {wallLengths.map((length, index) => (
+              <option key={index} value={index}>{text.wallOption(index + 1, Math.round(length * 100))}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          {text.peak}
+          <input type="number" min={30} max={Math.round((roomHeight - HEADROOM_M) * 100)} step={5} value={peakCm}
+            onChange={(e) => setPeakCm(Math.max(30, e.target.valueAsNumber || 0))} />
+        </label>
+        <label>
+          {text.platformWidth}
+          <input type="number" min={25} max={100} step={5} value={platformCm}
+            onChange={(e) => setPlatformCm(Math.max(25, e.target.valueAsNumber || 0))} />
+        </label>
+      </div>
+
+      <a href={svgURL(svg)} download={`${fileName}_pared${wall + 1}.svg`} title={text.download} className="cat-highway-drawing">
+        <img src={svgURL(svg)} alt={text.drawingAlt(wall + 1)} />
+      </a>
+
+      {violations.length === 0 ? (
+        <p className="cat-highway-ok">{text.ok}</p>
+      ) : (
+        <ul className="module-problems" role="alert">
+          {violations.map(violation => <li key={violation.message}>{violation.message}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useState, useMemo } from 'react';
+import type { QuoteModule } from '../services/quote/engine';
+import { buildCutList } from '../services/cutList/parts';
+import { nestParts, DEFAULT_NESTING_OPTIONS } from '../services/cutList/nesting';
+import { sheetDiagramSVG } from '../services/cutList/diagram';
+import { sheetName } from '../services/materials/catalog';
+import { downloadBlob } from '../utils/download';
+import { formatNumber, useI18n } from '../services/i18n';
+
+const svgURL = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+/** Panels, edge banding and sheet layouts for an approved design, ready for the workshop. */
+export const CutListPanel = ({ modules, woodId, spaceType, fileName }: {
+  modules: QuoteModule[],
+  woodId: string,
+  spaceType: string | null,
+  fileName: string,
+}) => {
+  const { locale, m } = useI18n();
+  const percent = (fraction: number) => formatNumber(locale, fraction, { style: 'percent', maximumFractionDigits: 0 });
+  const [kerf, setKerf] = useState(DEFAULT_NESTING_OPTIONS.kerf);
+
+  const cutList = useMemo(() => buildCutList(modules, woodId, spaceType, m.cutList.parts), [modules, woodId, spaceType, m]);
+  const nestings = useMemo(() => cutList.materials.map(total =>
+    nestParts(cutList.parts.filter(part => part.sheetId === total.sheet.id), total.sheet, { ...DEFAULT_NESTING_OPTIONS, kerf })
+  ), [cutList, kerf]);
+  const diagrams = useMemo(() => nestings.flatMap(nesting =>
+    nesting.layouts.map((_, index) => ({ sheetId: nesting.sheet.id, index, svg: sheetDiagramSVG(nesting, index, locale) }))
+  ), [nestings, locale]);
+
+  const handleCsv = () => {
+    const { csv: columns } = m.cutList;
+    const rows = [
+      [columns.code, columns.module, columns.part, columns.length, columns.width, columns.thickness, columns.quantity, columns.material, columns.grain, columns.bandingLong, columns.bandingShort],
+      ...cutList.parts.map(p => [p.code, p.moduleName, p.name, p.length, p.width, p.thickness, p.quantity, p.sheetId, p.grain ? columns.yes : columns.no, p.banding.long, p.banding.short]),
+    ];
+    const csv = rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(';')).join('\n');
+    downloadBlob(new Blob([`﻿${csv}`], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+  };
+
+  const handlePrint = () => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+    printWindow.document.title = m.cutList.printTitle(fileName);
+    printWindow.document.body.innerHTML = diagrams
+      .map(d => `<div style="page-break-after: always"><img src="${svgURL(d.svg)}" style="width: 100%" /></div>`)
+      .join('');
+    setTimeout(() => printWindow.print(), 300);
+  };
+
+  return (
+    <div className="cut-list">
+      <table className="cut-list-table">
+        <thead>
+          <tr>
+            <th scope="col">{m.cutList.code}</th>
+            <th scope="col">{m.cutList.part}</th>
+            <th scope="col">{m.cutList.size}</th>
+            <th scope="col">{m.cutList.quantity}</th>
+            <th scope="col">{m.cutList.grain}</th>
+            <th scope="col">{m.cutList.edges}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {cutList.parts.map(part => (
+            <tr key={part.code}>
+              <td>{part.code}</td>
+              <td>{part.moduleName} · {part.name}</td>
+              <td>{part.length} × {part.width} × {part.thickness}</td>
+              <td>{part.quantity}</td>
+              <td>{part.grain ? m.cutList.grainAlong : m.cutList.grainFree}</td>
+              <td>{part.banding.long + part.banding.short > 0 ? m.cutList.edgeCount(part.banding.long, part.banding.short) : '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="cut-list-totals">
+        {cutList.materials.map((total, index) => {
+          const nesting = nestings[index]!;
+          return (
+            <div key={total.sheet.id} className="cut-list-total">
+              <h5>{sheetName(m, total.sheet.id)}</h5>
+              <p>{m.cutList.totals(total.pieces, formatNumber(locale, total.areaM2), formatNumber(locale, total.boardFeet))}</p>
+              <p>{m.cutList.sheets(nesting.layouts.length, `${total.sheet.lengthMm}×${total.sheet.widthMm}`, percent(nesting.waste))}</p>
+              {nesting.oversize.length > 0 && (
+                <p className="error-text">{m.cutList.oversize(nesting.oversize.map(part => part.code).join(', '))}</p>
+              )}
+            </div>
+          );
+        })}
+        <div className="cut-list-total">
+          <h5>{m.cutList.banding}</h5>
+          <p>{m.cutList.bandingLength(formatNumber(locale, cutList.edgeBandingM))}</p>
+        </div>
+      </div>
+
+      <div className="cut-list-actions">
+        <label>
+          {m.cutList.kerf}
+          <input type="number" min={0} max={10} step={0.5} value={kerf} onChange={(e) => setKerf(Math.max(0, e.target.valueAsNumber || 0))} />
+        </label>
+        <button type="button" className="secondary-button" onClick={handleCsv}>{m.cutList.downloadCsv}</button>
+        <button type="button" className="secondary-button" onClick={handlePrint}>{m.cutList.print}</button>
+      </div>
+
+      <div className="cut-diagrams">
+        {diagrams.map(d => (
+          <a key={`${d.sheetId}-${d.index}`} href={svgURL(d.svg)} download={`${fileName}_${d.sheetId}_${d.index + 1}.svg`} title={m.cutList.downloadDiagram}>
+            <img src={svgURL(d.svg)} alt={m.cutList.diagramAlt(sheetName(m, d.sheetId), d.index + 1)} />
+          </a>
+        ))}
+      </div>
+    </div>
+  );
+};
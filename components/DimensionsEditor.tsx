@@ -0,0 +1,80 @@
+import React, { useState, useEffect } from 'react';
+import type { RoomDimensions, UnitSystem } from '../types';
+import {
+  DIMENSION_KEYS, DimensionKey, metresOf, toDisplayValue, fromDisplayValue, formatLength, confidenceLevel,
+} from '../utils/dimensions';
+import { useI18n } from '../services/i18n';
+
+const DimensionRow = ({ dimensionKey, dimensions, unitSystem, onChange }: {
+  dimensionKey: DimensionKey,
+  dimensions: RoomDimensions,
+  unitSystem: UnitSystem,
+  onChange: (key: DimensionKey, metres: number) => void,
+}) => {
+  const { locale, m } = useI18n();
+  const estimate = dimensions[dimensionKey];
+  const metres = metresOf(estimate);
+  const [draft, setDraft] = useState('');
+  const inputId = `dimension-${dimensionKey}`;
+
+  useEffect(() => {
+    setDraft(metres > 0 ? toDisplayValue(metres, unitSystem).toFixed(2) : '');
+  }, [metres, unitSystem]);
+
+  const commit = () => {
+    const value = parseFloat(draft.replace(',', '.'));
+    if (!Number.isFinite(value) || value <= 0) {
+      setDraft(metres > 0 ? toDisplayValue(metres, unitSystem).toFixed(2) : '');
+      return;
+    }
+    const corrected = fromDisplayValue(value, unitSystem);
+    if (Math.abs(corrected - metres) > 0.001) onChange(dimensionKey, corrected);
+  };
+
+  const confidence = confidenceLevel(estimate.confidence);
+
+  return (
+    <div className="dimension-row">
+      <label htmlFor={inputId}>{m.dimensions[dimensionKey]}</label>
+      <div className="dimension-input">
+        <input
+          id={inputId}
+          type="number"
+          inputMode="decimal"
+          min="0"
+          step="0.01"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); commit(); } }}
+        />
+        <span>{unitSystem === 'metric' ? 'm' : 'ft'}</span>
+      </div>
+      <span className="dimension-formatted">{metres > 0 ? formatLength(metres, unitSystem, locale) : '—'}</span>
+      {estimate.corrected
+        ? <span className="dimension-badge corrected">{m.dimensions.corrected}</span>
+        : <span className={`dimension-badge confidence-${confidence}`} title={m.dimensions.confidenceTitle(Math.round(estimate.confidence * 100))}>{m.dimensions.confidence(m.dimensions[confidence])}</span>}
+    </div>
+  );
+};
+
+export const DimensionsEditor = ({ dimensions, unitSystem, onChange, onUnitSystemChange }: {
+  dimensions: RoomDimensions,
+  unitSystem: UnitSystem,
+  onChange: (key: DimensionKey, metres: number) => void,
+  onUnitSystemChange: (system: UnitSystem) => void,
+}) => {
+  const { m } = useI18n();
+  return (
+    <div className="dimensions-editor">
+      <div className="unit-toggle" role="group" aria-label={m.dimensions.units}>
+        <button type="button" className={unitSystem === 'metric' ? 'active' : ''} aria-pressed={unitSystem === 'metric'} onClick={() => onUnitSystemChange('metric')}>{m.dimensions.metric}</button>
+        <button type="button" className={unitSystem === 'imperial' ? 'active' : ''} aria-pressed={unitSystem === 'imperial'} onClick={() => onUnitSystemChange('imperial')}>{m.dimensions.imperial}</button>
+      </div>
+      {DIMENSION_KEYS.map(key => (
+        <DimensionRow key={key} dimensionKey={key} dimensions={dimensions} unitSystem={unitSystem} onChange={onChange} />
+      ))}
+      <p className="dimensions-hint">{m.dimensions.hint}</p>
+    </div>
+  );
+};
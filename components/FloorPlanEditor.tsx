@@ -0,0 +1,410 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import type { FloorPlan, OpeningKind, PlanFurniture, PlanPoint, SuggestionItem, UnitSystem } from '../types';
+import {
+  OPENING_KINDS, addFurniture, layoutSuggestionItems, addOpening, furnitureCorners, moveWall, nearestWall, openingEnds,
+  planBounds, pointAlongWall, projectOntoWall, removeItem, setWallLength, snapOffset, updateFurniture, updateOpening, wallSegment,
+} from '../services/floorPlan/model';
+import { planToJSON, planToSVG } from '../services/floorPlan/exportPlan';
+import { MODULE_LIBRARY, moduleById, moduleName, moduleParams, validateModule } from '../services/modules/library';
+import { frontElevationSVG, sideElevationSVG } from '../services/modules/elevation';
+import { WOOD_SPECIES, woodName } from '../services/materials/catalog';
+import { toDisplayValue, fromDisplayValue, formatLength } from '../utils/dimensions';
+import { downloadBlob } from '../utils/download';
+import { useI18n } from '../services/i18n';
+
+type Selection =
+  | { type: 'wall'; index: number }
+  | { type: 'opening'; id: string }
+  | { type: 'furniture'; id: string }
+  | null;
+
+type Drag =
+  | { type: 'wall'; index: number; origin: PlanPoint; plan: FloorPlan }
+  | { type: 'opening' | 'furniture'; id: string; grab: number };
+
+const MARGIN_M = 0.7;
+const FONT_M = 0.16;
+
+const points = (list: PlanPoint[]) => list.map(p => `${p.x},${p.y}`).join(' ');
+
+const LengthInput = ({ id, label, metres, unitSystem, onCommit }: {
+  id: string,
+  label: string,
+  metres: number,
+  unitSystem: UnitSystem,
+  onCommit: (metres: number) => void,
+}) => {
+  const [draft, setDraft] = useState('');
+
+  useEffect(() => {
+    setDraft(toDisplayValue(metres, unitSystem).toFixed(2));
+  }, [metres, unitSystem]);
+
+  const commit = () => {
+    const value = parseFloat(draft.replace(',', '.'));
+    if (!Number.isFinite(value) || value < 0) {
+      setDraft(toDisplayValue(metres, unitSystem).toFixed(2));
+      return;
+    }
+    const next = fromDisplayValue(value, unitSystem);
+    if (Math.abs(next - metres) > 0.001) onCommit(next);
+  };
+
+  return (
+    <div className="plan-field">
+      <label htmlFor={id}>{label}</label>
+      <div className="dimension-input">
+        <input
+          id={id}
+          type="number"
+          inputMode="decimal"
+          min="0"
+          step="0.01"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); commit(); } }}
+        />
+        <span>{unitSystem === 'metric' ? 'm' : 'ft'}</span>
+      </div>
+    </div>
+  );
+};
+
+const svgURL = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+/** Front and side elevations of a placed module, with whatever makes it unbuildable. */
+const ModuleElevations = ({ item, defaultWoodId, fileName }: { item: PlanFurniture, defaultWoodId?: string, fileName: string }) => {
+  const { locale, m } = useI18n();
+  const definition = moduleById(item.moduleId);
+  const drawing = useMemo(() => {
+    if (!definition) return null;
+    const params = moduleParams(definition, item);
+    return {
+      front: frontElevationSVG(definition, params, locale),
+      side: sideElevationSVG(definition, params, locale),
+      problems: validateModule(definition, params, defaultWoodId, m),
+    };
+  }, [definition, item, defaultWoodId, locale, m]);
+  if (!drawing) return null;
+
+  return (
+    <div className="module-elevations">
+      {drawing.problems.length > 0 && (
+        <ul className="module-problems" role="alert">
+          {drawing.problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+      <div className="module-elevation-views">
+        <a href={svgURL(drawing.front)} download={`${fileName}_${item.moduleId}_frontal.svg`} title={m.plan.downloadElevation}>
+          <img src={svgURL(drawing.front)} alt={m.plan.frontAlt(moduleName(m, item.moduleId))} />
+        </a>
+        <a href={svgURL(drawing.side)} download={`${fileName}_${item.moduleId}_lateral.svg`} title={m.plan.downloadElevation}>
+          <img src={svgURL(drawing.side)} alt={m.plan.sideAlt(moduleName(m, item.moduleId))} />
+        </a>
+      </div>
+    </div>
+  );
+};
+
+export const FloorPlanEditor = ({ plan, unitSystem, fileName, defaultWoodId, overlay, onChange, onReset }: {
+  plan: FloorPlan,
+  unitSystem: UnitSystem,
+  fileName: string,
+  /** Wood of the whole design, used for modules without their own. */
+  defaultWoodId?: string,
+  /** Items of a suggestion drawn over the plan as a preview; they cannot be edited here. */
+  overlay?: SuggestionItem[],
+  onChange: (plan: FloorPlan) => void,
+  onReset: () => void,
+}) => {
+  const { locale, m } = useI18n();
+  const text = m.plan;
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [selection, setSelection] = useState<Selection>(null);
+  const [moduleId, setModuleId] = useState(MODULE_LIBRARY[0]!.id);
+  // The view stays put while dragging so the plan does not slide under the pointer.
+  const [frozenViewBox, setFrozenViewBox] = useState<string | null>(null);
+
+  const bounds = planBounds(plan);
+  const viewBox = frozenViewBox ?? [
+    bounds.minX - MARGIN_M,
+    bounds.minY - MARGIN_M,
+    bounds.maxX - bounds.minX + MARGIN_M * 2,
+    bounds.maxY - bounds.minY + MARGIN_M * 2,
+  ].join(' ');
+
+  const selectedOpening = selection?.type === 'opening' ? plan.openings.find(o => o.id === selection.id) : undefined;
+  const selectedFurniture = selection?.type === 'furniture' ? plan.furniture.find(f => f.id === selection.id) : undefined;
+  const selectedDefinition = selectedFurniture && moduleById(selectedFurniture.moduleId);
+  const selectedModule = selectedFurniture && selectedDefinition
+    ? { definition: selectedDefinition, params: moduleParams(selectedDefinition, selectedFurniture) }
+    : undefined;
+  const targetWall = selection?.type === 'wall' ? selection.index : (selectedOpening ?? selectedFurniture)?.wall ?? 0;
+
+  // --- Pointer Editing ---
+  const toPlanPoint = (e: React.PointerEvent): PlanPoint | null => {
+    const ctm = svgRef.current?.getScreenCTM();
+    if (!ctm) return null;
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+    return { x: p.x, y: p.y };
+  };
+
+  const startDrag = (e: React.PointerEvent, drag: Drag, next: Selection) => {
+    e.stopPropagation();
+    setSelection(next);
+    dragRef.current = drag;
+    setFrozenViewBox(viewBox);
+    svgRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const p = drag && toPlanPoint(e);
+    if (!drag || !p) return;
+
+    if (drag.type === 'wall') {
+      onChange(moveWall(drag.plan, drag.index, { x: p.x - drag.origin.x, y: p.y - drag.origin.y }));
+    } else if (drag.type === 'opening') {
+      const opening = plan.openings.find(o => o.id === drag.id);
+      if (!opening) return;
+      const along = projectOntoWall(wallSegment(plan, opening.wall), p).along - drag.grab;
+      onChange(updateOpening(plan, opening.id, { offset: snapOffset(plan, opening.wall, along, opening.width, opening.id) }));
+    } else {
+      const item = plan.furniture.find(f => f.id === drag.id);
+      if (!item) return;
+      // Modules always stand against the wall nearest to the pointer.
+      const wall = nearestWall(plan, p);
+      const segment = wallSegment(plan, wall);
+      const width = Math.min(item.width, segment.length);
+      const along = projectOntoWall(segment, p).along - Math.min(drag.grab, width);
+      onChange(updateFurniture(plan, item.id, { wall, width, offset: snapOffset(plan, wall, along, width, item.id) }));
+    }
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+    setFrozenViewBox(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.key === 'Delete' || e.key === 'Backspace') && (selectedOpening || selectedFurniture)) {
+      e.preventDefault();
+      onChange(removeItem(plan, (selectedOpening ?? selectedFurniture)!.id));
+      setSelection(null);
+    }
+  };
+
+  // --- Toolbar Actions ---
+  const handleAddOpening = (kind: OpeningKind) => {
+    const next = addOpening(plan, kind, targetWall);
+    onChange(next);
+    setSelection({ type: 'opening', id: next.openings[next.openings.length - 1]!.id });
+  };
+
+  const handleAddFurniture = () => {
+    const module = moduleById(moduleId);
+    if (!module) return;
+    const next = addFurniture(plan, module, targetWall);
+    onChange(next);
+    setSelection({ type: 'furniture', id: next.furniture[next.furniture.length - 1]!.id });
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(removeItem(plan, id));
+    setSelection(null);
+  };
+
+  const handleExportSVG = () =>
+    downloadBlob(new Blob([planToSVG(plan, unitSystem, locale)], { type: 'image/svg+xml' }), `${fileName}.svg`);
+
+  const handleExportJSON = () =>
+    downloadBlob(new Blob([planToJSON(plan)], { type: 'application/json' }), `${fileName}.json`);
+
+  return (
+    <div className="plan-editor">
+      <div className="plan-toolbar">
+        <div className="plan-toolbar-group">
+          <span>{text.addOnWall(targetWall + 1)}</span>
+          {OPENING_KINDS.map(kind => (
+            <button key={kind} type="button" className="secondary-button" onClick={() => handleAddOpening(kind)}>{text.openings[kind]}</button>
+          ))}
+          <select value={moduleId} onChange={(e) => setModuleId(e.target.value)} aria-label={text.module}>
+            {MODULE_LIBRARY.map(module => <option key={module.id} value={module.id}>{moduleName(m, module.id)}</option>)}
+          </select>
+          <button type="button" className="secondary-button" onClick={handleAddFurniture}>{text.addFurniture}</button>
+        </div>
+        <div className="plan-toolbar-group">
+          <button type="button" className="secondary-button" onClick={handleExportSVG}>{text.exportSvg}</button>
+          <button type="button" className="secondary-button" onClick={handleExportJSON}>{text.exportJson}</button>
+          <button type="button" className="secondary-button" onClick={() => { setSelection(null); onReset(); }}>{text.reset}</button>
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        className="plan-canvas"
+        viewBox={viewBox}
+        tabIndex={0}
+        role="application"
+        aria-label={text.canvas}
+        onPointerDown={() => setSelection(null)}
+        onPointerMove={handlePointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+        onKeyDown={handleKeyDown}
+      >
+        <polygon points={points(plan.corners)} className="plan-floor" />
+        {plan.corners.map((_, index) => {
+          const segment = wallSegment(plan, index);
+          const label = pointAlongWall(segment, segment.length / 2, -(plan.wallThickness + 0.22));
+          const selected = selection?.type === 'wall' && selection.index === index;
+          return (
+            <g key={`wall-${index}`}>
+              <line
+                x1={segment.start.x} y1={segment.start.y} x2={segment.end.x} y2={segment.end.y}
+                strokeWidth={plan.wallThickness}
+                className={`plan-wall${selected ? ' selected' : ''}`}
+                onPointerDown={(e) => {
+                  const origin = toPlanPoint(e);
+                  if (origin) startDrag(e, { type: 'wall', index, origin, plan }, { type: 'wall', index });
+                }}
+              />
+              <text x={label.x} y={label.y} fontSize={FONT_M} className="plan-label" textAnchor="middle" dominantBaseline="middle">
+                {formatLength(segment.length, unitSystem, locale)}
+              </text>
+            </g>
+          );
+        })}
+        {plan.openings.map(opening => {
+          const [a, b] = openingEnds(plan, opening);
+          const selected = selection?.type === 'opening' && selection.id === opening.id;
+          return (
+            <g key={opening.id}>
+              <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} strokeWidth={plan.wallThickness + 0.02} className="plan-gap" />
+              <line
+                x1={a.x} y1={a.y} x2={b.x} y2={b.y}
+                strokeWidth={plan.wallThickness * 0.6}
+                className={`plan-opening ${opening.kind}${selected ? ' selected' : ''}`}
+                onPointerDown={(e) => {
+                  const p = toPlanPoint(e);
+                  if (!p) return;
+                  const grab = projectOntoWall(wallSegment(plan, opening.wall), p).along - opening.offset;
+                  startDrag(e, { type: 'opening', id: opening.id, grab }, { type: 'opening', id: opening.id });
+                }}
+              >
+                <title>{text.openings[opening.kind]}</title>
+              </line>
+            </g>
+          );
+        })}
+        {overlay && layoutSuggestionItems(plan, overlay).map(item => {
+          const corners = furnitureCorners(plan, item);
+          const centre = { x: (corners[0]!.x + corners[2]!.x) / 2, y: (corners[0]!.y + corners[2]!.y) / 2 };
+          return (
+            <g key={`overlay-${item.id}`} className="plan-suggestion">
+              <polygon points={points(corners)} strokeDasharray={`${FONT_M * 0.4} ${FONT_M * 0.25}`} />
+              <text x={centre.x} y={centre.y} fontSize={FONT_M * 0.7} textAnchor="middle" dominantBaseline="middle">{moduleName(m, item.moduleId)}</text>
+            </g>
+          );
+        })}
+        {plan.furniture.map(item => {
+          const corners = furnitureCorners(plan, item);
+          const centre = { x: (corners[0]!.x + corners[2]!.x) / 2, y: (corners[0]!.y + corners[2]!.y) / 2 };
+          const selected = selection?.type === 'furniture' && selection.id === item.id;
+          return (
+            <g
+              key={item.id}
+              className={`plan-furniture${selected ? ' selected' : ''}`}
+              onPointerDown={(e) => {
+                const p = toPlanPoint(e);
+                if (!p) return;
+                const grab = projectOntoWall(wallSegment(plan, item.wall), p).along - item.offset;
+                startDrag(e, { type: 'furniture', id: item.id, grab }, { type: 'furniture', id: item.id });
+              }}
+            >
+              <polygon points={points(corners)} />
+              <text x={centre.x} y={centre.y} fontSize={FONT_M * 0.8} textAnchor="middle" dominantBaseline="middle">{moduleName(m, item.moduleId)}</text>
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="plan-inspector">
+        {selection === null && (
+          <p className="dimensions-hint">{text.hint}</p>
+        )}
+        {selection?.type === 'wall' && (
+          <>
+            <h5>{text.wall(selection.index + 1)}</h5>
+            <LengthInput
+              id="plan-wall-length"
+              label={text.length}
+              metres={wallSegment(plan, selection.index).length}
+              unitSystem={unitSystem}
+              onCommit={(metres) => onChange(setWallLength(plan, selection.index, metres))}
+            />
+          </>
+        )}
+        {selectedOpening && (
+          <>
+            <h5>{text.onWall(text.openings[selectedOpening.kind], selectedOpening.wall + 1)}</h5>
+            <div className="plan-field">
+              <label htmlFor="plan-opening-kind">{text.kind}</label>
+              <select id="plan-opening-kind" value={selectedOpening.kind} onChange={(e) => onChange(updateOpening(plan, selectedOpening.id, { kind: e.target.value as OpeningKind }))}>
+                {OPENING_KINDS.map(kind => <option key={kind} value={kind}>{text.openings[kind]}</option>)}
+              </select>
+            </div>
+            <LengthInput id="plan-opening-width" label={text.width} metres={selectedOpening.width} unitSystem={unitSystem}
+              onCommit={(width) => onChange(updateOpening(plan, selectedOpening.id, { width }))} />
+            <LengthInput id="plan-opening-offset" label={text.fromCorner} metres={selectedOpening.offset} unitSystem={unitSystem}
+              onCommit={(offset) => onChange(updateOpening(plan, selectedOpening.id, { offset }))} />
+            <button type="button" className="secondary-button" onClick={() => handleRemove(selectedOpening.id)}>{text.remove}</button>
+          </>
+        )}
+        {selectedFurniture && (
+          <>
+            <h5>{text.onWall(moduleName(m, selectedFurniture.moduleId), selectedFurniture.wall + 1)}</h5>
+            <LengthInput id="plan-furniture-width" label={text.width} metres={selectedFurniture.width} unitSystem={unitSystem}
+              onCommit={(width) => onChange(updateFurniture(plan, selectedFurniture.id, { width }))} />
+            <LengthInput id="plan-furniture-depth" label={text.depth} metres={selectedFurniture.depth} unitSystem={unitSystem}
+              onCommit={(depth) => onChange(updateFurniture(plan, selectedFurniture.id, { depth }))} />
+            <LengthInput id="plan-furniture-height" label={text.height} metres={selectedFurniture.height} unitSystem={unitSystem}
+              onCommit={(height) => onChange(updateFurniture(plan, selectedFurniture.id, { height }))} />
+            <LengthInput id="plan-furniture-offset" label={text.fromCorner} metres={selectedFurniture.offset} unitSystem={unitSystem}
+              onCommit={(offset) => onChange(updateFurniture(plan, selectedFurniture.id, { offset }))} />
+            {selectedModule && (
+              <>
+                <div className="plan-field">
+                  <label htmlFor="plan-furniture-shelves">{text.shelves}</label>
+                  <input id="plan-furniture-shelves" type="number" min={selectedModule.definition.limits.shelves[0]} max={selectedModule.definition.limits.shelves[1]}
+                    value={selectedModule.params.shelves}
+                    onChange={(e) => onChange(updateFurniture(plan, selectedFurniture.id, { shelves: Math.max(0, Math.round(e.target.valueAsNumber || 0)) }))} />
+                </div>
+                {selectedModule.definition.fronts !== 'open' && (
+                  <div className="plan-field">
+                    <label htmlFor="plan-furniture-doors">{selectedModule.definition.fronts === 'doors' ? text.doors : text.drawers}</label>
+                    <input id="plan-furniture-doors" type="number" min={selectedModule.definition.limits.doors[0]} max={selectedModule.definition.limits.doors[1]}
+                      value={selectedModule.params.doors}
+                      onChange={(e) => onChange(updateFurniture(plan, selectedFurniture.id, { doors: Math.max(0, Math.round(e.target.valueAsNumber || 0)) }))} />
+                  </div>
+                )}
+                <div className="plan-field">
+                  <label htmlFor="plan-furniture-wood">{text.wood}</label>
+                  <select id="plan-furniture-wood" value={selectedFurniture.woodId ?? ''}
+                    onChange={(e) => onChange(updateFurniture(plan, selectedFurniture.id, { woodId: e.target.value || undefined }))}>
+                    <option value="">{text.designWood}</option>
+                    {WOOD_SPECIES.map(wood => <option key={wood.id} value={wood.id}>{woodName(m, wood.id)}</option>)}
+                  </select>
+                </div>
+              </>
+            )}
+            <button type="button" className="secondary-button" onClick={() => handleRemove(selectedFurniture.id)}>{text.remove}</button>
+            <ModuleElevations item={selectedFurniture} defaultWoodId={defaultWoodId} fileName={fileName} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import React from 'react';
+import { woodById, finishById, woodName, finishName } from '../services/materials/catalog';
+import { useI18n } from '../services/i18n';
+
+/** Colour sample and name of a catalog wood, optionally with its finish. */
+export const MaterialSwatch = ({ woodId, finishId }: { woodId: string, finishId?: string }) => {
+  const { m } = useI18n();
+  const wood = woodById(woodId);
+  if (!wood) return null;
+  const finish = finishById(finishId);
+  return (
+    <span className="material-swatch" title={wood.botanicalName}>
+      <span className="material-sample" aria-hidden="true" style={{ background: `linear-gradient(135deg, ${wood.swatch[0]}, ${wood.swatch[1]})` }} />
+      {woodName(m, wood.id)}{finish && ` · ${finishName(m, finish.id)}`}
+    </span>
+  );
+};
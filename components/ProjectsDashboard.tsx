@@ -0,0 +1,154 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { listProjects, renameProject, duplicateProject, deleteProject, ProjectSummary } from '../services/projectStore';
+import { formatDate, useI18n } from '../services/i18n';
+
+const ProjectThumbnail = ({ blob, alt }: { blob: Blob | null, alt: string }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) return;
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url
+    ? <img src={url} alt={alt} className="project-thumbnail" />
+    : <div className="project-thumbnail placeholder" aria-hidden="true"></div>;
+};
+
+const ProjectCard = ({ project, isCurrent, onOpen, onRename, onDuplicate, onDelete }: {
+  project: ProjectSummary,
+  isCurrent: boolean,
+  onOpen: () => void,
+  onRename: (name: string) => void,
+  onDuplicate: () => void,
+  onDelete: () => void,
+}) => {
+  const { locale, m } = useI18n();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState(project.name);
+
+  const handleRenameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draftName.trim()) onRename(draftName.trim());
+    setIsRenaming(false);
+  };
+
+  return (
+    <div className={`project-card ${isCurrent ? 'current' : ''}`}>
+      <ProjectThumbnail blob={project.thumbnail} alt={m.projects.photoAlt(project.name)} />
+      <div className="project-card-body">
+        {isRenaming ? (
+          <form className="refine-form" onSubmit={handleRenameSubmit}>
+            <input type="text" value={draftName} onChange={(e) => setDraftName(e.target.value)} aria-label={m.projects.renameLabel} autoFocus />
+            <button type="submit">{m.projects.save}</button>
+          </form>
+        ) : (
+          <h4>{project.name}</h4>
+        )}
+        {project.submission && (
+          <span className={`request-badge ${project.submission.status ?? 'pending'}`}>
+            {project.submission.status ? m.projects.request(m.request.statuses[project.submission.status]) : m.projects.requestPending}
+          </span>
+        )}
+        <p>
+          {project.selectedSpace ? m.spaces[project.selectedSpace] ?? project.selectedSpace : m.projects.noSpace} · {m.projects.photos(project.photoCount)}
+          <br />
+          {m.projects.updated(formatDate(locale, project.updatedAt, { day: 'numeric', month: 'short', year: 'numeric' }))}
+        </p>
+        <div className="project-actions">
+          <button type="button" className="cta-button" onClick={onOpen}>{m.projects.open}</button>
+          <button type="button" className="link-button" onClick={() => { setDraftName(project.name); setIsRenaming(true); }}>{m.projects.rename}</button>
+          <button type="button" className="link-button" onClick={onDuplicate}>{m.projects.duplicate}</button>
+          <button type="button" className="link-button danger" onClick={onDelete}>{m.projects.delete}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const ProjectsDashboard = ({ ownerId, currentProjectId, onOpen, onNew, onRenamed, onDeleted }: {
+  ownerId: string,
+  currentProjectId: string | null,
+  onOpen: (projectId: string) => void,
+  onNew: () => void,
+  onRenamed: (projectId: string, name: string) => void,
+  onDeleted: (projectId: string) => void,
+}) => {
+  const { m } = useI18n();
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects(ownerId));
+      setError(null);
+    } catch (e) {
+      console.error('Error loading projects:', e);
+      setError(m.projects.loadError);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ownerId, m]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+    } catch (e) {
+      console.error(e);
+      setError(failure);
+    }
+    await refresh();
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (!window.confirm(m.projects.confirmDelete(project.name))) return;
+    runAction(async () => {
+      await deleteProject(project.id);
+      onDeleted(project.id);
+    }, m.projects.deleteError);
+  };
+
+  return (
+    <div className="private-page">
+      <div className="projects-header">
+        <h2>{m.projects.title}</h2>
+        <button type="button" className="cta-button" onClick={onNew}>{m.projects.new}</button>
+      </div>
+      {isLoading && (
+        <div className="inspiration-loader">
+          <div className="spinner"></div>
+          <p>{m.projects.loading}</p>
+        </div>
+      )}
+      {error && <p className="error-message">{error}</p>}
+      {!isLoading && projects.length === 0 && (
+        <div className="step-container text-center">
+          <p>{m.projects.empty}</p>
+        </div>
+      )}
+      <div className="projects-grid">
+        {projects.map(project => (
+          <ProjectCard
+            key={project.id}
+            project={project}
+            isCurrent={project.id === currentProjectId}
+            onOpen={() => onOpen(project.id)}
+            onRename={(name) => runAction(async () => {
+              await renameProject(project.id, name);
+              onRenamed(project.id, name);
+            }, m.projects.renameError)}
+            onDuplicate={() => runAction(() => duplicateProject(project.id, m.projects.copyName), m.projects.duplicateError)}
+            onDelete={() => handleDelete(project)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { AIResponse } from '../types';
+import { DEFAULT_RATE_TABLES } from '../services/quote/rateTables';
+import { QuoteStep } from './QuoteStep';
+
+vi.mock('../services/quote/ratesApi', () => ({ fetchRateTables: () => Promise.resolve(DEFAULT_RATE_TABLES) }));
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const estimate = (value: number) => ({ value, unit: 'm' as const, confidence: 1 });
+
+const analysis: AIResponse = {
+  dimensions: { length: estimate(4), width: estimate(3), height: estimate(2.5) },
+  floorPlan: '',
+  currentStyle: '',
+  suggestions: [{
+    styleName: 'Nórdico',
+    description: 'Estantería de roble al aceite.',
+    woodId: 'oak',
+    finishId: 'oil',
+    items: [{ id: 'item-1', moduleId: 'shelving', wall: null, width: 0.8, depth: 0.35, height: 2, woodId: 'oak', finishId: 'oil', enabled: true }],
+  }],
+};
+
+// Forms only submit while they are in the document.
+const container = document.body.appendChild(document.createElement('div'));
+afterEach(() => {
+  container.replaceChildren();
+});
+
+describe('QuoteStep', () => {
+  it('submits the default selection when the client changes nothing', async () => {
+    const onSubmit = vi.fn();
+    const onSelectionChange = vi.fn();
+    const root = createRoot(container);
+    await act(async () => {
+      root.render(
+        <QuoteStep
+          analysis={analysis}
+          spaceType={null}
+          floorPlan={null}
+          selection={null}
+          contact={{ name: 'Ana', email: 'ana@example.com', phone: '', notes: '' }}
+          onSelectionChange={onSelectionChange}
+          onBack={() => {}}
+          onSubmit={onSubmit}
+          stepNumber={5}
+        />,
+      );
+    });
+
+    const submit = container.querySelector<HTMLButtonElement>('button[type="submit"]')!;
+    expect(submit.disabled).toBe(false);
+    await act(async () => submit.click());
+
+    expect(onSelectionChange).not.toHaveBeenCalled();
+    expect(onSubmit).toHaveBeenCalledWith(
+      { name: 'Ana', email: 'ana@example.com', phone: '', notes: '' },
+      { suggestionIndex: 0, woodId: 'oak', finishId: 'oil', hardwareId: DEFAULT_RATE_TABLES.hardware[0]!.id },
+    );
+    act(() => root.unmount());
+  });
+});
@@ -0,0 +1,212 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { AIResponse, ContactDetails, FloorPlan, QuoteSelection } from '../types';
+import { RateTables } from '../services/quote/rateTables';
+import { fetchRateTables } from '../services/quote/ratesApi';
+import { estimateQuote, quoteModules } from '../services/quote/engine';
+import { finishName, materialsForSpace, woodName } from '../services/materials/catalog';
+import { ContactDetailsProblem, validateContact } from '../services/requests/model';
+import { MaterialSwatch } from './MaterialSwatch';
+import { formatMoney, useI18n } from '../services/i18n';
+
+export const QuoteStep = ({ analysis, spaceType, floorPlan, selection, contact: initialContact, onSelectionChange, onBack, onSubmit, stepNumber }: {
+  analysis: AIResponse,
+  spaceType: string | null,
+  floorPlan: FloorPlan | null,
+  selection: QuoteSelection | null,
+  /** Prefilled contact details: the last ones sent for this project, or the account's. */
+  contact: ContactDetails,
+  onSelectionChange: (selection: QuoteSelection) => void,
+  onBack: () => void,
+  /** Receives the selection on screen, which is still the defaults when the client changed nothing. */
+  onSubmit: (contact: ContactDetails, selection: QuoteSelection) => void,
+  stepNumber: number,
+}) => {
+  const { locale, m } = useI18n();
+  const text = m.quote;
+  const [rates, setRates] = useState<RateTables | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [contact, setContact] = useState(initialContact);
+  const [contactError, setContactError] = useState<ContactDetailsProblem | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchRateTables(controller.signal)
+      .then(setRates)
+      .catch(e => {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching rate tables:', e);
+        setError(text.ratesError);
+      });
+    return () => controller.abort();
+  }, []);
+
+  // Only materials the space allows are offered, and only those the workshop has priced.
+  const allowed = materialsForSpace(spaceType);
+  const woods = rates?.woods.filter(w => allowed.woods.some(wood => wood.id === w.id)) ?? [];
+  const finishes = rates?.finishes.filter(f => allowed.finishes.some(finish => finish.id === f.id)) ?? [];
+
+  // Until the client changes anything, the first suggestion is quoted in the materials it proposes.
+  const suggestionIndex = selection?.suggestionIndex ?? 0;
+  const suggestion = analysis.suggestions[suggestionIndex];
+  const pick = <T extends { id: string }>(rows: T[], ...ids: (string | undefined)[]) =>
+    ids.map(id => rows.find(row => row.id === id)).find(Boolean)?.id ?? rows[0]?.id;
+  const woodId = pick(woods, selection?.woodId, suggestion?.woodId);
+  const finishId = pick(finishes, selection?.finishId, suggestion?.finishId);
+  const hardwareId = rates && pick(rates.hardware, selection?.hardwareId);
+  const current: QuoteSelection | null = woodId && finishId && hardwareId ? { suggestionIndex, woodId, finishId, hardwareId } : null;
+
+  const estimate = useMemo(() => {
+    if (!rates || !current) return null;
+    const { modules, assumed } = quoteModules(floorPlan, analysis, current.suggestionIndex);
+    return estimateQuote(modules, current, analysis.dimensions, rates, assumed, locale);
+  }, [locale, rates, floorPlan, analysis, current?.suggestionIndex, current?.woodId, current?.finishId, current?.hardwareId]);
+
+  const update = (change: Partial<QuoteSelection>) => {
+    if (current) onSelectionChange({ ...current, ...change });
+  };
+
+  const updateContact = (change: Partial<ContactDetails>) => {
+    setContact(c => ({ ...c, ...change }));
+    setContactError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!current) return;
+    const problem = validateContact(contact);
+    if (problem) {
+      setContactError(problem);
+      return;
+    }
+    onSubmit({ name: contact.name.trim(), email: contact.email.trim(), phone: contact.phone.trim(), notes: contact.notes.trim() }, current);
+  };
+
+  const selectSuggestion = (index: number) => {
+    const chosen = analysis.suggestions[index];
+    update({
+      suggestionIndex: index,
+      woodId: pick(woods, chosen?.woodId, current?.woodId),
+      finishId: pick(finishes, chosen?.finishId, current?.finishId),
+    });
+  };
+
+  return (
+    <div className="step-container quote-step">
+      <h2>{text.title(stepNumber)}</h2>
+      <p>{text.intro}</p>
+      {error && <p className="error-message">{error}</p>}
+      {!rates && !error && (
+        <div className="inspiration-loader">
+          <div className="spinner"></div>
+          <p>{text.loadingRates}</p>
+        </div>
+      )}
+      {rates && !current && !error && (
+        <p className="error-message">{text.noRates}</p>
+      )}
+      {rates && current && estimate && (
+        <div className="quote-layout">
+          <div className="quote-options">
+            <fieldset>
+              <legend>{text.proposal}</legend>
+              {analysis.suggestions.map((suggestion, index) => (
+                <label key={index} className="quote-choice">
+                  <input type="radio" name="quote-suggestion" checked={current.suggestionIndex === index} onChange={() => selectSuggestion(index)} />
+                  {suggestion.styleName}
+                </label>
+              ))}
+            </fieldset>
+            <label>
+              {text.wood}
+              <select value={current.woodId} onChange={(e) => update({ woodId: e.target.value })}>
+                {woods.map(wood => <option key={wood.id} value={wood.id}>{woodName(m, wood.id)}</option>)}
+              </select>
+            </label>
+            <label>
+              {text.finish}
+              <select value={current.finishId} onChange={(e) => update({ finishId: e.target.value })}>
+                {finishes.map(finish => <option key={finish.id} value={finish.id}>{finishName(m, finish.id)}</option>)}
+              </select>
+            </label>
+            <MaterialSwatch woodId={current.woodId} finishId={current.finishId} />
+            <label>
+              {text.hardware}
+              <select value={current.hardwareId} onChange={(e) => update({ hardwareId: e.target.value })}>
+                {rates.hardware.map(hardware => <option key={hardware.id} value={hardware.id}>{hardware.name}</option>)}
+              </select>
+            </label>
+            <p className="dimensions-hint">
+              {estimate.modules.length === 0
+                ? text.noItems
+                : estimate.modulesAssumed
+                  ? text.assumed
+                  : text.fromPlan}
+            </p>
+          </div>
+
+          <div className="quote-summary" aria-live="polite">
+            <p className="quote-range">
+              {formatMoney(locale, estimate.low, estimate.currency)} – {formatMoney(locale, estimate.high, estimate.currency)}
+            </p>
+            <p className="quote-range-note">{text.rangeNote}</p>
+            <table className="quote-lines">
+              <tbody>
+                {estimate.lines.map((line, index) => (
+                  <tr key={index}>
+                    <th scope="row">{text.categories[line.category]}</th>
+                    <td>{line.description}</td>
+                    <td className="amount">{formatMoney(locale, line.amount, estimate.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <th scope="row" colSpan={2}>{text.subtotal}</th>
+                  <td className="amount">{formatMoney(locale, estimate.subtotal, estimate.currency)}</td>
+                </tr>
+                <tr>
+                  <th scope="row" colSpan={2}>{text.vat(Math.round(rates.vatRate * 100))}</th>
+                  <td className="amount">{formatMoney(locale, estimate.vat, estimate.currency)}</td>
+                </tr>
+                <tr className="total">
+                  <th scope="row" colSpan={2}>{text.total}</th>
+                  <td className="amount">{formatMoney(locale, estimate.total, estimate.currency)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </div>
+      )}
+      <form className="quote-contact" onSubmit={handleSubmit} noValidate>
+        {rates && current && estimate && (
+          <fieldset>
+            <legend>{text.contactTitle}</legend>
+            <div className="form-row">
+              <label>
+                {text.name}
+                <input type="text" value={contact.name} onChange={(e) => updateContact({ name: e.target.value })} autoComplete="name" required />
+              </label>
+              <label>
+                {text.email}
+                <input type="email" value={contact.email} onChange={(e) => updateContact({ email: e.target.value })} autoComplete="email" required />
+              </label>
+              <label>
+                {text.phone}
+                <input type="tel" value={contact.phone} onChange={(e) => updateContact({ phone: e.target.value })} autoComplete="tel" />
+              </label>
+            </div>
+            <label>
+              {text.notes}
+              <textarea rows={3} value={contact.notes} onChange={(e) => updateContact({ notes: e.target.value })} />
+            </label>
+            {contactError && <p className="error-message" role="alert">{text.contactErrors[contactError]}</p>}
+          </fieldset>
+        )}
+        <div className="step-navigation">
+          <button type="button" className="secondary-button" onClick={onBack}>{m.common.back}</button>
+          <button type="submit" className="cta-button" disabled={!estimate || estimate.modules.length === 0}>{text.submit}</button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { ApiError } from '../services/http';
+import { formatDateTime, useI18n } from '../services/i18n';
+import { RateTables, validateRateTables } from '../services/quote/rateTables';
+import { fetchRateTables, saveRateTables } from '../services/quote/ratesApi';
+
+type NumericRate = {
+  [K in keyof RateTables]: RateTables[K] extends number | undefined ? K : never
+}[keyof RateTables];
+
+const GENERAL_FIELDS: { key: Exclude<NumericRate, 'updatedAt'>; step: number }[] = [
+  { key: 'vatRate', step: 0.01 },
+  { key: 'wasteFactor', step: 0.01 },
+  { key: 'backPanelPricePerM2', step: 1 },
+  { key: 'labourRatePerHour', step: 1 },
+  { key: 'baseHoursPerModule', step: 0.1 },
+  { key: 'hoursPerM2Board', step: 0.1 },
+  { key: 'hoursPerFront', step: 0.1 },
+  { key: 'installationRatePerHour', step: 1 },
+  { key: 'installationHoursPerModule', step: 0.1 },
+  { key: 'installationMinimum', step: 1 },
+  { key: 'highCeilingSurcharge', step: 0.01 },
+  { key: 'rangeSpread', step: 0.01 },
+];
+
+type TableKey = 'woods' | 'finishes' | 'hardware';
+
+type NumericField<Row> = {
+  [F in keyof Row]: Row[F] extends number ? F : never
+}[keyof Row];
+
+type RateColumn = { [K in TableKey]: NumericField<RateTables[K][number]> }[TableKey];
+
+type RateColumnField<C> = { key: C; step: number };
+
+const TABLE_COLUMNS: { [K in TableKey]: RateColumnField<NumericField<RateTables[K][number]>>[] } = {
+  woods: [{ key: 'pricePerM2', step: 1 }, { key: 'labourFactor', step: 0.05 }],
+  finishes: [{ key: 'pricePerM2', step: 1 }, { key: 'hoursPerM2', step: 0.05 }],
+  hardware: [{ key: 'pricePerModule', step: 1 }, { key: 'pricePerFront', step: 1 }],
+};
+
+/** Lets workshop accounts re-price the quote engine. Other accounts can look but not save. */
+export const RateTablesEditor = ({ token }: { token: string }) => {
+  const { locale, m } = useI18n();
+  const [rates, setRates] = useState<RateTables | null>(null);
+  const [status, setStatus] = useState<{ kind: 'error' | 'saved'; message: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRateTables()
+      .then(setRates)
+      .catch(e => {
+        console.error('Error fetching rate tables:', e);
+        setStatus({ kind: 'error', message: m.rates.loadError });
+      });
+  }, []);
+
+  if (!rates) {
+    return (
+      <div className="page-container">
+        {status ? <p className="error-message">{status.message}</p> : <div className="inspiration-loader"><div className="spinner"></div></div>}
+      </div>
+    );
+  }
+
+  const setGeneral = (key: NumericRate, value: number) => setRates({ ...rates, [key]: value });
+
+  /** `onChange` receives the whole table, so each table keeps its own row type. */
+  const renderTable = <C extends RateColumn, Row extends { id: string; name: string } & Record<C, number>>(
+    table: TableKey,
+    rows: Row[],
+    columns: RateColumnField<C>[],
+    onChange: (rows: Row[]) => void,
+  ) => {
+    const label = (column: RateColumn) => m.rates.columns[column];
+    return (
+      <fieldset key={table}>
+        <legend>{m.rates.tables[table]}</legend>
+        <table className="rate-table">
+          <thead>
+            <tr>
+              <th scope="col">{m.rates.name}</th>
+              {columns.map(column => <th scope="col" key={column.key}>{label(column.key)}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={row.id}>
+                <td>
+                  <input
+                    type="text"
+                    aria-label={m.rates.name}
+                    value={row.name}
+                    onChange={(e) => onChange(rows.map((r, i) => i === index ? { ...r, name: e.target.value } : r))}
+                  />
+                </td>
+                {columns.map(column => (
+                  <td key={column.key}>
+                    <input
+                      type="number"
+                      min={0}
+                      step={column.step}
+                      aria-label={`${row.name}: ${label(column.key)}`}
+                      value={row[column.key]}
+                      onChange={(e) => onChange(rows.map((r, i) => i === index ? { ...r, [column.key]: e.target.valueAsNumber } : r))}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </fieldset>
+    );
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validateRateTables(rates);
+    if (problem) {
+      setStatus({ kind: 'error', message: problem });
+      return;
+    }
+    setIsSaving(true);
+    setStatus(null);
+    try {
+      setRates(await saveRateTables(token, rates));
+      setStatus({ kind: 'saved', message: m.rates.saved });
+    } catch (err) {
+      console.error('Error saving rate tables:', err);
+      setStatus({ kind: 'error', message: err instanceof ApiError ? err.message : m.rates.saveError });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="page-container">
+      <div className="page-header">
+        <h1>{m.rates.title}</h1>
+        <p>
+          {m.rates.prices(rates.currency)}
+          {rates.updatedAt && m.rates.updated(formatDateTime(locale, rates.updatedAt))}
+        </p>
+      </div>
+      <form className="page-content rate-editor" onSubmit={handleSave}>
+        <fieldset className="rate-general">
+          <legend>{m.rates.general}</legend>
+          {GENERAL_FIELDS.map(field => (
+            <label key={field.key}>
+              {m.rates.fields[field.key]}
+              <input
+                type="number"
+                min={0}
+                step={field.step}
+                value={rates[field.key]}
+                onChange={(e) => setGeneral(field.key, e.target.valueAsNumber)}
+              />
+            </label>
+          ))}
+        </fieldset>
+        {renderTable('woods', rates.woods, TABLE_COLUMNS.woods, woods => setRates({ ...rates, woods }))}
+        {renderTable('finishes', rates.finishes, TABLE_COLUMNS.finishes, finishes => setRates({ ...rates, finishes }))}
+        {renderTable('hardware', rates.hardware, TABLE_COLUMNS.hardware, hardware => setRates({ ...rates, hardware }))}
+        {status && <p className={status.kind === 'error' ? 'error-message' : 'rate-saved'} role="status">{status.message}</p>}
+        <button type="submit" className="cta-button" disabled={isSaving}>{isSaving ? m.rates.saving : m.rates.save}</button>
+      </form>
+    </div>
+  );
+};
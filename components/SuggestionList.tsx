@@ -0,0 +1,93 @@
+import React, { useState, useEffect } from 'react';
+import type { DesignSuggestion } from '../types';
+import { RateTables } from '../services/quote/rateTables';
+import { fetchRateTables } from '../services/quote/ratesApi';
+import { moduleCostBand } from '../services/quote/engine';
+import { describeItem, enabledItems, itemModule } from '../services/suggestions/items';
+import { MaterialSwatch } from './MaterialSwatch';
+import { formatMoney, useI18n } from '../services/i18n';
+
+/**
+ * The analysis' proposals with the furniture each one lists. Clients switch items off before
+ * rendering or quoting, and the active proposal is the one drawn over the plan.
+ */
+export const SuggestionList = ({ suggestions, activeIndex, canPlace, onActivate, onToggleItem, onRender, onPlace }: {
+  suggestions: DesignSuggestion[],
+  activeIndex: number,
+  /** Whether there is a plan to place the items on. */
+  canPlace: boolean,
+  onActivate: (index: number) => void,
+  onToggleItem: (suggestionIndex: number, itemId: string) => void,
+  onRender: (suggestion: DesignSuggestion) => void,
+  onPlace: (suggestion: DesignSuggestion) => void,
+}) => {
+  const { locale, m } = useI18n();
+  const [rates, setRates] = useState<RateTables | null>(null);
+
+  // Cost bands are a nicety; without rates the cards simply leave them out.
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchRateTables(controller.signal)
+      .then(setRates)
+      .catch(e => {
+        if (!controller.signal.aborted) console.error('Error fetching rate tables:', e);
+      });
+    return () => controller.abort();
+  }, []);
+
+  const bandOf = (suggestion: DesignSuggestion, itemId: string) => {
+    const item = suggestion.items.find(candidate => candidate.id === itemId);
+    return rates && item ? moduleCostBand(itemModule(item, suggestion), suggestion.woodId, item.finishId, rates) : null;
+  };
+
+  return (
+    <div className="suggestion-list">
+      {suggestions.map((suggestion, index) => {
+        const kept = enabledItems(suggestion);
+        const bands = kept.map(item => bandOf(suggestion, item.id)).filter(band => band !== null);
+        const active = index === activeIndex;
+        return (
+          <div key={index} className={`suggestion-card${active ? ' active' : ''}`}>
+            <button type="button" className="suggestion-card-header" aria-pressed={active} onClick={() => onActivate(index)}>
+              <h5>{suggestion.styleName}</h5>
+              <span>{active ? m.suggestions.onPlan : m.suggestions.showOnPlan}</span>
+            </button>
+            <p>{suggestion.description}</p>
+            <MaterialSwatch woodId={suggestion.woodId} finishId={suggestion.finishId} />
+            <ul className="suggestion-items">
+              {suggestion.items.map(item => {
+                const band = bandOf(suggestion, item.id);
+                return (
+                  <li key={item.id} className={item.enabled ? '' : 'disabled'}>
+                    <label>
+                      <input type="checkbox" checked={item.enabled} onChange={() => onToggleItem(index, item.id)} />
+                      <span>
+                        {describeItem(item, m)}
+                        <small>{item.wall === null ? m.suggestions.longestWall : m.suggestions.wall(item.wall + 1)}</small>
+                      </span>
+                    </label>
+                    {band && <span className="suggestion-item-band">{formatMoney(locale, band.low, band.currency)} – {formatMoney(locale, band.high, band.currency)}</span>}
+                  </li>
+                );
+              })}
+            </ul>
+            {bands.length > 0 && (
+              <p className="suggestion-band">
+                {m.suggestions.band(
+                  formatMoney(locale, bands.reduce((sum, band) => sum + band.low, 0), bands[0]!.currency),
+                  formatMoney(locale, bands.reduce((sum, band) => sum + band.high, 0), bands[0]!.currency),
+                )}
+              </p>
+            )}
+            <div className="suggestion-actions">
+              <button type="button" className="secondary-button" disabled={kept.length === 0} onClick={() => onRender(suggestion)}>{m.suggestions.render}</button>
+              {canPlace && (
+                <button type="button" className="secondary-button" disabled={kept.length === 0} onClick={() => onPlace(suggestion)}>{m.suggestions.place}</button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import type { Locale, RenderVersion } from '../types';
+import { formatDateTime, useI18n } from '../services/i18n';
+
+const timeLabel = (locale: Locale, timestamp: number) =>
+  formatDateTime(locale, timestamp, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+/** Ids of a version and all its ancestors, i.e. the branch that led to it. */
+const branchOf = (versions: RenderVersion[], versionId: string | null) => {
+  const byId = new Map(versions.map(version => [version.id, version]));
+  const branch = new Set<string>();
+  let current = versionId ? byId.get(versionId) : undefined;
+  while (current && !branch.has(current.id)) {
+    branch.add(current.id);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return branch;
+};
+
+export const VersionTimeline = ({ versions, currentVersionId, originalSrc, onSelect }: {
+  versions: RenderVersion[],
+  currentVersionId: string | null,
+  /** Data URL of the uploaded photo the versions start from. */
+  originalSrc: string,
+  onSelect: (versionId: string | null) => void,
+}) => {
+  const { locale, m } = useI18n();
+  const ordered = [...versions].sort((a, b) => a.createdAt - b.createdAt);
+  const numbers = new Map(ordered.map((version, index) => [version.id, index + 1]));
+  const branch = branchOf(versions, currentVersionId);
+  const parentLabel = (parentId: string | null) => parentId && numbers.has(parentId) ? m.versions.fromVersion(numbers.get(parentId)!) : m.versions.fromOriginal;
+
+  return (
+    <div className="version-timeline" role="list" aria-label={m.versions.label}>
+      <button
+        type="button"
+        role="listitem"
+        className={`version-card${currentVersionId === null ? ' active' : ''}`}
+        aria-pressed={currentVersionId === null}
+        onClick={() => onSelect(null)}
+      >
+        <img src={originalSrc} alt="" />
+        <span className="version-number">{m.versions.original}</span>
+        <span className="version-prompt">{m.versions.yourPhoto}</span>
+      </button>
+      {ordered.map(version => (
+        <button
+          key={version.id}
+          type="button"
+          role="listitem"
+          className={`version-card${version.id === currentVersionId ? ' active' : branch.has(version.id) ? ' in-branch' : ''}`}
+          aria-pressed={version.id === currentVersionId}
+          title={version.prompt}
+          onClick={() => onSelect(version.id)}
+        >
+          <img src={`data:${version.mimeType};base64,${version.imageBase64}`} alt="" />
+          <span className="version-number">v{numbers.get(version.id)} · {parentLabel(version.parentId)}</span>
+          <span className="version-prompt">{version.prompt || m.versions.saved}</span>
+          <span className="version-time">{timeLabel(locale, version.createdAt)}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
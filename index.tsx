@@ -1,83 +1,477 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-
-// --- State Management and Types ---
-type PublicPage = string;
-
-type CatDetails = {
-  size: string;
-  age: string;
-};
-
-type AppState = {
-  isAuthenticated: boolean;
-  page: 'public' | 'private';
-  publicPage: PublicPage;
-  designStep: number;
-  selectedSpace: string | null;
-  uploadedImages: File[];
-  uploadedImageBase64s: string[];
-  aiResponse: AIResponse | null;
-  editedImageBase64: string | null;
-  isLoading: boolean;
-  error: string | null;
-  numberOfCats: number;
-  cats: CatDetails[];
-};
-
-type AIResponse = {
-  dimensions: string;
-  floorPlan: string;
-  currentStyle: string;
-  suggestions: { styleName: string; description: string }[];
-};
-
-type ServiceExample = {
-  imgSrc: string;
-  title: string;
-  description: string;
-};
-
-type InspirationTip = {
-  title: string;
-  description: string;
-  imageUrl: string;
+import { AuthPage } from './components/AuthPage';
+import { ProjectsDashboard } from './components/ProjectsDashboard';
+import { createHttpAuthBackend, restoreSession, storeSession, clearStoredSession, MAGIC_LINK_PARAM, AuthSession, AuthUser } from './services/auth';
+import { saveProject, saveProjectPhotos, addProjectRender, loadProject } from './services/projectStore';
+import { buildRequestSnapshot, emptyContact, isFinalStatus, REQUEST_STATUSES } from './services/requests/model';
+import { submitWorkshopRequest, fetchWorkshopRequest, fetchRequestFile, isRetryable, retryDelay, STATUS_REFRESH_MS } from './services/requests/requestsApi';
+import { ApiError } from './services/http';
+import { validateContactMessage, NAME_MAX_LENGTH, MESSAGE_MAX_LENGTH, ContactErrors, ContactField, ContactMessage } from './services/contact/message';
+import { submitContactMessage, flushContactOutbox, queuedContactMessages, onContactOutboxChange, contactRateLimit } from './services/contact/contactApi';
+import { readAsBase64, base64ToBlob } from './utils/imageData';
+import { sanitizeSVG } from './utils/sanitizeSvg';
+import { normalizeDimensions, correctDimension, loadUnitSystem, storeUnitSystem, metresOf, DimensionKey } from './utils/dimensions';
+import { DimensionsEditor } from './components/DimensionsEditor';
+import { FloorPlanEditor } from './components/FloorPlanEditor';
+import { VersionTimeline } from './components/VersionTimeline';
+import { BeforeAfterViewer } from './components/BeforeAfterViewer';
+import { QuoteStep } from './components/QuoteStep';
+import { MaterialSwatch } from './components/MaterialSwatch';
+import { CutListPanel } from './components/CutListPanel';
+import { SuggestionList } from './components/SuggestionList';
+import { CatHighwayPanel } from './components/CatHighwayPanel';
+import { quoteModules } from './services/quote/engine';
+import { RateTablesEditor } from './components/RateTablesEditor';
+import { BackOffice } from './components/BackOffice';
+import { planFromAnalysis } from './services/floorPlan/importSvg';
+import { normalizeSuggestions, enabledItems, suggestionRenderPrompt } from './services/suggestions/items';
+import { placeSuggestion } from './services/floorPlan/model';
+import { emptyCat, normalizeCats, householdRules, describeRules } from './services/cats/rules';
+import { SPACE_TYPES, SpaceType, spaceTypeById, spaceTypeBySlug, studioSteps, hasCatStep, StudioStep } from './services/spaces/registry';
+import { cachedInspiration, refreshInspiration, curatedInspiration } from './services/inspiration/feed';
+import { LocaleContext, LOCALES, loadLocale, storeLocale, localeTag, messagesFor, useI18n, formatNumber, formatMoney, formatDate, DEFAULT_LOCALE, Messages } from './services/i18n';
+import { createDesignAIProvider, DesignAIProvider, AIRequestOptions, AIError, classifyAIError } from './services/ai';
+import { parseLocation, applyRoute, pathForState, publicPath, resolveStudioStep } from './services/router';
+import { measurePhotoScale, ScaleMeasurement } from './services/scale/markerDetection';
+import { referenceTargetURL } from './services/scale/referenceTarget';
+import { preparePhotos, DEFAULT_PHOTO_OPTIONS, PhotoIssue, RejectedPhoto } from './services/photos/preprocess';
+import { PublicPage, AIStage, AIProgress, CatDetails, CatMobilityIssue, CatTrait, Locale, AppState, AIResponse, ServiceExample, InspirationTip, UnitSystem, FloorPlan, RenderVersion, QuoteSelection, DesignSuggestion, ContactDetails, WorkshopSubmission } from './types';
+
+// Initialize the AI provider once to improve performance
+const aiProvider = createDesignAIProvider();
+const authBackend = createHttpAuthBackend();
+
+type JourneyState = Pick<AppState, 'projectId' | 'projectName' | 'selectedSpace' | 'uploadedImages' | 'uploadedImageBase64s' | 'scaleMeasurements' | 'photoQuality' | 'isPreparingPhotos' | 'aiResponse' | 'floorPlan' | 'renderVersions' | 'currentVersionId' | 'selectedPhotoIndex' | 'quoteSelection' | 'submission' | 'isLoading' | 'aiProgress' | 'error' | 'numberOfCats' | 'cats'>;
+
+// The part of AppState that belongs to a single design project.
+const emptyJourney = (): JourneyState => ({
+  projectId: null,
+  projectName: '',
+  selectedSpace: null,
+  uploadedImages: [],
+  uploadedImageBase64s: [],
+  scaleMeasurements: [],
+  photoQuality: [],
+  isPreparingPhotos: false,
+  aiResponse: null,
+  floorPlan: null,
+  renderVersions: [],
+  currentVersionId: null,
+  selectedPhotoIndex: 0,
+  quoteSelection: null,
+  submission: null,
+  isLoading: false,
+  aiProgress: null,
+  error: null,
+  numberOfCats: 1,
+  cats: [emptyCat()],
+});
+
+/** Render history as stored with the project; the images themselves are saved as assets. */
+const renderHistory = (versions: RenderVersion[]) => versions.map(({ imageBase64, ...meta }) => meta);
+
+/** Project name made safe for download file names. */
+const fileStemOf = (projectName: string) => (projectName || 'maderarte').replace(/[^\p{L}\p{N}]+/gu, '_');
+
+const defaultProjectName = (space: string, locale: Locale) =>
+  `${messagesFor(locale).spaces[space] ?? space} · ${new Date().toLocaleDateString(localeTag(locale), { day: 'numeric', month: 'short' })}`;
+
+/** One sentence per kind of rejection, e.g. the files that are not images and how many were over the limit. */
+const rejectionMessage = (m: Messages, rejected: RejectedPhoto[]) => {
+  const names = (reason: RejectedPhoto['reason']) => rejected.filter(photo => photo.reason === reason).map(photo => photo.name);
+  const notImages = names('notImage');
+  const unsupported = names('unsupported');
+  const tooMany = names('tooMany');
+  return [
+    notImages.length > 0 && m.upload.rejected.notImage(notImages.join(', ')),
+    unsupported.length > 0 && m.upload.rejected.unsupported(unsupported.join(', ')),
+    tooMany.length > 0 && m.upload.rejected.tooMany(DEFAULT_PHOTO_OPTIONS.maxPhotos, tooMany.length),
+  ].filter(Boolean).join(' ');
 };
 
-// --- Utilities ---
-const sanitizeSVG = (svgString: string): string => {
-  // Basic sanitizer to prevent XSS. Removes script tags and on* event handlers.
-  // For production, a more robust library like DOMPurify is recommended.
-  return svgString
-    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-    .replace(/ on\w+="[^"]*"/g, '');
+/** What to tell the client when an AI task fails, by kind of failure. */
+const aiErrorMessage = (m: Messages, error: AIError, task: 'analysis' | 'refine') => {
+  switch (error.kind) {
+    case 'network': return m.aiErrors.network;
+    case 'timeout': return m.aiErrors.timeout;
+    case 'quota': return m.aiErrors.quota;
+    case 'safety': return task === 'analysis' ? m.aiErrors.safetyPhotos : m.aiErrors.safetyPrompt;
+    case 'invalidResponse': return task === 'analysis' ? m.aiErrors.invalidAnalysis : m.aiErrors.invalidRender;
+    default: return task === 'analysis' ? m.errors.analysis : m.errors.refine;
+  }
 };
 
-// Initialize the API client once to improve performance
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
 // --- Main App Component ---
 const App = () => {
-  const [state, setState] = useState<AppState>({
-    isAuthenticated: false,
+  const [initialRoute] = useState(() => parseLocation(window.location));
+  const [state, setState] = useState<AppState>(() => applyRoute({
+    session: null,
+    isRestoringSession: true,
     page: 'public',
     publicPage: 'home',
+    backOfficeRequestId: null,
     designStep: 0,
-    selectedSpace: null,
-    uploadedImages: [],
-    uploadedImageBase64s: [],
-    aiResponse: null,
-    editedImageBase64: null,
-    isLoading: false,
-    error: null,
-    numberOfCats: 1,
-    cats: [{ size: '', age: '' }],
-  });
+    unitSystem: loadUnitSystem(),
+    locale: loadLocale(),
+    ...emptyJourney(),
+  }, initialRoute));
+
+  // Lets event listeners registered once (like popstate) read the latest state.
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  // What was last written to (or read from) IndexedDB, so autosave only writes real changes.
+  const savedProjectRef = useRef<string | null>(null);
+  const savedPhotosRef = useRef<File[] | null>(null);
+  const savedRendersRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    const isMagicLinkVisit = new URLSearchParams(window.location.search).has(MAGIC_LINK_PARAM);
+    restoreSession(authBackend)
+      .then(session => {
+        // Magic-link visits, and visitors who asked to start while we were still checking, land in the studio.
+        setState(s => ({
+          ...s,
+          session,
+          isRestoringSession: false,
+          ...(session && (isMagicLinkVisit || s.page === 'auth') ? { page: 'projects' } : {}),
+        }));
+      })
+      .catch(() => setState(s => ({ ...s, isRestoringSession: false })));
+  }, []);
 
   const handleLogin = useCallback(() => {
-    setState(s => ({ ...s, isAuthenticated: true, page: 'private', designStep: 1 }));
+    // Visitors without a session are sent to sign in before reaching the design studio.
+    setState(s => s.session
+      ? { ...s, page: 'private', designStep: Math.max(1, s.designStep) }
+      : { ...s, page: 'auth' });
+  }, []);
+
+  const handleAuthenticated = useCallback((session: AuthSession) => {
+    storeSession(session);
+    // Visitors who signed in from a studio deep link continue to it; everyone else sees their projects.
+    setState(s => ({ ...s, session, page: s.page === 'private' || s.page === 'workshop' || s.page === 'backoffice' ? s.page : 'projects' }));
+  }, []);
+
+  const handleSignOut = useCallback(() => {
+    const token = state.session?.token;
+    clearStoredSession();
+    if (token) {
+      authBackend.signOut(token).catch(e => console.error('Error signing out:', e));
+    }
+    setState(s => ({
+      ...s,
+      session: null,
+      page: 'public',
+      publicPage: 'home',
+      designStep: 0,
+      ...emptyJourney(),
+    }));
+  }, [state.session]);
+
+  // --- Project Persistence ---
+  useEffect(() => {
+    const ownerId = state.session?.user.id;
+    if (!ownerId || !state.projectId) return;
+    const project = {
+      id: state.projectId,
+      ownerId,
+      name: state.projectName,
+      designStep: state.designStep,
+      selectedSpace: state.selectedSpace,
+      aiResponse: state.aiResponse,
+      floorPlan: state.floorPlan,
+      numberOfCats: state.numberOfCats,
+      cats: state.cats,
+      renderVersions: renderHistory(state.renderVersions),
+      currentVersionId: state.currentVersionId,
+      selectedPhotoIndex: state.selectedPhotoIndex,
+      quoteSelection: state.quoteSelection,
+      submission: state.submission,
+    };
+    const snapshot = JSON.stringify(project);
+    if (snapshot === savedProjectRef.current) return;
+
+    const timeoutId = setTimeout(() => {
+      savedProjectRef.current = snapshot;
+      saveProject(project).catch(e => console.error('Error saving project:', e));
+    }, 500);
+    return () => clearTimeout(timeoutId);
+  }, [state.session, state.projectId, state.projectName, state.designStep, state.selectedSpace, state.aiResponse, state.floorPlan, state.numberOfCats, state.cats, state.renderVersions, state.currentVersionId, state.selectedPhotoIndex, state.quoteSelection, state.submission]);
+
+  useEffect(() => {
+    if (!state.projectId || state.uploadedImages === savedPhotosRef.current) return;
+    savedPhotosRef.current = state.uploadedImages;
+    saveProjectPhotos(state.projectId, state.uploadedImages).catch(e => console.error('Error saving photos:', e));
+  }, [state.projectId, state.uploadedImages]);
+
+  // Measure the reference sheet in every photo, one at a time, whenever the photo set changes.
+  useEffect(() => {
+    const files = state.uploadedImages;
+    let cancelled = false;
+    setState(s => s.uploadedImages === files ? { ...s, scaleMeasurements: files.map(() => null) } : s);
+
+    (async () => {
+      for (let index = 0; index < files.length; index++) {
+        let measurement: ScaleMeasurement;
+        try {
+          measurement = await measurePhotoScale(files[index]!);
+        } catch (e) {
+          console.error('Error measuring reference scale:', e);
+          measurement = { status: 'missing', markersFound: 0, pixelsPerMetre: null, foreshortening: null, imageWidth: 0, imageHeight: 0 };
+        }
+        if (cancelled) return;
+        setState(s => {
+          if (s.uploadedImages !== files) return s;
+          const scaleMeasurements = [...s.scaleMeasurements];
+          scaleMeasurements[index] = measurement;
+          return { ...s, scaleMeasurements };
+        });
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [state.uploadedImages]);
+
+  useEffect(() => {
+    const projectId = state.projectId;
+    if (!projectId) return;
+    state.renderVersions
+      .filter(version => !savedRendersRef.current.has(version.id))
+      .forEach(version => {
+        savedRendersRef.current.add(version.id);
+        addProjectRender(projectId, version.id, base64ToBlob(version.imageBase64, version.mimeType))
+          .catch(e => console.error('Error saving render:', e));
+      });
+  }, [state.projectId, state.renderVersions]);
+
+  // --- Workshop Requests ---
+  const handleSubmitRequest = useCallback((contact: ContactDetails, quoteSelection: QuoteSelection) => {
+    const submission: WorkshopSubmission = {
+      requestId: crypto.randomUUID(),
+      contact,
+      submittedAt: Date.now(),
+      status: null,
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      lastError: null,
+    };
+    setState(s => ({ ...s, quoteSelection, submission, designStep: s.designStep + 1 }));
+  }, []);
+
+  const handleRetrySubmission = useCallback(() => {
+    setState(s => s.submission && s.submission.status === null
+      ? { ...s, submission: { ...s.submission, nextAttemptAt: Date.now() } }
+      : s);
+  }, []);
+
+  // A submitted request is sent until the backend confirms it, backing off between attempts;
+  // the retried snapshot keeps its id so the backend never records it twice.
+  useEffect(() => {
+    const token = state.session?.token;
+    const submission = state.submission;
+    if (!token || !submission || submission.status !== null || submission.nextAttemptAt === null) return;
+
+    const timeoutId = setTimeout(async () => {
+      const settle = (changes: Partial<WorkshopSubmission>) =>
+        setState(s => s.submission?.requestId === submission.requestId ? { ...s, submission: { ...s.submission, ...changes } } : s);
+      try {
+        const request = await submitWorkshopRequest(token, buildRequestSnapshot(stateRef.current, submission));
+        settle({ status: request.status, finalQuote: request.finalQuote, nextAttemptAt: null, lastError: null });
+      } catch (e) {
+        console.error('Error submitting workshop request:', e);
+        const attempts = submission.attempts + 1;
+        settle({
+          attempts,
+          nextAttemptAt: isRetryable(e) ? Date.now() + retryDelay(attempts) : null,
+          lastError: e instanceof ApiError ? e.message : messagesFor(stateRef.current.locale).errors.submit,
+        });
+      }
+    }, Math.max(0, submission.nextAttemptAt - Date.now()));
+    return () => clearTimeout(timeoutId);
+  }, [state.session, state.submission]);
+
+  // Contact messages written offline go out on the next visit or when the connection returns.
+  useEffect(() => {
+    const flush = () => { flushContactOutbox().catch(e => console.error('Error sending queued contact messages:', e)); };
+    flush();
+    window.addEventListener('online', flush);
+    return () => window.removeEventListener('online', flush);
+  }, []);
+
+  useEffect(() => {
+    window.addEventListener('online', handleRetrySubmission);
+    return () => window.removeEventListener('online', handleRetrySubmission);
+  }, [handleRetrySubmission]);
+
+  // The workshop moves requests along on its side; the open project picks up the changes.
+  const submittedRequestId = state.submission?.status ? state.submission.requestId : null;
+  const isRequestSettled = !!state.submission?.status && isFinalStatus(state.submission.status);
+  useEffect(() => {
+    const token = state.session?.token;
+    if (!token || !submittedRequestId || isRequestSettled) return;
+    const controller = new AbortController();
+    const refresh = () => fetchWorkshopRequest(token, submittedRequestId, controller.signal)
+      .then(request => setState(s => s.submission?.requestId === submittedRequestId
+          && (s.submission.status !== request.status || s.submission.finalQuote?.attachedAt !== request.finalQuote?.attachedAt)
+        ? { ...s, submission: { ...s.submission, status: request.status, finalQuote: request.finalQuote } }
+        : s))
+      .catch(e => {
+        if (!controller.signal.aborted) console.error('Error refreshing workshop request:', e);
+      });
+    refresh();
+    const intervalId = setInterval(refresh, STATUS_REFRESH_MS);
+    return () => {
+      controller.abort();
+      clearInterval(intervalId);
+    };
+  }, [state.session, submittedRequestId, isRequestSettled]);
+
+  const handleShowProjects = useCallback(() => {
+    setState(s => ({ ...s, page: 'projects' }));
+  }, []);
+
+  const handleShowBackOffice = useCallback(() => {
+    setState(s => ({ ...s, page: 'backoffice', backOfficeRequestId: null }));
+  }, []);
+
+  const handleOpenBackOfficeRequest = useCallback((backOfficeRequestId: string | null) => {
+    setState(s => ({ ...s, backOfficeRequestId }));
+  }, []);
+
+  const handleNewProject = useCallback(() => {
+    setState(s => ({ ...s, page: 'private', designStep: 1, ...emptyJourney() }));
+  }, []);
+
+  const handleOpenProject = useCallback(async (projectId: string, stepSlug?: string) => {
+    setState(s => ({ ...s, isLoading: true }));
+    try {
+      const loaded = await loadProject(projectId);
+      if (!loaded || loaded.project.ownerId !== stateRef.current.session?.user.id) {
+        throw new Error(`Project ${projectId} not found`);
+      }
+      const { project, photos, renders } = loaded;
+      const base64s = await Promise.all(photos.map(readAsBase64));
+      // Projects saved before versioning kept a single render; it becomes the first version.
+      const legacyRender = renders.get('render');
+      const history = project.renderVersions
+        ?? (legacyRender ? [{ id: 'render', parentId: null, photoIndex: 0, prompt: '', createdAt: project.updatedAt, mimeType: legacyRender.type || 'image/png' }] : []);
+      const renderVersions: RenderVersion[] = await Promise.all(history
+        .filter(meta => renders.has(meta.id))
+        // Versions saved before views could be chosen were always made from the first photo.
+        .map(async meta => ({ ...meta, photoIndex: meta.photoIndex ?? 0, imageBase64: await readAsBase64(renders.get(meta.id)!) })));
+      const selectedPhotoIndex = project.selectedPhotoIndex ?? 0;
+      const currentVersionId = project.renderVersions ? project.currentVersionId ?? null : renderVersions[0]?.id ?? null;
+      // Projects saved before dimensions were structured still hold a free-text description,
+      // those saved before the materials catalog name their woods only in prose, and suggestions
+      // saved before they listed their furniture get items inferred from their text.
+      const dimensions = project.aiResponse && normalizeDimensions(project.aiResponse.dimensions);
+      const aiResponse = project.aiResponse && dimensions && {
+        ...project.aiResponse,
+        dimensions,
+        suggestions: normalizeSuggestions(project.aiResponse.suggestions, project.selectedSpace, dimensions),
+      };
+      const floorPlan = project.floorPlan ?? null;
+      const quoteSelection = project.quoteSelection ?? null;
+
+      savedProjectRef.current = JSON.stringify({
+        id: project.id,
+        ownerId: project.ownerId,
+        name: project.name,
+        designStep: project.designStep,
+        selectedSpace: project.selectedSpace,
+        aiResponse,
+        floorPlan,
+        numberOfCats: project.numberOfCats,
+        cats: normalizeCats(project.cats),
+        renderVersions: renderHistory(renderVersions),
+        currentVersionId,
+        selectedPhotoIndex,
+        quoteSelection,
+        submission: project.submission ?? null,
+      });
+      savedPhotosRef.current = photos;
+      savedRendersRef.current = new Set(renderVersions.map(version => version.id));
+
+      setState(s => ({
+        ...s,
+        ...emptyJourney(),
+        page: 'private',
+        projectId: project.id,
+        projectName: project.name,
+        designStep: stepSlug ? Math.min(project.designStep, resolveStudioStep(project, stepSlug)) : project.designStep,
+        selectedSpace: project.selectedSpace,
+        uploadedImages: photos,
+        uploadedImageBase64s: base64s,
+        aiResponse,
+        // Projects analysed before the plan editor existed start from the model's drawing.
+        floorPlan: floorPlan ?? (aiResponse ? planFromAnalysis(aiResponse) : null),
+        renderVersions,
+        currentVersionId,
+        selectedPhotoIndex,
+        quoteSelection,
+        submission: project.submission ?? null,
+        numberOfCats: project.numberOfCats,
+        cats: normalizeCats(project.cats),
+      }));
+    } catch (e) {
+      console.error(e);
+      setState(s => ({ ...s, page: 'projects', isLoading: false, error: messagesFor(s.locale).errors.projectOpen }));
+    }
+  }, []);
+
+  // --- Routing ---
+  // A studio deep link to a saved project is opened once we know who the visitor is.
+  const pendingProjectRef = useRef(initialRoute.page === 'private' && initialRoute.projectId ? initialRoute : null);
+  // The first URL sync, and syncs caused by back/forward, replace the history entry instead of adding one.
+  const historyModeRef = useRef<'push' | 'replace'>('replace');
+
+  useEffect(() => {
+    const pending = pendingProjectRef.current;
+    if (state.isRestoringSession || !state.session || !pending || pending.page !== 'private' || !pending.projectId) return;
+    pendingProjectRef.current = null;
+    handleOpenProject(pending.projectId, pending.stepSlug);
+  }, [state.isRestoringSession, state.session, handleOpenProject]);
+
+  useEffect(() => {
+    if (state.isRestoringSession || pendingProjectRef.current) return;
+    const path = pathForState(state);
+    const mode = historyModeRef.current;
+    historyModeRef.current = 'push';
+    if (!path || path === window.location.pathname + window.location.search) return;
+    if (mode === 'push') {
+      window.history.pushState(null, '', path);
+    } else {
+      window.history.replaceState(null, '', path);
+    }
+  }, [state.isRestoringSession, state.page, state.publicPage, state.designStep, state.projectId, state.selectedSpace, state.backOfficeRequestId]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const route = parseLocation(window.location);
+      historyModeRef.current = 'replace';
+      if (route.page === 'private' && route.projectId && route.projectId !== stateRef.current.projectId && stateRef.current.session) {
+        handleOpenProject(route.projectId, route.stepSlug);
+        return;
+      }
+      setState(s => applyRoute(s, route));
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [handleOpenProject]);
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [state.page, state.publicPage, state.designStep]);
+
+  // The open project is autosaved from state, which would otherwise write the old name back.
+  const handleProjectRenamed = useCallback((projectId: string, projectName: string) => {
+    setState(s => s.projectId === projectId ? { ...s, projectName } : s);
+  }, []);
+
+  const handleProjectDeleted = useCallback((projectId: string) => {
+    setState(s => s.projectId === projectId ? { ...s, designStep: 1, ...emptyJourney() } : s);
   }, []);
   
   const handleNavigate = useCallback((targetPage: PublicPage) => {
@@ -85,8 +479,14 @@ const App = () => {
   }, []);
 
   const handleSelectSpace = useCallback((space: string) => {
-    // Always advance to the next step sequentially
-    setState(s => ({ ...s, selectedSpace: space, designStep: s.designStep + 1 }));
+    // Always advance to the next step sequentially. Choosing a space is what starts a new project.
+    setState(s => ({
+      ...s,
+      selectedSpace: space,
+      designStep: s.designStep + 1,
+      projectId: s.projectId ?? crypto.randomUUID(),
+      projectName: s.projectName || defaultProjectName(space, s.locale),
+    }));
   }, []);
 
   const handleCatDetailsSubmit = useCallback((cats: CatDetails[]) => {
@@ -94,224 +494,257 @@ const App = () => {
     setState(s => ({ ...s, cats, designStep: s.designStep + 1 }));
   }, []);
   
-  const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
-    if (files && files.length > 0) {
-      const fileArray = Array.from(files);
-      const filePromises = fileArray.map(file => {
-        return new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onloadend = () => {
-            resolve((reader.result as string).split(',')[1]);
-          };
-          reader.onerror = reject;
-          reader.readAsDataURL(file);
-        });
-      });
+    if (!files || files.length === 0) return;
+    const fileArray: File[] = Array.from(files);
+    // The photos belong to the project open when they were chosen, even if the client moves on meanwhile.
+    const projectId = stateRef.current.projectId;
+    setState(s => ({ ...s, isPreparingPhotos: true, error: null }));
 
-      Promise.all(filePromises)
-        .then(base64s => {
-          setState(s => ({
-            ...s,
-            uploadedImages: fileArray,
-            uploadedImageBase64s: base64s,
-            error: null,
-          }));
-        })
-        .catch(() => {
-          setState(s => ({ ...s, error: "Error al leer uno o más archivos." }));
-        });
+    try {
+      const { photos, rejected } = await preparePhotos(fileArray);
+      setState(s => {
+        if (s.projectId !== projectId) return s;
+        const m = messagesFor(s.locale);
+        const error = rejected.length > 0 ? rejectionMessage(m, rejected) : null;
+        if (photos.length === 0) return { ...s, isPreparingPhotos: false, error: error ?? m.errors.noImages };
+        return {
+          ...s,
+          uploadedImages: photos.map(photo => photo.file),
+          uploadedImageBase64s: photos.map(photo => photo.base64),
+          photoQuality: photos.map(photo => photo.quality),
+          selectedPhotoIndex: 0,
+          currentVersionId: null,
+          isPreparingPhotos: false,
+          error,
+        };
+      });
+    } catch (e) {
+      console.error('Error preparing photos:', e);
+      setState(s => s.projectId === projectId ? { ...s, isPreparingPhotos: false, error: messagesFor(s.locale).errors.fileRead } : s);
     }
   }, []);
 
+  // The running AI task, so the client can cancel it from the loading overlay.
+  const aiTaskRef = useRef<AbortController | null>(null);
+
+  /** Starts an AI task: one cancellable signal, and retries reported to the overlay. */
+  const startAITask = useCallback((): AIRequestOptions => {
+    const controller = new AbortController();
+    aiTaskRef.current = controller;
+    return {
+      signal: controller.signal,
+      onRetry: (retries) => setState(s => s.aiProgress ? { ...s, aiProgress: { ...s.aiProgress, retries } } : s),
+    };
+  }, []);
+
+  const handleCancelAITask = useCallback(() => {
+    aiTaskRef.current?.abort();
+  }, []);
+
   const handleAnalyzeSpace = useCallback(async () => {
     if (state.uploadedImageBase64s.length === 0) {
-      setState(s => ({...s, error: 'Por favor, sube al menos una imagen de tu espacio.'}));
+      setState(s => ({...s, error: messagesFor(s.locale).errors.noImages}));
       return;
     }
-    setState(s => ({...s, isLoading: true, error: null, aiResponse: null }));
+    const shouldValidate = spaceTypeById(state.selectedSpace)?.validatePhotos ?? true;
+    const stages: AIStage[] = shouldValidate ? ['validating', 'analyzing'] : ['analyzing'];
+    const setStage = (stage: AIStage) => setState(s => ({ ...s, aiProgress: { stages, stage, retries: 0 } }));
+    const options = startAITask();
+    setState(s => ({...s, isLoading: true, aiProgress: { stages, stage: stages[0]!, retries: 0 }, error: null, aiResponse: null }));
     
     try {
-      const imageParts = state.uploadedImageBase64s.map((base64, index) => ({
-        inlineData: {
-          mimeType: state.uploadedImages[index]!.type,
-          data: base64,
-        },
+      const images = state.uploadedImageBase64s.map((base64, index) => ({
+        mimeType: state.uploadedImages[index]!.type,
+        data: base64,
       }));
-      
-      const shouldValidate = state.selectedSpace !== 'Sala' && state.selectedSpace !== 'Espacio para Gatos';
+      const spaceType = state.selectedSpace ?? '';
+      const locale = state.locale;
 
       if (shouldValidate) {
         // Step 1: Conditional Validation
-        const validationPrompt = {
-          text: `Eres un experto en análisis de imágenes. Valida las siguientes imágenes. Primero, verifica que todas las imágenes son del mismo espacio o habitación. Segundo, verifica que el tipo de espacio en las imágenes coincide con el tipo de espacio seleccionado: '${state.selectedSpace}'. Responde únicamente con JSON.`
-        };
-
-        const validationResponse = await ai.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: { parts: [...imageParts, validationPrompt] },
-          config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-              type: Type.OBJECT,
-              properties: {
-                areImagesConsistent: { type: Type.BOOLEAN },
-                isSpaceTypeCorrect: { type: Type.BOOLEAN }
-              }
-            }
-          }
-        });
-        
-        // FIX: The .text property on the response is a string, not a function.
-        // It should be accessed directly.
-        const validationResult = JSON.parse(validationResponse.text);
+        const validationResult = await aiProvider.validateSpace(images, spaceType, locale, options);
         
         if (!validationResult.areImagesConsistent || !validationResult.isSpaceTypeCorrect) {
             setState(s => ({
                 ...s,
                 isLoading: false,
-                error: 'Validación fallida: Las imágenes no parecen ser del mismo espacio o no coinciden con el tipo de habitación seleccionado. Por favor, verifica tus fotos.'
+                aiProgress: null,
+                error: messagesFor(s.locale).errors.validation
             }));
             return;
         }
       }
       
       // Step 2: Proceed to detailed analysis if validation passes
-      let catDetailsPrompt = '';
-      if (state.selectedSpace === 'Espacio para Gatos') {
-        catDetailsPrompt = `\nAdemás, considera la siguiente información sobre los ${state.cats.length} gatos que usarán el espacio: \n`;
-        state.cats.forEach((cat, index) => {
-          catDetailsPrompt += `- Gato ${index + 1}: tamaño ${cat.size}, edad ${cat.age}. \n`;
-        });
-        catDetailsPrompt += "Actúa como un experto en enriquecimiento ambiental felino y adapta tus sugerencias a sus necesidades específicas (ej. rampas para gatos mayores, zonas altas de juego para los jóvenes).";
-      }
-              
-      const textPart = {
-        text: `Eres un asistente de diseño de interiores experto en mobiliario de madera para un espacio tipo '${state?.selectedSpace}'. 
-        Analiza las imágenes proporcionadas, que son diferentes vistas del mismo espacio y ya han sido validadas como correctas. 
-        Una de las imágenes contiene un objeto de referencia de escala conocido para que puedas estimar las dimensiones.
-
-        1. Estima las dimensiones principales de la habitación (largo, ancho, alto) en metros.
-        2. Genera un plano de planta 2D simple en formato SVG. El SVG debe ser un string XML válido, minimalista, con fondo transparente y trazos negros. No incluyas scripts ni manejadores de eventos.
-        3. Describe el estilo actual del espacio.
-        4. Ofrece 3 sugerencias de diseño distintas utilizando mobiliario estructural de madera (por ejemplo: estanterías, bibliotecas, gabinetes de cocina o baño, muebles de recibidor). No sugieras muebles exentos como sillas, sofás o mesas de centro.
-        5. Presenta tu respuesta en formato JSON. No incluyas \` \`\`\`json \` al inicio ni \` \`\`\` \` al final.
-
-        ${catDetailsPrompt}`
-      };
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: [...imageParts, textPart] },
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              dimensions: { type: Type.STRING },
-              floorPlan: { type: Type.STRING },
-              currentStyle: { type: Type.STRING },
-              suggestions: {
-                type: Type.ARRAY,
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    styleName: { type: Type.STRING },
-                    description: { type: Type.STRING }
-                  }
-                }
-              }
-            }
-          }
-        }
-      });
-      
-      // FIX: The .text property on the response is a string, not a function.
-      // It should be accessed directly.
-      const jsonResponse = JSON.parse(response.text);
-      setState(s => ({...s, aiResponse: jsonResponse, designStep: s.designStep + 1, isLoading: false}));
+      setStage('analyzing');
+      const analysis = await aiProvider.analyzeSpace({ images, spaceType, cats: state.cats, scales: state.scaleMeasurements, locale }, options);
+      const floorPlan = planFromAnalysis(analysis);
+      setState(s => ({...s, aiResponse: analysis, floorPlan, quoteSelection: null, designStep: s.designStep + 1, isLoading: false, aiProgress: null}));
 
     } catch (e) {
-      console.error(e);
-      setState(s => ({...s, isLoading: false, error: 'Ocurrió un error al analizar la imagen. Inténtalo de nuevo.'}));
+      const error = classifyAIError(e);
+      if (error.kind !== 'cancelled') console.error(e);
+      setState(s => ({
+        ...s,
+        isLoading: false,
+        aiProgress: null,
+        error: error.kind === 'cancelled' ? null : aiErrorMessage(messagesFor(s.locale), error, 'analysis'),
+      }));
     }
-  }, [state.uploadedImageBase64s, state.uploadedImages, state.selectedSpace, state.cats]);
+  }, [state.uploadedImageBase64s, state.uploadedImages, state.scaleMeasurements, state.selectedSpace, state.cats, state.locale, startAITask]);
 
-  const handleRefineImage = useCallback(async (prompt: string) => {
+  const handleRefineImage = useCallback(async (prompt: string, baseVersionId: string | null, applyToAllViews = false) => {
     if (state.uploadedImageBase64s.length === 0) {
-      setState(s => ({...s, error: 'No hay imagen base para refinar.'}));
+      setState(s => ({...s, error: messagesFor(s.locale).errors.noBaseImage}));
       return;
     }
-    setState(s => ({...s, isLoading: true, error: null }));
 
-    try {
-      // Use the first image as the base for refinement
-      const imagePart = {
-        inlineData: {
-          mimeType: state.uploadedImages[0]!.type,
-          data: state.uploadedImageBase64s[0],
-        },
-      };
-      const textPart = { text: prompt };
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [imagePart, textPart] },
-        config: {
-          responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-      });
+    const selected = state.selectedPhotoIndex;
+    const views = applyToAllViews
+      ? [selected, ...state.uploadedImageBase64s.map((_, index) => index).filter(index => index !== selected)]
+      : [selected];
+    const batchId = applyToAllViews ? crypto.randomUUID() : undefined;
+    // Other views continue from their latest render unless the client asked to start from the photos.
+    const latestFor = (photoIndex: number) => state.renderVersions
+      .filter(version => version.photoIndex === photoIndex)
+      .reduce<RenderVersion | undefined>((latest, version) => (!latest || version.createdAt > latest.createdAt ? version : latest), undefined);
+    let reference: RenderVersion | undefined;
+    const progressFor = (current: number): AIProgress => ({ stages: ['rendering'], stage: 'rendering', retries: 0, view: { current, total: views.length } });
+    const options = startAITask();
+    setState(s => ({...s, isLoading: true, aiProgress: progressFor(1), error: null }));
 
-      let newImageBase64 = null;
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          newImageBase64 = part.inlineData.data;
-          break; 
-        }
-      }
-      
-      if (newImageBase64) {
-        setState(s => ({...s, editedImageBase64: newImageBase64, isLoading: false}));
-      } else {
-        throw new Error("La IA no generó una imagen.");
+    try {
+      for (const [position, photoIndex] of views.entries()) {
+        setState(s => ({ ...s, aiProgress: progressFor(position + 1) }));
+        const base = photoIndex === selected
+          ? state.renderVersions.find(version => version.id === baseVersionId)
+          : baseVersionId ? latestFor(photoIndex) : undefined;
+        const image = base
+          ? { mimeType: base.mimeType, data: base.imageBase64 }
+          : { mimeType: state.uploadedImages[photoIndex]!.type, data: state.uploadedImageBase64s[photoIndex]! };
+        const refined = await aiProvider.refineImage({
+          image,
+          prompt,
+          dimensions: state.aiResponse?.dimensions,
+          // The first view rendered sets the design the remaining angles must match.
+          reference: reference && { mimeType: reference.mimeType, data: reference.imageBase64 },
+          locale: state.locale,
+        }, options);
+        const version: RenderVersion = {
+          id: crypto.randomUUID(),
+          parentId: base?.id ?? null,
+          photoIndex,
+          batchId,
+          prompt,
+          createdAt: Date.now(),
+          mimeType: refined.mimeType,
+          imageBase64: refined.data,
+        };
+        reference ??= version;
+        setState(s => ({
+          ...s,
+          renderVersions: [...s.renderVersions, version],
+          currentVersionId: photoIndex === s.selectedPhotoIndex ? version.id : s.currentVersionId,
+        }));
       }
+      setState(s => ({...s, isLoading: false, aiProgress: null}));
 
     } catch (e) {
-      console.error(e);
-      setState(s => ({...s, isLoading: false, error: 'No se pudo refinar la imagen. Inténtalo con otra instrucción.'}));
+      const error = classifyAIError(e);
+      if (error.kind !== 'cancelled') console.error(e);
+      // Views rendered before a cancellation or failure stay in the history.
+      setState(s => ({
+        ...s,
+        isLoading: false,
+        aiProgress: null,
+        error: error.kind === 'cancelled'
+          ? null
+          : reference ? messagesFor(s.locale).errors.partialViews : aiErrorMessage(messagesFor(s.locale), error, 'refine'),
+      }));
     }
-  }, [state.uploadedImageBase64s, state.uploadedImages]);
+  }, [state.uploadedImageBase64s, state.uploadedImages, state.selectedPhotoIndex, state.renderVersions, state.aiResponse, state.locale, startAITask]);
+
+  const handleSelectVersion = useCallback((versionId: string | null) => {
+    setState(s => ({ ...s, currentVersionId: versionId }));
+  }, []);
+
+  const handleSelectPhoto = useCallback((photoIndex: number) => {
+    // Show the latest render of that view, or its original photo when it has none yet.
+    setState(s => {
+      const latest = s.renderVersions
+        .filter(version => version.photoIndex === photoIndex)
+        .sort((a, b) => b.createdAt - a.createdAt)[0];
+      return { ...s, selectedPhotoIndex: photoIndex, currentVersionId: latest?.id ?? null };
+    });
+  }, []);
+
+  const handleDimensionChange = useCallback((key: DimensionKey, metres: number) => {
+    setState(s => s.aiResponse
+      ? { ...s, aiResponse: { ...s.aiResponse, dimensions: correctDimension(s.aiResponse.dimensions, key, metres) } }
+      : s);
+  }, []);
+
+  const handleUnitSystemChange = useCallback((unitSystem: UnitSystem) => {
+    storeUnitSystem(unitSystem);
+    setState(s => ({ ...s, unitSystem }));
+  }, []);
+
+  const handleLocaleChange = useCallback((locale: Locale) => {
+    storeLocale(locale);
+    setState(s => ({ ...s, locale }));
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = state.locale;
+  }, [state.locale]);
+
+  const handleFloorPlanChange = useCallback((floorPlan: FloorPlan) => {
+    setState(s => ({ ...s, floorPlan }));
+  }, []);
+
+  const handleFloorPlanReset = useCallback(() => {
+    setState(s => s.aiResponse ? { ...s, floorPlan: planFromAnalysis(s.aiResponse) } : s);
+  }, []);
 
   const handleRequestQuote = useCallback(() => {
     // Always advance to the next step sequentially
     setState(s => ({ ...s, designStep: s.designStep + 1 }));
   }, []);
 
+  const handleQuoteSelectionChange = useCallback((quoteSelection: QuoteSelection) => {
+    setState(s => ({ ...s, quoteSelection }));
+  }, []);
+
+  const handleSuggestionItemToggle = useCallback((suggestionIndex: number, itemId: string) => {
+    setState(s => s.aiResponse ? {
+      ...s,
+      aiResponse: {
+        ...s.aiResponse,
+        suggestions: s.aiResponse.suggestions.map((suggestion, index) => index !== suggestionIndex ? suggestion : {
+          ...suggestion,
+          items: suggestion.items.map(item => item.id === itemId ? { ...item, enabled: !item.enabled } : item),
+        }),
+      },
+    } : s);
+  }, []);
+
   const resetJourney = useCallback(() => {
      setState(s => ({
         ...s,
         designStep: 1,
-        selectedSpace: null,
-        uploadedImages: [],
-        uploadedImageBase64s: [],
-        aiResponse: null,
-        editedImageBase64: null,
-        isLoading: false,
-        error: null,
-        numberOfCats: 1,
-        cats: [{ size: '', age: '' }],
+        ...emptyJourney(),
     }));
   }, []);
 
   const handleCatCountChange = (count: number) => {
-    const newCats = Array.from({ length: count }, () => ({ size: '', age: '' }));
-    setState(s => ({ ...s, numberOfCats: count, cats: newCats }));
+    // Cats already described keep their profile when the count changes.
+    setState(s => ({ ...s, numberOfCats: count, cats: Array.from({ length: count }, (_, i) => s.cats[i] ?? emptyCat()) }));
   };
   
-  const handleCatDetailChange = (index: number, field: 'size' | 'age', value: string) => {
-    const newCats = [...state.cats];
-    newCats[index][field] = value;
-    setState(s => ({ ...s, cats: newCats }));
+  const handleCatDetailChange = (index: number, changes: Partial<CatDetails>) => {
+    setState(s => ({ ...s, cats: s.cats.map((cat, i) => (i === index ? { ...cat, ...changes } : cat)) }));
   };
   
   const handleBack = useCallback(() => {
@@ -324,137 +757,217 @@ const App = () => {
     const handleBackToServices = () => handleNavigate('services');
     
     if (page.startsWith('services/')) {
-        const service = page.split('/')[1];
-        const servicePageMap: { [key: string]: React.ReactElement } = {
-            'salas': <SalasServicePage onLogin={handleLogin} onBack={handleBackToServices} />,
-            'habitacion': <HabitacionServicePage onLogin={handleLogin} onBack={handleBackToServices} />,
-            'cocinas': <CocinasServicePage onLogin={handleLogin} onBack={handleBackToServices} />,
-            'banos': <BanosServicePage onLogin={handleLogin} onBack={handleBackToServices} />,
-            'estudios': <EstudiosServicePage onLogin={handleLogin} onBack={handleBackToServices} />,
-            'gatos': <GatosServicePage onLogin={handleLogin} onBack={handleBackToServices} />,
-        };
-        return servicePageMap[service] || <ServicesPage onNavigate={handleNavigate} />;
+        const space = spaceTypeBySlug(page.split('/')[1]);
+        return space
+            ? <ServiceDetailPage space={space} onLogin={handleLogin} onBack={handleBackToServices} />
+            : <NotFoundPage onNavigate={handleNavigate} />;
     }
 
     const mainPages: { [key: string]: React.ReactElement } = {
-        'home': <HomePage onLogin={handleLogin} ai={ai} />,
+        'home': <HomePage onLogin={handleLogin} ai={aiProvider} />,
         'services': <ServicesPage onNavigate={handleNavigate} />,
         'about': <AboutPage />,
         'contact': <ContactPage />,
     };
 
-    return mainPages[page] || <HomePage onLogin={handleLogin} ai={ai} />;
+    return mainPages[page] || <NotFoundPage onNavigate={handleNavigate} />;
   };
 
   return (
+    <LocaleContext.Provider value={state.locale}>
     <div id="app-container">
       <Header 
-        isAuthenticated={state.isAuthenticated} 
+        user={state.session?.user ?? null}
+        locale={state.locale}
+        onLocaleChange={handleLocaleChange}
         onNavigate={handleNavigate}
-        activePage={state.publicPage}
+        onLogin={handleLogin}
+        onShowProjects={handleShowProjects}
+        onShowBackOffice={handleShowBackOffice}
+        onSignOut={handleSignOut}
+        activePage={state.page === 'public' ? state.publicPage : state.page}
       />
       <main>
         {state.page === 'public' && renderPublicPage()}
-        {state.page === 'private' && (
+        {state.page !== 'public' && !state.session && (
+          state.isRestoringSession
+            ? <div className="inspiration-loader"><div className="spinner"></div></div>
+            : <AuthPage backend={authBackend} onAuthenticated={handleAuthenticated} />
+        )}
+        {state.page === 'projects' && state.session && (
+          <>
+            {state.isLoading && <LoadingOverlay />}
+            {state.error && <div className="error-message">{state.error}</div>}
+            <ProjectsDashboard
+              ownerId={state.session.user.id}
+              currentProjectId={state.projectId}
+              onOpen={handleOpenProject}
+              onNew={handleNewProject}
+              onRenamed={handleProjectRenamed}
+              onDeleted={handleProjectDeleted}
+            />
+          </>
+        )}
+        {state.page === 'workshop' && state.session && (
+          <RateTablesEditor token={state.session.token} />
+        )}
+        {state.page === 'backoffice' && state.session && (
+          <BackOffice
+            token={state.session.token}
+            user={state.session.user}
+            requestId={state.backOfficeRequestId}
+            onOpenRequest={handleOpenBackOfficeRequest}
+          />
+        )}
+        {state.page === 'private' && state.session && (
           <PrivatePage 
             state={state} 
             onSelectSpace={handleSelectSpace}
             onFileChange={handleFileChange}
             onAnalyzeSpace={handleAnalyzeSpace}
             onRefineImage={handleRefineImage}
+            onSelectVersion={handleSelectVersion}
+            onSelectPhoto={handleSelectPhoto}
             onRequestQuote={handleRequestQuote}
+            onSubmitRequest={handleSubmitRequest}
+            onRetrySubmission={handleRetrySubmission}
+            onQuoteSelectionChange={handleQuoteSelectionChange}
             onReset={resetJourney}
             onCatDetailsSubmit={handleCatDetailsSubmit}
             onCatCountChange={handleCatCountChange}
             onCatDetailChange={handleCatDetailChange}
             onBack={handleBack}
+            onDimensionChange={handleDimensionChange}
+            onUnitSystemChange={handleUnitSystemChange}
+            onFloorPlanChange={handleFloorPlanChange}
+            onFloorPlanReset={handleFloorPlanReset}
+            onToggleSuggestionItem={handleSuggestionItemToggle}
+            onCancelAITask={handleCancelAITask}
           />
         )}
       </main>
       <Footer />
     </div>
+    </LocaleContext.Provider>
   );
 };
 
 // --- UI Components ---
-const Header = ({ isAuthenticated, onNavigate, activePage }: { 
-  isAuthenticated: boolean,
+const Header = ({ user, locale, onLocaleChange, onNavigate, onLogin, onShowProjects, onShowBackOffice, onSignOut, activePage }: { 
+  user: AuthUser | null,
+  locale: Locale,
+  onLocaleChange: (locale: Locale) => void,
   onNavigate: (page: PublicPage) => void,
+  onLogin: () => void,
+  onShowProjects: () => void,
+  onShowBackOffice: () => void,
+  onSignOut: () => void,
   activePage: PublicPage
- }) => (
+ }) => {
+  const { m } = useI18n();
+  return (
   <header>
-    <button className="logo" type="button" aria-label="Página de inicio" onClick={() => onNavigate('home')}>Maderarte</button>
+    <button className="logo" type="button" aria-label={m.header.home} onClick={() => onNavigate('home')}>Maderarte</button>
     <nav>
-      <a href="#" className={activePage.startsWith('services') ? 'active' : ''} onClick={(e) => {e.preventDefault(); onNavigate('services')}}>Servicios</a>
-      <a href="#" className={activePage === 'about' ? 'active' : ''} onClick={(e) => {e.preventDefault(); onNavigate('about')}}>Nosotros</a>
-      <a href="#" className={activePage === 'contact' ? 'active' : ''} onClick={(e) => {e.preventDefault(); onNavigate('contact')}}>Contacto</a>
-      {isAuthenticated && <div className="user-avatar"></div>}
+      <a href={publicPath('services')} className={activePage.startsWith('services') ? 'active' : ''} onClick={(e) => {e.preventDefault(); onNavigate('services')}}>{m.header.services}</a>
+      <a href={publicPath('about')} className={activePage === 'about' ? 'active' : ''} onClick={(e) => {e.preventDefault(); onNavigate('about')}}>{m.header.about}</a>
+      <a href={publicPath('contact')} className={activePage === 'contact' ? 'active' : ''} onClick={(e) => {e.preventDefault(); onNavigate('contact')}}>{m.header.contact}</a>
+      {user ? (
+        <div className="user-menu">
+          <a href="/proyectos" className={activePage === 'projects' ? 'active' : ''} onClick={(e) => {e.preventDefault(); onShowProjects()}}>{m.header.projects}</a>
+          {user.role && (
+            <a href="/taller/solicitudes" className={activePage === 'backoffice' ? 'active' : ''} onClick={(e) => {e.preventDefault(); onShowBackOffice()}}>{m.header.requests}</a>
+          )}
+          <button type="button" className="user-avatar" title={user.email} aria-label={m.header.studio(user.name)} onClick={onLogin}>
+            {user.name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('')}
+          </button>
+          <button type="button" className="link-button" onClick={onSignOut}>{m.header.signOut}</button>
+        </div>
+      ) : (
+        <a href="/acceder" className={activePage === 'auth' ? 'active' : ''} onClick={(e) => {e.preventDefault(); onLogin()}}>{m.header.signIn}</a>
+      )}
+      <select className="locale-select" aria-label={m.header.language} value={locale} onChange={(e) => onLocaleChange(e.target.value as Locale)}>
+        {LOCALES.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+      </select>
     </nav>
   </header>
-);
+  );
+};
 
-const HomePage = ({ onLogin, ai }: { onLogin: () => void, ai: GoogleGenAI }) => {
-  const [inspiration, setInspiration] = useState<InspirationTip[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+const HomePage = ({ onLogin, ai }: { onLogin: () => void, ai: DesignAIProvider }) => {
+  const { locale, m } = useI18n();
+  // Painted from the cache on the first render; the effect refreshes it when it is stale.
+  const [inspiration, setInspiration] = useState<InspirationTip[]>(() => cachedInspiration(locale)?.tips ?? []);
+  const [isLoading, setIsLoading] = useState(inspiration.length === 0);
   const [error, setError] = useState<string | null>(null);
+  const [spaceFilter, setSpaceFilter] = useState<string | null>(null);
 
   useEffect(() => {
+    let cancelled = false;
+    const cached = cachedInspiration(locale);
+    setInspiration(cached?.tips ?? []);
+    setError(null);
+    setIsLoading(!cached);
+    if (cached?.isFresh) return;
+
     const fetchInspiration = async () => {
       try {
-        setIsLoading(true);
-        setError(null);
-        const response = await ai.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: 'Actúa como un experto diseñador de interiores. Genera 4 consejos o tendencias de diseño únicas y concisas sobre el uso de la madera en la decoración del hogar. Para cada consejo, proporciona una URL a una imagen relevante y de alta calidad de Unsplash. Presenta tu respuesta en formato JSON. No incluyas "```json" al inicio ni "```" al final.',
-          config: {
-            responseMimeType: "application/json",
-            responseSchema: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  title: { type: Type.STRING },
-                  description: { type: Type.STRING },
-                  imageUrl: { type: Type.STRING }
-                }
-              }
-            }
-          }
-        });
-        
-        const tips = JSON.parse(response.text);
-        setInspiration(tips);
+        const tips = await refreshInspiration(ai, locale);
+        if (!cancelled && tips.length > 0) setInspiration(tips);
       } catch (e) {
         console.error("Error fetching inspiration:", e);
-        setError("No se pudo cargar la inspiración en este momento.");
+        // A stale feed is better than the fallback; without one, show our own projects.
+        if (cancelled || cached) return;
+        const curated = await curatedInspiration(locale);
+        if (cancelled) return;
+        if (curated.length > 0) setInspiration(curated);
+        else setError(messagesFor(locale).home.inspirationError);
       } finally {
-        setIsLoading(false);
+        if (!cancelled) setIsLoading(false);
       }
     };
 
     fetchInspiration();
-  }, [ai]);
+    return () => { cancelled = true; };
+  }, [ai, locale]);
+
+  const spaces = SPACE_TYPES.filter(space => inspiration.some(tip => tip.spaceType === space.id));
+  const activeFilter = spaces.some(space => space.id === spaceFilter) ? spaceFilter : null;
+  const visible = activeFilter ? inspiration.filter(tip => tip.spaceType === activeFilter) : inspiration;
 
   return (
     <div className="public-page">
       <section className="hero">
-        <h1>Transformando Espacios con la Calidez de la Madera</h1>
-        <p>Diseño y fabricación de mobiliario arquitectónico a medida. Convierte tu visión en una realidad tangible y duradera.</p>
-        <button className="cta-button" onClick={onLogin}>Comienza tu Diseño</button>
+        <h1>{m.home.title}</h1>
+        <p>{m.home.text}</p>
+        <button className="cta-button" onClick={onLogin}>{m.home.cta}</button>
       </section>
       <section id="inspiration">
-        <h2>Inspiración y Tendencias</h2>
+        <h2>{m.home.inspiration}</h2>
         {isLoading && (
           <div className="inspiration-loader">
             <div className="spinner"></div>
-            <p>Cargando inspiración...</p>
+            <p>{m.home.inspirationLoading}</p>
           </div>
         )}
         {error && <p className="error-message">{error}</p>}
         {!isLoading && !error && (
+          <>
+            {spaces.length > 1 && (
+              <div className="inspiration-filters" role="group" aria-label={m.home.inspirationFilter}>
+                <button type="button" className={!activeFilter ? 'active' : ''} aria-pressed={!activeFilter} onClick={() => setSpaceFilter(null)}>
+                  {m.home.allSpaces}
+                </button>
+                {spaces.map(space => (
+                  <button key={space.id} type="button" className={activeFilter === space.id ? 'active' : ''} aria-pressed={activeFilter === space.id} onClick={() => setSpaceFilter(space.id)}>
+                    {spaceName(m, space.id)}
+                  </button>
+                ))}
+              </div>
+            )}
             <div className="inspiration-cards">
-            {inspiration.map((tip, index) => (
-                <div className="inspiration-card" key={index}>
+            {visible.map((tip, index) => (
+                <div className="inspiration-card" key={`${tip.imageUrl}-${index}`}>
                 <img src={tip.imageUrl} alt={tip.title} className="inspiration-image" />
                 <div className="inspiration-content">
                     <h4>{tip.title}</h4>
@@ -463,131 +976,69 @@ const HomePage = ({ onLogin, ai }: { onLogin: () => void, ai: GoogleGenAI }) =>
                 </div>
             ))}
             </div>
+          </>
         )}
       </section>
     </div>
   );
 };
 
-const ServicesPage = ({ onNavigate }: { onNavigate: (page: PublicPage) => void }) => (
+// --- Space Types ---
+const SpaceIcon = ({ space, className }: { space: SpaceType, className?: string }) => (
+  <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={className}>
+    {space.icon.map(d => <path key={d} d={d} />)}
+  </svg>
+);
+
+/** Colours of the space's theme, for the `.service-theme` and `.service-page` styles. */
+const spaceThemeStyle = (space: SpaceType) =>
+  ({ '--space-color': space.theme.color, '--space-tint': space.theme.tint }) as React.CSSProperties;
+
+/** Texts of a space's service page; spaces not yet translated show the Spanish ones. */
+const servicePageText = (m: Messages, space: SpaceType) =>
+  m.services.pages[space.slug] ?? messagesFor(DEFAULT_LOCALE).services.pages[space.slug]!;
+
+const spaceName = (m: Messages, spaceId: string) => m.spaces[spaceId] ?? spaceId;
+
+const ServicesPage = ({ onNavigate }: { onNavigate: (page: PublicPage) => void }) => {
+  const { m } = useI18n();
+  return (
   <div className="page-container">
     <div className="page-header">
-      <h1>Nuestros Servicios</h1>
-      <p>Diseño y artesanía en madera para cada rincón de tu vida.</p>
+      <h1>{m.services.title}</h1>
+      <p>{m.services.subtitle}</p>
     </div>
     <div className="page-content">
-      <div className="service-detail-card clickable salas-theme" onClick={() => onNavigate('services/salas')}>
-         <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="service-card-icon"><path d="M20 9V6a2 2 0 0 0-2-2H6a2 2 0 0 0-2 2v3"/><path d="M2 11h20"/><path d="M4 11v5a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2v-5"/></svg>
-         <div>
-            <h3>Salas y Estancias</h3>
-            <p>El salón es el centro de la vida familiar. Diseñamos centros de entretenimiento, librerías a medida y muebles auxiliares que enriquecen tu espacio de convivencia.</p>
-         </div>
-      </div>
-       <div className="service-detail-card clickable habitacion-theme" onClick={() => onNavigate('services/habitacion')}>
-        <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="service-card-icon"><path d="M2 12h20v6H2z"/><path d="M2 10V6a2 2 0 0 1 2-2h16a2 2 0 0 1 2 2v4H2z"/><path d="M6 8v2"/><path d="M18 8v2"/></svg>
-         <div>
-            <h3>Habitaciones y Dormitorios</h3>
-            <p>Creamos santuarios de descanso con armarios a medida, cabeceros y soluciones de almacenamiento que combinan funcionalidad y serenidad.</p>
-         </div>
-      </div>
-      <div className="service-detail-card clickable cocinas-theme" onClick={() => onNavigate('services/cocinas')}>
-        <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="service-card-icon"><path d="M21 14H3v6a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-6z"/><path d="M3 14V4a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2v10"/><path d="M15 8v2"/><path d="M9 8v2"/></svg>
-         <div>
-            <h3>Cocinas Funcionales</h3>
-            <p>Transformamos tu cocina en un espacio de inspiración culinaria con gabinetes, islas y barras diseñadas para maximizar la funcionalidad y reflejar tu estilo.</p>
-         </div>
-      </div>
-      <div className="service-detail-card clickable banos-theme" onClick={() => onNavigate('services/banos')}>
-        <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="service-card-icon"><path d="M21 10H3v8a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-8z"/><path d="M5 10V7a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2v3"/><path d="M7 15v-3"/></svg>
-         <div>
-            <h3>Baños con Encanto Natural</h3>
-            <p>Llevamos la calidez de la madera a tu baño con vanidades a medida y acentos decorativos, utilizando maderas tratadas para una belleza duradera.</p>
-         </div>
-      </div>
-       <div className="service-detail-card clickable estudios-theme" onClick={() => onNavigate('services/estudios')}>
-        <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="service-card-icon"><path d="M2 3h6a4 4 0 0 1 4 4v14a3 3 0 0 0-3-3H2z"/><path d="M22 3h-6a4 4 0 0 0-4 4v14a3 3 0 0 1 3-3h7z"/></svg>
-         <div>
-            <h3>Estudios y Oficinas en Casa</h3>
-            <p>Creamos entornos de trabajo que fomentan la concentración con escritorios ergonómicos, estanterías inteligentes y soluciones de almacenamiento integradas.</p>
-         </div>
-      </div>
-       <div className="service-detail-card clickable gatos-theme" onClick={() => onNavigate('services/gatos')}>
-        <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="service-card-icon"><path d="M12 5c.67 0 1.35.09 2 .26 1.78-2 5.03-2.84 6.42-2.08.39.21.61.62.58.97-.02.2-.12.39-.28.52-1.14.93-2.24 2.44-2.65 4.31a9.23 9.23 0 0 1-1.25 4.3-1.001 1.001 0 0 1-1.5-.42 1 1 0 0 0-1.6- .33c-1.22.95-2.64 1.4-4.1 1.4-4.42 0-8-3.58-8-8s3.58-8 8-8c.46 0 .91.04 1.35.12"/></svg>
-         <div>
-            <h3>Enriquecimiento Ambiental para Gatos</h3>
-            <p>Diseñamos estructuras y mobiliario integrado que satisface los instintos naturales de tus felinos, integrándose perfectamente con la decoración de tu hogar.</p>
-         </div>
-      </div>
+      {SPACE_TYPES.map(space => {
+        const text = servicePageText(m, space);
+        return (
+          <div key={space.id} className="service-detail-card clickable service-theme" style={spaceThemeStyle(space)} onClick={() => onNavigate(`services/${space.slug}`)}>
+            <SpaceIcon space={space} className="service-card-icon" />
+            <div>
+              <h3>{text.name}</h3>
+              <p>{text.summary}</p>
+            </div>
+          </div>
+        );
+      })}
     </div>
   </div>
-);
-
-const serviceData = {
-    salas: {
-        title: 'Salas y Estancias',
-        slogan: 'El Corazón de tu Hogar, Redefinido en Madera',
-        examples: [
-            { imgSrc: 'https://images.unsplash.com/photo-1616046229478-9901c5536a45?q=80&w=2070&auto=format&fit=crop', title: 'Centro de Entretenimiento Integrado', description: 'Un diseño limpio que combina almacenamiento y exhibición, convirtiendo tu sala en un cine en casa elegante.'},
-            { imgSrc: 'https://images.unsplash.com/photo-1615875605825-5eb9bb5c4245?q=80&w=1964&auto=format&fit=crop', title: 'Estantería de Pared a Techo', description: 'Una biblioteca personal que se convierte en la protagonista del espacio, hecha a medida en madera de nogal.'},
-            { imgSrc: 'https://images.unsplash.com/photo-1594455734310-541147d3b514?q=80&w=1974&auto=format&fit=crop', title: 'Mueble Recibidor con Banco', description: 'Funcionalidad y elegancia desde la entrada con un banco y almacenamiento a medida en madera de arce.'},
-        ]
-    },
-    habitacion: {
-        title: 'Habitaciones y Dormitorios',
-        slogan: 'Tu Santuario Personal, Diseñado para el Descanso',
-        examples: [
-            { imgSrc: 'https://images.unsplash.com/photo-1616627561957-334259b5b6a7?q=80&w=1964&auto=format&fit=crop', title: 'Armario a Medida de Pared a Pared', description: 'Soluciones de almacenamiento que se integran a la perfección, maximizando el espacio y el orden.'},
-            { imgSrc: 'https://images.unsplash.com/photo-1595526114035-0d45ed16433d?q=80&w=1974&auto=format&fit=crop', title: 'Cabecero de Cama con Mesitas Flotantes', description: 'Un diseño minimalista y funcional que crea una sensación de amplitud y modernidad en tu dormitorio.'},
-            { imgSrc: 'https://images.unsplash.com/photo-1565530493233-a3a7b62a3651?q=80&w=1974&auto=format&fit=crop', title: 'Banco de Almacenamiento al Pie de la Cama', description: 'Una pieza versátil que ofrece un asiento adicional y un lugar discreto para guardar ropa de cama o zapatos.'},
-        ]
-    },
-    cocinas: {
-        title: 'Cocinas Funcionales',
-        slogan: 'Donde el Sabor se Encuentra con el Diseño',
-        examples: [
-            { imgSrc: 'https://images.unsplash.com/photo-1579824218331-ea85d37a1599?q=80&w=1935&auto=format&fit=crop', title: 'Gabinetes de Suelo a Techo', description: 'Maximiza el almacenamiento con gabinetes de roble que ofrecen un look continuo y sofisticado.'},
-            { imgSrc: 'https://images.unsplash.com/photo-16260731165038-164b311abd17?q=80&w=1974&auto=format&fit=crop', title: 'Isla Central con Almacenamiento', description: 'El punto de encuentro perfecto para la familia, combinando preparación de alimentos y un espacio social informal.'},
-            { imgSrc: 'https://images.unsplash.com/photo-1594393049229-9b1274316b99?q=80&w=1974&auto=format&fit=crop', title: 'Estanterías Abiertas de Madera Natural', description: 'Un toque rústico y moderno para exhibir tu vajilla y añadir carácter a las paredes de tu cocina.'},
-        ]
-    },
-    banos: {
-        title: 'Baños con Encanto Natural',
-        slogan: 'Tu Santuario Personal, Revestido de Calidez',
-        examples: [
-            { imgSrc: 'https://images.unsplash.com/photo-1625621422479-11029c3139ae?q=80&w=1965&auto=format&fit=crop', title: 'Vanidad Flotante de Teca', description: 'Una pieza central que combina la resistencia a la humedad de la teca con un diseño minimalista y elegante.'},
-            { imgSrc: 'https://images.unsplash.com/photo-1616238268423-a8321773a45d?q=80&w=1964&auto=format&fit=crop', title: 'Gabinete de Almacenamiento Vertical', description: 'Soluciones inteligentes para espacios reducidos, ofreciendo un amplio almacenamiento sin sacrificar el estilo.'},
-            { imgSrc: 'https://images.unsplash.com/photo-1593902341259-882f254f15f9?q=80&w=1964&auto=format&fit=crop', title: 'Acentos de Pared con Listones de Cedro', description: 'Crea una pared de acento tipo spa que añade textura, aroma y una sensación de lujo natural a tu baño.'},
-        ]
-    },
-    estudios: {
-        title: 'Estudios y Oficinas en Casa',
-        slogan: 'Espacios que Inspiran Productividad',
-        examples: [
-            { imgSrc: 'https://images.unsplash.com/photo-1497215728101-856f4ea42174?q=80&w=2070&auto=format&fit=crop', title: 'Escritorio y Estantería Integrados', description: 'Un espacio de trabajo unificado y a medida que maximiza la superficie y el almacenamiento vertical.'},
-            { imgSrc: 'https://images.unsplash.com/photo-1524758631624-e2822e304c36?q=80&w=2070&auto=format&fit=crop', title: 'Pared de Almacenamiento a Medida', description: 'Organiza tus libros y documentos con un sistema flexible que se integra perfectamente a la pared.'},
-            { imgSrc: 'https://images.unsplash.com/photo-1586023492125-27b2c045efd7?q=80&w=1974&auto=format&fit=crop', title: 'Gabinetes Bajos de Almacenamiento', description: 'Una solución elegante para ocultar impresoras y suministros, manteniendo una superficie de trabajo limpia y ordenada.'},
-        ]
-    },
-    gatos: {
-        title: 'Enriquecimiento para Gatos',
-        slogan: 'Diseño que Ronronea de Felicidad',
-        examples: [
-            { imgSrc: 'https://images.unsplash.com/photo-1598939748535-a78203f563d7?q=80&w=1974&auto=format&fit=crop', title: 'Autopista de Pared para Gatos', description: 'Un circuito de estantes, puentes y postes rascadores que satisface su necesidad de explorar en las alturas.'},
-            { imgSrc: 'https://images.unsplash.com/photo-1610121183358-da47c0b6e115?q=80&w=1974&auto=format&fit=crop', title: 'Torre de Actividades Escultural', description: 'Una pieza de arte funcional que sirve como torre de observación y rascador, integrándose como un mueble más.'},
-            { imgSrc: 'https://images.unsplash.com/photo-1588012885473-39294921f450?q=80&w=1974&auto=format&fit=crop', title: 'Mueble con Rascador Integrado', description: 'Una estación de descanso y juego que se fusiona con un mueble auxiliar, manteniendo el orden y la estética.'},
-        ]
-    }
+  );
 };
 
-const ServiceDetailPage = ({ title, slogan, examples, onLogin, className, onBack }: { title: string, slogan: string, examples: ServiceExample[], onLogin: () => void, className?: string, onBack: () => void }) => (
-    <div className={`page-container ${className || ''}`}>
+const ServiceDetailPage = ({ space, onLogin, onBack }: { space: SpaceType, onLogin: () => void, onBack: () => void }) => {
+    const { m } = useI18n();
+    const { title, slogan, examples: exampleTexts } = servicePageText(m, space);
+    const examples: ServiceExample[] = space.examples.map((photo, i) => ({ ...photo, title: '', description: '', ...exampleTexts[i] }));
+    return (
+    <div className="page-container service-page" style={spaceThemeStyle(space)}>
         <div className="service-detail-header">
             <h1>{title}</h1>
             <p>{slogan}</p>
         </div>
-        <a href="#" onClick={(e) => { e.preventDefault(); onBack(); }} className="back-to-services">← Volver a todos los servicios</a>
+        <a href={publicPath('services')} onClick={(e) => { e.preventDefault(); onBack(); }} className="back-to-services">{m.services.back}</a>
         <div className="page-content">
-            <h3>Ejemplos de Transformación</h3>
+            <h3>{m.services.examples}</h3>
             <div className="examples-grid">
                 {examples.map((ex, i) => (
                     <div className="example-card" key={i}>
@@ -595,106 +1046,214 @@ const ServiceDetailPage = ({ title, slogan, examples, onLogin, className, onBack
                         <div className="example-content">
                             <h4>{ex.title}</h4>
                             <p>{ex.description}</p>
+                            {ex.woodId && <MaterialSwatch woodId={ex.woodId} />}
                         </div>
                     </div>
                 ))}
             </div>
             <div className="cta-section">
-                <h2>¿Inspirado para transformar tu espacio?</h2>
-                <button className="cta-button" onClick={onLogin}>Comienza tu Diseño Ahora</button>
+                <h2>{m.services.ctaTitle}</h2>
+                <button className="cta-button" onClick={onLogin}>{m.services.cta}</button>
             </div>
         </div>
     </div>
-);
-
-const SalasServicePage = ({ onLogin, onBack }: { onLogin: () => void, onBack: () => void }) => <ServiceDetailPage {...serviceData.salas} onLogin={onLogin} className="salas-service" onBack={onBack} />;
-const HabitacionServicePage = ({ onLogin, onBack }: { onLogin: () => void, onBack: () => void }) => <ServiceDetailPage {...serviceData.habitacion} onLogin={onLogin} className="habitacion-service" onBack={onBack} />;
-const CocinasServicePage = ({ onLogin, onBack }: { onLogin: () => void, onBack: () => void }) => <ServiceDetailPage {...serviceData.cocinas} onLogin={onLogin} className="cocinas-service" onBack={onBack} />;
-const BanosServicePage = ({ onLogin, onBack }: { onLogin: () => void, onBack: () => void }) => <ServiceDetailPage {...serviceData.banos} onLogin={onLogin} className="banos-service" onBack={onBack} />;
-const EstudiosServicePage = ({ onLogin, onBack }: { onLogin: () => void, onBack: () => void }) => <ServiceDetailPage {...serviceData.estudios} onLogin={onLogin} className="estudios-service" onBack={onBack} />;
-const GatosServicePage = ({ onLogin, onBack }: { onLogin: () => void, onBack: () => void }) => <ServiceDetailPage {...serviceData.gatos} onLogin={onLogin} className="gatos-service" onBack={onBack} />;
+    );
+};
 
 
-const AboutPage = () => (
+const AboutPage = () => {
+  const { m } = useI18n();
+  return (
    <div className="page-container">
     <div className="page-header">
-      <h1>Sobre Maderarte</h1>
-      <p>Pasión por la madera, compromiso con el diseño.</p>
+      <h1>{m.about.title}</h1>
+      <p>{m.about.subtitle}</p>
     </div>
     <div className="page-content about-content">
       <div className="about-section">
-        <h3>Nuestra Filosofía</h3>
-        <p>En Maderarte, creemos que los muebles son más que objetos; son el alma de un espacio. Combinamos técnicas de carpintería tradicionales con diseño contemporáneo para crear piezas que cuentan una historia. Cada veta de la madera, cada unión y cada acabado es un testimonio de nuestro amor por el oficio y nuestro compromiso con la calidad duradera.</p>
+        <h3>{m.about.philosophyTitle}</h3>
+        <p>{m.about.philosophy}</p>
       </div>
       <div className="about-section">
-        <h3>Nuestra Misión</h3>
-        <p>Nuestra misión es transformar tus ideas en realidad tangible, creando espacios funcionales y estéticamente inspiradores a través del diseño de mobiliario en madera. Buscamos la excelencia en cada proyecto, asegurando la satisfacción de nuestros clientes y el respeto por el medio ambiente utilizando maderas de fuentes sostenibles.</p>
+        <h3>{m.about.missionTitle}</h3>
+        <p>{m.about.mission}</p>
       </div>
       <div className="about-section team-section">
-        <h3>Conoce al Equipo</h3>
+        <h3>{m.about.teamTitle}</h3>
         <div className="team-grid">
           <div className="team-member">
             <div className="team-photo-placeholder"></div>
             <h4>Elena Robles</h4>
-            <h5>Fundadora & Diseñadora Principal</h5>
-            <p>Con una visión que une arquitectura y naturaleza, Elena lidera cada proyecto con creatividad y una atención meticulosa al detalle.</p>
+            <h5>{m.about.founderRole}</h5>
+            <p>{m.about.founderBio}</p>
           </div>
           <div className="team-member">
              <div className="team-photo-placeholder"></div>
             <h4>Javier Mendoza</h4>
-            <h5>Maestro Artesano</h5>
-            <p>Con más de 30 años de experiencia, Javier convierte los diseños en obras de arte, dominando la madera con una habilidad inigualable.</p>
+            <h5>{m.about.craftsmanRole}</h5>
+            <p>{m.about.craftsmanBio}</p>
           </div>
         </div>
       </div>
     </div>
   </div>
-);
+  );
+};
+
+const NotFoundPage = ({ onNavigate }: { onNavigate: (page: PublicPage) => void }) => {
+  const { m } = useI18n();
+  return (
+  <div className="page-container">
+    <div className="page-header">
+      <h1>{m.notFound.title}</h1>
+      <p>{m.notFound.text}</p>
+    </div>
+    <div className="page-content text-center">
+      <p className="not-found-code" aria-hidden="true">404</p>
+      <button className="cta-button" onClick={() => onNavigate('home')}>{m.notFound.home}</button>
+      {' '}
+      <button className="secondary-button" onClick={() => onNavigate('services')}>{m.notFound.services}</button>
+    </div>
+  </div>
+  );
+};
+
+const emptyContactForm = () => ({ name: '', email: '', projectType: '' as ContactMessage['projectType'], message: '', website: '' });
 
 const ContactPage = () => {
-    const [submitted, setSubmitted] = useState(false);
-    const handleSubmit = (e: React.FormEvent) => {
+    const { m } = useI18n();
+    const [form, setForm] = useState(emptyContactForm);
+    const [errors, setErrors] = useState<ContactErrors>({});
+    const [touched, setTouched] = useState<Partial<Record<ContactField, boolean>>>({});
+    const [formError, setFormError] = useState<string | null>(null);
+    const [isSending, setIsSending] = useState(false);
+    const [result, setResult] = useState<{ id: string; outcome: 'sent' | 'queued' } | null>(null);
+    const [queuedIds, setQueuedIds] = useState(() => queuedContactMessages().map(message => message.id));
+
+    useEffect(() => onContactOutboxChange(() => setQueuedIds(queuedContactMessages().map(message => message.id))), []);
+
+    const updateField = (field: keyof ReturnType<typeof emptyContactForm>, value: string) => {
+        const next = { ...form, [field]: value };
+        setForm(next);
+        // Fields are checked as they are edited once the visitor has left them.
+        if (field !== 'website' && touched[field]) setErrors(validateContactMessage(next));
+    };
+
+    const handleBlur = (field: ContactField) => {
+        setTouched(t => ({ ...t, [field]: true }));
+        setErrors(e => ({ ...e, [field]: validateContactMessage(form)[field] }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        setSubmitted(true);
+        const problems = validateContactMessage(form);
+        setErrors(problems);
+        setTouched({ name: true, email: true, projectType: true, message: true });
+        if (Object.keys(problems).length > 0) return;
+        const limit = contactRateLimit();
+        setFormError(limit && (limit.kind === 'wait' ? m.contact.rateWait(limit.seconds) : m.contact.rateHourly));
+        if (limit) return;
+
+        const message: ContactMessage = {
+            ...form,
+            id: crypto.randomUUID(),
+            name: form.name.trim(),
+            email: form.email.trim(),
+            message: form.message.trim(),
+            writtenAt: Date.now(),
+        };
+        setIsSending(true);
+        try {
+            setResult({ id: message.id, outcome: await submitContactMessage(message) });
+            setForm(emptyContactForm());
+            setTouched({});
+        } catch (err) {
+            console.error('Error sending contact message:', err);
+            setFormError(err instanceof ApiError ? err.message : m.contact.sendError);
+        } finally {
+            setIsSending(false);
+        }
     };
 
+    const fieldProps = (field: ContactField) => ({
+        id: `contact-${field}`,
+        name: field,
+        value: form[field],
+        onBlur: () => handleBlur(field),
+        'aria-invalid': !!errors[field],
+        'aria-describedby': errors[field] ? `contact-${field}-error` : undefined,
+    });
+    const fieldError = (field: ContactField) =>
+        errors[field] && <p id={`contact-${field}-error`} className="field-error">{m.contact.errors[errors[field]!]}</p>;
+
+    const isQueued = result?.outcome === 'queued' && queuedIds.includes(result.id);
+
     return (
      <div className="page-container">
         <div className="page-header">
-          <h1>Ponte en Contacto</h1>
-          <p>¿Tienes una idea o una pregunta? Estamos aquí para ayudarte a darle forma.</p>
+          <h1>{m.contact.title}</h1>
+          <p>{m.contact.subtitle}</p>
         </div>
         <div className="page-content">
             <div className="contact-layout">
                 <div className="contact-info">
-                    <h3>Información de Contacto</h3>
-                    <p><strong>Dirección:</strong> Av. de la Madera 123, Ciudad Creativa, 45678</p>
-                    <p><strong>Teléfono:</strong> +34 912 345 678</p>
-                    <p><strong>Email:</strong> hola@maderarte.design</p>
-                    <p><strong>Horario:</strong> Lunes a Viernes, de 9:00 a 18:00</p>
+                    <h3>{m.contact.infoTitle}</h3>
+                    <p><strong>{m.contact.address}:</strong> Av. de la Madera 123, Ciudad Creativa, 45678</p>
+                    <p><strong>{m.contact.phone}:</strong> +34 912 345 678</p>
+                    <p><strong>{m.contact.email}:</strong> hola@maderarte.design</p>
+                    <p><strong>{m.contact.hours}:</strong> {m.contact.hoursValue}</p>
                 </div>
                 <div className="contact-form-container">
-                    {submitted ? (
-                        <div className="form-success">
-                            <h4>¡Gracias por tu mensaje!</h4>
-                            <p>Hemos recibido tu consulta y nos pondremos en contacto contigo a la brevedad.</p>
-                        </div>
+                    {result ? (
+                        isQueued ? (
+                            <div className="form-success form-queued">
+                                <h4>{m.contact.queuedTitle}</h4>
+                                <p>{m.contact.queuedText}</p>
+                                <button className="secondary-button" onClick={() => setResult(null)}>{m.contact.another}</button>
+                            </div>
+                        ) : (
+                            <div className="form-success">
+                                <h4>{m.contact.sentTitle}</h4>
+                                <p>{m.contact.sentText}</p>
+                                <button className="secondary-button" onClick={() => setResult(null)}>{m.contact.another}</button>
+                            </div>
+                        )
                     ) : (
-                        <form className="contact-form" onSubmit={handleSubmit}>
-                            <h3>Envíanos un Mensaje</h3>
-                            <div className="form-group">
-                                <label htmlFor="name">Nombre</label>
-                                <input type="text" id="name" name="name" required />
+                        <form className="contact-form" onSubmit={handleSubmit} noValidate>
+                            <h3>{m.contact.formTitle}</h3>
+                            {queuedIds.length > 0 && (
+                                <p className="contact-outbox">{m.contact.outbox(queuedIds.length)}</p>
+                            )}
+                            <div className={`form-group ${errors.name ? 'has-error' : ''}`}>
+                                <label htmlFor="contact-name">{m.contact.name}</label>
+                                <input type="text" autoComplete="name" maxLength={NAME_MAX_LENGTH} {...fieldProps('name')} onChange={e => updateField('name', e.target.value)} />
+                                {fieldError('name')}
+                            </div>
+                            <div className={`form-group ${errors.email ? 'has-error' : ''}`}>
+                                <label htmlFor="contact-email">{m.contact.email}</label>
+                                <input type="email" autoComplete="email" {...fieldProps('email')} onChange={e => updateField('email', e.target.value)} />
+                                {fieldError('email')}
+                            </div>
+                            <div className={`form-group ${errors.projectType ? 'has-error' : ''}`}>
+                                <label htmlFor="contact-projectType">{m.contact.projectType} <span className="optional-label">{m.common.optional}</span></label>
+                                <select {...fieldProps('projectType')} onChange={e => updateField('projectType', e.target.value)}>
+                                    <option value="">{m.contact.unspecified}</option>
+                                    {SPACE_TYPES.map(space => <option key={space.slug} value={space.slug}>{servicePageText(m, space).name}</option>)}
+                                </select>
+                                {fieldError('projectType')}
                             </div>
-                            <div className="form-group">
-                                <label htmlFor="email">Email</label>
-                                <input type="email" id="email" name="email" required />
+                            <div className={`form-group ${errors.message ? 'has-error' : ''}`}>
+                                <label htmlFor="contact-message">{m.contact.message}</label>
+                                <textarea rows={5} maxLength={MESSAGE_MAX_LENGTH} {...fieldProps('message')} onChange={e => updateField('message', e.target.value)}></textarea>
+                                {fieldError('message')}
                             </div>
-                            <div className="form-group">
-                                <label htmlFor="message">Mensaje</label>
-                                <textarea id="message" name="message" rows={5} required></textarea>
+                            {/* Honeypot: off-screen and skipped by keyboard and screen readers, so only bots fill it in. */}
+                            <div className="contact-honeypot" aria-hidden="true">
+                                <label htmlFor="contact-website">{m.contact.website}</label>
+                                <input type="text" id="contact-website" name="website" tabIndex={-1} autoComplete="off" value={form.website} onChange={e => updateField('website', e.target.value)} />
                             </div>
-                            <button type="submit" className="cta-button">Enviar Mensaje</button>
+                            {formError && <p className="error-message">{formError}</p>}
+                            <button type="submit" className="cta-button" disabled={isSending}>{isSending ? m.contact.sending : m.contact.send}</button>
                         </form>
                     )}
                 </div>
@@ -704,61 +1263,71 @@ const ContactPage = () => {
     );
 };
 
-const PrivatePage = ({ state, onSelectSpace, onFileChange, onAnalyzeSpace, onRefineImage, onRequestQuote, onReset, onCatDetailsSubmit, onCatCountChange, onCatDetailChange, onBack }: {
+const PrivatePage = ({ state, onSelectSpace, onFileChange, onAnalyzeSpace, onRefineImage, onSelectVersion, onSelectPhoto, onRequestQuote, onSubmitRequest, onRetrySubmission, onQuoteSelectionChange, onReset, onCatDetailsSubmit, onCatCountChange, onCatDetailChange, onBack, onDimensionChange, onUnitSystemChange, onFloorPlanChange, onFloorPlanReset, onToggleSuggestionItem, onCancelAITask }: {
   state: AppState,
   onSelectSpace: (space: string) => void,
   onFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void,
   onAnalyzeSpace: () => void,
-  onRefineImage: (prompt: string) => void,
+  onRefineImage: (prompt: string, baseVersionId: string | null, applyToAllViews: boolean) => void,
+  onSelectVersion: (versionId: string | null) => void,
+  onSelectPhoto: (photoIndex: number) => void,
   onRequestQuote: () => void,
+  onSubmitRequest: (contact: ContactDetails, quoteSelection: QuoteSelection) => void,
+  onRetrySubmission: () => void,
+  onQuoteSelectionChange: (selection: QuoteSelection) => void,
   onReset: () => void,
   onCatDetailsSubmit: (cats: CatDetails[]) => void,
   onCatCountChange: (count: number) => void,
-  onCatDetailChange: (index: number, field: 'size' | 'age', value: string) => void,
-  onBack: () => void
+  onCatDetailChange: (index: number, changes: Partial<CatDetails>) => void,
+  onBack: () => void,
+  onDimensionChange: (key: DimensionKey, metres: number) => void,
+  onUnitSystemChange: (system: UnitSystem) => void,
+  onFloorPlanChange: (plan: FloorPlan) => void,
+  onFloorPlanReset: () => void,
+  onToggleSuggestionItem: (suggestionIndex: number, itemId: string) => void,
+  onCancelAITask: () => void
 }) => {
-    const isCatFlow = state.selectedSpace === 'Espacio para Gatos';
-    const steps = isCatFlow
-      ? ["Seleccionar Espacio", "Detalles Felinos", "Cargar Fotos", "Diseño y Refinamiento", "Confirmación"]
-      : ["Seleccionar Espacio", "Cargar Fotos", "Diseño y Refinamiento", "Confirmación"];
+    const { m } = useI18n();
+    const steps = studioSteps(state.selectedSpace);
+
+    const renderQuoteStep = (stepNumber: number) => state.aiResponse && (
+        <QuoteStep
+            analysis={state.aiResponse}
+            spaceType={state.selectedSpace}
+            floorPlan={state.floorPlan}
+            selection={state.quoteSelection}
+            onSelectionChange={onQuoteSelectionChange}
+            contact={state.submission?.contact ?? { ...emptyContact(), name: state.session?.user.name ?? '', email: state.session?.user.email ?? '' }}
+            onBack={onBack}
+            onSubmit={onSubmitRequest}
+            stepNumber={stepNumber}
+        />
+    );
 
     const renderStepContent = () => {
-        const step = state.designStep;
-        
-        if (step === 1) {
-            return <SelectSpace onSelect={onSelectSpace} />;
-        }
-        
-        if (isCatFlow) {
-            // Cat Flow: 1=Select, 2=Details, 3=Upload, 4=Studio, 5=Confirm
-            switch (step) {
-                case 2: return <CatDetailsStep 
-                    cats={state.cats} 
-                    onCatCountChange={onCatCountChange} 
-                    onCatDetailChange={onCatDetailChange} 
-                    onSubmit={onCatDetailsSubmit} 
-                    onBack={onBack}
-                />;
-                case 3: return <UploadStep state={state} onFileChange={onFileChange} onAnalyze={onAnalyzeSpace} onBack={onBack} stepNumber={3} />;
-                case 4: return <DesignStudio state={state} onRefine={onRefineImage} onQuote={onRequestQuote} onBack={onBack} stepNumber={4} />;
-                case 5: return <Confirmation onReset={onReset} />;
-                default: return <SelectSpace onSelect={onSelectSpace} />;
-            }
-        } else {
-            // Normal Flow: 1=Select, 2=Upload, 3=Studio, 4=Confirm
-            switch (step) {
-                case 2: return <UploadStep state={state} onFileChange={onFileChange} onAnalyze={onAnalyzeSpace} onBack={onBack} stepNumber={2} />;
-                case 3: return <DesignStudio state={state} onRefine={onRefineImage} onQuote={onRequestQuote} onBack={onBack} stepNumber={3} />;
-                case 4: return <Confirmation onReset={onReset} />;
-                default: return <SelectSpace onSelect={onSelectSpace} />;
-            }
+        const stepNumber = state.designStep;
+        const step: StudioStep = steps[stepNumber - 1] ?? 'select';
+        switch (step) {
+            case 'select': return <SelectSpace onSelect={onSelectSpace} />;
+            case 'cats': return <CatDetailsStep 
+                cats={state.cats} 
+                onCatCountChange={onCatCountChange} 
+                onCatDetailChange={onCatDetailChange} 
+                onSubmit={onCatDetailsSubmit} 
+                onBack={onBack}
+                stepNumber={stepNumber}
+            />;
+            case 'upload': return <UploadStep state={state} onFileChange={onFileChange} onAnalyze={onAnalyzeSpace} onBack={onBack} stepNumber={stepNumber} />;
+            case 'design': return <DesignStudio state={state} onRefine={onRefineImage} onSelectVersion={onSelectVersion} onSelectPhoto={onSelectPhoto} onQuote={onRequestQuote} onBack={onBack} onDimensionChange={onDimensionChange} onUnitSystemChange={onUnitSystemChange} onFloorPlanChange={onFloorPlanChange} onFloorPlanReset={onFloorPlanReset} onToggleSuggestionItem={onToggleSuggestionItem} stepNumber={stepNumber} />;
+            case 'quote': return renderQuoteStep(stepNumber);
+            case 'confirm': return <Confirmation state={state} onRetry={onRetrySubmission} onReset={onReset} />;
         }
     };
 
     return (
         <div className="private-page">
-            <Stepper currentStep={state.designStep} steps={steps} />
-            {state.isLoading && <LoadingOverlay />}
+            <Stepper currentStep={state.designStep} steps={steps.map(step => m.stepper[step])} />
+            {state.isLoading && <LoadingOverlay progress={state.aiProgress} onCancel={onCancelAITask} />}
             {renderStepContent()}
             {state.error && <div className="error-message">{state.error}</div>}
         </div>
@@ -766,20 +1335,21 @@ const PrivatePage = ({ state, onSelectSpace, onFileChange, onAnalyzeSpace, onRef
 };
 
 const Stepper = ({ currentStep, steps }: { currentStep: number, steps: string[] }) => {
+    const { m } = useI18n();
     return (
-        <div className="stepper" role="navigation" aria-label="Progreso del diseño">
+        <div className="stepper" role="navigation" aria-label={m.stepper.label}>
             {steps.map((step, index) => {
                 const stepNumber = index + 1;
                 let stepClass = "step-item";
                 let statusText = '';
                 if (stepNumber < currentStep) {
                     stepClass += " completed";
-                    statusText = 'completado';
+                    statusText = m.stepper.completed;
                 } else if (stepNumber === currentStep) {
                     stepClass += " active";
-                    statusText = 'actual';
+                    statusText = m.stepper.current;
                 } else {
-                    statusText = 'siguiente';
+                    statusText = m.stepper.next;
                 }
 
                 return (
@@ -787,7 +1357,7 @@ const Stepper = ({ currentStep, steps }: { currentStep: number, steps: string[]
                         <div className="step-number" aria-hidden="true">{stepNumber < currentStep ? '✔' : stepNumber}</div>
                         <div className="step-label" aria-current={stepNumber === currentStep ? "step" : undefined}>
                             {step}
-                            <span className="visually-hidden">, Paso {stepNumber}, {statusText}</span>
+                            <span className="visually-hidden">{m.stepper.status(stepNumber, statusText)}</span>
                         </div>
                     </div>
                 );
@@ -796,46 +1366,35 @@ const Stepper = ({ currentStep, steps }: { currentStep: number, steps: string[]
     );
 };
 
-const SelectSpace = ({ onSelect }: { onSelect: (space: string) => void }) => (
+const SelectSpace = ({ onSelect }: { onSelect: (space: string) => void }) => {
+    const { m } = useI18n();
+    return (
     <div className="step-container">
-        <h2>Bienvenido a tu Estudio de Diseño</h2>
-        <p>¿Qué espacio te gustaría transformar hoy?</p>
+        <h2>{m.selectSpace.title}</h2>
+        <p>{m.selectSpace.question}</p>
         <div className="space-selection">
-            <button onClick={() => onSelect('Sala')}>
-                <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M20 9V6a2 2 0 0 0-2-2H6a2 2 0 0 0-2 2v3"/><path d="M2 11h20"/><path d="M4 11v5a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2v-5"/></svg>
-                <span>Sala</span>
-            </button>
-             <button onClick={() => onSelect('Habitación')}>
-                <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M2 12h20v6H2z"/><path d="M2 10V6a2 2 0 0 1 2-2h16a2 2 0 0 1 2 2v4H2z"/><path d="M6 8v2"/><path d="M18 8v2"/></svg>
-                <span>Habitación</span>
-            </button>
-            <button onClick={() => onSelect('Estudio')}>
-                <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M2 3h6a4 4 0 0 1 4 4v14a3 3 0 0 0-3-3H2z"/><path d="M22 3h-6a4 4 0 0 0-4 4v14a3 3 0 0 1 3-3h7z"/></svg>
-                <span>Estudio</span>
-            </button>
-            <button onClick={() => onSelect('Cocina')}>
-                 <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 14H3v6a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-6z"/><path d="M3 14V4a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2v10"/><path d="M15 8v2"/><path d="M9 8v2"/></svg>
-                <span>Cocina</span>
-            </button>
-            <button onClick={() => onSelect('Baño')}>
-                <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 10H3v8a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-8z"/><path d="M5 10V7a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2v3"/><path d="M7 15v-3"/></svg>
-                <span>Baño</span>
-            </button>
-            <button onClick={() => onSelect('Espacio para Gatos')} className="cat-button">
-                 <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 5c.67 0 1.35.09 2 .26 1.78-2 5.03-2.84 6.42-2.08.39.21.61.62.58.97-.02.2-.12.39-.28.52-1.14.93-2.24 2.44-2.65 4.31a9.23 9.23 0 0 1-1.25 4.3-1.001 1.001 0 0 1-1.5-.42 1 1 0 0 0-1.6- .33c-1.22.95-2.64 1.4-4.1 1.4-4.42 0-8-3.58-8-8s3.58-8 8-8c.46 0 .91.04 1.35.12"/></svg>
-                <span>Espacio para Gatos</span>
-            </button>
+            {SPACE_TYPES.map(space => (
+                <button key={space.id} onClick={() => onSelect(space.id)} className={space.featured ? 'featured-space' : undefined}>
+                    <SpaceIcon space={space} />
+                    <span>{spaceName(m, space.id)}</span>
+                </button>
+            ))}
         </div>
     </div>
-);
+    );
+};
 
-const CatDetailsStep = ({ cats, onCatCountChange, onCatDetailChange, onSubmit, onBack }: {
+const toggled = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(item => item !== value) : [...list, value]);
+
+const CatDetailsStep = ({ cats, onCatCountChange, onCatDetailChange, onSubmit, onBack, stepNumber }: {
   cats: CatDetails[],
   onCatCountChange: (count: number) => void,
-  onCatDetailChange: (index: number, field: 'size' | 'age', value: string) => void,
+  onCatDetailChange: (index: number, changes: Partial<CatDetails>) => void,
   onSubmit: (cats: CatDetails[]) => void,
   onBack: () => void,
+  stepNumber: number,
 }) => {
+  const { m } = useI18n();
   const isFormComplete = cats.every(cat => cat.size && cat.age);
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -847,11 +1406,11 @@ const CatDetailsStep = ({ cats, onCatCountChange, onCatDetailChange, onSubmit, o
 
   return (
     <div className="step-container cat-details-step">
-      <h2>Paso 2: Detalles Felinos</h2>
-      <p>Cuéntanos más sobre tus compañeros para crear el espacio perfecto para ellos.</p>
+      <h2>{m.cats.title(stepNumber)}</h2>
+      <p>{m.cats.intro}</p>
       <form onSubmit={handleSubmit}>
         <div className="form-group">
-          <label htmlFor="cat-count">¿Cuántos gatos tienes?</label>
+          <label htmlFor="cat-count">{m.cats.count}</label>
           <select 
             id="cat-count" 
             value={cats.length} 
@@ -863,42 +1422,96 @@ const CatDetailsStep = ({ cats, onCatCountChange, onCatDetailChange, onSubmit, o
 
         {cats.map((cat, index) => (
           <div className="cat-form-group" key={index}>
-            <h4>Gato {index + 1}</h4>
+            <h4>{cat.name.trim() || m.cats.fallbackName(index + 1)}</h4>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor={`cat-name-${index}`}>{m.cats.name}</label>
+                <input
+                  id={`cat-name-${index}`}
+                  type="text"
+                  value={cat.name}
+                  placeholder={m.cats.fallbackName(index + 1)}
+                  onChange={(e) => onCatDetailChange(index, { name: e.target.value })}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor={`cat-weight-${index}`}>{m.cats.weight}</label>
+                <input
+                  id={`cat-weight-${index}`}
+                  type="number"
+                  min={0.5}
+                  max={15}
+                  step={0.1}
+                  value={cat.weightKg ?? ''}
+                  onChange={(e) => onCatDetailChange(index, { weightKg: e.target.valueAsNumber > 0 ? e.target.valueAsNumber : null })}
+                />
+              </div>
+            </div>
             <div className="form-row">
               <div className="form-group">
-                <label htmlFor={`cat-size-${index}`}>Tamaño</label>
+                <label htmlFor={`cat-size-${index}`}>{m.cats.size}</label>
                 <select 
                   id={`cat-size-${index}`} 
                   value={cat.size} 
-                  onChange={(e) => onCatDetailChange(index, 'size', e.target.value)}
+                  onChange={(e) => onCatDetailChange(index, { size: e.target.value })}
                   required
                 >
-                  <option value="" disabled>Selecciona un tamaño</option>
-                  <option value="pequeño">Pequeño (hasta 4kg)</option>
-                  <option value="mediano">Mediano (4-6kg)</option>
-                  <option value="grande">Grande (más de 6kg)</option>
+                  <option value="" disabled>{m.cats.sizePlaceholder}</option>
+                  {Object.entries(m.cats.sizes).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
                 </select>
               </div>
               <div className="form-group">
-                <label htmlFor={`cat-age-${index}`}>Edad</label>
+                <label htmlFor={`cat-age-${index}`}>{m.cats.age}</label>
                 <select 
                   id={`cat-age-${index}`} 
                   value={cat.age} 
-                  onChange={(e) => onCatDetailChange(index, 'age', e.target.value)}
+                  onChange={(e) => onCatDetailChange(index, { age: e.target.value })}
                   required
                 >
-                  <option value="" disabled>Selecciona una edad</option>
-                  <option value="joven">Joven (0-2 años)</option>
-                  <option value="adulto">Adulto (2-10 años)</option>
-                  <option value="viejito">Viejito (más de 10 años)</option>
+                  <option value="" disabled>{m.cats.agePlaceholder}</option>
+                  {Object.entries(m.cats.ages).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
                 </select>
               </div>
             </div>
+            <fieldset className="cat-checkboxes">
+              <legend>{m.cats.mobility}</legend>
+              {(Object.keys(m.cats.mobilityIssues) as CatMobilityIssue[]).map(issue => (
+                <label key={issue}>
+                  <input
+                    type="checkbox"
+                    checked={cat.mobilityIssues.includes(issue)}
+                    onChange={() => onCatDetailChange(index, { mobilityIssues: toggled(cat.mobilityIssues, issue) })}
+                  />
+                  {m.cats.mobilityIssues[issue]}
+                </label>
+              ))}
+            </fieldset>
+            <fieldset className="cat-checkboxes">
+              <legend>{m.cats.traits}</legend>
+              {(Object.keys(m.cats.traitNames) as CatTrait[]).map(trait => (
+                <label key={trait}>
+                  <input
+                    type="checkbox"
+                    checked={cat.traits.includes(trait)}
+                    onChange={() => onCatDetailChange(index, { traits: toggled(cat.traits, trait) })}
+                  />
+                  {m.cats.traitNames[trait]}
+                </label>
+              ))}
+            </fieldset>
           </div>
         ))}
+        {isFormComplete && (
+          <div className="cat-rules-summary">
+            <h4>{m.cats.rulesTitle}</h4>
+            <ul>
+              {describeRules(householdRules(cats), m.cats.rules).map(line => <li key={line}>{line}</li>)}
+            </ul>
+          </div>
+        )}
         <div className="step-navigation">
-            <button type="button" className="secondary-button" onClick={onBack}>Volver</button>
-            <button type="submit" className="cta-button" disabled={!isFormComplete}>Continuar a Cargar Fotos</button>
+            <button type="button" className="secondary-button" onClick={onBack}>{m.common.back}</button>
+            <button type="submit" className="cta-button" disabled={!isFormComplete}>{m.cats.continue}</button>
         </div>
       </form>
     </div>
@@ -906,140 +1519,406 @@ const CatDetailsStep = ({ cats, onCatCountChange, onCatDetailChange, onSubmit, o
 };
 
 
-const UploadStep = ({ state, onFileChange, onAnalyze, onBack, stepNumber }: { state: AppState, onFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void, onAnalyze: () => void, onBack: () => void, stepNumber: number }) => (
+const ScaleBadge = ({ measurement }: { measurement: ScaleMeasurement | null | undefined }) => {
+  const { locale, m } = useI18n();
+  if (!measurement) return <span className="scale-badge pending">{m.scale.searching}</span>;
+  const pixelsPerMetre = formatNumber(locale, Math.round(measurement.pixelsPerMetre ?? 0));
+  switch (measurement.status) {
+    case 'ok':
+      return <span className="scale-badge ok" title={m.scale.markers(measurement.markersFound)}>{m.scale.ok(pixelsPerMetre)}</span>;
+    case 'partial':
+      return <span className="scale-badge partial" title={m.scale.partialHint}>{m.scale.partial(pixelsPerMetre)}</span>;
+    case 'oblique':
+      return <span className="scale-badge warning" title={m.scale.obliqueHint}>{m.scale.oblique}</span>;
+    default:
+      return <span className="scale-badge warning" title={m.scale.missingHint}>{m.scale.missing}</span>;
+  }
+};
+
+/** Data URL of an uploaded photo, with its real type: older projects may hold PNG or WebP originals. */
+const photoSrc = (state: AppState, index: number) =>
+  `data:${state.uploadedImages[index]?.type || 'image/jpeg'};base64,${state.uploadedImageBase64s[index]}`;
+
+const QualityBadges = ({ issues }: { issues: PhotoIssue[] | undefined }) => {
+  const { m } = useI18n();
+  return <>{issues?.map(issue => <span key={issue} className="quality-badge" title={m.upload.qualityHints[issue]}>{m.upload.quality[issue]}</span>)}</>;
+};
+
+const UploadStep = ({ state, onFileChange, onAnalyze, onBack, stepNumber }: { state: AppState, onFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void, onAnalyze: () => void, onBack: () => void, stepNumber: number }) => {
+    const { m } = useI18n();
+    const flaggedPhotos = state.scaleMeasurements.filter(measurement => measurement && (measurement.status === 'missing' || measurement.status === 'oblique')).length;
+    const poorPhotos = state.photoQuality.filter(quality => quality.issues.length > 0).length;
+    const space = state.selectedSpace ? spaceName(m, state.selectedSpace) : '';
+
+    const handleAnalyze = () => {
+      if (poorPhotos > 0 && !window.confirm(m.upload.confirmQuality(poorPhotos))) return;
+      onAnalyze();
+    };
+    return (
     <div className="step-container">
-        <h2>Paso {stepNumber}: Fotografía tu {state.selectedSpace}</h2>
+        <h2>{m.upload.title(stepNumber, space)}</h2>
         <div className="instructions">
-            <p>Para obtener un análisis preciso, sigue estos consejos:</p>
+            <p>{m.upload.intro}</p>
             <ol>
-                <li><strong>Descarga y prepara:</strong> Descarga e imprime nuestro objeto de referencia.</li>
-                <li><strong>Despeja el espacio:</strong> Retira todos los objetos móviles (sillas, mesas pequeñas, decoración) para tener una vista clara de la habitación.</li>
-                <li><strong>Ubica la referencia:</strong> Coloca el objeto de referencia en el suelo, preferiblemente contra una pared principal o en una esquina bien iluminada.</li>
-                <li><strong>Captura desde múltiples ángulos:</strong> Toma varias fotos desde diferentes ángulos para darnos una vista completa del espacio. Es crucial que el objeto de referencia sea claramente visible en <strong>TODAS</strong> las fotos.</li>
+                <li><strong>{m.upload.prepareTitle}</strong> {m.upload.prepare}</li>
+                <li><strong>{m.upload.clearTitle}</strong> {m.upload.clear}</li>
+                <li><strong>{m.upload.placeTitle}</strong> {m.upload.place}</li>
+                <li><strong>{m.upload.anglesTitle}</strong> {m.upload.angles} <strong>{m.upload.anglesAll}</strong> {m.upload.anglesEnd}</li>
             </ol>
-            <a href="/docs/referencia_escuadra_CSI_escalera.pdf" download="referencia_maderarte.pdf" className="secondary-button">Descargar Referencia</a>
+            <a href={referenceTargetURL(m.upload.sheet)} download={m.upload.downloadName} className="secondary-button">{m.upload.download}</a>
         </div>
         <div className="upload-area">
           <label htmlFor="file-upload" className="file-upload-label">
-            {state.uploadedImages.length > 0 ? `Archivos seleccionados: ${state.uploadedImages.length}` : 'Seleccionar Imágenes'}
+            {state.isPreparingPhotos
+              ? m.upload.preparing
+              : state.uploadedImages.length > 0 ? m.upload.selected(state.uploadedImages.length) : m.upload.select}
           </label>
-          <input id="file-upload" type="file" accept="image/*" onChange={onFileChange} multiple />
+          <input id="file-upload" type="file" accept="image/*" onChange={onFileChange} multiple disabled={state.isPreparingPhotos} />
+          <p className="upload-limit">{m.upload.limit(DEFAULT_PHOTO_OPTIONS.maxPhotos)}</p>
           {state.uploadedImageBase64s.length > 0 && (
             <div className="image-preview-gallery">
-              {state.uploadedImageBase64s.map((base64, index) => (
-                <img key={index} src={`data:image/jpeg;base64,${base64}`} alt={`Vista previa ${index + 1}`} className="image-preview-item"/>
+              {state.uploadedImageBase64s.map((_, index) => (
+                <figure key={index} className="image-preview-figure">
+                  <img src={photoSrc(state, index)} alt={m.upload.preview(index + 1)} className="image-preview-item"/>
+                  <ScaleBadge measurement={state.scaleMeasurements[index]} />
+                  <QualityBadges issues={state.photoQuality[index]?.issues} />
+                </figure>
               ))}
             </div>
           )}
+          {flaggedPhotos > 0 && (
+            <p className="scale-warning">{m.upload.flagged(flaggedPhotos)}</p>
+          )}
+          {poorPhotos > 0 && (
+            <p className="quality-warning">{m.upload.qualityWarning(poorPhotos)}</p>
+          )}
         </div>
         <div className="step-navigation">
-          <button className="secondary-button" onClick={onBack}>Volver</button>
-          <button className="cta-button" onClick={onAnalyze} disabled={state.uploadedImages.length === 0}>Analizar Espacio</button>
+          <button className="secondary-button" onClick={onBack}>{m.common.back}</button>
+          <button className="cta-button" onClick={handleAnalyze} disabled={state.uploadedImages.length === 0 || state.isPreparingPhotos}>{m.upload.analyze}</button>
         </div>
     </div>
-);
+    );
+};
 
-const DesignStudio = ({ state, onRefine, onQuote, onBack, stepNumber }: { state: AppState, onRefine: (p: string) => void, onQuote: () => void, onBack: () => void, stepNumber: number }) => {
+const DesignStudio = ({ state, onRefine, onSelectVersion, onSelectPhoto, onQuote, onBack, onDimensionChange, onUnitSystemChange, onFloorPlanChange, onFloorPlanReset, onToggleSuggestionItem, stepNumber }: { state: AppState, onRefine: (p: string, baseVersionId: string | null, applyToAllViews: boolean) => void, onSelectVersion: (versionId: string | null) => void, onSelectPhoto: (photoIndex: number) => void, onQuote: () => void, onBack: () => void, onDimensionChange: (key: DimensionKey, metres: number) => void, onUnitSystemChange: (system: UnitSystem) => void, onFloorPlanChange: (plan: FloorPlan) => void, onFloorPlanReset: () => void, onToggleSuggestionItem: (suggestionIndex: number, itemId: string) => void, stepNumber: number }) => {
+    const { m } = useI18n();
     const [refinePrompt, setRefinePrompt] = useState('');
+    // The proposal drawn over the plan; hidden once its items are placed as real furniture.
+    const [activeSuggestion, setActiveSuggestion] = useState<number | null>(
+        state.floorPlan?.furniture.length ? null : state.quoteSelection?.suggestionIndex ?? 0
+    );
+    const [buildOnCurrent, setBuildOnCurrent] = useState(true);
+    const [applyToAllViews, setApplyToAllViews] = useState(false);
     const { aiResponse } = state;
+    const photoCount = state.uploadedImageBase64s.length;
+    const currentVersion = state.renderVersions.find(version => version.id === state.currentVersionId);
+    const viewVersions = state.renderVersions.filter(version => version.photoIndex === state.selectedPhotoIndex);
+    const batchVersions = currentVersion?.batchId
+        ? state.renderVersions.filter(version => version.batchId === currentVersion.batchId).sort((a, b) => a.photoIndex - b.photoIndex)
+        : [];
+    const baseVersionId = buildOnCurrent ? state.currentVersionId : null;
+    const fileStem = fileStemOf(state.projectName);
 
     const handleRefineSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        if(refinePrompt.trim()) onRefine(refinePrompt);
+        if(refinePrompt.trim()) onRefine(refinePrompt, baseVersionId, applyToAllViews);
     };
 
-    const handleSuggestionClick = (description: string) => {
-      onRefine(description);
+    const handleRenderSuggestion = (suggestion: DesignSuggestion) => {
+      setActiveSuggestion(aiResponse?.suggestions.indexOf(suggestion) ?? null);
+      onRefine(suggestionRenderPrompt(suggestion, m), baseVersionId, applyToAllViews);
+    };
+
+    const handlePlaceSuggestion = (suggestion: DesignSuggestion) => {
+      if (!state.floorPlan) return;
+      onFloorPlanChange(placeSuggestion(state.floorPlan, suggestion));
+      setActiveSuggestion(null);
+    };
+
+    const overlaySuggestion = activeSuggestion === null ? undefined : aiResponse?.suggestions[activeSuggestion];
+
+    const showBatchVersion = (photoIndex: number, versionId: string) => {
+      onSelectPhoto(photoIndex);
+      onSelectVersion(versionId);
     };
 
     return (
     <div className="design-studio">
-        <h2>Paso {stepNumber}: Visualiza y Refina tu Diseño</h2>
+        <h2>{m.studio.title(stepNumber)}</h2>
         <div className="studio-layout">
             <div className="studio-panel image-panel">
-                <h3>Tu Espacio Transformado</h3>
-                <p>Esta es una interpretación de la IA basada en tus peticiones. ¿Qué te gustaría cambiar?</p>
-                <img 
-                    src={state.editedImageBase64 ? `data:image/jpeg;base64,${state.editedImageBase64}` : `data:image/jpeg;base64,${state.uploadedImageBase64s[0]}`} 
-                    alt="Diseño generado" 
-                    className="generated-image"
-                />
+                <h3>{m.studio.imageTitle}</h3>
+                <p>{m.studio.imageText}</p>
+                {photoCount > 1 && (
+                    <div className="view-picker" role="group" aria-label={m.studio.viewPicker}>
+                        {state.uploadedImageBase64s.map((_, index) => (
+                            <button
+                                key={index}
+                                type="button"
+                                className={`view-thumb${index === state.selectedPhotoIndex ? ' active' : ''}`}
+                                aria-pressed={index === state.selectedPhotoIndex}
+                                onClick={() => onSelectPhoto(index)}
+                            >
+                                <img src={photoSrc(state, index)} alt="" />
+                                <span>{m.studio.view(index + 1)}</span>
+                            </button>
+                        ))}
+                    </div>
+                )}
+                {currentVersion ? (
+                    <BeforeAfterViewer
+                        beforeSrc={photoSrc(state, state.selectedPhotoIndex)}
+                        afterSrc={`data:${currentVersion.mimeType};base64,${currentVersion.imageBase64}`}
+                        afterLabel={m.studio.generated(currentVersion.prompt)}
+                        fileName={`antes_despues_${fileStem}`}
+                    />
+                ) : (
+                    <img 
+                        src={photoSrc(state, state.selectedPhotoIndex)} 
+                        alt={m.studio.yourSpace}
+                        className="generated-image"
+                    />
+                )}
+                {viewVersions.length > 0 && (
+                    <VersionTimeline
+                        versions={viewVersions}
+                        currentVersionId={state.currentVersionId}
+                        originalSrc={photoSrc(state, state.selectedPhotoIndex)}
+                        onSelect={onSelectVersion}
+                    />
+                )}
+                {batchVersions.length > 1 && (
+                    <div className="batch-gallery">
+                        <h4>{m.studio.allViews}</h4>
+                        <div className="batch-gallery-grid">
+                            {batchVersions.map(version => (
+                                <button
+                                    key={version.id}
+                                    type="button"
+                                    className={`batch-gallery-item${version.id === state.currentVersionId ? ' active' : ''}`}
+                                    onClick={() => showBatchVersion(version.photoIndex, version.id)}
+                                >
+                                    <img src={`data:${version.mimeType};base64,${version.imageBase64}`} alt={m.studio.viewWithDesign(version.photoIndex + 1)} />
+                                    <span>{m.studio.view(version.photoIndex + 1)}</span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                {currentVersion && (
+                    <div className="refine-base" role="radiogroup" aria-label={m.studio.refineBase}>
+                        <label>
+                            <input type="radio" checked={buildOnCurrent} onChange={() => setBuildOnCurrent(true)} />
+                            {m.studio.fromCurrent}
+                        </label>
+                        <label>
+                            <input type="radio" checked={!buildOnCurrent} onChange={() => setBuildOnCurrent(false)} />
+                            {m.studio.fromOriginal}
+                        </label>
+                    </div>
+                )}
+                {photoCount > 1 && (
+                    <label className="apply-all-views">
+                        <input type="checkbox" checked={applyToAllViews} onChange={(e) => setApplyToAllViews(e.target.checked)} />
+                        {m.studio.applyAll(photoCount)}
+                    </label>
+                )}
                 <form className="refine-form" onSubmit={handleRefineSubmit}>
                     <input 
                         type="text" 
                         value={refinePrompt}
                         onChange={(e) => setRefinePrompt(e.target.value)}
-                        placeholder="Ej: 'Añade una librería de nogal en la pared derecha'"
-                        aria-label="Prompt para refinar el diseño"
+                        placeholder={m.studio.refinePlaceholder}
+                        aria-label={m.studio.refineLabel}
                     />
-                    <button type="submit" disabled={!refinePrompt.trim()}>Refinar</button>
+                    <button type="submit" disabled={!refinePrompt.trim()}>{m.studio.refine}</button>
                 </form>
             </div>
             <div className="studio-panel details-panel">
-                <h3>Análisis y Sugerencias de la IA</h3>
+                <h3>{m.studio.analysisTitle}</h3>
                 {aiResponse && <>
                     <div className="detail-section">
-                        <h4>Dimensiones Estimadas</h4>
-                        <p>{aiResponse.dimensions}</p>
+                        <h4>{m.studio.dimensions}</h4>
+                        <DimensionsEditor
+                            dimensions={aiResponse.dimensions}
+                            unitSystem={state.unitSystem}
+                            onChange={onDimensionChange}
+                            onUnitSystemChange={onUnitSystemChange}
+                        />
                     </div>
                      <div className="detail-section">
-                        <h4>Plano 2D</h4>
+                        <h4>{m.studio.sketch}</h4>
                         <div className="svg-container" dangerouslySetInnerHTML={{ __html: sanitizeSVG(aiResponse.floorPlan) }} />
+                        <p className="dimensions-hint">{m.studio.sketchHint}</p>
                     </div>
                     <div className="detail-section">
-                        <h4>Estilo Actual</h4>
+                        <h4>{m.studio.currentStyle}</h4>
                         <p>{aiResponse.currentStyle}</p>
                     </div>
                     <div className="detail-section">
-                        <h4>Sugerencias de Diseño</h4>
-                        {aiResponse.suggestions.map((s, i) => (
-                          <div key={i} className="suggestion-card" onClick={() => handleSuggestionClick(s.description)}>
-                            <h5>{s.styleName}</h5>
-                            <p>{s.description}</p>
-                          </div>
-                        ))}
+                        <h4>{m.studio.suggestions}</h4>
+                        <SuggestionList
+                            suggestions={aiResponse.suggestions}
+                            activeIndex={activeSuggestion ?? -1}
+                            canPlace={state.floorPlan !== null}
+                            onActivate={(index) => setActiveSuggestion(index === activeSuggestion ? null : index)}
+                            onToggleItem={onToggleSuggestionItem}
+                            onRender={handleRenderSuggestion}
+                            onPlace={handlePlaceSuggestion}
+                        />
                     </div>
                 </>}
                 <div className="step-navigation">
-                    <button className="secondary-button" onClick={onBack}>Volver</button>
-                    <button className="cta-button" onClick={onQuote}>¡Me encanta! Solicitar Cotización</button>
+                    <button className="secondary-button" onClick={onBack}>{m.common.back}</button>
+                    <button className="cta-button" onClick={onQuote}>{m.studio.quote}</button>
                 </div>
             </div>
         </div>
+        {state.floorPlan && (
+            <div className="studio-panel plan-panel">
+                <h3>{m.studio.plan}</h3>
+                <FloorPlanEditor
+                    plan={state.floorPlan}
+                    unitSystem={state.unitSystem}
+                    fileName={`plano_${fileStem}`}
+                    defaultWoodId={state.quoteSelection?.woodId ?? state.aiResponse?.suggestions[0]?.woodId}
+                    overlay={overlaySuggestion && enabledItems(overlaySuggestion)}
+                    onChange={onFloorPlanChange}
+                    onReset={onFloorPlanReset}
+                />
+            </div>
+        )}
+        {state.floorPlan && state.aiResponse && hasCatStep(state.selectedSpace) && (
+            <div className="studio-panel cat-highway-panel">
+                <h3>{m.studio.catHighway}</h3>
+                <CatHighwayPanel
+                    cats={state.cats}
+                    plan={state.floorPlan}
+                    // Rooms whose height the analysis could not estimate get a standard ceiling.
+                    roomHeight={metresOf(state.aiResponse.dimensions.height) || 2.5}
+                    fileName={`autopista_${fileStem}`}
+                />
+            </div>
+        )}
     </div>
 )};
 
-const Confirmation = ({ onReset }: { onReset: () => void }) => (
+const RequestStatus = ({ submission, onRetry, onDownload }: { submission: WorkshopSubmission, onRetry: () => void, onDownload: (file: string) => void }) => {
+    const { locale, m } = useI18n();
+    if (submission.status === null) {
+        return (
+            <div className="request-status pending" aria-live="polite">
+                {submission.lastError ? (
+                    <>
+                        <p className="error-message">{m.request.sendFailed(submission.lastError)}</p>
+                        <p>
+                            {submission.nextAttemptAt !== null
+                                ? m.request.willRetry
+                                : m.request.checkDetails}
+                        </p>
+                        <button type="button" className="secondary-button" onClick={onRetry}>{m.request.retry}</button>
+                    </>
+                ) : (
+                    <p>{m.request.sending}</p>
+                )}
+            </div>
+        );
+    }
+    const reached = REQUEST_STATUSES.findIndex(entry => entry.value === submission.status);
+    const quote = submission.finalQuote;
+    return (
+        <>
+            <ol className="request-status" aria-label={m.request.statusLabel}>
+                {REQUEST_STATUSES.map((entry, index) => (
+                    <li key={entry.value} className={index < reached ? 'done' : index === reached ? 'current' : ''} aria-current={index === reached ? 'step' : undefined}>
+                        {m.request.statuses[entry.value]}
+                    </li>
+                ))}
+            </ol>
+            {quote && (
+                <div className="request-final-quote">
+                    <h3>{m.request.finalQuote}</h3>
+                    <p className="quote-range">{formatMoney(locale, quote.total, quote.currency)}</p>
+                    {quote.validUntil && <p>{m.request.validUntil(formatDate(locale, new Date(`${quote.validUntil}T00:00`).getTime()))}</p>}
+                    {quote.message && <p>{quote.message}</p>}
+                    {quote.attachment && (
+                        <button type="button" className="secondary-button" onClick={() => onDownload(quote.attachment!.file)}>{m.request.download(quote.attachment.name)}</button>
+                    )}
+                </div>
+            )}
+        </>
+    );
+};
+
+const Confirmation = ({ state, onRetry, onReset }: { state: AppState, onRetry: () => void, onReset: () => void }) => {
+    const { m } = useI18n();
+    const { aiResponse, floorPlan, quoteSelection, submission } = state;
+    // Projects confirmed before requests were sent to the backend have no submission to track.
+    const isSending = submission !== null && submission.status === null;
+    const [downloadError, setDownloadError] = useState<string | null>(null);
+
+    const handleDownload = async (file: string) => {
+        if (!state.session || !submission) return;
+        setDownloadError(null);
+        try {
+            const quoteFile = await fetchRequestFile(state.session.token, submission.requestId, file);
+            const link = document.createElement('a');
+            link.href = `data:${quoteFile.mimeType};base64,${quoteFile.base64}`;
+            link.download = quoteFile.name;
+            link.click();
+        } catch (e) {
+            console.error('Error downloading quote:', e);
+            setDownloadError(m.confirmation.downloadError);
+        }
+    };
+    const suggestionIndex = quoteSelection?.suggestionIndex ?? 0;
+    const modules = useMemo(
+        () => aiResponse ? quoteModules(floorPlan, aiResponse, suggestionIndex).modules : [],
+        [aiResponse, floorPlan, suggestionIndex]
+    );
+    const woodId = quoteSelection?.woodId ?? aiResponse?.suggestions[suggestionIndex]?.woodId;
+
+    return (
     <div className="step-container text-center">
-        <h2>¡Diseño Enviado!</h2>
-        <p>Gracias por confiar en nosotros. Tu propuesta ha sido enviada a nuestro equipo de producción.</p>
-        <p>En breve nos pondremos en contacto contigo con una cotización detallada y los siguientes pasos.</p>
-        <button className="cta-button" onClick={onReset}>Crear un Nuevo Diseño</button>
+        <h2>{isSending ? m.confirmation.sendingTitle : m.confirmation.sentTitle}</h2>
+        {!isSending && <p>{m.confirmation.thanks}</p>}
+        {submission && <RequestStatus submission={submission} onRetry={onRetry} onDownload={handleDownload} />}
+        {downloadError && <p className="error-message">{downloadError}</p>}
+        <p>{m.confirmation.followUp(submission?.contact.email ?? m.confirmation.yourEmail)}</p>
+        <button className="cta-button" onClick={onReset}>{m.confirmation.newDesign}</button>
+        {woodId && modules.length > 0 && (
+            <details className="cut-list-details">
+                <summary>{m.confirmation.cutList}</summary>
+                <CutListPanel modules={modules} woodId={woodId} spaceType={state.selectedSpace} fileName={`${m.cutList.fileStem}_${fileStemOf(state.projectName)}`} />
+            </details>
+        )}
     </div>
-);
+    );
+};
 
-const LoadingOverlay = () => {
-    const messages = [
-        'Tallando tus ideas en madera...',
-        'Dando forma a tu espacio...',
-        'Un momento mientras la creatividad fluye...',
-        'Analizando las vetas del diseño...',
-        'Ensamblando los detalles...'
-    ];
-    const [currentMessage, setCurrentMessage] = useState(messages[0]);
+const LoadingOverlay = ({ progress, onCancel }: { progress?: AIProgress | null, onCancel?: () => void }) => {
+    const { m } = useI18n();
+    const messages = m.loading;
+    // The index rather than the text, so switching language mid-wait keeps the rotation going.
+    const [messageIndex, setMessageIndex] = useState(0);
     const messageId = "loading-message";
+    const isAITask = !!progress;
 
     useEffect(() => {
+        // AI tasks report their real stages instead of rotating messages.
+        if (isAITask) return;
         const intervalId = setInterval(() => {
-            setCurrentMessage(prev => {
-                const currentIndex = messages.indexOf(prev);
-                const nextIndex = (currentIndex + 1) % messages.length;
-                return messages[nextIndex];
-            });
+            setMessageIndex(index => (index + 1) % messages.length);
         }, 2500);
 
         return () => clearInterval(intervalId);
-    }, []);
+    }, [messages.length, isAITask]);
+
+    const stageLabel = (stage: AIStage) => stage === 'rendering' && progress?.view && progress.view.total > 1
+        ? m.progress.renderingView(progress.view.current, progress.view.total)
+        : m.progress.stages[stage];
+    const currentStage = progress ? progress.stages.indexOf(progress.stage) : -1;
 
     return (
         <div
@@ -1050,16 +1929,32 @@ const LoadingOverlay = () => {
             aria-live="assertive"
         >
             <div className="spinner"></div>
-            <p id={messageId}>{currentMessage}</p>
+            <p id={messageId}>{progress ? stageLabel(progress.stage) : messages[messageIndex % messages.length]}</p>
+            {progress && progress.stages.length > 1 && (
+                <ol className="loading-stages">
+                    {progress.stages.map((stage, index) => (
+                        <li key={stage} className={index < currentStage ? 'done' : index === currentStage ? 'current' : ''}>
+                            {stageLabel(stage)}
+                        </li>
+                    ))}
+                </ol>
+            )}
+            {progress && progress.retries > 0 && <p className="loading-retry">{m.progress.retrying(progress.retries)}</p>}
+            {progress && onCancel && (
+                <button type="button" className="secondary-button" onClick={onCancel}>{m.progress.cancel}</button>
+            )}
         </div>
     );
 };
 
-const Footer = () => (
+const Footer = () => {
+  const { m } = useI18n();
+  return (
   <footer>
-    <p>&copy; 2024 Maderarte. Todos los derechos reservados.</p>
+    <p>&copy; 2024 Maderarte. {m.footer.rights}</p>
   </footer>
-);
+  );
+};
 
 
 // --- Mount App ---
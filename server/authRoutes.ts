@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import type { DevDatabase, Route, RouteContext } from './devApi';
+import { bodyFields, fail, json } from './devApi';
+import type { StaffRole } from '../services/auth';
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+
+type DevUser = DevDatabase['users'][number];
+
+const hashPassword = (password: string, salt: string) =>
+  crypto.scryptSync(password, salt, 64).toString('hex');
+
+/** Compares in constant time, so response times do not reveal how much of a hash matched. */
+const passwordMatches = (user: DevUser, password: string) => {
+  if (!user.passwordHash) return false;
+  const expected = Buffer.from(user.passwordHash, 'hex');
+  const actual = Buffer.from(hashPassword(password, user.salt), 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+const normalizeEmail = (email: unknown) => (typeof email === 'string' ? email.trim().toLowerCase() : '');
+
+const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+/**
+ * A link to `path` on the app at `origin`, or to its home page when `path` is not a path on the
+ * site. The link carries a sign-in token, so it must never lead to another origin.
+ */
+const appLink = (origin: string, path: unknown) => {
+  const link = new URL(typeof path === 'string' && path.startsWith('/') && !path.startsWith('//') ? path : '/', origin);
+  // URL parsing drops tabs and newlines and reads backslashes as slashes, so `/\evil.example` still leaves the site.
+  return link.origin === origin ? link : new URL('/', origin);
+};
+
+const emailsIn = (variable: string) =>
+  (process.env[variable] || '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean);
+
+/** Accounts from before `emailVerified` existed without a password were created by a magic link. */
+const isVerified = (user: DevUser) => user.emailVerified ?? !user.passwordHash;
+
+/** The role an address is listed under, whoever holds the account. */
+const listedRole = (email: string): StaffRole | null => {
+  const address = email.toLowerCase();
+  if (emailsIn('WORKSHOP_EMAILS').includes(address)) return 'admin';
+  if (emailsIn('DESIGNER_EMAILS').includes(address)) return 'designer';
+  if (emailsIn('CARPENTER_EMAILS').includes(address)) return 'carpenter';
+  return null;
+};
+
+/**
+ * Staff accounts are listed by role in WORKSHOP_EMAILS (administrators), DESIGNER_EMAILS and
+ * CARPENTER_EMAILS, each comma separated. Everyone else is a client. Sign-up does not prove
+ * that the caller owns the address, so the role is only granted once a magic link has.
+ */
+export const staffRole = (user: DevUser): StaffRole | null => (isVerified(user) ? listedRole(user.email) : null);
+
+const toPublicUser = (user: DevUser) => ({ id: user.id, email: user.email, name: user.name, role: staffRole(user) });
+
+const createSession = (ctx: RouteContext, user: DevUser) => {
+  const session = { token: crypto.randomBytes(32).toString('hex'), userId: user.id, expiresAt: Date.now() + SESSION_TTL_MS };
+  ctx.db.sessions = ctx.db.sessions.filter(s => s.expiresAt > Date.now());
+  ctx.db.sessions.push(session);
+  ctx.save();
+  return { token: session.token, user: toPublicUser(user), expiresAt: session.expiresAt };
+};
+
+const bearerToken = (ctx: RouteContext) => {
+  const header = ctx.req.headers.authorization || '';
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+};
+
+/** Resolves the signed-in user for a request, or `null` when the bearer token is missing or stale. */
+export const getSessionUser = (ctx: RouteContext): DevUser | null => {
+  const token = bearerToken(ctx);
+  const session = token && ctx.db.sessions.find(s => s.token === token && s.expiresAt > Date.now());
+  if (!session) return null;
+  return ctx.db.users.find(u => u.id === session.userId) || null;
+};
+
+export const authRoutes: Route[] = [
+  {
+    method: 'POST',
+    pattern: '/auth/signup',
+    handler: (ctx) => {
+      const body = bodyFields(ctx);
+      const email = normalizeEmail(body.email);
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      const password = typeof body.password === 'string' ? body.password : '';
+      if (!name) return fail(400, 'Indica tu nombre.');
+      if (!isValidEmail(email)) return fail(400, 'El email no es válido.');
+      if (password.length < MIN_PASSWORD_LENGTH) return fail(400, `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`);
+      if (ctx.db.users.some(u => u.email === email)) return fail(409, 'Ya existe una cuenta con este email.');
+
+      const salt = crypto.randomBytes(16).toString('hex');
+      const user: DevUser = { id: crypto.randomUUID(), email, name, salt, passwordHash: hashPassword(password, salt), emailVerified: false };
+      ctx.db.users.push(user);
+      return json(201, createSession(ctx, user));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/auth/signin',
+    handler: (ctx) => {
+      const body = bodyFields(ctx);
+      const email = normalizeEmail(body.email);
+      const password = typeof body.password === 'string' ? body.password : '';
+      const user = ctx.db.users.find(u => u.email === email);
+      if (!user || !passwordMatches(user, password)) {
+        return fail(401, 'Email o contraseña incorrectos.');
+      }
+      return json(200, createSession(ctx, user));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/auth/magic-link',
+    handler: (ctx) => {
+      const body = bodyFields(ctx);
+      const email = normalizeEmail(body.email);
+      if (!isValidEmail(email)) return fail(400, 'El email no es válido.');
+      const token = crypto.randomBytes(32).toString('hex');
+      ctx.db.magicLinks = ctx.db.magicLinks.filter(l => l.expiresAt > Date.now());
+      ctx.db.magicLinks.push({ token, email, expiresAt: Date.now() + MAGIC_LINK_TTL_MS });
+      ctx.save();
+
+      // There is no mail server in development: the link is printed to the terminal instead.
+      const link = appLink(ctx.appOrigin, body.redirectPath);
+      link.searchParams.set('magicToken', token);
+      console.log(`[dev-api] Enlace mágico para ${email}: ${link.toString()}`);
+      return json(202, { sent: true });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/auth/magic-link/verify',
+    handler: (ctx) => {
+      const { token } = bodyFields(ctx);
+      const link = typeof token === 'string' ? ctx.db.magicLinks.find(l => l.token === token && l.expiresAt > Date.now()) : undefined;
+      if (!link) return fail(401, 'El enlace ha caducado o ya fue utilizado.');
+      ctx.db.magicLinks = ctx.db.magicLinks.filter(l => l !== link);
+
+      // Magic links double as sign-up: the first visit creates a password-less account.
+      let user = ctx.db.users.find(u => u.email === link.email);
+      if (!user) {
+        user = { id: crypto.randomUUID(), email: link.email, name: link.email.split('@')[0], salt: '', passwordHash: '', emailVerified: true };
+        ctx.db.users.push(user);
+      } else if (!isVerified(user)) {
+        // Anyone could have signed up with a staff address before its owner. Their password and
+        // sessions must not survive into an account that is about to get a staff role.
+        if (listedRole(user.email)) {
+          user.passwordHash = '';
+          user.salt = '';
+          const userId = user.id;
+          ctx.db.sessions = ctx.db.sessions.filter(s => s.userId !== userId);
+        }
+        user.emailVerified = true;
+      }
+      return json(200, createSession(ctx, user));
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/auth/session',
+    handler: (ctx) => {
+      const token = bearerToken(ctx);
+      const session = ctx.db.sessions.find(s => s.token === token && s.expiresAt > Date.now());
+      const user = session && ctx.db.users.find(u => u.id === session.userId);
+      if (!session || !user) return fail(401, 'La sesión ha caducado.');
+      return json(200, { token: session.token, user: toPublicUser(user), expiresAt: session.expiresAt });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/auth/signout',
+    handler: (ctx) => {
+      const token = bearerToken(ctx);
+      ctx.db.sessions = ctx.db.sessions.filter(s => s.token !== token);
+      ctx.save();
+      return json(204);
+    },
+  },
+];
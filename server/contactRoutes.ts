@@ -0,0 +1,50 @@
+import type { Route } from './devApi';
+import { json, fail } from './devApi';
+import { isSpam, validateContactMessage, ContactMessage } from '../services/contact/message';
+import { messagesFor } from '../services/i18n/catalogs';
+import { isRecord } from '../utils/records';
+
+// --- Contact Messages ---
+// Stand-in for the endpoint the contact form posts to. Messages are kept in the database and
+// logged so they can be read while developing.
+
+const RATE_WINDOW_MS = 60 * 60_000;
+const RATE_LIMIT = 5;
+
+/** Recent message times per client address; resets with the dev server. */
+const recentByAddress = new Map<string, number[]>();
+
+export type StoredContactMessage = Omit<ContactMessage, 'website'> & { receivedAt: number };
+
+export const contactRoutes: Route[] = [
+  {
+    method: 'POST',
+    pattern: '/contact',
+    handler: (ctx) => {
+      // Accepted and dropped, so bots cannot tell the honeypot gave them away.
+      if (!isRecord(ctx.body) || isSpam(ctx.body)) return json(202);
+      const errors = validateContactMessage(ctx.body);
+      const problem = Object.values(errors)[0];
+      if (problem) return { status: 400, body: { error: messagesFor('es').contact.errors[problem], fields: errors } };
+      if (typeof ctx.body.id !== 'string' || !ctx.body.id) return fail(400, 'El mensaje no es válido.');
+      const message = ctx.body as ContactMessage;
+
+      // Outbox retries send the same message again; it is only stored once.
+      if (ctx.db.contactMessages.some(stored => stored.id === message.id)) return json(202);
+
+      const address = ctx.req.socket.remoteAddress || 'unknown';
+      const recent = (recentByAddress.get(address) || []).filter(time => time > Date.now() - RATE_WINDOW_MS);
+      if (recent.length >= RATE_LIMIT) return fail(429, 'Has enviado demasiados mensajes. Inténtalo de nuevo más tarde.');
+      recentByAddress.set(address, [...recent, Date.now()]);
+
+      const { id, name, email, projectType, writtenAt } = message;
+      ctx.db.contactMessages.push({
+        id, name: name.trim(), email: email.trim(), projectType: projectType || '', message: message.message.trim(),
+        writtenAt: typeof writtenAt === 'number' ? writtenAt : Date.now(), receivedAt: Date.now(),
+      });
+      ctx.save();
+      console.log(`[dev-api] Mensaje de contacto de ${email.trim()}${projectType ? ` (${projectType})` : ''}`);
+      return json(202);
+    },
+  },
+];
@@ -0,0 +1,176 @@
+import fs from 'fs';
+import path from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+import { authRoutes } from './authRoutes';
+import { contactRoutes, StoredContactMessage } from './contactRoutes';
+import { pricingRoutes } from './pricingRoutes';
+import { requestRoutes } from './requestRoutes';
+import type { RateTables } from '../services/quote/rateTables';
+import type { StaffRequest } from '../services/requests/model';
+import { isRecord } from '../utils/records';
+
+// --- Stand-in Backend ---
+// A small JSON API served by the Vite dev server so the app can be developed end to end
+// without the production backend. Data is kept in `.dev-api/db.json` between restarts.
+
+export type DevDatabase = {
+  /** `emailVerified` is set once the owner follows a magic link; missing on accounts from before it existed. */
+  users: { id: string; email: string; name: string; passwordHash: string; salt: string; emailVerified?: boolean }[];
+  sessions: { token: string; userId: string; expiresAt: number }[];
+  magicLinks: { token: string; email: string; expiresAt: number }[];
+  /** Workshop rate tables; absent until the workshop first saves them. */
+  rates?: RateTables;
+  /** Quote requests, newest last; missing from databases created before requests were stored. */
+  requests: StaffRequest[];
+  /** Messages from the contact form, newest last. */
+  contactMessages: StoredContactMessage[];
+};
+
+export type RouteContext = {
+  req: IncomingMessage;
+  params: Record<string, string>;
+  /** Parsed JSON, unchecked: routes narrow it before use. */
+  body: unknown;
+  db: DevDatabase;
+  /** Persists the database after a mutation. */
+  save: () => void;
+  /** Origin the dev server serves the app on, e.g. `http://localhost:5173`. */
+  appOrigin: string;
+};
+
+export type RouteResult = { status: number; body?: unknown };
+
+export type Route = {
+  method: string;
+  pattern: string;
+  handler: (ctx: RouteContext) => RouteResult | Promise<RouteResult>;
+};
+
+export const json = (status: number, body?: unknown): RouteResult => ({ status, body });
+export const fail = (status: number, error: string): RouteResult => ({ status, body: { error } });
+
+/** The fields of a JSON object body; none when the body is missing or not an object. */
+export const bodyFields = (ctx: RouteContext): Record<string, unknown> => (isRecord(ctx.body) ? ctx.body : {});
+
+export const DATA_DIR = path.resolve(process.cwd(), '.dev-api');
+const DATA_FILE = path.join(DATA_DIR, 'db.json');
+
+const emptyDatabase = (): DevDatabase => ({ users: [], sessions: [], magicLinks: [], requests: [], contactMessages: [] });
+
+const loadDatabase = (): DevDatabase => {
+  try {
+    return { ...emptyDatabase(), ...JSON.parse(fs.readFileSync(DATA_FILE, 'utf-8')) };
+  } catch {
+    return emptyDatabase();
+  }
+};
+
+const saveDatabase = (db: DevDatabase) => {
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  fs.writeFileSync(DATA_FILE, JSON.stringify(db, null, 2));
+};
+
+/** Matches `/auth/session` against patterns such as `/requests/:id`. */
+const matchPattern = (pattern: string, pathname: string): Record<string, string> | null => {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = pathname.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+/** Requests carry photos as base64, so the limit leaves room for a full set from a phone. */
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+/** A request body the API refuses, answered with `status` rather than as a server error. */
+class BodyError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'BodyError';
+    this.status = status;
+  }
+}
+
+const readBody = (req: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const tooLarge = () => new BodyError(413, 'La solicitud es demasiado grande.');
+    if (Number(req.headers['content-length']) > MAX_BODY_BYTES) return reject(tooLarge());
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      // The rest of the body is drained and dropped, so the 413 still reaches the client.
+      if (size > MAX_BODY_BYTES) return reject(tooLarge());
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size > MAX_BODY_BYTES) return;
+      const raw = Buffer.concat(chunks).toString('utf-8');
+      if (!raw) return resolve(undefined);
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        reject(new BodyError(400, 'El cuerpo de la solicitud no es JSON válido.'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const send = (res: ServerResponse, result: RouteResult) => {
+  res.statusCode = result.status;
+  if (result.body === undefined) {
+    res.end();
+    return;
+  }
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(result.body));
+};
+
+export const devApi = (prefix = '/api'): Plugin => {
+  const routes: Route[] = [...authRoutes, ...pricingRoutes, ...requestRoutes, ...contactRoutes];
+  const db = loadDatabase();
+  const save = () => saveDatabase(db);
+
+  return {
+    name: 'maderarte-dev-api',
+    configureServer(server) {
+      // Taken from the server rather than the Host header, which any caller can set.
+      const appOrigin = () => new URL(server.resolvedUrls?.local[0] ?? `http://localhost:${server.config.server.port ?? 5173}`).origin;
+
+      server.middlewares.use(async (req, res, next) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        if (!url.pathname.startsWith(`${prefix}/`)) return next();
+        const pathname = url.pathname.slice(prefix.length);
+
+        for (const route of routes) {
+          if (route.method !== req.method) continue;
+          const params = matchPattern(route.pattern, pathname);
+          if (!params) continue;
+          try {
+            const body = await readBody(req);
+            send(res, await route.handler({ req, params, body, db, save, appOrigin: appOrigin() }));
+          } catch (e) {
+            if (e instanceof BodyError) {
+              send(res, fail(e.status, e.message));
+              return;
+            }
+            console.error(`[dev-api] ${req.method} ${url.pathname} failed:`, e);
+            send(res, fail(500, 'Error interno del servidor.'));
+          }
+          return;
+        }
+        send(res, fail(404, 'Recurso no encontrado.'));
+      });
+    },
+  };
+};
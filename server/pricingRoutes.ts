@@ -0,0 +1,30 @@
+import type { Route } from './devApi';
+import { json, fail } from './devApi';
+import { getSessionUser, staffRole } from './authRoutes';
+import { DEFAULT_RATE_TABLES, validateRateTables, RateTables } from '../services/quote/rateTables';
+import { canEditRates } from '../services/staff/roles';
+
+// --- Pricing ---
+// Only workshop administrators can change rates.
+
+export const pricingRoutes: Route[] = [
+  {
+    method: 'GET',
+    pattern: '/pricing/rates',
+    handler: (ctx) => json(200, ctx.db.rates ?? DEFAULT_RATE_TABLES),
+  },
+  {
+    method: 'PUT',
+    pattern: '/pricing/rates',
+    handler: (ctx) => {
+      const user = getSessionUser(ctx);
+      if (!user) return fail(401, 'Inicia sesión para continuar.');
+      if (!canEditRates(staffRole(user))) return fail(403, 'Tu cuenta no tiene permisos de taller.');
+      const problem = validateRateTables(ctx.body);
+      if (problem) return fail(400, problem);
+      ctx.db.rates = { ...(ctx.body as RateTables), updatedAt: Date.now() };
+      ctx.save();
+      return json(200, ctx.db.rates);
+    },
+  },
+];
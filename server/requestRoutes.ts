@@ -0,0 +1,239 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { DevDatabase, Route, RouteContext, RouteResult } from './devApi';
+import { DATA_DIR, bodyFields, json, fail } from './devApi';
+import { getSessionUser, staffRole } from './authRoutes';
+import {
+  adjacentStatuses, isRequestId, normalizeRequestSnapshot, validateFinalQuote, validateRequestSnapshot, FinalQuoteInput, RequestFile, StaffMember, StaffRequest,
+  WorkshopRequest,
+} from '../services/requests/model';
+import { canAssign, canMoveRequest, canQuote } from '../services/staff/roles';
+import type { StaffRole } from '../services/auth';
+import type { RequestFileInfo } from '../types';
+
+// --- Quote Requests ---
+// Clients submit project snapshots; staff assign, annotate, quote and move them through the
+// pipeline. Files are written next to the database so `db.json` stays small enough to rewrite
+// on every change.
+
+type DevUser = DevDatabase['users'][number];
+
+/** Ids are checked rather than cleaned up, so two requests can never share a folder. */
+const requestDir = (requestId: string) => {
+  if (!isRequestId(requestId)) throw new Error(`Invalid request id: ${requestId}`);
+  return path.join(DATA_DIR, 'requests', requestId);
+};
+
+const storeFile = (requestId: string, stem: string, file: RequestFile): RequestFileInfo => {
+  const dir = requestDir(requestId);
+  const extension = file.mimeType.split('/')[1]?.replace(/\W/g, '') || 'bin';
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, `${stem}.${extension}`), Buffer.from(file.base64, 'base64'));
+  return { name: file.name, mimeType: file.mimeType, file: `${stem}.${extension}` };
+};
+
+/** Requests stored before the back-office existed lack its fields. */
+const findRequest = (ctx: RouteContext): StaffRequest | null => {
+  const request = ctx.db.requests.find(candidate => candidate.id === ctx.params.id);
+  if (!request) return null;
+  request.assignee ??= null;
+  request.notes ??= [];
+  request.history ??= [{ status: 'received', changedAt: request.submittedAt, changedBy: request.snapshot.contact.name }];
+  request.finalQuote ??= null;
+  return request;
+};
+
+const toPublicRequest = ({ id, projectId, status, submittedAt, updatedAt, finalQuote }: StaffRequest): WorkshopRequest =>
+  ({ id, projectId, status, submittedAt, updatedAt, finalQuote: finalQuote ?? null });
+
+/** The signed-in staff member, or the failure to answer with. */
+const staffOf = (ctx: RouteContext): { user: DevUser; role: StaffRole } | RouteResult => {
+  const user = getSessionUser(ctx);
+  if (!user) return fail(401, 'Inicia sesión para continuar.');
+  const role = staffRole(user);
+  return role ? { user, role } : fail(403, 'Tu cuenta no tiene permisos de taller.');
+};
+
+const isFailure = (result: object): result is RouteResult => 'status' in result;
+
+const touch = (ctx: RouteContext, request: StaffRequest) => {
+  request.updatedAt = Date.now();
+  ctx.save();
+  return json(200, request);
+};
+
+export const requestRoutes: Route[] = [
+  {
+    method: 'POST',
+    pattern: '/requests',
+    handler: (ctx) => {
+      const user = getSessionUser(ctx);
+      if (!user) return fail(401, 'Inicia sesión para continuar.');
+      const problem = validateRequestSnapshot(ctx.body);
+      if (problem) return fail(400, problem);
+      const snapshot = normalizeRequestSnapshot(ctx.body);
+
+      // Clients retry until they see a response, so a repeated id is the same request arriving again.
+      const existing = ctx.db.requests.find(request => request.id === snapshot.id);
+      if (existing) {
+        return existing.ownerId === user.id ? json(200, toPublicRequest(existing)) : fail(409, 'La solicitud ya existe.');
+      }
+
+      const now = Date.now();
+      const request: StaffRequest = {
+        id: snapshot.id,
+        projectId: snapshot.projectId,
+        ownerId: user.id,
+        status: 'received',
+        submittedAt: now,
+        updatedAt: now,
+        finalQuote: null,
+        assignee: null,
+        notes: [],
+        history: [{ status: 'received', changedAt: now, changedBy: snapshot.contact.name }],
+        snapshot: {
+          ...snapshot,
+          photos: snapshot.photos.map((photo, index) => storeFile(snapshot.id, `photo-${index + 1}`, photo)),
+          render: snapshot.render && { ...storeFile(snapshot.id, 'render', snapshot.render), prompt: snapshot.render.prompt },
+        },
+      };
+      ctx.db.requests.push(request);
+      ctx.save();
+      console.log(`[dev-api] Nueva solicitud ${request.id} de ${snapshot.contact.email} (${snapshot.projectName})`);
+      return json(201, toPublicRequest(request));
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/requests/:id',
+    handler: (ctx) => {
+      const user = getSessionUser(ctx);
+      if (!user) return fail(401, 'Inicia sesión para continuar.');
+      const request = findRequest(ctx);
+      if (!request || (request.ownerId !== user.id && !staffRole(user))) return fail(404, 'Solicitud no encontrada.');
+      return json(200, toPublicRequest(request));
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/requests/:id/files/:file',
+    handler: (ctx) => {
+      const user = getSessionUser(ctx);
+      if (!user) return fail(401, 'Inicia sesión para continuar.');
+      const request = findRequest(ctx);
+      if (!request || (request.ownerId !== user.id && !staffRole(user))) return fail(404, 'Solicitud no encontrada.');
+      // Clients may download the quote the workshop attached; everything else is for staff.
+      const { photos, render } = request.snapshot;
+      const visible = staffRole(user) ? [...photos, ...(render ? [render] : []), request.finalQuote?.attachment] : [request.finalQuote?.attachment];
+      const info = visible.find(candidate => candidate && path.basename(candidate.file) === ctx.params.file);
+      if (!info) return fail(404, 'Archivo no encontrado.');
+      const base64 = fs.readFileSync(path.join(requestDir(request.id), path.basename(info.file))).toString('base64');
+      return json(200, { name: info.name, mimeType: info.mimeType, base64 });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/staff/requests',
+    handler: (ctx) => {
+      const staff = staffOf(ctx);
+      if (isFailure(staff)) return staff;
+      const requests = ctx.db.requests.map(request => findRequest({ ...ctx, params: { id: request.id } })!);
+      return json(200, [...requests].sort((a, b) => b.submittedAt - a.submittedAt));
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/staff/requests/:id',
+    handler: (ctx) => {
+      const staff = staffOf(ctx);
+      if (isFailure(staff)) return staff;
+      const request = findRequest(ctx);
+      return request ? json(200, request) : fail(404, 'Solicitud no encontrada.');
+    },
+  },
+  {
+    method: 'GET',
+    pattern: '/staff/members',
+    handler: (ctx) => {
+      const staff = staffOf(ctx);
+      if (isFailure(staff)) return staff;
+      const members: StaffMember[] = ctx.db.users.flatMap(user => {
+        const role = staffRole(user);
+        return role ? [{ id: user.id, name: user.name, role }] : [];
+      });
+      return json(200, members);
+    },
+  },
+  {
+    method: 'PATCH',
+    pattern: '/staff/requests/:id',
+    handler: (ctx) => {
+      const staff = staffOf(ctx);
+      if (isFailure(staff)) return staff;
+      const request = findRequest(ctx);
+      if (!request) return fail(404, 'Solicitud no encontrada.');
+
+      // Both changes are checked before either is applied, so a rejected request changes nothing.
+      const { assigneeId, status } = bodyFields(ctx);
+      let assignee = request.assignee;
+      if (assigneeId !== undefined) {
+        if (!canAssign(staff.role)) return fail(403, 'Tu rol no puede asignar diseñadores.');
+        const user = assigneeId === null ? null : ctx.db.users.find(candidate => candidate.id === assigneeId);
+        const role = user && staffRole(user);
+        if (user === undefined || (user && role !== 'designer' && role !== 'admin')) return fail(400, 'Solo se pueden asignar diseñadores del taller.');
+        assignee = user && role ? { id: user.id, name: user.name, role } : null;
+      }
+
+      if (status !== undefined && status !== request.status) {
+        const next = adjacentStatuses(request.status).find(candidate => candidate === status);
+        if (!next) return fail(400, 'Las solicitudes avanzan de un estado al siguiente.');
+        if (!canMoveRequest(staff.role, request.status, next)) return fail(403, 'Tu rol no puede mover la solicitud a ese estado.');
+        if (next === 'quoted' && !request.finalQuote) return fail(400, 'Adjunta la cotización final antes de marcarla como cotizada.');
+        request.status = next;
+        request.history.push({ status: next, changedAt: Date.now(), changedBy: staff.user.name });
+      }
+      request.assignee = assignee;
+      return touch(ctx, request);
+    },
+  },
+  {
+    method: 'POST',
+    pattern: '/staff/requests/:id/notes',
+    handler: (ctx) => {
+      const staff = staffOf(ctx);
+      if (isFailure(staff)) return staff;
+      const request = findRequest(ctx);
+      if (!request) return fail(404, 'Solicitud no encontrada.');
+      const { text: rawText } = bodyFields(ctx);
+      const text = typeof rawText === 'string' ? rawText.trim() : '';
+      if (!text) return fail(400, 'La nota está vacía.');
+      request.notes.push({ id: crypto.randomUUID(), authorName: staff.user.name, text, createdAt: Date.now() });
+      return touch(ctx, request);
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: '/staff/requests/:id/quote',
+    handler: (ctx) => {
+      const staff = staffOf(ctx);
+      if (isFailure(staff)) return staff;
+      if (!canQuote(staff.role)) return fail(403, 'Tu rol no puede adjuntar cotizaciones.');
+      const request = findRequest(ctx);
+      if (!request) return fail(404, 'Solicitud no encontrada.');
+      const problem = validateFinalQuote(ctx.body);
+      if (problem) return fail(400, problem);
+      const quote = ctx.body as FinalQuoteInput;
+      request.finalQuote = {
+        total: quote.total,
+        currency: quote.currency,
+        validUntil: quote.validUntil,
+        message: quote.message.trim(),
+        // A quote saved without a new document keeps the one already attached.
+        attachment: quote.attachment ? storeFile(request.id, 'quote', quote.attachment) : request.finalQuote?.attachment ?? null,
+        attachedAt: Date.now(),
+      };
+      return touch(ctx, request);
+    },
+  },
+];
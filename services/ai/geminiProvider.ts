@@ -0,0 +1,218 @@
+import { GoogleGenAI, Type, Modality, FinishReason, GenerateContentResponse } from "@google/genai";
+import type { AIResponse, InspirationTip, Locale } from '../../types';
+import type { DesignAIProvider, SpaceValidation } from './types';
+import { AIError } from './requests';
+import { validationPrompt, analysisPrompt, inspirationPrompt, refinementPrompt } from './prompts';
+import { normalizeDimensions } from '../../utils/dimensions';
+import { materialsForSpace } from '../materials/catalog';
+import { MODULE_LIBRARY } from '../modules/library';
+import { spaceTypeById } from '../spaces/registry';
+import { normalizeSuggestions } from '../suggestions/items';
+import { isRecord } from '../../utils/records';
+
+export type GeminiModels = {
+  /** Model used for validation, analysis and inspiration. */
+  text: string;
+  /** Model used to edit photos. */
+  image: string;
+};
+
+export const DEFAULT_GEMINI_MODELS: GeminiModels = {
+  text: 'gemini-2.5-flash',
+  image: 'gemini-2.5-flash-image-preview',
+};
+
+const dimensionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    value: { type: Type.NUMBER },
+    unit: { type: Type.STRING, enum: ['m', 'cm', 'ft', 'in'] },
+    confidence: { type: Type.NUMBER }
+  }
+};
+
+// --- Response Checks ---
+const SAFETY_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY, FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+/** Turns a blocked prompt or answer into a `safety` error instead of an empty reply. */
+const checked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new AIError('safety', `Prompt blocked: ${blockReason}`);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (SAFETY_FINISH_REASONS.includes(finishReason)) throw new AIError('safety', `Answer blocked: ${finishReason}`);
+  return response;
+};
+
+const parseJson = (response: GenerateContentResponse): unknown => {
+  const text = checked(response).text;
+  try {
+    return JSON.parse(text ?? '');
+  } catch (e) {
+    throw new AIError('invalidResponse', 'The model did not answer with valid JSON.', e);
+  }
+};
+
+// --- Response Normalisation ---
+// The schemas guide the model but are not enforced, so every reply is rebuilt field by field.
+
+const text = (value: unknown) => typeof value === 'string' ? value : '';
+
+const toSpaceValidation = (raw: unknown): SpaceValidation => {
+  if (!isRecord(raw) || typeof raw.areImagesConsistent !== 'boolean' || typeof raw.isSpaceTypeCorrect !== 'boolean') {
+    throw new AIError('invalidResponse', 'The model did not answer the validation questions.');
+  }
+  return { areImagesConsistent: raw.areImagesConsistent, isSpaceTypeCorrect: raw.isSpaceTypeCorrect };
+};
+
+const toAnalysis = (raw: unknown, spaceType: string, locale: Locale | undefined): AIResponse => {
+  const analysis = isRecord(raw) ? raw : {};
+  const dimensions = normalizeDimensions(analysis.dimensions);
+  return {
+    dimensions,
+    floorPlan: text(analysis.floorPlan),
+    currentStyle: text(analysis.currentStyle),
+    suggestions: normalizeSuggestions(analysis.suggestions, spaceType, dimensions, locale),
+  };
+};
+
+/** Keeps the tips with a title, a description and a web image; unknown space types are dropped. */
+const toInspirationTips = (raw: unknown): InspirationTip[] =>
+  (Array.isArray(raw) ? raw : []).flatMap((entry: unknown): InspirationTip[] => {
+    if (!isRecord(entry)) return [];
+    const title = text(entry.title);
+    const description = text(entry.description);
+    const imageUrl = text(entry.imageUrl);
+    if (!title || !description || !/^https?:\/\//.test(imageUrl)) return [];
+    const spaceType = typeof entry.spaceType === 'string' && spaceTypeById(entry.spaceType) ? entry.spaceType : undefined;
+    return [spaceType ? { title, description, imageUrl, spaceType } : { title, description, imageUrl }];
+  });
+
+export const createGeminiProvider = (apiKey: string, models: GeminiModels = DEFAULT_GEMINI_MODELS): DesignAIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+
+    validateSpace: async (images, spaceType, locale, options) => {
+      const response = await ai.models.generateContent({
+        model: models.text,
+        contents: { parts: [...images.map(inlineData => ({ inlineData })), { text: validationPrompt(spaceType, locale) }] },
+        config: {
+          abortSignal: options?.signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              areImagesConsistent: { type: Type.BOOLEAN },
+              isSpaceTypeCorrect: { type: Type.BOOLEAN }
+            }
+          }
+        }
+      });
+      return toSpaceValidation(parseJson(response));
+    },
+
+    analyzeSpace: async ({ images, spaceType, cats, scales, locale }, options) => {
+      const { woods, finishes } = materialsForSpace(spaceType);
+      const response = await ai.models.generateContent({
+        model: models.text,
+        contents: { parts: [...images.map(inlineData => ({ inlineData })), { text: analysisPrompt(spaceType, cats, scales, locale) }] },
+        config: {
+          abortSignal: options?.signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              dimensions: {
+                type: Type.OBJECT,
+                properties: {
+                  length: dimensionSchema,
+                  width: dimensionSchema,
+                  height: dimensionSchema
+                }
+              },
+              floorPlan: { type: Type.STRING },
+              currentStyle: { type: Type.STRING },
+              suggestions: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    styleName: { type: Type.STRING },
+                    description: { type: Type.STRING },
+                    woodId: { type: Type.STRING, enum: woods.map(wood => wood.id) },
+                    finishId: { type: Type.STRING, enum: finishes.map(finish => finish.id) },
+                    items: {
+                      type: Type.ARRAY,
+                      items: {
+                        type: Type.OBJECT,
+                        properties: {
+                          moduleId: { type: Type.STRING, enum: MODULE_LIBRARY.map(module => module.id) },
+                          wall: { type: Type.INTEGER },
+                          width: { type: Type.NUMBER },
+                          depth: { type: Type.NUMBER },
+                          height: { type: Type.NUMBER },
+                          woodId: { type: Type.STRING, enum: woods.map(wood => wood.id) },
+                          finishId: { type: Type.STRING, enum: finishes.map(finish => finish.id) }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      });
+      return toAnalysis(parseJson(response), spaceType, locale);
+    },
+
+    refineImage: async ({ image, prompt, dimensions, reference, locale }, options) => {
+      const parts = reference
+        ? [{ inlineData: image }, { inlineData: reference }, { text: refinementPrompt(prompt, dimensions, true, locale) }]
+        : [{ inlineData: image }, { text: refinementPrompt(prompt, dimensions, false, locale) }];
+      const response = await ai.models.generateContent({
+        model: models.image,
+        contents: { parts },
+        config: {
+          abortSignal: options?.signal,
+          responseModalities: [Modality.IMAGE, Modality.TEXT],
+        },
+      });
+
+      for (const part of checked(response).candidates?.[0]?.content?.parts ?? []) {
+        if (part.inlineData?.data) {
+          return { mimeType: part.inlineData.mimeType || 'image/png', data: part.inlineData.data };
+        }
+      }
+      throw new AIError('invalidResponse', 'The model did not return an image.');
+    },
+
+    getInspiration: async (locale, options) => {
+      const response = await ai.models.generateContent({
+        model: models.text,
+        contents: inspirationPrompt(locale),
+        config: {
+          abortSignal: options?.signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                title: { type: Type.STRING },
+                description: { type: Type.STRING },
+                imageUrl: { type: Type.STRING },
+                spaceType: { type: Type.STRING }
+              }
+            }
+          }
+        }
+      });
+      return toInspirationTips(parseJson(response));
+    },
+  };
+};
@@ -0,0 +1,31 @@
+import { createGeminiProvider, DEFAULT_GEMINI_MODELS } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { withRequestPolicy } from './requests';
+import type { DesignAIProvider } from './types';
+
+export type { DesignAIProvider, ImageInput, SpaceValidation, AnalyzeSpaceInput, RefineImageInput, AIRequestOptions } from './types';
+export { AIError, classifyAIError, withRequestPolicy } from './requests';
+export type { AIErrorKind } from './requests';
+export { createGeminiProvider, createMockProvider };
+
+/**
+ * The provider selected by `AI_PROVIDER` (`gemini` or `mock`). Without an explicit choice,
+ * Gemini is used when an API key is configured and the offline mock otherwise.
+ */
+const selectProvider = (): DesignAIProvider => {
+  const apiKey = process.env.API_KEY;
+  const requested = process.env.AI_PROVIDER || (apiKey ? 'gemini' : 'mock');
+
+  if (requested === 'mock') return createMockProvider();
+  if (!apiKey) {
+    console.warn('AI_PROVIDER=gemini but no GEMINI_API_KEY is set; using the offline mock provider.');
+    return createMockProvider();
+  }
+  return createGeminiProvider(apiKey, {
+    text: process.env.GEMINI_TEXT_MODEL || DEFAULT_GEMINI_MODELS.text,
+    image: process.env.GEMINI_IMAGE_MODEL || DEFAULT_GEMINI_MODELS.image,
+  });
+};
+
+/** The selected provider, with calls that time out, retry transient failures and can be cancelled. */
+export const createDesignAIProvider = (): DesignAIProvider => withRequestPolicy(selectProvider());
@@ -0,0 +1,430 @@
+import type { AIResponse, InspirationTip, Locale } from '../../types';
+import type { DesignAIProvider, ImageInput } from './types';
+import { normalizeSuggestions } from '../suggestions/items';
+import { hasCatStep } from '../spaces/registry';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+
+// --- Offline Mock Provider ---
+// Deterministic canned responses so the whole wizard can be developed, demoed and tested
+// without network access or an API key. The same inputs always produce the same outputs.
+
+const MOCK_LATENCY_MS = 600;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Small stable string hash (FNV-1a) used to pick canned variants. */
+const hash = (value: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/** Canned texts come in every language the studio speaks, so the mock answers in the client's. */
+type Localized = Record<Locale, string>;
+
+type CannedSuggestion = { styleName: Localized; description: Localized; woodId: string; finishId: string };
+
+type CannedRoom = { length: number; width: number; height: number; currentStyle: Localized; suggestions: CannedSuggestion[] };
+
+const CANNED_ROOMS: Record<string, CannedRoom> = {
+  'Sala': {
+    length: 5.2, width: 4.1, height: 2.6,
+    currentStyle: {
+      es: 'Sala contemporánea de tonos neutros con paredes lisas y poca presencia de madera.',
+      en: 'Contemporary living room in neutral tones with plain walls and little wood.',
+      pt: 'Sala contemporânea em tons neutros, com paredes lisas e pouca presença de madeira.',
+    },
+    suggestions: [
+      {
+        styleName: { es: 'Nórdico Cálido', en: 'Warm Nordic', pt: 'Nórdico Acolhedor' },
+        description: {
+          es: 'Añade un centro de entretenimiento bajo de roble claro a lo largo de la pared principal, con frentes lisos y estantes abiertos a los lados.',
+          en: 'Add a low light-oak entertainment unit along the main wall, with flat fronts and open shelves at the sides.',
+          pt: 'Acrescente um móvel de TV baixo em carvalho claro ao longo da parede principal, com frentes lisas e prateleiras abertas nas laterais.',
+        },
+        woodId: 'oak', finishId: 'oil',
+      },
+      {
+        styleName: { es: 'Biblioteca Clásica', en: 'Classic Library', pt: 'Biblioteca Clássica' },
+        description: {
+          es: 'Instala una estantería de nogal de pared a techo con escalera corrida y molduras sencillas en la pared más larga.',
+          en: 'Fit a floor-to-ceiling walnut bookcase with a library ladder and simple mouldings on the longest wall.',
+          pt: 'Instale uma estante de nogueira do chão ao teto, com escada corrida e molduras simples, na parede mais comprida.',
+        },
+        woodId: 'walnut', finishId: 'varnish',
+      },
+      {
+        styleName: { es: 'Minimalista Japonés', en: 'Japanese Minimalist', pt: 'Minimalista Japonês' },
+        description: {
+          es: 'Coloca un banco flotante de arce bajo la ventana con cajones ocultos y listones verticales detrás.',
+          en: 'Place a floating maple bench under the window with hidden drawers and vertical slats behind it.',
+          pt: 'Coloque um banco flutuante de ácer debaixo da janela, com gavetas ocultas e ripas verticais por trás.',
+        },
+        woodId: 'maple', finishId: 'oil',
+      },
+    ],
+  },
+  'Habitación': {
+    length: 4.0, width: 3.5, height: 2.5,
+    currentStyle: {
+      es: 'Dormitorio sencillo con mobiliario básico y almacenamiento insuficiente.',
+      en: 'Simple bedroom with basic furniture and too little storage.',
+      pt: 'Quarto simples com mobiliário básico e arrumação insuficiente.',
+    },
+    suggestions: [
+      {
+        styleName: { es: 'Armario Integrado', en: 'Built-in Wardrobe', pt: 'Roupeiro Embutido' },
+        description: {
+          es: 'Añade un armario de pared a pared en roble natural con puertas correderas de lamas verticales.',
+          en: 'Add a wall-to-wall natural oak wardrobe with sliding doors of vertical slats.',
+          pt: 'Acrescente um roupeiro de parede a parede em carvalho natural, com portas de correr de ripas verticais.',
+        },
+        woodId: 'oak', finishId: 'varnish',
+      },
+      {
+        styleName: { es: 'Cabecero Escultórico', en: 'Sculpted Headboard', pt: 'Cabeceira Escultórica' },
+        description: {
+          es: 'Instala un cabecero de listones de nogal que se prolonga en dos mesitas flotantes a cada lado de la cama.',
+          en: 'Fit a walnut slatted headboard that extends into two floating bedside ledges, one on each side of the bed.',
+          pt: 'Instale uma cabeceira de ripas de nogueira que se prolonga em duas prateleiras flutuantes, uma de cada lado da cama.',
+        },
+        woodId: 'walnut', finishId: 'oil',
+      },
+      {
+        styleName: { es: 'Rincón de Lectura', en: 'Reading Nook', pt: 'Recanto de Leitura' },
+        description: {
+          es: 'Crea un banco de almacenamiento de arce al pie de la ventana con estantes bajos integrados.',
+          en: 'Build a maple storage bench beneath the window with low built-in shelves.',
+          pt: 'Crie um banco de arrumação em ácer junto à janela, com prateleiras baixas integradas.',
+        },
+        woodId: 'maple', finishId: 'oil',
+      },
+    ],
+  },
+  'Estudio': {
+    length: 3.6, width: 3.0, height: 2.5,
+    currentStyle: {
+      es: 'Espacio de trabajo improvisado con escritorio exento y documentos sin organizar.',
+      en: 'Makeshift workspace with a freestanding desk and unsorted paperwork.',
+      pt: 'Espaço de trabalho improvisado, com secretária solta e papéis por arrumar.',
+    },
+    suggestions: [
+      {
+        styleName: { es: 'Escritorio Continuo', en: 'Continuous Desk', pt: 'Secretária Contínua' },
+        description: {
+          es: 'Añade un escritorio de roble de pared a pared con estantería superior abierta y cajoneras inferiores.',
+          en: 'Add a wall-to-wall oak desk with open shelving above and drawer units below.',
+          pt: 'Acrescente uma secretária de carvalho de parede a parede, com estante aberta por cima e gaveteiros por baixo.',
+        },
+        woodId: 'oak', finishId: 'varnish',
+      },
+      {
+        styleName: { es: 'Pared Organizadora', en: 'Organiser Wall', pt: 'Parede Organizadora' },
+        description: {
+          es: 'Instala una pared de almacenamiento de nogal con módulos abiertos y cerrados alternados.',
+          en: 'Fit a walnut storage wall of alternating open shelving and closed cabinets.',
+          pt: 'Instale uma parede de arrumação em nogueira, alternando estantes abertas e armários fechados.',
+        },
+        woodId: 'walnut', finishId: 'oil',
+      },
+      {
+        styleName: { es: 'Gabinetes Bajos', en: 'Low Cabinets', pt: 'Armários Baixos' },
+        description: {
+          es: 'Coloca gabinetes bajos de arce bajo la ventana para ocultar la impresora y los archivos.',
+          en: 'Place low maple cabinets under the window to hide the printer and the files.',
+          pt: 'Coloque armários baixos de ácer debaixo da janela para esconder a impressora e os arquivos.',
+        },
+        woodId: 'maple', finishId: 'lacquer',
+      },
+    ],
+  },
+  'Cocina': {
+    length: 4.5, width: 3.2, height: 2.6,
+    currentStyle: {
+      es: 'Cocina funcional con gabinetes laminados blancos y encimera de piedra.',
+      en: 'Practical kitchen with white laminate cabinets and a stone worktop.',
+      pt: 'Cozinha funcional com armários lacados a branco e bancada de pedra.',
+    },
+    suggestions: [
+      {
+        styleName: { es: 'Roble de Suelo a Techo', en: 'Floor-to-Ceiling Oak', pt: 'Carvalho do Chão ao Teto' },
+        description: {
+          es: 'Sustituye los gabinetes por un frente de roble de suelo a techo con tiradores integrados.',
+          en: 'Replace the cabinets with a floor-to-ceiling oak front with integrated handles.',
+          pt: 'Substitua os armários por uma frente de carvalho do chão ao teto com puxadores integrados.',
+        },
+        woodId: 'oak', finishId: 'lacquer',
+      },
+      {
+        styleName: { es: 'Isla de Madera', en: 'Wooden Island', pt: 'Ilha de Madeira' },
+        description: {
+          es: 'Añade una isla central de nogal con almacenamiento en ambos lados y barra para dos personas.',
+          en: 'Add a walnut kitchen island with storage on both sides and a breakfast bar for two.',
+          pt: 'Acrescente uma ilha central de nogueira com arrumação dos dois lados e balcão para duas pessoas.',
+        },
+        woodId: 'walnut', finishId: 'oil',
+      },
+      {
+        styleName: { es: 'Estantes Abiertos', en: 'Open Shelves', pt: 'Prateleiras Abertas' },
+        description: {
+          es: 'Instala estantes abiertos de teca sobre la encimera para exhibir la vajilla.',
+          en: 'Fit open teak wall shelves above the worktop to display the crockery.',
+          pt: 'Instale prateleiras de parede abertas em teca por cima da bancada para expor a loiça.',
+        },
+        woodId: 'teak', finishId: 'oil',
+      },
+    ],
+  },
+  'Baño': {
+    length: 2.8, width: 2.0, height: 2.4,
+    currentStyle: {
+      es: 'Baño revestido de azulejo blanco con mueble de lavabo estándar.',
+      en: 'Bathroom tiled in white with a standard vanity unit.',
+      pt: 'Casa de banho revestida a azulejo branco, com móvel de lavatório de série.',
+    },
+    suggestions: [
+      {
+        styleName: { es: 'Vanidad Flotante', en: 'Floating Vanity', pt: 'Móvel de Lavatório Suspenso' },
+        description: {
+          es: 'Añade una vanidad flotante de teca con dos cajones y encimera de piedra clara.',
+          en: 'Add a floating teak vanity with two drawers and a pale stone top.',
+          pt: 'Acrescente um lavatório suspenso de teca com duas gavetas e tampo de pedra clara.',
+        },
+        woodId: 'teak', finishId: 'marine-varnish',
+      },
+      {
+        styleName: { es: 'Columna de Almacenaje', en: 'Storage Tower', pt: 'Coluna de Arrumação' },
+        description: {
+          es: 'Instala un gabinete vertical estrecho de teca junto al lavabo para toallas y productos.',
+          en: 'Fit a narrow upright teak wall cabinet beside the basin for towels and toiletries.',
+          pt: 'Instale um armário de parede estreito e alto em teca junto ao lavatório, para toalhas e produtos.',
+        },
+        woodId: 'teak', finishId: 'lacquer',
+      },
+      {
+        styleName: { es: 'Pared de Cedro', en: 'Cedar Wall', pt: 'Parede de Cedro' },
+        description: {
+          es: 'Reviste la pared de la ducha con listones de cedro tratado para un ambiente de spa.',
+          en: 'Line the shower wall with treated cedar slats for a spa feel.',
+          pt: 'Revista a parede do duche com ripas de cedro tratado para um ambiente de spa.',
+        },
+        woodId: 'cedar', finishId: 'marine-varnish',
+      },
+    ],
+  },
+  'Espacio para Gatos': {
+    length: 4.8, width: 3.8, height: 2.6,
+    currentStyle: {
+      es: 'Sala de estar con paredes despejadas y pocos puntos elevados para los gatos.',
+      en: 'Living room with bare walls and few high spots for the cats.',
+      pt: 'Sala de estar com paredes livres e poucos pontos elevados para os gatos.',
+    },
+    suggestions: [
+      {
+        styleName: { es: 'Autopista Felina', en: 'Cat Highway', pt: 'Autoestrada Felina' },
+        description: {
+          es: 'Añade un circuito de estantes escalonados de roble a lo largo de la pared principal, con un puente entre dos esquinas.',
+          en: 'Add a circuit of stepped oak cat shelves along the main wall, with a bridge between two corners.',
+          pt: 'Acrescente um circuito de prateleiras para gatos em carvalho, em degraus ao longo da parede principal, com uma ponte entre dois cantos.',
+        },
+        woodId: 'oak', finishId: 'oil',
+      },
+      {
+        styleName: { es: 'Torre Mirador', en: 'Lookout Tower', pt: 'Torre Miradouro' },
+        description: {
+          es: 'Instala una torre de arce junto a la ventana con plataformas acolchadas y un poste rascador de sisal.',
+          en: 'Fit a maple tower by the window with cushioned platforms and a sisal scratching post.',
+          pt: 'Instale uma torre de ácer junto à janela, com plataformas almofadadas e um poste arranhador de sisal.',
+        },
+        woodId: 'maple', finishId: 'oil',
+      },
+      {
+        styleName: { es: 'Mueble Refugio', en: 'Hideaway Sideboard', pt: 'Móvel Refúgio' },
+        description: {
+          es: 'Coloca un aparador bajo de nogal con cuevas de descanso ocultas y un rascador lateral.',
+          en: 'Place a low walnut sideboard with hidden resting caves and a scratcher on one side.',
+          pt: 'Coloque um aparador baixo de nogueira com tocas de descanso escondidas e um arranhador lateral.',
+        },
+        woodId: 'walnut', finishId: 'varnish',
+      },
+    ],
+  },
+};
+
+/** Added to the first suggestion when a senior cat lives in the home. */
+const SENIOR_CAT_NOTE: Localized = {
+  es: ' Incluye rampas de pendiente suave para los gatos mayores.',
+  en: ' Includes gently sloping ramps for the older cats.',
+  pt: ' Inclui rampas de inclinação suave para os gatos mais velhos.',
+};
+
+/** Printed over mock renders so they are never taken for real ones. */
+const SIMULATION_LABEL: Localized = { es: '[Simulación]', en: '[Simulation]', pt: '[Simulação]' };
+
+const floorPlanSVG = ({ length, width }: CannedRoom) => {
+  const scale = 60;
+  const w = length * scale;
+  const h = width * scale;
+  const door = Math.min(0.9 * scale, w / 3);
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="-20 -20 ${w + 40} ${h + 40}" width="${w + 40}" height="${h + 40}">`
+    + `<polygon class="room" points="0,0 ${w},0 ${w},${h} 0,${h}" fill="none" stroke="black" stroke-width="4"/>`
+    + `<line class="door" x1="${w / 2 - door / 2}" y1="${h}" x2="${w / 2 + door / 2}" y2="${h}" stroke="white" stroke-width="6"/>`
+    + `<path d="M ${w / 2 - door / 2} ${h} A ${door} ${door} 0 0 1 ${w / 2 + door / 2} ${h - door}" fill="none" stroke="black" stroke-width="1"/>`
+    + `<line class="window" x1="${w * 0.25}" y1="0" x2="${w * 0.6}" y2="0" stroke="black" stroke-width="8" stroke-dasharray="4 2"/>`
+    + `<text x="${w / 2}" y="-6" font-size="12" text-anchor="middle">${length.toFixed(1)} m</text>`
+    + `<text x="${w + 6}" y="${h / 2}" font-size="12">${width.toFixed(1)} m</text>`
+    + `</svg>`;
+};
+
+const placeholderImage = (label: string, hue: number) => {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="640" height="400" viewBox="0 0 640 400">`
+    + `<rect width="640" height="400" fill="hsl(${hue}, 35%, 72%)"/>`
+    + `<g fill="hsl(${hue}, 40%, 45%)">${Array.from({ length: 8 }, (_, i) => `<rect x="0" y="${i * 50}" width="640" height="18" opacity="${0.15 + (i % 3) * 0.1}"/>`).join('')}</g>`
+    + `<text x="320" y="210" font-family="Georgia, serif" font-size="30" fill="#3D352E" text-anchor="middle">${label}</text>`
+    + `</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+type CannedTip = { title: Localized; description: Localized; label: Localized; hue: number; spaceType: string };
+
+const CANNED_INSPIRATION: CannedTip[] = [
+  {
+    title: { es: 'Maderas Claras y Luminosas', en: 'Light, Bright Woods', pt: 'Madeiras Claras e Luminosas' },
+    description: {
+      es: 'El roble y el arce aclaran los espacios pequeños y combinan con paletas neutras.',
+      en: 'Oak and maple brighten small rooms and sit well with neutral palettes.',
+      pt: 'O carvalho e o ácer iluminam os espaços pequenos e combinam com paletas neutras.',
+    },
+    label: { es: 'Roble claro', en: 'Light oak', pt: 'Carvalho claro' },
+    hue: 35, spaceType: 'Habitación',
+  },
+  {
+    title: { es: 'Listones Verticales', en: 'Vertical Slats', pt: 'Ripas Verticais' },
+    description: {
+      es: 'Los revestimientos de listones añaden textura, mejoran la acústica y estilizan las paredes.',
+      en: 'Slatted panelling adds texture, improves the acoustics and makes walls look taller.',
+      pt: 'Os revestimentos de ripas acrescentam textura, melhoram a acústica e tornam as paredes mais elegantes.',
+    },
+    label: { es: 'Listones', en: 'Slats', pt: 'Ripas' },
+    hue: 25, spaceType: 'Sala',
+  },
+  {
+    title: { es: 'Almacenamiento Invisible', en: 'Invisible Storage', pt: 'Arrumação Invisível' },
+    description: {
+      es: 'Frentes lisos sin tiradores que convierten los armarios en parte de la arquitectura.',
+      en: 'Flat, handleless fronts that turn the cupboards into part of the architecture.',
+      pt: 'Frentes lisas sem puxadores que tornam os armários parte da arquitetura.',
+    },
+    label: { es: 'Frentes lisos', en: 'Flat fronts', pt: 'Frentes lisas' },
+    hue: 30, spaceType: 'Cocina',
+  },
+  {
+    title: { es: 'Nogal como Protagonista', en: 'Walnut Takes Centre Stage', pt: 'Nogueira como Protagonista' },
+    description: {
+      es: 'Una sola pieza de nogal oscuro basta para dar carácter a una estancia clara.',
+      en: 'A single piece of dark walnut is enough to give a light room character.',
+      pt: 'Uma única peça de nogueira escura basta para dar carácter a uma divisão clara.',
+    },
+    label: { es: 'Nogal', en: 'Walnut', pt: 'Nogueira' },
+    hue: 20, spaceType: 'Estudio',
+  },
+];
+
+const loadImage = (image: ImageInput): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('No se pudo leer la imagen base.'));
+    img.src = `data:${image.mimeType};base64,${image.data}`;
+  });
+
+/** Draws a stylised wooden unit over the photo, positioned by a hash of the prompt. */
+const renderMockRefinement = async (image: ImageInput, prompt: string, locale: Locale): Promise<ImageInput> => {
+  const img = await loadImage(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D no disponible.');
+  ctx.drawImage(img, 0, 0);
+
+  const seed = hash(prompt);
+  const unitWidth = canvas.width * (0.3 + (seed % 20) / 100);
+  const unitHeight = canvas.height * 0.45;
+  const x = (canvas.width - unitWidth) * ((seed >> 5) % 100) / 100;
+  const y = canvas.height - unitHeight - canvas.height * 0.08;
+  const shelves = 3 + (seed % 3);
+
+  ctx.fillStyle = 'rgba(141, 110, 99, 0.88)';
+  ctx.fillRect(x, y, unitWidth, unitHeight);
+  ctx.strokeStyle = 'rgba(78, 52, 46, 0.95)';
+  ctx.lineWidth = Math.max(2, canvas.width / 300);
+  ctx.strokeRect(x, y, unitWidth, unitHeight);
+  for (let i = 1; i < shelves; i++) {
+    const shelfY = y + (unitHeight / shelves) * i;
+    ctx.beginPath();
+    ctx.moveTo(x, shelfY);
+    ctx.lineTo(x + unitWidth, shelfY);
+    ctx.stroke();
+  }
+
+  const fontSize = Math.max(14, Math.round(canvas.width / 45));
+  ctx.font = `${fontSize}px sans-serif`;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(0, 0, canvas.width, fontSize * 2);
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillText(`${SIMULATION_LABEL[locale]} ${prompt}`.slice(0, 120), fontSize / 2, fontSize * 1.35);
+
+  return { mimeType: 'image/png', data: canvas.toDataURL('image/png').split(',')[1] };
+};
+
+export const createMockProvider = (latencyMs = MOCK_LATENCY_MS): DesignAIProvider => ({
+  name: 'mock',
+
+  validateSpace: async (images) => {
+    await delay(latencyMs);
+    return { areImagesConsistent: images.length > 0, isSpaceTypeCorrect: true };
+  },
+
+  analyzeSpace: async ({ spaceType, cats, locale = DEFAULT_LOCALE }) => {
+    await delay(latencyMs * 2);
+    const room = CANNED_ROOMS[spaceType] ?? CANNED_ROOMS['Sala'];
+    const catNote = hasCatStep(spaceType) && cats.some(cat => cat.age === 'viejito') ? SENIOR_CAT_NOTE[locale] : '';
+    const dimensions: AIResponse['dimensions'] = {
+      length: { value: room.length, unit: 'm', confidence: 0.8 },
+      width: { value: room.width, unit: 'm', confidence: 0.7 },
+      height: { value: room.height, unit: 'm', confidence: 0.55 },
+    };
+    // Canned suggestions carry no items; they are inferred from the text like any model reply without them.
+    const suggestions = room.suggestions.map((s, i) => ({
+      styleName: s.styleName[locale],
+      description: s.description[locale] + (i === 0 ? catNote : ''),
+      woodId: s.woodId,
+      finishId: s.finishId,
+    }));
+    return {
+      dimensions,
+      floorPlan: floorPlanSVG(room),
+      currentStyle: room.currentStyle[locale],
+      suggestions: normalizeSuggestions(suggestions, spaceType, dimensions, locale),
+    };
+  },
+
+  refineImage: async ({ image, prompt, locale = DEFAULT_LOCALE }) => {
+    await delay(latencyMs * 2);
+    return renderMockRefinement(image, prompt, locale);
+  },
+
+  getInspiration: async (locale = DEFAULT_LOCALE) => {
+    await delay(latencyMs);
+    return CANNED_INSPIRATION.map((tip): InspirationTip => ({
+      title: tip.title[locale],
+      description: tip.description[locale],
+      imageUrl: placeholderImage(tip.label[locale], tip.hue),
+      spaceType: tip.spaceType,
+    }));
+  },
+});
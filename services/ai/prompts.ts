@@ -0,0 +1,239 @@
+import type { CatDetails, Locale, RoomDimensions } from '../../types';
+import { metresOf } from '../../utils/dimensions';
+import type { ScaleMeasurement } from '../scale/markerDetection';
+import { MARKER_SPACING_M } from '../scale/referenceTarget';
+import { finishName, materialsForSpace, woodName } from '../materials/catalog';
+import { MODULE_LIBRARY, moduleName } from '../modules/library';
+import { describeRules, householdRules } from '../cats/rules';
+import { SPACE_TYPES, hasCatStep, spaceTypeById } from '../spaces/registry';
+import { messagesFor } from '../i18n/catalogs';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+
+// --- Prompt Templates ---
+// One set of templates per language, so the model writes analyses and suggestions in the
+// client's language. Ids (woodId, finishId, moduleId) and the JSON keys stay the same in all.
+
+type PromptText = {
+  validation: (space: string) => string;
+  catsIntro: (count: number) => string;
+  catLine: (name: string, size: string, age: string, weightKg: number | null, mobility: string[], traits: string[]) => string;
+  catsExpert: string;
+  catsRules: string;
+  scaleIntro: (markerCm: number) => string;
+  scaleMissing: (image: number) => string;
+  scaleLine: (image: number, width: number, height: number, pixelsPerMetre: number, foreshortening: string, oblique: boolean) => string;
+  scaleAnchor: string;
+  materials: (woods: string, sheets: string, finishes: string, wet: boolean) => string;
+  items: (modules: string) => string;
+  analysis: (space: string, hint: string, materials: string, items: string, scale: string, cats: string) => string;
+  inspiration: (spaces: string) => string;
+  reference: string;
+  dimensions: (length: string, width: string, height: string) => string;
+};
+
+const PROMPTS: Record<Locale, PromptText> = {
+  es: {
+    validation: (space) =>
+      `Eres un experto en análisis de imágenes. Valida las siguientes imágenes. Primero, verifica que todas las imágenes son del mismo espacio o habitación. Segundo, verifica que el tipo de espacio en las imágenes coincide con el tipo de espacio seleccionado: '${space}'. Responde únicamente con JSON.`,
+    catsIntro: (count) => `\nAdemás, considera la siguiente información sobre los ${count} gatos que usarán el espacio: \n`,
+    catLine: (name, size, age, weightKg, mobility, traits) =>
+      `- ${name}: tamaño ${size}, edad ${age}${weightKg ? `, ${weightKg} kg` : ''}${mobility.length > 0 ? `, movilidad: ${mobility.join(', ')}` : ''}${traits.length > 0 ? `, carácter: ${traits.join(', ')}` : ''}. \n`,
+    catsExpert: 'Actúa como un experto en enriquecimiento ambiental felino y adapta tus sugerencias a sus necesidades específicas (ej. rampas para gatos mayores, zonas altas de juego para los jóvenes).\n',
+    catsRules: 'Cualquier recorrido que propongas debe respetar estas reglas:',
+    scaleIntro: (markerCm) => `\nEscala medida localmente a partir de la hoja de referencia impresa (marcadores separados ${markerCm} cm, apoyada en el suelo):`,
+    scaleMissing: (image) => `- Imagen ${image}: hoja de referencia no detectada.`,
+    scaleLine: (image, width, height, pixelsPerMetre, foreshortening, oblique) =>
+      `- Imagen ${image} (${width}×${height} px): ${pixelsPerMetre} px por metro sobre la hoja, proporción de escorzo ${foreshortening}${oblique ? ' (hoja muy inclinada, escala poco fiable)' : ''}.`,
+    scaleAnchor: 'Ancla tus estimaciones de dimensiones a estas medidas.',
+    materials: (woods, sheets, finishes, wet) => `Trabaja solo con los materiales que tenemos en stock${wet ? ' (este espacio tiene humedad, así que solo se ofrecen materiales resistentes a ella)' : ''}:
+        - Maderas (woodId): ${woods}.
+        - Tableros: ${sheets}.
+        - Acabados (finishId): ${finishes}.
+        Cada sugerencia debe indicar en "woodId" y "finishId" el identificador de la madera y el acabado elegidos, y solo puede mencionar esos materiales en su descripción.`,
+    items: (modules) => `Describe además cada mueble de la sugerencia en "items", usando solo estos módulos (moduleId): ${modules}.
+        Para cada mueble indica "wall", el índice de la pared donde se apoya (la pared i va del vértice i al vértice i + 1 del <polygon class="room">, empezando en 0), sus medidas aproximadas "width", "depth" y "height" en metros, y su "woodId" y "finishId". Un mueble largo se describe como varios módulos seguidos.`,
+    analysis: (space, hint, materials, items, scale, cats) =>
+      `Eres un asistente de diseño de interiores experto en mobiliario de madera para un espacio tipo '${space}'.
+        Analiza las imágenes proporcionadas, que son diferentes vistas del mismo espacio y ya han sido validadas como correctas.
+        Una de las imágenes contiene un objeto de referencia de escala conocido para que puedas estimar las dimensiones.
+
+        1. Estima las dimensiones principales de la habitación (largo, ancho, alto) como números en metros (unit: "m"), con un nivel de confianza entre 0 y 1 para cada valor.
+        2. Genera un plano de planta 2D simple en formato SVG. El SVG debe ser un string XML válido cuyo elemento raíz declare xmlns="http://www.w3.org/2000/svg", minimalista, con fondo transparente y trazos negros. No incluyas scripts ni manejadores de eventos. Dibuja el contorno de la habitación como un único <polygon class="room"> y cada puerta, ventana o vano como un <line class="door">, <line class="window"> o <line class="opening"> sobre su pared.
+        3. Describe el estilo actual del espacio.
+        4. Ofrece 3 sugerencias de diseño distintas utilizando mobiliario estructural de madera (por ejemplo: estanterías, bibliotecas, gabinetes de cocina o baño, muebles de recibidor). No sugieras muebles exentos como sillas, sofás o mesas de centro.${hint ? ` ${hint}` : ''}
+        ${materials}
+        ${items}
+        5. Presenta tu respuesta en formato JSON. No incluyas \` \`\`\`json \` al inicio ni \` \`\`\` \` al final.
+        ${scale}
+        ${cats}`,
+    inspiration: (spaces) => `Actúa como un experto diseñador de interiores. Genera 4 consejos o tendencias de diseño únicas y concisas sobre el uso de la madera en la decoración del hogar. Para cada consejo, proporciona una URL a una imagen relevante y de alta calidad de Unsplash, e indica en "spaceType" el identificador del espacio al que se aplica: ${spaces}. Presenta tu respuesta en formato JSON. No incluyas "\`\`\`json" al inicio ni "\`\`\`" al final.`,
+    reference: 'La segunda imagen muestra este mismo diseño ya aplicado desde otro ángulo de la habitación. Aplica el cambio a la primera imagen reproduciendo exactamente los mismos muebles, maderas, acabados y posiciones; adapta solo la perspectiva.',
+    dimensions: (length, width, height) =>
+      `Dimensiones reales de la habitación: largo ${length} m, ancho ${width} m, alto ${height} m. Escala el mobiliario de forma proporcional a estas medidas.`,
+  },
+
+  en: {
+    validation: (space) =>
+      `You are an expert in image analysis. Validate the following images. First, check that all the images show the same space or room. Second, check that the type of space in the images matches the selected space type: '${space}'. Reply with JSON only.`,
+    catsIntro: (count) => `\nAlso take into account the following information about the ${count} cats that will use the space: \n`,
+    catLine: (name, size, age, weightKg, mobility, traits) =>
+      `- ${name}: size ${size}, age ${age}${weightKg ? `, ${weightKg} kg` : ''}${mobility.length > 0 ? `, mobility: ${mobility.join(', ')}` : ''}${traits.length > 0 ? `, personality: ${traits.join(', ')}` : ''}. \n`,
+    catsExpert: 'Act as an expert in feline environmental enrichment and adapt your suggestions to their specific needs (e.g. ramps for older cats, high play areas for young ones).\n',
+    catsRules: 'Any route you propose must respect these rules:',
+    scaleIntro: (markerCm) => `\nScale measured locally from the printed reference sheet (markers ${markerCm} cm apart, lying on the floor):`,
+    scaleMissing: (image) => `- Image ${image}: reference sheet not detected.`,
+    scaleLine: (image, width, height, pixelsPerMetre, foreshortening, oblique) =>
+      `- Image ${image} (${width}×${height} px): ${pixelsPerMetre} px per metre on the sheet, foreshortening ratio ${foreshortening}${oblique ? ' (sheet heavily tilted, scale unreliable)' : ''}.`,
+    scaleAnchor: 'Anchor your dimension estimates to these measurements.',
+    materials: (woods, sheets, finishes, wet) => `Only work with the materials we have in stock${wet ? ' (this space is damp, so only moisture-resistant materials are offered)' : ''}:
+        - Woods (woodId): ${woods}.
+        - Boards: ${sheets}.
+        - Finishes (finishId): ${finishes}.
+        Every suggestion must give the id of the chosen wood and finish in "woodId" and "finishId", and may only mention those materials in its description.`,
+    items: (modules) => `Also describe each piece of furniture in the suggestion in "items", using only these modules (moduleId): ${modules}.
+        For each piece give "wall", the index of the wall it stands against (wall i runs from vertex i to vertex i + 1 of the <polygon class="room">, starting at 0), its approximate "width", "depth" and "height" in metres, and its "woodId" and "finishId". A long unit is described as several modules in a row.`,
+    analysis: (space, hint, materials, items, scale, cats) =>
+      `You are an interior design assistant specialised in wooden furniture for a space of type '${space}'.
+        Analyse the images provided, which are different views of the same space and have already been validated.
+        One of the images contains a reference object of known scale so you can estimate the dimensions.
+
+        1. Estimate the main dimensions of the room (length, width, height) as numbers in metres (unit: "m"), with a confidence level between 0 and 1 for each value.
+        2. Generate a simple 2D floor plan in SVG format. The SVG must be a valid, minimal XML string whose root element declares xmlns="http://www.w3.org/2000/svg", with a transparent background and black strokes. Do not include scripts or event handlers. Draw the outline of the room as a single <polygon class="room"> and each door, window or opening as a <line class="door">, <line class="window"> or <line class="opening"> on its wall.
+        3. Describe the current style of the space.
+        4. Offer 3 different design suggestions using built-in wooden furniture (for example: shelving, bookcases, kitchen or bathroom cabinets, entryway units). Do not suggest freestanding furniture such as chairs, sofas or coffee tables.${hint ? ` ${hint}` : ''}
+        ${materials}
+        ${items}
+        5. Present your answer in JSON format. Do not include \` \`\`\`json \` at the start or \` \`\`\` \` at the end.
+        Write every text field (currentStyle, styleName, description) in British English.
+        ${scale}
+        ${cats}`,
+    inspiration: (spaces) => `Act as an expert interior designer. Generate 4 unique, concise design tips or trends about using wood in home decoration, written in British English. For each tip, provide a URL to a relevant, high-quality Unsplash image, and give in "spaceType" the id of the space it applies to: ${spaces}. Present your answer in JSON format. Do not include "\`\`\`json" at the start or "\`\`\`" at the end.`,
+    reference: 'The second image shows this same design already applied from another angle of the room. Apply the change to the first image reproducing exactly the same furniture, woods, finishes and positions; adapt only the perspective.',
+    dimensions: (length, width, height) =>
+      `Actual room dimensions: length ${length} m, width ${width} m, height ${height} m. Scale the furniture in proportion to these measurements.`,
+  },
+
+  pt: {
+    validation: (space) =>
+      `És um especialista em análise de imagens. Valida as seguintes imagens. Primeiro, verifica que todas as imagens são do mesmo espaço ou divisão. Segundo, verifica que o tipo de espaço nas imagens corresponde ao tipo de espaço escolhido: '${space}'. Responde apenas com JSON.`,
+    catsIntro: (count) => `\nTem também em conta a seguinte informação sobre os ${count} gatos que vão usar o espaço: \n`,
+    catLine: (name, size, age, weightKg, mobility, traits) =>
+      `- ${name}: tamanho ${size}, idade ${age}${weightKg ? `, ${weightKg} kg` : ''}${mobility.length > 0 ? `, mobilidade: ${mobility.join(', ')}` : ''}${traits.length > 0 ? `, personalidade: ${traits.join(', ')}` : ''}. \n`,
+    catsExpert: 'Atua como especialista em enriquecimento ambiental felino e adapta as tuas sugestões às necessidades específicas deles (ex.: rampas para gatos mais velhos, zonas altas de brincadeira para os jovens).\n',
+    catsRules: 'Qualquer percurso que proponhas tem de respeitar estas regras:',
+    scaleIntro: (markerCm) => `\nEscala medida localmente a partir da folha de referência impressa (marcadores separados por ${markerCm} cm, pousada no chão):`,
+    scaleMissing: (image) => `- Imagem ${image}: folha de referência não detetada.`,
+    scaleLine: (image, width, height, pixelsPerMetre, foreshortening, oblique) =>
+      `- Imagem ${image} (${width}×${height} px): ${pixelsPerMetre} px por metro sobre a folha, proporção de escorço ${foreshortening}${oblique ? ' (folha muito inclinada, escala pouco fiável)' : ''}.`,
+    scaleAnchor: 'Baseia as tuas estimativas de dimensões nestas medidas.',
+    materials: (woods, sheets, finishes, wet) => `Trabalha apenas com os materiais que temos em stock${wet ? ' (este espaço tem humidade, por isso só se oferecem materiais resistentes a ela)' : ''}:
+        - Madeiras (woodId): ${woods}.
+        - Painéis: ${sheets}.
+        - Acabamentos (finishId): ${finishes}.
+        Cada sugestão deve indicar em "woodId" e "finishId" o identificador da madeira e do acabamento escolhidos, e só pode mencionar esses materiais na sua descrição.`,
+    items: (modules) => `Descreve também cada móvel da sugestão em "items", usando apenas estes módulos (moduleId): ${modules}.
+        Para cada móvel indica "wall", o índice da parede onde se apoia (a parede i vai do vértice i ao vértice i + 1 do <polygon class="room">, a começar em 0), as suas medidas aproximadas "width", "depth" e "height" em metros, e o seu "woodId" e "finishId". Um móvel comprido descreve-se como vários módulos seguidos.`,
+    analysis: (space, hint, materials, items, scale, cats) =>
+      `És um assistente de design de interiores especialista em mobiliário de madeira para um espaço do tipo '${space}'.
+        Analisa as imagens fornecidas, que são vistas diferentes do mesmo espaço e já foram validadas.
+        Uma das imagens contém um objeto de referência de escala conhecida para que possas estimar as dimensões.
+
+        1. Estima as dimensões principais da divisão (comprimento, largura, altura) como números em metros (unit: "m"), com um nível de confiança entre 0 e 1 para cada valor.
+        2. Gera uma planta 2D simples em formato SVG. O SVG deve ser uma string XML válida cujo elemento raiz declare xmlns="http://www.w3.org/2000/svg", minimalista, com fundo transparente e traços pretos. Não incluas scripts nem manipuladores de eventos. Desenha o contorno da divisão como um único <polygon class="room"> e cada porta, janela ou vão como um <line class="door">, <line class="window"> ou <line class="opening"> sobre a sua parede.
+        3. Descreve o estilo atual do espaço.
+        4. Oferece 3 sugestões de design diferentes usando mobiliário estrutural de madeira (por exemplo: estantes, bibliotecas, armários de cozinha ou casa de banho, móveis de entrada). Não sugiras móveis soltos como cadeiras, sofás ou mesas de centro.${hint ? ` ${hint}` : ''}
+        ${materials}
+        ${items}
+        5. Apresenta a tua resposta em formato JSON. Não incluas \` \`\`\`json \` no início nem \` \`\`\` \` no fim.
+        Escreve todos os campos de texto (currentStyle, styleName, description) em português europeu.
+        ${scale}
+        ${cats}`,
+    inspiration: (spaces) => `Atua como um designer de interiores especialista. Gera 4 dicas ou tendências de design únicas e concisas sobre o uso da madeira na decoração da casa, escritas em português europeu. Para cada dica, fornece um URL para uma imagem relevante e de alta qualidade do Unsplash, e indica em "spaceType" o identificador do espaço a que se aplica: ${spaces}. Apresenta a tua resposta em formato JSON. Não incluas "\`\`\`json" no início nem "\`\`\`" no fim.`,
+    reference: 'A segunda imagem mostra este mesmo design já aplicado a partir de outro ângulo da divisão. Aplica a alteração à primeira imagem reproduzindo exatamente os mesmos móveis, madeiras, acabamentos e posições; adapta apenas a perspetiva.',
+    dimensions: (length, width, height) =>
+      `Dimensões reais da divisão: comprimento ${length} m, largura ${width} m, altura ${height} m. Escala o mobiliário proporcionalmente a estas medidas.`,
+  },
+};
+
+const promptsFor = (locale: Locale) => PROMPTS[locale] ?? PROMPTS[DEFAULT_LOCALE];
+
+/** The space type as the client sees it in their language. */
+const spaceName = (spaceType: string, locale: Locale) => messagesFor(locale).spaces[spaceType] ?? spaceType;
+
+export const validationPrompt = (spaceType: string, locale: Locale = DEFAULT_LOCALE) =>
+  promptsFor(locale).validation(spaceName(spaceType, locale));
+
+const catDetailsPrompt = (cats: CatDetails[], locale: Locale) => {
+  const text = promptsFor(locale);
+  const m = messagesFor(locale).cats;
+  let prompt = text.catsIntro(cats.length);
+  cats.forEach((cat, index) => {
+    prompt += text.catLine(
+      cat.name.trim() || m.fallbackName(index + 1),
+      (m.sizes[cat.size] ?? cat.size).toLowerCase(),
+      (m.ages[cat.age] ?? cat.age).toLowerCase(),
+      cat.weightKg,
+      cat.mobilityIssues.map(issue => m.mobilityIssues[issue].toLowerCase()),
+      cat.traits.map(trait => m.traitNames[trait].toLowerCase()),
+    );
+  });
+  prompt += text.catsExpert;
+  prompt += `${text.catsRules}\n${describeRules(householdRules(cats), m.rules).map(line => `- ${line}`).join('\n')}`;
+  return prompt;
+};
+
+const scalePrompt = (scales: (ScaleMeasurement | null)[], locale: Locale) => {
+  if (!scales.some(scale => scale?.pixelsPerMetre)) return '';
+  const text = promptsFor(locale);
+  const lines = scales.map((scale, index) => {
+    if (!scale || !scale.pixelsPerMetre) return text.scaleMissing(index + 1);
+    return text.scaleLine(index + 1, scale.imageWidth, scale.imageHeight, Math.round(scale.pixelsPerMetre), scale.foreshortening?.toFixed(2) ?? '', scale.status === 'oblique');
+  });
+  return `${text.scaleIntro(MARKER_SPACING_M * 100)}\n${lines.join('\n')}\n${text.scaleAnchor}\n`;
+};
+
+const materialsPrompt = (spaceType: string, locale: Locale) => {
+  const { woods, sheets, finishes } = materialsForSpace(spaceType);
+  const wet = woods.every(wood => wood.moistureResistance === 'high');
+  const m = messagesFor(locale);
+  return promptsFor(locale).materials(
+    woods.map(wood => `${wood.id} = ${woodName(m, wood.id)}`).join(', '),
+    sheets.map(sheet => sheet.name).join(', '),
+    finishes.map(finish => `${finish.id} = ${finishName(m, finish.id)}`).join(', '),
+    wet,
+  );
+};
+
+const itemsPrompt = (locale: Locale) =>
+  promptsFor(locale).items(MODULE_LIBRARY.map(module => `${module.id} = ${moduleName(messagesFor(locale), module.id)}`).join(', '));
+
+export const analysisPrompt = (spaceType: string, cats: CatDetails[], scales: (ScaleMeasurement | null)[] = [], locale: Locale = DEFAULT_LOCALE) =>
+  promptsFor(locale).analysis(
+    spaceName(spaceType, locale),
+    spaceTypeById(spaceType)?.promptHints?.[locale] ?? '',
+    materialsPrompt(spaceType, locale),
+    itemsPrompt(locale),
+    scalePrompt(scales, locale),
+    hasCatStep(spaceType) ? catDetailsPrompt(cats, locale) : '',
+  );
+
+export const inspirationPrompt = (locale: Locale = DEFAULT_LOCALE) =>
+  promptsFor(locale).inspiration(SPACE_TYPES.map(space => `${space.id} = ${spaceName(space.id, locale)}`).join(', '));
+
+/** Appends the room's measurements so renders keep the furniture at a realistic scale. */
+export const refinementPrompt = (prompt: string, dimensions?: RoomDimensions, hasReference = false, locale: Locale = DEFAULT_LOCALE) => {
+  const text = promptsFor(locale);
+  let result = prompt;
+  if (hasReference) {
+    result += `
+
+${text.reference}`;
+  }
+  if (dimensions) {
+    const { length, width, height } = dimensions;
+    result += `
+
+${text.dimensions(metresOf(length).toFixed(2), metresOf(width).toFixed(2), metresOf(height).toFixed(2))}`;
+  }
+  return result;
+};
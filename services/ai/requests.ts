@@ -0,0 +1,109 @@
+import type { AIRequestOptions, DesignAIProvider } from './types';
+
+// --- AI Request Policy ---
+// Every call to the provider gets a timeout, is retried with exponential backoff when the failure
+// is transient and can be cancelled by the client. Failures are sorted into kinds so the studio
+// can tell the client what went wrong and what to do about it.
+
+export type AIErrorKind = 'network' | 'timeout' | 'quota' | 'safety' | 'invalidResponse' | 'cancelled' | 'unknown';
+
+export class AIError extends Error {
+  kind: AIErrorKind;
+
+  /** `cause` keeps the provider's original error for the console. */
+  constructor(kind: AIErrorKind, message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'AIError';
+    this.kind = kind;
+  }
+}
+
+export const AI_TIMEOUT_MS = Number(process.env.AI_TIMEOUT_MS) || 90_000;
+const AI_RETRIES = 2;
+const RETRY_BASE_MS = 1_000;
+
+/** Kinds worth another attempt: the same request may well succeed a few seconds later. */
+const TRANSIENT_KINDS: AIErrorKind[] = ['network', 'timeout', 'quota'];
+
+/** What browsers throw when `fetch` never reaches the server (Chrome, Firefox and Safari). */
+const FETCH_FAILURE = /failed to fetch|networkerror|load failed|network request failed/i;
+
+/** Sorts any error thrown by a provider into an `AIError`. */
+export const classifyAIError = (e: unknown): AIError => {
+  if (e instanceof AIError) return e;
+  const message = e instanceof Error ? e.message : String(e);
+  const status = typeof (e as { status?: unknown })?.status === 'number' ? (e as { status: number }).status : null;
+  if (e instanceof DOMException && e.name === 'AbortError') return new AIError('cancelled', message, e);
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) return new AIError('quota', message, e);
+  if ((status !== null && status >= 500) || (e instanceof TypeError && FETCH_FAILURE.test(message))) return new AIError('network', message, e);
+  if (e instanceof SyntaxError) return new AIError('invalidResponse', message, e);
+  return new AIError('unknown', message, e);
+};
+
+/** Backoff before retry `attempt` (1-based): 1 s, 2 s, 4 s… with some jitter so retries do not line up. */
+const retryDelay = (attempt: number) => RETRY_BASE_MS * 2 ** (attempt - 1) * (0.8 + Math.random() * 0.4);
+
+const cancelled = () => new AIError('cancelled', 'AI request cancelled');
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelled());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `request` under the policy. Each attempt gets its own signal, aborted on timeout or when
+ * `options.signal` is; the attempt is abandoned even if the provider ignores its signal.
+ */
+export const runAIRequest = async <T>(request: (signal: AbortSignal) => Promise<T>, options: AIRequestOptions = {}): Promise<T> => {
+  const { signal, timeoutMs = AI_TIMEOUT_MS, retries = AI_RETRIES, onRetry } = options;
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw cancelled();
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let error: AIError;
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        controller.signal.addEventListener('abort', () => reject(new AIError(timedOut ? 'timeout' : 'cancelled', 'AI request aborted')), { once: true });
+        request(controller.signal).then(resolve, reject);
+      });
+    } catch (e) {
+      error = signal?.aborted ? cancelled() : timedOut ? new AIError('timeout', `No answer after ${timeoutMs} ms`, e) : classifyAIError(e);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (attempt >= retries || !TRANSIENT_KINDS.includes(error.kind)) throw error;
+    console.warn(`AI request failed (${error.kind}), retrying:`, error.cause ?? error);
+    onRetry?.(attempt + 1, error);
+    await wait(retryDelay(attempt + 1), signal);
+  }
+};
+
+/** Applies the request policy to every call of `provider`. */
+export const withRequestPolicy = (provider: DesignAIProvider): DesignAIProvider => ({
+  name: provider.name,
+  validateSpace: (images, spaceType, locale, options) =>
+    runAIRequest(signal => provider.validateSpace(images, spaceType, locale, { signal }), options),
+  analyzeSpace: (input, options) =>
+    runAIRequest(signal => provider.analyzeSpace(input, { signal }), options),
+  refineImage: (input, options) =>
+    runAIRequest(signal => provider.refineImage(input, { signal }), options),
+  getInspiration: (locale, options) =>
+    runAIRequest(signal => provider.getInspiration(locale, { signal }), options),
+});
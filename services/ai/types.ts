@@ -0,0 +1,60 @@
+import type { AIResponse, CatDetails, InspirationTip, Locale, RoomDimensions } from '../../types';
+import type { ScaleMeasurement } from '../scale/markerDetection';
+import type { AIError } from './requests';
+
+// --- Provider Contract ---
+/** An image as exchanged with the AI models: bare base64 plus its MIME type. */
+export type ImageInput = {
+  mimeType: string;
+  data: string;
+};
+
+export type SpaceValidation = {
+  areImagesConsistent: boolean;
+  isSpaceTypeCorrect: boolean;
+};
+
+export type AnalyzeSpaceInput = {
+  images: ImageInput[];
+  spaceType: string;
+  cats: CatDetails[];
+  /** Scale measured locally from the printed reference sheet, one entry per image. */
+  scales?: (ScaleMeasurement | null)[];
+  /** Language the analysis and suggestions are written in. */
+  locale?: Locale;
+};
+
+export type RefineImageInput = {
+  image: ImageInput;
+  prompt: string;
+  /** Room measurements (possibly corrected by the client) to keep the render to scale. */
+  dimensions?: RoomDimensions;
+  /** The same change already rendered from another view, so furniture stays consistent across angles. */
+  reference?: ImageInput;
+  locale?: Locale;
+};
+
+/** How a single call is run; providers only honour `signal`, the rest is applied by `withRequestPolicy`. */
+export type AIRequestOptions = {
+  /** Aborts the call, including any retry still waiting. */
+  signal?: AbortSignal;
+  /** Per attempt, in milliseconds. */
+  timeoutMs?: number;
+  /** Extra attempts after transient failures (network, timeout, quota). */
+  retries?: number;
+  /** Called before each retry, with the retry number starting at 1 and the failure that caused it. */
+  onRetry?: (retry: number, error: AIError) => void;
+};
+
+/**
+ * Every AI capability the design journey relies on. The app only talks to this interface,
+ * so the Gemini implementation can be swapped for the offline mock (or another vendor).
+ */
+export interface DesignAIProvider {
+  readonly name: string;
+  /** Checks that all photos show the same room and that it matches the selected space type. */
+  validateSpace(images: ImageInput[], spaceType: string, locale?: Locale, options?: AIRequestOptions): Promise<SpaceValidation>;
+  analyzeSpace(input: AnalyzeSpaceInput, options?: AIRequestOptions): Promise<AIResponse>;
+  refineImage(input: RefineImageInput, options?: AIRequestOptions): Promise<ImageInput>;
+  getInspiration(locale?: Locale, options?: AIRequestOptions): Promise<InspirationTip[]>;
+}
@@ -0,0 +1,128 @@
+import { apiRequest, ApiError } from './http';
+
+// --- Types ---
+export type StaffRole = 'admin' | 'designer' | 'carpenter';
+
+export type AuthUser = {
+  id: string;
+  email: string;
+  name: string;
+  /** Workshop staff role; `null` for clients. Missing on sessions stored before roles existed. */
+  role?: StaffRole | null;
+};
+
+export type AuthSession = {
+  token: string;
+  user: AuthUser;
+  expiresAt: number;
+};
+
+/**
+ * Everything the app needs from an identity provider. The default implementation talks
+ * to our own `/auth` endpoints, but any provider can be plugged in behind this interface.
+ */
+export interface AuthBackend {
+  signUp(name: string, email: string, password: string): Promise<AuthSession>;
+  signIn(email: string, password: string): Promise<AuthSession>;
+  /** `redirectPath` is a path on this site, such as `/taller`; the link returns there. */
+  requestMagicLink(email: string, redirectPath: string): Promise<void>;
+  verifyMagicLink(token: string): Promise<AuthSession>;
+  /** Resolves to `null` when the token is no longer valid. */
+  getSession(token: string): Promise<AuthSession | null>;
+  signOut(token: string): Promise<void>;
+}
+
+// --- HTTP Backend ---
+export const createHttpAuthBackend = (): AuthBackend => ({
+  signUp: (name, email, password) =>
+    apiRequest<AuthSession>('/auth/signup', { method: 'POST', body: { name, email, password } }),
+
+  signIn: (email, password) =>
+    apiRequest<AuthSession>('/auth/signin', { method: 'POST', body: { email, password } }),
+
+  requestMagicLink: async (email, redirectPath) => {
+    await apiRequest('/auth/magic-link', { method: 'POST', body: { email, redirectPath } });
+  },
+
+  verifyMagicLink: (token) =>
+    apiRequest<AuthSession>('/auth/magic-link/verify', { method: 'POST', body: { token } }),
+
+  getSession: async (token) => {
+    try {
+      return await apiRequest<AuthSession>('/auth/session', { token });
+    } catch (e) {
+      if (e instanceof ApiError && e.status === 401) return null;
+      throw e;
+    }
+  },
+
+  signOut: async (token) => {
+    await apiRequest('/auth/signout', { method: 'POST', token });
+  },
+});
+
+// --- Session Persistence ---
+const SESSION_STORAGE_KEY = 'maderarte.session';
+export const MAGIC_LINK_PARAM = 'magicToken';
+
+export const storeSession = (session: AuthSession) => {
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+};
+
+export const clearStoredSession = () => {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+};
+
+const loadStoredSession = (): AuthSession | null => {
+  try {
+    const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!raw) return null;
+    const session: AuthSession = JSON.parse(raw);
+    if (!session.token || session.expiresAt <= Date.now()) {
+      clearStoredSession();
+      return null;
+    }
+    return session;
+  } catch {
+    clearStoredSession();
+    return null;
+  }
+};
+
+/**
+ * Restores the session saved by a previous visit, or completes a magic-link sign-in when
+ * the current URL carries a token. Stored sessions are re-validated against the backend;
+ * if the backend is unreachable the stored session is trusted until it expires.
+ */
+export const restoreSession = async (backend: AuthBackend): Promise<AuthSession | null> => {
+  const url = new URL(window.location.href);
+  const magicToken = url.searchParams.get(MAGIC_LINK_PARAM);
+  if (magicToken) {
+    url.searchParams.delete(MAGIC_LINK_PARAM);
+    window.history.replaceState(window.history.state, '', url.toString());
+    try {
+      const session = await backend.verifyMagicLink(magicToken);
+      storeSession(session);
+      return session;
+    } catch (e) {
+      console.error('Error verifying magic link:', e);
+    }
+  }
+
+  const stored = loadStoredSession();
+  if (!stored) return null;
+
+  try {
+    const session = await backend.getSession(stored.token);
+    if (session) {
+      storeSession(session);
+    } else {
+      clearStoredSession();
+    }
+    return session;
+  } catch (e) {
+    if (e instanceof ApiError && e.status === 0) return stored;
+    clearStoredSession();
+    return null;
+  }
+};
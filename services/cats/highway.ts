@@ -0,0 +1,254 @@
+import { messagesFor, Messages } from '../i18n/catalogs';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+import { HouseholdRules } from './rules';
+
+// --- Cat Highways ---
+// A route of wall-mounted platforms along one wall, seen in elevation. Layouts are generated
+// from the household rules and then checked against them, so edits and cramped walls surface
+// as a list of violations rather than silently bending the rules.
+
+export type HighwayElementKind = 'ramp' | 'platform' | 'hideout';
+
+export type HighwayElement = {
+  /** Label drawn on the elevation, e.g. `P3`. */
+  id: string;
+  kind: HighwayElementKind;
+  /** Left end along the wall and length along it, in metres. */
+  x: number;
+  width: number;
+  /** Walking surface above the floor; for ramps, the height of their upper end. */
+  height: number;
+  depth: number;
+  /** Ramps rise to the right (`up`) or to the left (`down`). Platforms ignore it. */
+  direction?: 'up' | 'down';
+  /** Load the brackets are rated for, in kg. */
+  ratedLoadKg: number;
+};
+
+export type CatHighway = {
+  wallLength: number;
+  roomHeight: number;
+  /** Height the route was meant to reach. */
+  peakHeight: number;
+  elements: HighwayElement[];
+};
+
+export type HighwayOptions = {
+  wallLength: number;
+  roomHeight: number;
+  /** Height the route should reach, capped to leave headroom under the ceiling. */
+  peakHeight: number;
+  platformWidth: number;
+};
+
+export type HighwayViolation = {
+  /** Elements involved; empty for rules about the route as a whole. */
+  elementIds: string[];
+  message: string;
+};
+
+/** Clearance a cat needs above a platform to stand and turn. */
+export const HEADROOM_M = 0.3;
+const WALL_MARGIN_M = 0.1;
+const HIDEOUT_WIDTH_M = 0.45;
+const BRACKET_RATINGS_KG = { standard: 20, reinforced: 40 };
+const TOLERANCE_M = 0.005;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const cm = (metres: number) => `${Math.round(metres * 100)} cm`;
+
+const leftHeight = (element: HighwayElement) =>
+  element.kind === 'ramp' && element.direction !== 'down' ? 0 : element.height;
+const rightHeight = (element: HighwayElement) =>
+  element.kind === 'ramp' && element.direction === 'down' ? 0 : element.height;
+
+/**
+ * A route that climbs in the largest steps every cat can take. Multi-cat homes get a second
+ * descent after the peak so that every platform has two ways out; hiders get a closed box at
+ * the peak. When the wall is too short the route peaks lower rather than ending in a dead end.
+ */
+export const generateCatHighway = (options: HighwayOptions, rules: HouseholdRules): CatHighway => {
+  const target = Math.max(rules.maxStep, Math.min(options.peakHeight, options.roomHeight - HEADROOM_M));
+  const step = Math.floor(rules.maxStep * 100) / 100;
+  const gap = Math.floor(rules.maxGap * 0.8 * 100) / 100;
+  const depth = rules.minPlatformDepth;
+  const ratedLoadKg = rules.shelfLoadKg > BRACKET_RATINGS_KG.standard ? BRACKET_RATINGS_KG.reinforced : BRACKET_RATINGS_KG.standard;
+  const rampRun = (rise: number) => round(rise / Math.tan((rules.maxRampSlopeDeg * Math.PI) / 180));
+
+  /** Lays out a route up to `peak`, or returns null when it does not fit on the wall. */
+  const layout = (peak: number): HighwayElement[] | null => {
+    // Heights of the platforms on the way up, then back down when a second exit is needed.
+    const climb: number[] = [];
+    for (let height = rules.needsRamp ? Math.min(peak, step * 2) : Math.min(peak, step); ; height = round(height + step)) {
+      climb.push(round(Math.min(height, peak)));
+      if (height >= peak) break;
+    }
+    const heights = rules.escapeRoutes ? [...climb, ...climb.slice(0, -1).reverse()] : climb;
+    const peakIndex = climb.length - 1;
+
+    const elements: HighwayElement[] = [];
+    let x = WALL_MARGIN_M;
+    const push = (element: Omit<HighwayElement, 'id' | 'x'>, spacing: number) => {
+      const count = elements.filter(e => e.kind === element.kind).length + 1;
+      const prefix = element.kind === 'ramp' ? 'R' : element.kind === 'hideout' ? 'E' : 'P';
+      elements.push({ id: `${prefix}${count}`, x: round(x), ...element });
+      x = round(x + element.width + spacing);
+    };
+
+    if (rules.needsRamp) push({ kind: 'ramp', width: rampRun(heights[0]!), height: heights[0]!, depth, direction: 'up', ratedLoadKg }, 0);
+    heights.forEach((height, i) => {
+      const hideout = rules.hideouts && i === peakIndex;
+      const last = i === heights.length - 1;
+      // Senior routes in multi-cat homes end with a ramp back to the floor, flush with the last platform.
+      const rampDown = last && rules.needsRamp && rules.escapeRoutes;
+      push({
+        kind: hideout ? 'hideout' : 'platform',
+        width: hideout ? Math.max(HIDEOUT_WIDTH_M, options.platformWidth) : options.platformWidth,
+        height,
+        depth,
+        ratedLoadKg,
+      }, rampDown ? 0 : gap);
+      if (rampDown) push({ kind: 'ramp', width: rampRun(height), height, depth, direction: 'down', ratedLoadKg }, 0);
+    });
+    const end = Math.max(...elements.map(element => element.x + element.width));
+    return end <= options.wallLength - WALL_MARGIN_M + TOLERANCE_M ? elements : null;
+  };
+
+  let elements: HighwayElement[] | null = null;
+  for (let peak = target; !elements && peak > 0; peak = round(peak - step)) elements = layout(peak);
+  return { wallLength: options.wallLength, roomHeight: options.roomHeight, peakHeight: round(target), elements: elements ?? [] };
+};
+
+type ViolationPhrases = Messages['catHighway']['violations'];
+
+export const checkCatHighway = (
+  highway: CatHighway,
+  rules: HouseholdRules,
+  phrases: ViolationPhrases = messagesFor(DEFAULT_LOCALE).catHighway.violations,
+): HighwayViolation[] => {
+  const violations: HighwayViolation[] = [];
+  const elements = [...highway.elements].sort((a, b) => a.x - b.x);
+  const resting = elements.filter(element => element.kind !== 'ramp');
+  const names = (cats: HouseholdRules['cats']) => cats.map(cat => cat.name).join(', ');
+
+  if (resting.length === 0) {
+    return [{ elementIds: [], message: phrases.noPlatforms }];
+  }
+
+  // Each element on its own.
+  elements.forEach(element => {
+    if (element.x < -TOLERANCE_M || element.x + element.width > highway.wallLength + TOLERANCE_M) {
+      violations.push({ elementIds: [element.id], message: phrases.offWall(element.id) });
+    }
+    if (element.height + HEADROOM_M > highway.roomHeight + TOLERANCE_M) {
+      violations.push({ elementIds: [element.id], message: phrases.headroom(element.id, cm(HEADROOM_M)) });
+    }
+    if (element.kind === 'ramp') {
+      const slope = (Math.atan2(element.height, element.width) * 180) / Math.PI;
+      const tooSteep = rules.cats.filter(cat => slope > cat.maxRampSlopeDeg + 0.5);
+      if (tooSteep.length > 0) {
+        violations.push({ elementIds: [element.id], message: phrases.steepRamp(element.id, Math.round(slope), names(tooSteep), Math.min(...tooSteep.map(cat => cat.maxRampSlopeDeg))) });
+      }
+      return;
+    }
+    if (element.depth + TOLERANCE_M < rules.minPlatformDepth) {
+      violations.push({ elementIds: [element.id], message: phrases.shallow(element.id, cm(element.depth), cm(rules.minPlatformDepth)) });
+    }
+    if (element.ratedLoadKg < rules.shelfLoadKg) {
+      const heaviest = rules.cats.reduce((a, b) => (b.weightKg > a.weightKg ? b : a));
+      violations.push({ elementIds: [element.id], message: phrases.load(element.id, element.ratedLoadKg, heaviest.name, heaviest.weightKg, rules.shelfLoadKg) });
+    }
+  });
+
+  // Steps and gaps between neighbours, reported with the cats who could not make them.
+  const links = elements.slice(1).map((element, i) => {
+    const previous = elements[i]!;
+    const step = Math.abs(leftHeight(element) - rightHeight(previous));
+    const gap = element.x - (previous.x + previous.width);
+    const pair = [previous.id, element.id];
+    if (gap < -TOLERANCE_M) violations.push({ elementIds: pair, message: phrases.overlap(previous.id, element.id) });
+    const stepFails = rules.cats.filter(cat => step > cat.maxStep + TOLERANCE_M);
+    if (stepFails.length > 0) {
+      violations.push({ elementIds: pair, message: phrases.step(previous.id, element.id, cm(step), names(stepFails), cm(Math.min(...stepFails.map(cat => cat.maxStep)))) });
+    }
+    const gapFails = rules.cats.filter(cat => gap > cat.maxGap + TOLERANCE_M);
+    if (gapFails.length > 0) {
+      violations.push({ elementIds: pair, message: phrases.gap(previous.id, element.id, cm(gap), names(gapFails), cm(Math.min(...gapFails.map(cat => cat.maxGap)))) });
+    }
+    return { from: previous.id, to: element.id, usable: stepFails.length === 0 && gapFails.length === 0 && gap >= -TOLERANCE_M };
+  });
+
+  // Getting on from the floor.
+  const first = elements[0]!;
+  const rampFromFloor = first.kind === 'ramp' && first.direction !== 'down';
+  const needingRamp = rules.cats.filter(cat => cat.needsRamp);
+  if (needingRamp.length > 0 && !rampFromFloor) {
+    violations.push({ elementIds: [first.id], message: phrases.needsRamp(names(needingRamp)) });
+  }
+  const cannotStart = rules.cats.filter(cat => leftHeight(first) > cat.maxStep + TOLERANCE_M);
+  if (cannotStart.length > 0) {
+    violations.push({ elementIds: [first.id], message: phrases.tooHigh(first.id, cm(leftHeight(first)), names(cannotStart)) });
+  }
+
+  // Escape routes: in multi-cat homes every resting spot needs two ways out. Neighbours count,
+  // and so does the floor from any spot low enough to hop down from.
+  if (rules.escapeRoutes) {
+    const exits = new Map(elements.map(element => [element.id, 0]));
+    links.filter(link => link.usable).forEach(link => {
+      exits.set(link.from, exits.get(link.from)! + 1);
+      exits.set(link.to, exits.get(link.to)! + 1);
+    });
+    resting.forEach(element => {
+      const floor = element.height <= rules.maxStep + TOLERANCE_M ? 1 : 0;
+      if (exits.get(element.id)! + floor < 2) {
+        violations.push({ elementIds: [element.id], message: phrases.deadEnd(element.id) });
+      }
+    });
+  }
+
+  const reached = Math.max(...resting.map(element => element.height));
+  if (reached + TOLERANCE_M < highway.peakHeight) {
+    violations.push({ elementIds: [], message: phrases.lowPeak(cm(reached), cm(highway.peakHeight)) });
+  }
+
+  if (rules.hideouts && !resting.some(element => element.kind === 'hideout')) {
+    violations.push({ elementIds: [], message: phrases.noHideout });
+  }
+  return violations;
+};
+
+/** Elevation of the wall with the route drawn on it, in centimetres. Flagged elements are red. */
+export const highwaySVG = (
+  highway: CatHighway,
+  flagged: Set<string> = new Set(),
+  caption: Messages['catHighway']['caption'] = messagesFor(DEFAULT_LOCALE).catHighway.caption,
+): string => {
+  const W = Math.round(highway.wallLength * 100);
+  const H = Math.round(highway.roomHeight * 100);
+  const margin = 30;
+  const y = (metres: number) => H - metres * 100;
+  const colour = (element: HighwayElement) => (flagged.has(element.id) ? '#C62828' : '#6D4C41');
+
+  const shapes = highway.elements.map(element => {
+    const x1 = element.x * 100;
+    const x2 = (element.x + element.width) * 100;
+    const stroke = colour(element);
+    if (element.kind === 'ramp') {
+      const [from, to] = element.direction === 'down' ? [y(element.height), y(0)] : [y(0), y(element.height)];
+      return `<line x1="${x1}" y1="${from}" x2="${x2}" y2="${to}" stroke="${stroke}" stroke-width="4"/>`
+        + `<text x="${(x1 + x2) / 2}" y="${(from + to) / 2 - 8}" text-anchor="middle" fill="${stroke}">${element.id}</text>`;
+    }
+    const top = y(element.height);
+    const box = element.kind === 'hideout' ? `<rect x="${x1}" y="${top - 30}" width="${x2 - x1}" height="30" fill="#EAD7C3" stroke="${stroke}" stroke-width="2"/><circle cx="${(x1 + x2) / 2}" cy="${top - 14}" r="8" fill="#6D4C41"/>` : '';
+    return `${box}<rect x="${x1}" y="${top}" width="${x2 - x1}" height="4" fill="${stroke}"/>`
+      + `<text x="${(x1 + x2) / 2}" y="${top + 18}" text-anchor="middle" fill="${stroke}">${element.id} · ${Math.round(element.height * 100)}</text>`;
+  }).join('\n');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${-margin} ${-margin} ${W + margin * 2} ${H + margin * 2}" font-family="Roboto, Arial, sans-serif" font-size="14">
+<rect x="0" y="0" width="${W}" height="${H}" fill="#FAF6F1" stroke="#BCAAA4"/>
+<line x1="0" y1="${HEADROOM_M * 100}" x2="${W}" y2="${HEADROOM_M * 100}" stroke="#BCAAA4" stroke-dasharray="6 4"/>
+<line x1="0" y1="${H}" x2="${W}" y2="${H}" stroke="#3D352E" stroke-width="3"/>
+${shapes}
+<text x="0" y="${H + 22}" fill="#5f5f5f">${caption(Math.round(highway.wallLength * 100))}</text>
+</svg>`;
+};
@@ -0,0 +1,149 @@
+import type { CatDetails, CatMobilityIssue, CatTrait } from '../../types';
+import { messagesFor, Messages } from '../i18n/catalogs';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+import { isRecord } from '../../utils/records';
+
+// --- Feline Rules ---
+// Turns the household's cat profiles into the limits any cat furniture layout must respect.
+// The figures follow common feline-enrichment guidance and err on the cautious side.
+
+/** Size classes, with the weight assumed when the client does not give one. The catalogs word them. */
+export const CAT_SIZES = [
+  { value: 'pequeño', weightKg: 3.5 },
+  { value: 'mediano', weightKg: 5 },
+  { value: 'grande', weightKg: 7.5 },
+];
+
+export const CAT_MOBILITY_ISSUES: CatMobilityIssue[] = ['arthritis', 'three-legged', 'low-vision', 'overweight'];
+
+export const CAT_TRAITS: CatTrait[] = ['climber', 'jumper', 'hider', 'shy'];
+
+/** Limits for one cat, in metres and degrees. */
+export type CatRules = {
+  index: number;
+  name: string;
+  weightKg: number;
+  /** Highest rise between two consecutive resting surfaces. */
+  maxStep: number;
+  /** Widest horizontal gap between two consecutive resting surfaces. */
+  maxGap: number;
+  needsRamp: boolean;
+  maxRampSlopeDeg: number;
+  minPlatformDepth: number;
+};
+
+/** What every element of a layout must satisfy so that all the cats can use it. */
+export type HouseholdRules = {
+  cats: CatRules[];
+  maxStep: number;
+  maxGap: number;
+  needsRamp: boolean;
+  maxRampSlopeDeg: number;
+  minPlatformDepth: number;
+  /** Load each shelf must be rated for: the heaviest cat landing from a jump. */
+  shelfLoadKg: number;
+  /** Multi-cat homes need a second way off every resting spot, so no cat gets cornered. */
+  escapeRoutes: boolean;
+  /** Hiders and shy cats need at least one closed spot along the route. */
+  hideouts: boolean;
+};
+
+const STEP_BY_AGE: Record<string, number> = { joven: 0.45, adulto: 0.4, viejito: 0.25 };
+const GAP_BY_AGE: Record<string, number> = { joven: 0.35, adulto: 0.3, viejito: 0.15 };
+/** A landing cat briefly loads a shelf with about three times its weight. */
+const LANDING_FACTOR = 3;
+const HEAVY_CAT_KG = 6;
+
+export const emptyCat = (): CatDetails => ({ name: '', size: '', age: '', weightKg: null, mobilityIssues: [], traits: [] });
+
+const isMobilityIssue = (value: unknown): value is CatMobilityIssue => CAT_MOBILITY_ISSUES.some(issue => issue === value);
+const isTrait = (value: unknown): value is CatTrait => CAT_TRAITS.some(trait => trait === value);
+
+/** Fills in the fields cats saved before the full profile existed are missing. */
+export const normalizeCats = (raw: unknown): CatDetails[] => {
+  const list = Array.isArray(raw) ? raw : [];
+  return list.map((entry: unknown) => {
+    const cat = isRecord(entry) ? entry : {};
+    return {
+      ...emptyCat(),
+      name: typeof cat.name === 'string' ? cat.name : '',
+      size: typeof cat.size === 'string' ? cat.size : '',
+      age: typeof cat.age === 'string' ? cat.age : '',
+      weightKg: typeof cat.weightKg === 'number' && cat.weightKg > 0 ? cat.weightKg : null,
+      mobilityIssues: Array.isArray(cat.mobilityIssues) ? cat.mobilityIssues.filter(isMobilityIssue) : [],
+      traits: Array.isArray(cat.traits) ? cat.traits.filter(isTrait) : [],
+    };
+  });
+};
+
+type FallbackName = Messages['cats']['fallbackName'];
+
+/** The cat's name, or "Cat 2" and the like when the client left it blank. */
+export const catName = (cat: CatDetails, index: number, fallbackName: FallbackName = messagesFor(DEFAULT_LOCALE).cats.fallbackName) =>
+  cat.name.trim() || fallbackName(index + 1);
+
+export const catWeight = (cat: CatDetails) =>
+  cat.weightKg ?? CAT_SIZES.find(size => size.value === cat.size)?.weightKg ?? CAT_SIZES[1]!.weightKg;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const catRules = (cat: CatDetails, index: number, fallbackName?: FallbackName): CatRules => {
+  const weightKg = catWeight(cat);
+  const issues = new Set(cat.mobilityIssues);
+  let maxStep = STEP_BY_AGE[cat.age] ?? STEP_BY_AGE['adulto']!;
+  let maxGap = GAP_BY_AGE[cat.age] ?? GAP_BY_AGE['adulto']!;
+
+  if (issues.has('arthritis')) { maxStep = Math.min(maxStep, 0.2); maxGap = Math.min(maxGap, 0.1); }
+  if (issues.has('three-legged')) { maxStep = Math.min(maxStep, 0.25); maxGap = Math.min(maxGap, 0.15); }
+  // Jumping across a gap depends on judging its distance.
+  if (issues.has('low-vision')) { maxStep = Math.min(maxStep, 0.3); maxGap = Math.min(maxGap, 0.1); }
+  if (issues.has('overweight') || weightKg > HEAVY_CAT_KG) { maxStep -= 0.05; maxGap -= 0.05; }
+  // Athletic traits only stretch the limits of healthy, non-senior cats.
+  if (issues.size === 0 && cat.age !== 'viejito') {
+    if (cat.traits.includes('jumper')) { maxStep += 0.1; maxGap += 0.1; }
+    if (cat.traits.includes('climber')) maxStep += 0.05;
+  }
+
+  const needsRamp = cat.age === 'viejito' || issues.has('arthritis') || issues.has('three-legged');
+  return {
+    index,
+    name: catName(cat, index, fallbackName),
+    weightKg,
+    maxStep: round(Math.max(0.15, maxStep)),
+    maxGap: round(Math.max(0.05, maxGap)),
+    needsRamp,
+    maxRampSlopeDeg: needsRamp ? 30 : 40,
+    minPlatformDepth: weightKg > HEAVY_CAT_KG ? 0.35 : 0.3,
+  };
+};
+
+/** `fallbackName` names the cats the client left unnamed, in the client's language. */
+export const householdRules = (cats: CatDetails[], fallbackName?: FallbackName): HouseholdRules => {
+  const rules = cats.map((cat, index) => catRules(cat, index, fallbackName));
+  const all = rules.length > 0 ? rules : [catRules({ ...emptyCat(), size: 'mediano', age: 'adulto' }, 0, fallbackName)];
+  return {
+    cats: all,
+    maxStep: Math.min(...all.map(rule => rule.maxStep)),
+    maxGap: Math.min(...all.map(rule => rule.maxGap)),
+    needsRamp: all.some(rule => rule.needsRamp),
+    maxRampSlopeDeg: Math.min(...all.map(rule => rule.maxRampSlopeDeg)),
+    minPlatformDepth: Math.max(...all.map(rule => rule.minPlatformDepth)),
+    shelfLoadKg: Math.ceil(Math.max(...all.map(rule => rule.weightKg)) * LANDING_FACTOR),
+    escapeRoutes: cats.length > 1,
+    hideouts: cats.some(cat => cat.traits.includes('hider') || cat.traits.includes('shy')),
+  };
+};
+
+const cm = (metres: number) => `${Math.round(metres * 100)} cm`;
+
+/** The household's rules as short sentences, for the client and for the analysis prompt. */
+export const describeRules = (rules: HouseholdRules, phrases: Messages['cats']['rules'] = messagesFor(DEFAULT_LOCALE).cats.rules): string[] => {
+  const lines = [
+    phrases.steps(cm(rules.maxStep), cm(rules.maxGap)),
+    phrases.platforms(cm(rules.minPlatformDepth), rules.shelfLoadKg),
+  ];
+  if (rules.needsRamp) lines.push(phrases.ramp(rules.maxRampSlopeDeg));
+  if (rules.escapeRoutes) lines.push(phrases.escapeRoutes);
+  if (rules.hideouts) lines.push(phrases.hideouts);
+  return lines;
+};
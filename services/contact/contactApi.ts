@@ -0,0 +1,116 @@
+import { apiRequest, ApiError } from '../http';
+import { isSpam, ContactMessage } from './message';
+
+// --- Contact API ---
+// Messages go to `CONTACT_ENDPOINT` when it is configured (a form service or the production
+// backend) and to the stand-in backend's `/contact` otherwise. Messages written offline wait in
+// an outbox in `localStorage` until the connection returns.
+const CONTACT_ENDPOINT = process.env.CONTACT_ENDPOINT || '/contact';
+
+const OUTBOX_STORAGE_KEY = 'maderarte.contactOutbox';
+const SENT_STORAGE_KEY = 'maderarte.contactSent';
+
+// --- Client Rate Limiting ---
+// The backend has the final word; this keeps a stuck button or a bored visitor from flooding it.
+const MIN_INTERVAL_MS = 30_000;
+const WINDOW_MS = 60 * 60_000;
+const MAX_PER_WINDOW = 3;
+
+const readList = <T>(key: string): T[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(raw) ? raw : [];
+  } catch {
+    return [];
+  }
+};
+
+const recentSends = () => readList<number>(SENT_STORAGE_KEY).filter(time => time > Date.now() - WINDOW_MS);
+
+export type ContactRateLimit = { kind: 'wait'; seconds: number } | { kind: 'hourly' };
+
+/** Why another message cannot be sent yet, or null when it can. */
+export const contactRateLimit = (): ContactRateLimit | null => {
+  const sends = recentSends();
+  const sinceLast = Date.now() - Math.max(0, ...sends);
+  if (sinceLast < MIN_INTERVAL_MS) return { kind: 'wait', seconds: Math.ceil((MIN_INTERVAL_MS - sinceLast) / 1000) };
+  if (sends.length >= MAX_PER_WINDOW) return { kind: 'hourly' };
+  return null;
+};
+
+const recordSend = () => {
+  localStorage.setItem(SENT_STORAGE_KEY, JSON.stringify([...recentSends(), Date.now()]));
+};
+
+// --- Outbox ---
+const listeners = new Set<() => void>();
+
+export const queuedContactMessages = (): ContactMessage[] => readList<ContactMessage>(OUTBOX_STORAGE_KEY);
+
+const saveOutbox = (messages: ContactMessage[]) => {
+  localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(messages));
+  listeners.forEach(listener => listener());
+};
+
+/** Calls `listener` whenever the outbox changes; returns the unsubscribe function. */
+export const onContactOutboxChange = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const postMessage = (message: ContactMessage) => apiRequest<void>(CONTACT_ENDPOINT, { method: 'POST', body: message });
+
+const sendQueued = async () => {
+  let sent = 0;
+  for (const message of queuedContactMessages()) {
+    try {
+      await postMessage(message);
+      sent++;
+    } catch (e) {
+      const rejected = e instanceof ApiError && e.status >= 400 && e.status < 500 && e.status !== 408 && e.status !== 429;
+      if (!rejected) break;
+      console.error('Queued contact message rejected:', e);
+    }
+    saveOutbox(queuedContactMessages().filter(queued => queued.id !== message.id));
+  }
+  return sent;
+};
+
+let flushing: Promise<number> | null = null;
+
+/**
+ * Sends the queued messages in the order they were written and resolves with how many went
+ * out. Stops at the first connection failure; messages the backend rejects outright are dropped,
+ * since sending them again would not change the answer.
+ */
+export const flushContactOutbox = (): Promise<number> => {
+  flushing ??= sendQueued().finally(() => { flushing = null; });
+  return flushing;
+};
+
+const deliver = async (message: ContactMessage): Promise<'sent' | 'queued'> => {
+  // Bots get the same confirmation as everyone else, so they learn nothing from the response.
+  if (isSpam(message)) return 'sent';
+  const queue = () => {
+    saveOutbox([...queuedContactMessages(), message]);
+    return 'queued' as const;
+  };
+  if (!navigator.onLine) return queue();
+  try {
+    await postMessage(message);
+    return 'sent';
+  } catch (e) {
+    if (e instanceof ApiError && e.status === 0) return queue();
+    throw e;
+  }
+};
+
+/**
+ * Sends `message`, or queues it when there is no connection. Rejects with an `ApiError` when
+ * the backend refuses it.
+ */
+export const submitContactMessage = async (message: ContactMessage): Promise<'sent' | 'queued'> => {
+  const result = await deliver(message);
+  recordSend();
+  return result;
+};
@@ -0,0 +1,57 @@
+import { spaceTypeBySlug } from '../spaces/registry';
+import { isRecord } from '../../utils/records';
+
+// --- Contact Messages ---
+// Shared by the contact page and the stand-in backend so both apply the same rules.
+
+export type ContactMessage = {
+  /** Generated by the browser so a message retried from the outbox is only stored once. */
+  id: string;
+  name: string;
+  email: string;
+  /** Slug of the space type the message is about, or empty. */
+  projectType: string;
+  message: string;
+  /** Honeypot: hidden from people, so anything in it was typed by a bot. */
+  website: string;
+  writtenAt: number;
+};
+
+export type ContactField = 'name' | 'email' | 'projectType' | 'message';
+
+/** What is wrong with a field; the catalogs word each problem in every language. */
+export type ContactProblem =
+  | 'nameRequired' | 'nameTooLong'
+  | 'emailRequired' | 'emailInvalid'
+  | 'projectTypeInvalid'
+  | 'messageRequired' | 'messageTooShort' | 'messageTooLong';
+
+export type ContactErrors = Partial<Record<ContactField, ContactProblem>>;
+
+export const NAME_MAX_LENGTH = 100;
+export const MESSAGE_MIN_LENGTH = 10;
+export const MESSAGE_MAX_LENGTH = 5000;
+
+const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+/** Problems per field; an empty object means the message can be sent. */
+export const validateContactMessage = (message: unknown): ContactErrors => {
+  const errors: ContactErrors = {};
+  const fields = isRecord(message) ? message : {};
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  const name = text(fields.name);
+  if (!name) errors.name = 'nameRequired';
+  else if (name.length > NAME_MAX_LENGTH) errors.name = 'nameTooLong';
+  const email = text(fields.email);
+  if (!email) errors.email = 'emailRequired';
+  else if (!isValidEmail(email)) errors.email = 'emailInvalid';
+  const projectType = fields.projectType ?? '';
+  if (projectType !== '' && (typeof projectType !== 'string' || !spaceTypeBySlug(projectType))) errors.projectType = 'projectTypeInvalid';
+  const body = text(fields.message);
+  if (!body) errors.message = 'messageRequired';
+  else if (body.length < MESSAGE_MIN_LENGTH) errors.message = 'messageTooShort';
+  else if (body.length > MESSAGE_MAX_LENGTH) errors.message = 'messageTooLong';
+  return errors;
+};
+
+export const isSpam = (message: { website?: unknown }) => typeof message.website === 'string' && message.website.trim() !== '';
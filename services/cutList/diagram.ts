@@ -0,0 +1,50 @@
+import type { Locale } from '../../types';
+import { messagesFor } from '../i18n/catalogs';
+import { formatNumber } from '../i18n/format';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+import { sheetName } from '../materials/catalog';
+import type { MaterialNesting } from './nesting';
+
+// --- Cutting Diagrams ---
+// One printable SVG per sheet, drawn in millimetres so it prints to scale at any size.
+
+const MARGIN = 60;
+const CAPTION = 90;
+
+const escapeText = (text: string) => text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+
+export const sheetDiagramSVG = (nesting: MaterialNesting, layoutIndex: number, locale: Locale = DEFAULT_LOCALE): string => {
+  const m = messagesFor(locale);
+  const { sheet } = nesting;
+  const layout = nesting.layouts[layoutIndex]!;
+  const width = sheet.lengthMm + 2 * MARGIN;
+  const height = sheet.widthMm + 2 * MARGIN + CAPTION;
+  const top = MARGIN + CAPTION;
+
+  const parts = layout.placements.map(p => {
+    const cx = MARGIN + p.x + p.length / 2;
+    const cy = top + p.y + p.width / 2;
+    const fontSize = Math.max(18, Math.min(48, p.width / 4, p.length / 6));
+    const sizeLabel = p.rotated ? `${p.width}×${p.length} ↻` : `${p.length}×${p.width}`;
+    return `<g class="part">
+  <rect x="${MARGIN + p.x}" y="${top + p.y}" width="${p.length}" height="${p.width}" fill="#F3E5D8" stroke="#4E342E" stroke-width="2"/>
+  <text x="${cx}" y="${cy - fontSize * 0.2}" font-size="${fontSize}" text-anchor="middle" font-weight="700">${escapeText(p.code)}</text>
+  <text x="${cx}" y="${cy + fontSize}" font-size="${fontSize * 0.7}" text-anchor="middle">${sizeLabel}</text>
+</g>`;
+  }).join('\n');
+
+  const caption = m.cutList.diagram.caption(
+    sheetName(m, sheet.id),
+    `${sheet.lengthMm}×${sheet.widthMm}`,
+    layoutIndex + 1,
+    nesting.layouts.length,
+    formatNumber(locale, layout.waste, { style: 'percent', maximumFractionDigits: 0 }),
+  );
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width / 4}mm" height="${height / 4}mm" font-family="Roboto, Arial, sans-serif" fill="#3D352E">
+<text x="${MARGIN}" y="${MARGIN + 20}" font-size="40" font-weight="700">${escapeText(caption)}</text>
+<text x="${MARGIN}" y="${MARGIN + 70}" font-size="28">${escapeText(m.cutList.diagram.legend)}</text>
+<rect x="${MARGIN}" y="${top}" width="${sheet.lengthMm}" height="${sheet.widthMm}" fill="#FFFFFF" stroke="#3D352E" stroke-width="4" stroke-dasharray="16 8"/>
+${parts}
+</svg>`;
+};
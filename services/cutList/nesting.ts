@@ -0,0 +1,119 @@
+import type { SheetGood } from '../materials/catalog';
+import type { CutPart } from './parts';
+
+// --- Sheet Nesting ---
+// Guillotine packing: every cut runs edge to edge of the remaining offcut, which is what a
+// panel saw can actually do. Sheet x runs along the sheet's length, which is also its grain.
+
+export type NestingOptions = {
+  /** Saw blade width lost at every cut, in mm. */
+  kerf: number;
+  /** Factory edge trimmed off each side of a sheet, in mm. */
+  trim: number;
+};
+
+export const DEFAULT_NESTING_OPTIONS: NestingOptions = { kerf: 4, trim: 10 };
+
+export type Placement = {
+  code: string;
+  name: string;
+  x: number;
+  y: number;
+  /** Size on the sheet: along the sheet length, then across it. */
+  length: number;
+  width: number;
+  /** True when the part was turned 90°, which only happens to parts without grain. */
+  rotated: boolean;
+};
+
+export type SheetLayout = {
+  placements: Placement[];
+  usedArea: number;
+  waste: number;
+};
+
+export type MaterialNesting = {
+  sheet: SheetGood;
+  layouts: SheetLayout[];
+  /** Fraction of the bought sheets that ends up as offcut or sawdust. */
+  waste: number;
+  /** Parts larger than a whole sheet; they must be sourced separately. */
+  oversize: CutPart[];
+};
+
+type Rect = { x: number; y: number; length: number; width: number };
+
+type OpenSheet = { free: Rect[]; placements: Placement[]; usedArea: number };
+
+type Piece = { part: CutPart; area: number };
+
+const orientations = (part: CutPart): [number, number, boolean][] =>
+  part.grain || part.length === part.width
+    ? [[part.length, part.width, false]]
+    : [[part.length, part.width, false], [part.width, part.length, true]];
+
+/** Best free rectangle on a sheet: the one leaving the shortest leftover side. */
+const bestFit = (sheet: OpenSheet, part: CutPart) => {
+  let best: { rectIndex: number; length: number; width: number; rotated: boolean; score: number } | null = null;
+  sheet.free.forEach((rect, rectIndex) => {
+    for (const [length, width, rotated] of orientations(part)) {
+      if (length > rect.length || width > rect.width) continue;
+      const score = Math.min(rect.length - length, rect.width - width);
+      if (!best || score < best.score) best = { rectIndex, length, width, rotated, score };
+    }
+  });
+  return best as { rectIndex: number; length: number; width: number; rotated: boolean; score: number } | null;
+};
+
+/** Places a part in the corner of a free rectangle and splits what is left along the shorter axis. */
+const place = (sheet: OpenSheet, part: CutPart, fit: NonNullable<ReturnType<typeof bestFit>>, kerf: number) => {
+  const rect = sheet.free[fit.rectIndex]!;
+  sheet.free.splice(fit.rectIndex, 1);
+  sheet.placements.push({ code: part.code, name: part.name, x: rect.x, y: rect.y, length: fit.length, width: fit.width, rotated: fit.rotated });
+  sheet.usedArea += fit.length * fit.width;
+
+  const restLength = rect.length - fit.length - kerf;
+  const restWidth = rect.width - fit.width - kerf;
+  const splitAcross = rect.length - fit.length < rect.width - fit.width;
+  const beside: Rect = { x: rect.x + fit.length + kerf, y: rect.y, length: restLength, width: splitAcross ? fit.width : rect.width };
+  const above: Rect = { x: rect.x, y: rect.y + fit.width + kerf, length: splitAcross ? rect.length : fit.length, width: restWidth };
+  [beside, above].forEach(r => { if (r.length > 0 && r.width > 0) sheet.free.push(r); });
+};
+
+/** Lays every piece of the parts cut from one sheet good onto as few sheets as it can. */
+export const nestParts = (parts: CutPart[], sheet: SheetGood, options: NestingOptions = DEFAULT_NESTING_OPTIONS): MaterialNesting => {
+  const usable: Rect = { x: options.trim, y: options.trim, length: sheet.lengthMm - 2 * options.trim, width: sheet.widthMm - 2 * options.trim };
+  const fitsBlankSheet = (part: CutPart) => orientations(part).some(([l, w]) => l <= usable.length && w <= usable.width);
+
+  const oversize = parts.filter(part => !fitsBlankSheet(part));
+  const pieces: Piece[] = parts
+    .filter(fitsBlankSheet)
+    .flatMap(part => Array.from({ length: part.quantity }, () => ({ part, area: part.length * part.width })))
+    // Large pieces first, longest first among equals, so small parts fill the offcuts.
+    .sort((a, b) => b.area - a.area || Math.max(b.part.length, b.part.width) - Math.max(a.part.length, a.part.width));
+
+  const open: OpenSheet[] = [];
+  for (const { part } of pieces) {
+    let target: OpenSheet | undefined;
+    let fit: ReturnType<typeof bestFit> = null;
+    for (const candidate of open) {
+      fit = bestFit(candidate, part);
+      if (fit) { target = candidate; break; }
+    }
+    if (!target) {
+      target = { free: [{ ...usable }], placements: [], usedArea: 0 };
+      open.push(target);
+      fit = bestFit(target, part);
+    }
+    place(target, part, fit!, options.kerf);
+  }
+
+  const sheetArea = sheet.lengthMm * sheet.widthMm;
+  const used = open.reduce((sum, s) => sum + s.usedArea, 0);
+  return {
+    sheet,
+    oversize,
+    layouts: open.map(s => ({ placements: s.placements, usedArea: s.usedArea, waste: 1 - s.usedArea / sheetArea })),
+    waste: open.length > 0 ? 1 - used / (open.length * sheetArea) : 0,
+  };
+};
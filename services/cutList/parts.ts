@@ -0,0 +1,135 @@
+import { messagesFor, Messages } from '../i18n/catalogs';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+import { SHEET_GOODS, SheetGood, materialsForSpace } from '../materials/catalog';
+import type { QuoteModule } from '../quote/engine';
+
+// --- Cut List ---
+// Breaks furniture modules into the panels the workshop cuts. All sizes are millimetres;
+// `length` always runs along the grain when a part has one.
+
+export type CutPart = {
+  /** Short code printed on the part and the cutting diagram, e.g. `2C`. */
+  code: string;
+  moduleName: string;
+  name: string;
+  sheetId: string;
+  length: number;
+  width: number;
+  thickness: number;
+  quantity: number;
+  /** Whether the grain must run along `length`; parts without grain may be rotated freely. */
+  grain: boolean;
+  /** Banded edges per piece: along the length and along the width (0–2 each). */
+  banding: { long: number; short: number };
+};
+
+export type MaterialTotal = {
+  sheet: SheetGood;
+  pieces: number;
+  areaM2: number;
+  boardFeet: number;
+};
+
+export type CutList = {
+  parts: CutPart[];
+  materials: MaterialTotal[];
+  edgeBandingM: number;
+};
+
+/** Gap around doors and drawer fronts. */
+const FRONT_GAP_MM = 3;
+/** Shelves stop short of the back so it can be fitted. */
+const SHELF_SETBACK_MM = 20;
+const DRAWER_FRONT_MAX_MM = 300;
+/** Room left on a sheet's width for trimming and the saw. */
+const BACK_SHEET_MARGIN_MM = 30;
+const BOARD_FOOT_MM3 = 2359737.216;
+
+const mm = (metres: number) => Math.round(metres * 1000);
+
+type PartNames = Messages['cutList']['parts'];
+
+/**
+ * Sheets a design is cut from: a veneered board in the chosen species when we stock one,
+ * otherwise plywood (marine plywood in wet spaces), plus thin backs.
+ */
+export const sheetsForDesign = (woodId: string, spaceType: string | null) => {
+  const { sheets } = materialsForSpace(spaceType);
+  const wet = sheets.every(sheet => sheet.moistureResistant);
+  const carcass = sheets.find(s => s.veneerId === woodId)
+    ?? sheets.find(s => s.id === (wet ? 'marine-plywood-18' : 'birch-plywood-18'))
+    ?? sheets[0]!;
+  const back = sheets.find(s => s.thicknessMm <= 6) ?? carcass;
+  return { carcass, back };
+};
+
+const moduleParts = (module: QuoteModule, index: number, carcass: SheetGood, back: SheetGood, names: PartNames): CutPart[] => {
+  const W = mm(module.width);
+  const D = mm(module.depth);
+  const H = mm(module.height);
+  const T = carcass.thicknessMm;
+  const inner = W - 2 * T;
+  const fronts = module.doors;
+  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+  const part = (n: number, p: Omit<CutPart, 'code' | 'moduleName' | 'sheetId' | 'thickness'>, sheet = carcass): CutPart => ({
+    code: `${index + 1}${letters[n]}`,
+    moduleName: module.name,
+    sheetId: sheet.id,
+    thickness: sheet.thicknessMm,
+    ...p,
+  });
+
+  const parts = [
+    part(0, { name: names.side, length: H, width: D, quantity: 2, grain: true, banding: { long: 1, short: 0 } }),
+    part(1, { name: names.topAndBase, length: inner, width: D, quantity: 2, grain: true, banding: { long: 1, short: 0 } }),
+  ];
+  const shelves = module.shelves;
+  if (shelves > 0) {
+    parts.push(part(2, { name: names.shelf, length: inner - 2, width: D - SHELF_SETBACK_MM, quantity: shelves, grain: true, banding: { long: 1, short: 0 } }));
+  }
+  // Backs wider than a sheet are made of several panels joined on a rail.
+  const backPanels = Math.ceil((W - 4) / (back.widthMm - BACK_SHEET_MARGIN_MM));
+  parts.push(part(3, { name: names.back, length: H - 4, width: Math.floor((W - 4) / backPanels), quantity: backPanels, grain: false, banding: { long: 0, short: 0 } }, back));
+  if (module.fronts === 'doors' && fronts > 0) {
+    parts.push(part(4, { name: names.door, length: H - 2 * FRONT_GAP_MM, width: Math.floor((W - FRONT_GAP_MM * (fronts + 1)) / fronts), quantity: fronts, grain: true, banding: { long: 2, short: 2 } }));
+  } else if (module.fronts === 'drawers' && fronts > 0) {
+    // Drawer fronts run their grain horizontally, so their length is the width of the opening.
+    parts.push(part(4, { name: names.drawerFront, length: Math.floor((W - FRONT_GAP_MM * (fronts + 1)) / fronts), width: Math.min(H, DRAWER_FRONT_MAX_MM) - 2 * FRONT_GAP_MM, quantity: fronts, grain: true, banding: { long: 2, short: 2 } }));
+  }
+  return parts.filter(p => p.length > 0 && p.width > 0);
+};
+
+export const buildCutList = (
+  modules: QuoteModule[],
+  woodId: string,
+  spaceType: string | null,
+  names: PartNames = messagesFor(DEFAULT_LOCALE).cutList.parts,
+): CutList => {
+  // Modules with their own wood are cut from that species' board.
+  const parts = modules.flatMap((module, index) => {
+    const { carcass, back } = sheetsForDesign(module.woodId ?? woodId, spaceType);
+    return moduleParts(module, index, carcass, back, names);
+  });
+
+  const materials = new Map<string, MaterialTotal>();
+  parts.forEach(p => {
+    const sheet = SHEET_GOODS.find(s => s.id === p.sheetId)!;
+    const total = materials.get(sheet.id) ?? { sheet, pieces: 0, areaM2: 0, boardFeet: 0 };
+    total.pieces += p.quantity;
+    total.areaM2 += (p.length * p.width * p.quantity) / 1e6;
+    total.boardFeet += (p.length * p.width * p.thickness * p.quantity) / BOARD_FOOT_MM3;
+    materials.set(sheet.id, total);
+  });
+
+  const edgeBandingMm = parts.reduce((sum, p) => sum + (p.banding.long * p.length + p.banding.short * p.width) * p.quantity, 0);
+
+  return {
+    parts,
+    materials: [...materials.values()].map(total => ({
+      ...total,
+      areaM2: Math.round(total.areaM2 * 100) / 100,
+      boardFeet: Math.round(total.boardFeet * 10) / 10,
+    })),
+    edgeBandingM: Math.round(edgeBandingMm / 100) / 10,
+  };
+};
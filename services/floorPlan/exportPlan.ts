@@ -0,0 +1,91 @@
+import type { FloorPlan, Locale, PlanPoint, UnitSystem } from '../../types';
+import { formatLength } from '../../utils/dimensions';
+import { messagesFor } from '../i18n/catalogs';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+import { moduleName } from '../modules/library';
+import { OPENING_KINDS, furnitureCorners, openingEnds, planBounds, pointAlongWall, wallSegment } from './model';
+
+// --- Workshop Export ---
+// The exported SVG is drawn in centimetres (1 user unit = 1 cm) and uses the same classes
+// the importer understands, so an exported plan can be read back in. Labels are in `locale`,
+// Spanish for the workshop.
+
+const MARGIN_CM = 60;
+const FONT_CM = 14;
+
+const cm = (metres: number) => Math.round(metres * 1000) / 10;
+const pointsAttr = (points: PlanPoint[]) => points.map(p => `${cm(p.x)},${cm(p.y)}`).join(' ');
+const mm = (p: PlanPoint): PlanPoint => ({ x: Math.round(p.x * 1000) / 1000, y: Math.round(p.y * 1000) / 1000 });
+const escapeXML = (value: string) =>
+  value.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+export const planToSVG = (plan: FloorPlan, unitSystem: UnitSystem, locale: Locale = DEFAULT_LOCALE): string => {
+  const m = messagesFor(locale);
+  const bounds = planBounds(plan);
+  const minX = cm(bounds.minX) - MARGIN_CM;
+  const minY = cm(bounds.minY) - MARGIN_CM;
+  const width = cm(bounds.maxX - bounds.minX) + MARGIN_CM * 2;
+  const height = cm(bounds.maxY - bounds.minY) + MARGIN_CM * 2;
+  const thickness = cm(plan.wallThickness);
+
+  const labels = plan.corners.map((_, wall) => {
+    const segment = wallSegment(plan, wall);
+    const at = pointAlongWall(segment, segment.length / 2, -(plan.wallThickness + 0.2));
+    return `<text class="wall-length" x="${cm(at.x)}" y="${cm(at.y)}" font-size="${FONT_CM}" text-anchor="middle" dominant-baseline="middle">${escapeXML(formatLength(segment.length, unitSystem, locale))}</text>`;
+  });
+
+  // Saved projects are not normalised on load, so kinds the importer would not know are left out.
+  const openings = plan.openings.filter(opening => OPENING_KINDS.includes(opening.kind)).map(opening => {
+    const [a, b] = openingEnds(plan, opening);
+    const gap = `<line class="${escapeXML(opening.kind)}" data-label="${escapeXML(m.plan.openings[opening.kind])}" x1="${cm(a.x)}" y1="${cm(a.y)}" x2="${cm(b.x)}" y2="${cm(b.y)}" stroke="#fff" stroke-width="${thickness + 2}"/>`;
+    if (opening.kind === 'window') {
+      return gap + `<line class="window-glass" x1="${cm(a.x)}" y1="${cm(a.y)}" x2="${cm(b.x)}" y2="${cm(b.y)}" stroke="#000" stroke-width="2"/>`;
+    }
+    if (opening.kind === 'door') {
+      const segment = wallSegment(plan, opening.wall);
+      const leafEnd = pointAlongWall(segment, opening.offset, opening.width);
+      const radius = cm(opening.width);
+      const sweep = segment.inward.x * segment.direction.y - segment.inward.y * segment.direction.x > 0 ? 1 : 0;
+      return gap
+        + `<line class="door-leaf" x1="${cm(a.x)}" y1="${cm(a.y)}" x2="${cm(leafEnd.x)}" y2="${cm(leafEnd.y)}" stroke="#000" stroke-width="2"/>`
+        + `<path class="door-swing" d="M ${cm(leafEnd.x)} ${cm(leafEnd.y)} A ${radius} ${radius} 0 0 ${sweep} ${cm(b.x)} ${cm(b.y)}" fill="none" stroke="#000" stroke-width="1"/>`;
+    }
+    return gap;
+  });
+
+  const furniture = plan.furniture.map(item => {
+    const corners = furnitureCorners(plan, item);
+    const centre = {
+      x: corners.reduce((sum, p) => sum + p.x, 0) / 4,
+      y: corners.reduce((sum, p) => sum + p.y, 0) / 4,
+    };
+    return `<g class="furniture" data-module="${escapeXML(item.moduleId)}">`
+      + `<polygon points="${pointsAttr(corners)}" fill="#D7CCC8" stroke="#4E342E" stroke-width="2"/>`
+      + `<text x="${cm(centre.x)}" y="${cm(centre.y)}" font-size="${FONT_CM * 0.8}" text-anchor="middle" dominant-baseline="middle">${escapeXML(moduleName(m, item.moduleId))}</text>`
+      + `</g>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${minX} ${minY} ${width} ${height}" width="${width}" height="${height}" font-family="sans-serif">`
+    + `<polygon class="room" points="${pointsAttr(plan.corners)}" fill="none" stroke="#000" stroke-width="${thickness}" stroke-linejoin="miter"/>`
+    + openings.join('')
+    + furniture.join('')
+    + labels.join('')
+    + `</svg>`;
+};
+
+/** Explicit geometry for the workshop: every wall, opening and module with its coordinates in metres. */
+export const planToJSON = (plan: FloorPlan): string => JSON.stringify({
+  format: 'maderarte.floorPlan',
+  version: 1,
+  units: 'm',
+  wallThickness: plan.wallThickness,
+  walls: plan.corners.map((_, wall) => {
+    const { start, end, length } = wallSegment(plan, wall);
+    return { index: wall, start, end, length: Math.round(length * 100) / 100 };
+  }),
+  openings: plan.openings.map(opening => {
+    const [start, end] = openingEnds(plan, opening);
+    return { ...opening, start: mm(start), end: mm(end) };
+  }),
+  furniture: plan.furniture.map(item => ({ ...item, footprint: furnitureCorners(plan, item).map(mm) })),
+}, null, 2);
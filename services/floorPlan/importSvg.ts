@@ -0,0 +1,196 @@
+import type { AIResponse, FloorPlan, OpeningKind, PlanOpening, PlanPoint, RoomDimensions } from '../../types';
+import { metresOf } from '../../utils/dimensions';
+import { DEFAULT_WALL_THICKNESS, projectOntoWall, rectanglePlan, wallSegment } from './model';
+
+// --- AI Floor Plan Import ---
+// The model draws the plan freely, so we read it defensively: the room outline is the
+// largest stroked shape, and lines lying on a wall become doors, windows or openings. The
+// drawing is scaled so its bounding box matches the estimated room dimensions.
+
+type Outline = { points: PlanPoint[]; area: number; tagged: boolean };
+
+const num = (el: Element, name: string) => parseFloat(el.getAttribute(name) ?? '') || 0;
+
+const classOf = (el: Element) => (el.getAttribute('class') ?? '').toLowerCase();
+
+const paint = (el: Element, name: 'fill' | 'stroke') => {
+  const style = el.getAttribute('style') ?? '';
+  const match = style.match(new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*([^;]+)`, 'i'));
+  return (match?.[1] ?? el.getAttribute(name) ?? '').trim().toLowerCase();
+};
+
+const parsePointList = (value: string): PlanPoint[] => {
+  const numbers = value.trim().split(/[\s,]+/).map(parseFloat).filter(Number.isFinite);
+  const points: PlanPoint[] = [];
+  for (let i = 0; i + 1 < numbers.length; i += 2) points.push({ x: numbers[i]!, y: numbers[i + 1]! });
+  return points;
+};
+
+/** Reads paths made only of straight segments; curves mean it is not a room outline. */
+const parseStraightPath = (d: string): PlanPoint[] | null => {
+  const tokens = d.match(/[a-zA-Z]|-?(?:\d+\.?\d*|\.\d+)(?:e-?\d+)?/g) ?? [];
+  const points: PlanPoint[] = [];
+  let current: PlanPoint = { x: 0, y: 0 };
+  let command = '';
+  let i = 0;
+  const next = () => parseFloat(tokens[i++] ?? 'NaN');
+
+  while (i < tokens.length) {
+    if (/[a-zA-Z]/.test(tokens[i]!)) command = tokens[i++]!;
+    const relative = command === command.toLowerCase();
+    switch (command.toUpperCase()) {
+      case 'M':
+      case 'L': {
+        const x = next();
+        const y = next();
+        current = relative ? { x: current.x + x, y: current.y + y } : { x, y };
+        break;
+      }
+      case 'H': {
+        const x = next();
+        current = { x: relative ? current.x + x : x, y: current.y };
+        break;
+      }
+      case 'V': {
+        const y = next();
+        current = { x: current.x, y: relative ? current.y + y : y };
+        break;
+      }
+      case 'Z':
+        if (i < tokens.length && !/[a-zA-Z]/.test(tokens[i]!)) return null;
+        continue;
+      default:
+        return null;
+    }
+    if (!Number.isFinite(current.x) || !Number.isFinite(current.y)) return null;
+    points.push(current);
+  }
+  return points;
+};
+
+const boxArea = (points: PlanPoint[]) => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return (Math.max(...xs) - Math.min(...xs)) * (Math.max(...ys) - Math.min(...ys));
+};
+
+const findOutline = (doc: Document): Outline | null => {
+  const candidates: Outline[] = [];
+  doc.querySelectorAll('rect, polygon, polyline, path').forEach(el => {
+    const tagged = /\b(room|walls?|muros?|habitacion)\b/.test(classOf(el));
+    const stroke = paint(el, 'stroke');
+    const fill = paint(el, 'fill');
+    // Filled shapes without a stroke are backgrounds or furniture, not walls.
+    if (!tagged && (!stroke || stroke === 'none') && fill !== 'none') return;
+
+    let points: PlanPoint[] | null = null;
+    switch (el.tagName.toLowerCase()) {
+      case 'rect': {
+        const x = num(el, 'x');
+        const y = num(el, 'y');
+        const w = num(el, 'width');
+        const h = num(el, 'height');
+        points = [{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }];
+        break;
+      }
+      case 'polygon':
+      case 'polyline':
+        points = parsePointList(el.getAttribute('points') ?? '');
+        break;
+      case 'path':
+        points = parseStraightPath(el.getAttribute('d') ?? '');
+        break;
+    }
+    if (!points) return;
+    // Drop repeated points, including a closing point equal to the first.
+    points = points.filter((p, i, all) => {
+      const prev = all[(i - 1 + all.length) % all.length]!;
+      return all.length === 1 || Math.hypot(p.x - prev.x, p.y - prev.y) > 1e-6;
+    });
+    if (points.length < 3) return;
+    const area = boxArea(points);
+    if (area > 0) candidates.push({ points, area, tagged });
+  });
+
+  candidates.sort((a, b) => Number(b.tagged) - Number(a.tagged) || b.area - a.area);
+  return candidates[0] ?? null;
+};
+
+const openingKind = (el: Element): OpeningKind | null => {
+  const cls = classOf(el);
+  if (/\b(door|puerta)\b/.test(cls)) return 'door';
+  if (/\b(window|ventana)\b/.test(cls)) return 'window';
+  if (/\b(opening|vano)\b/.test(cls)) return 'opening';
+  if (cls) return null;
+  if (el.getAttribute('stroke-dasharray') || /stroke-dasharray/.test(el.getAttribute('style') ?? '')) return 'window';
+  const stroke = paint(el, 'stroke');
+  if (stroke === 'white' || stroke === '#fff' || stroke === '#ffffff') return 'door';
+  return 'opening';
+};
+
+const findOpenings = (doc: Document, plan: FloorPlan, toPlan: (p: PlanPoint) => PlanPoint): PlanOpening[] => {
+  const openings: PlanOpening[] = [];
+  doc.querySelectorAll('line').forEach(el => {
+    const kind = openingKind(el);
+    if (!kind) return;
+    const a = toPlan({ x: num(el, 'x1'), y: num(el, 'y1') });
+    const b = toPlan({ x: num(el, 'x2'), y: num(el, 'y2') });
+    const tolerance = Math.max(0.15, plan.wallThickness);
+
+    for (let wall = 0; wall < plan.corners.length; wall++) {
+      const segment = wallSegment(plan, wall);
+      const pa = projectOntoWall(segment, a);
+      const pb = projectOntoWall(segment, b);
+      if (Math.abs(pa.across) > tolerance || Math.abs(pb.across) > tolerance) continue;
+      const start = Math.max(0, Math.min(pa.along, pb.along));
+      const end = Math.min(segment.length, Math.max(pa.along, pb.along));
+      const width = end - start;
+      // Lines that retrace the whole wall are part of the outline drawing, not openings.
+      if (width < 0.3 || width > segment.length * 0.9) continue;
+      openings.push({ id: crypto.randomUUID(), kind, wall, offset: Math.round(start * 100) / 100, width: Math.round(width * 100) / 100 });
+      break;
+    }
+  });
+  return openings;
+};
+
+/** Builds an editable plan from the model's SVG, or `null` when no room outline can be found. */
+export const planFromSVG = (svg: string, dimensions: RoomDimensions): FloorPlan | null => {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  if (doc.querySelector('parsererror')) return null;
+  const outline = findOutline(doc);
+  if (!outline) return null;
+
+  const xs = outline.points.map(p => p.x);
+  const ys = outline.points.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const boxWidth = Math.max(...xs) - minX;
+  const boxHeight = Math.max(...ys) - minY;
+
+  const length = metresOf(dimensions.length);
+  const width = metresOf(dimensions.width);
+  const longSide = Math.max(length, width);
+  const shortSide = Math.min(length, width);
+  const horizontal = boxWidth >= boxHeight;
+  // Without estimates, assume the longest side is a typical 4 m.
+  const scaleX = longSide > 0 ? (horizontal ? longSide : shortSide || longSide) / boxWidth : 4 / Math.max(boxWidth, boxHeight);
+  const scaleY = longSide > 0 ? (horizontal ? shortSide || longSide : longSide) / boxHeight : scaleX;
+  const toPlan = (p: PlanPoint): PlanPoint => ({
+    x: Math.round((p.x - minX) * scaleX * 100) / 100,
+    y: Math.round((p.y - minY) * scaleY * 100) / 100,
+  });
+
+  const plan: FloorPlan = {
+    corners: outline.points.map(toPlan),
+    wallThickness: DEFAULT_WALL_THICKNESS,
+    openings: [],
+    furniture: [],
+  };
+  return { ...plan, openings: findOpenings(doc, plan, toPlan) };
+};
+
+/** The plan to start editing from: the model's drawing when readable, otherwise a rectangle of the estimated size. */
+export const planFromAnalysis = (analysis: AIResponse): FloorPlan =>
+  planFromSVG(analysis.floorPlan, analysis.dimensions)
+  ?? rectanglePlan(metresOf(analysis.dimensions.length) || 4, metresOf(analysis.dimensions.width) || 3);
@@ -0,0 +1,323 @@
+import type { DesignSuggestion, FloorPlan, OpeningKind, PlanFurniture, PlanOpening, PlanPoint, SuggestionItem } from '../../types';
+import { MODULE_LIBRARY, ModuleDefinition, moduleById, moduleParams } from '../modules/library';
+import { isRecord } from '../../utils/records';
+
+// --- Constants ---
+export const DEFAULT_WALL_THICKNESS = 0.12;
+/** Grid every dragged length snaps to, in metres. */
+export const GRID_M = 0.05;
+/** Items within this distance of a wall end or a neighbour's edge snap flush to it. */
+export const SNAP_M = 0.1;
+const MIN_WALL_M = 0.3;
+
+export const OPENING_KINDS: OpeningKind[] = ['door', 'window', 'opening'];
+
+const DEFAULT_OPENING_WIDTH: Record<OpeningKind, number> = {
+  door: 0.8,
+  window: 1.2,
+  opening: 0.9,
+};
+
+// --- Geometry ---
+const round = (value: number, step = 0.01) => parseFloat((Math.round(value / step) * step).toFixed(3));
+const add = (a: PlanPoint, b: PlanPoint): PlanPoint => ({ x: a.x + b.x, y: a.y + b.y });
+const scale = (a: PlanPoint, k: number): PlanPoint => ({ x: a.x * k, y: a.y * k });
+const dot = (a: PlanPoint, b: PlanPoint) => a.x * b.x + a.y * b.y;
+const roundPoint = (p: PlanPoint): PlanPoint => ({ x: round(p.x), y: round(p.y) });
+
+export type WallSegment = {
+  start: PlanPoint;
+  end: PlanPoint;
+  length: number;
+  /** Unit vector from start to end. */
+  direction: PlanPoint;
+  /** Unit vector pointing into the room. */
+  inward: PlanPoint;
+};
+
+/** Signed area; positive when corners run clockwise on screen (y down). */
+const signedArea = (corners: PlanPoint[]) =>
+  corners.reduce((sum, p, i) => {
+    const q = corners[(i + 1) % corners.length]!;
+    return sum + (p.x * q.y - q.x * p.y);
+  }, 0) / 2;
+
+export const wallSegment = (plan: FloorPlan, wall: number): WallSegment => {
+  const { corners } = plan;
+  const start = corners[wall]!;
+  const end = corners[(wall + 1) % corners.length]!;
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  const direction = length > 0 ? { x: (end.x - start.x) / length, y: (end.y - start.y) / length } : { x: 1, y: 0 };
+  const clockwise = signedArea(corners) > 0;
+  const inward = clockwise ? { x: -direction.y, y: direction.x } : { x: direction.y, y: -direction.x };
+  return { start, end, length, direction, inward };
+};
+
+export const pointAlongWall = (segment: WallSegment, distance: number, inset = 0): PlanPoint =>
+  add(add(segment.start, scale(segment.direction, distance)), scale(segment.inward, inset));
+
+/** Distance along the wall and perpendicular distance (positive inside the room) of a point. */
+export const projectOntoWall = (segment: WallSegment, p: PlanPoint) => {
+  const rel = { x: p.x - segment.start.x, y: p.y - segment.start.y };
+  return { along: dot(rel, segment.direction), across: dot(rel, segment.inward) };
+};
+
+export const nearestWall = (plan: FloorPlan, p: PlanPoint): number => {
+  let best = 0;
+  let bestDistance = Infinity;
+  plan.corners.forEach((_, wall) => {
+    const segment = wallSegment(plan, wall);
+    const { along, across } = projectOntoWall(segment, p);
+    const outside = along < 0 ? -along : along > segment.length ? along - segment.length : 0;
+    const distance = Math.hypot(outside, across);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = wall;
+    }
+  });
+  return best;
+};
+
+export const openingEnds = (plan: FloorPlan, opening: PlanOpening): [PlanPoint, PlanPoint] => {
+  const segment = wallSegment(plan, opening.wall);
+  return [pointAlongWall(segment, opening.offset), pointAlongWall(segment, opening.offset + opening.width)];
+};
+
+/** Footprint corners of a module, from the inner face of its wall into the room. */
+export const furnitureCorners = (plan: FloorPlan, item: PlanFurniture): PlanPoint[] => {
+  const segment = wallSegment(plan, item.wall);
+  const face = plan.wallThickness / 2;
+  return [
+    pointAlongWall(segment, item.offset, face),
+    pointAlongWall(segment, item.offset + item.width, face),
+    pointAlongWall(segment, item.offset + item.width, face + item.depth),
+    pointAlongWall(segment, item.offset, face + item.depth),
+  ];
+};
+
+export const planBounds = (plan: FloorPlan) => {
+  const points = [...plan.corners, ...plan.furniture.flatMap(item => furnitureCorners(plan, item))];
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+};
+
+// --- Snapping ---
+/**
+ * Clamps an item to its wall and snaps it to the wall ends, to the edges of other items on
+ * the same wall, or failing that to the grid.
+ */
+export const snapOffset = (plan: FloorPlan, wall: number, offset: number, width: number, ignoreId?: string): number => {
+  const length = wallSegment(plan, wall).length;
+  const maxOffset = Math.max(0, length - width);
+  const clamped = Math.min(Math.max(offset, 0), maxOffset);
+
+  const targets = [0, maxOffset];
+  [...plan.openings, ...plan.furniture]
+    .filter(item => item.wall === wall && item.id !== ignoreId)
+    .forEach(item => targets.push(item.offset + item.width, item.offset - width));
+
+  let best: number | null = null;
+  for (const target of targets) {
+    if (target < 0 || target > maxOffset || Math.abs(target - clamped) > SNAP_M) continue;
+    if (best === null || Math.abs(target - clamped) < Math.abs(best - clamped)) best = target;
+  }
+  return round(best ?? Math.min(round(clamped, GRID_M), maxOffset));
+};
+
+// --- Editing ---
+const wrap = (plan: FloorPlan, index: number) => (index + plan.corners.length) % plan.corners.length;
+
+/** Keeps openings and furniture on their walls after the walls change length. */
+const reattach = (plan: FloorPlan): FloorPlan => {
+  const fit = <T extends PlanOpening | PlanFurniture>(item: T): T => {
+    const length = wallSegment(plan, item.wall).length;
+    const width = Math.min(item.width, length);
+    return { ...item, width, offset: round(Math.min(Math.max(item.offset, 0), length - width)) };
+  };
+  return { ...plan, openings: plan.openings.map(fit), furniture: plan.furniture.map(fit) };
+};
+
+/** Slides a wall sideways by the component of `delta` perpendicular to it; neighbours stretch to follow. */
+export const moveWall = (plan: FloorPlan, wall: number, delta: PlanPoint): FloorPlan => {
+  const segment = wallSegment(plan, wall);
+  const shift = round(dot(delta, segment.inward), GRID_M);
+  const offset = scale(segment.inward, shift);
+  const moved = new Set([wall, wrap(plan, wall + 1)]);
+  const corners = plan.corners.map((corner, i) => (moved.has(i) ? roundPoint(add(corner, offset)) : corner));
+  const next = { ...plan, corners };
+  const tooShort = corners.some((_, i) => wallSegment(next, i).length < MIN_WALL_M);
+  return tooShort ? plan : reattach(next);
+};
+
+/**
+ * Sets the length of a wall by pushing its end corner along the wall. The following wall is
+ * carried along unchanged, so the one after it absorbs the difference (the opposite wall in
+ * a rectangular room).
+ */
+export const setWallLength = (plan: FloorPlan, wall: number, length: number): FloorPlan => {
+  const segment = wallSegment(plan, wall);
+  const delta = scale(segment.direction, length - segment.length);
+  const moved = plan.corners.length > 3
+    ? new Set([wrap(plan, wall + 1), wrap(plan, wall + 2)])
+    : new Set([wrap(plan, wall + 1)]);
+  const corners = plan.corners.map((corner, i) => (moved.has(i) ? roundPoint(add(corner, delta)) : corner));
+  const next = { ...plan, corners };
+  const tooShort = corners.some((_, i) => wallSegment(next, i).length < MIN_WALL_M);
+  return tooShort ? plan : reattach(next);
+};
+
+export const addOpening = (plan: FloorPlan, kind: OpeningKind, wall: number): FloorPlan => {
+  const length = wallSegment(plan, wall).length;
+  const width = Math.min(DEFAULT_OPENING_WIDTH[kind], length);
+  const opening: PlanOpening = { id: crypto.randomUUID(), kind, wall, width, offset: 0 };
+  opening.offset = snapOffset(plan, wall, (length - width) / 2, width);
+  return { ...plan, openings: [...plan.openings, opening] };
+};
+
+export const addFurniture = (plan: FloorPlan, module: ModuleDefinition, wall: number): FloorPlan => {
+  const length = wallSegment(plan, wall).length;
+  const width = Math.min(module.width, length);
+  const params = moduleParams(module, { width });
+  const item: PlanFurniture = {
+    id: crypto.randomUUID(),
+    moduleId: module.id,
+    name: module.name,
+    wall,
+    offset: 0,
+    width,
+    depth: params.depth,
+    height: params.height,
+    shelves: params.shelves,
+    doors: params.doors,
+  };
+  item.offset = snapOffset(plan, wall, (length - width) / 2, width);
+  return { ...plan, furniture: [...plan.furniture, item] };
+};
+
+export const updateOpening = (plan: FloorPlan, id: string, changes: Partial<PlanOpening>): FloorPlan =>
+  reattach({ ...plan, openings: plan.openings.map(o => (o.id === id ? { ...o, ...changes } : o)) });
+
+export const updateFurniture = (plan: FloorPlan, id: string, changes: Partial<PlanFurniture>): FloorPlan =>
+  reattach({ ...plan, furniture: plan.furniture.map(f => (f.id === id ? { ...f, ...changes } : f)) });
+
+export const removeItem = (plan: FloorPlan, id: string): FloorPlan => ({
+  ...plan,
+  openings: plan.openings.filter(o => o.id !== id),
+  furniture: plan.furniture.filter(f => f.id !== id),
+});
+
+export const rectanglePlan = (length: number, width: number): FloorPlan => ({
+  corners: [
+    { x: 0, y: 0 },
+    { x: round(length), y: 0 },
+    { x: round(length), y: round(width) },
+    { x: 0, y: round(width) },
+  ],
+  wallThickness: DEFAULT_WALL_THICKNESS,
+  openings: [],
+  furniture: [],
+});
+
+// --- Suggested Furniture ---
+/**
+ * Where a suggestion's items would stand: side by side and centred on their wall. Items with
+ * no wall, or a wall this plan does not have, go on the longest wall.
+ */
+export const layoutSuggestionItems = (plan: FloorPlan, items: SuggestionItem[]): PlanFurniture[] => {
+  const lengths = plan.corners.map((_, wall) => wallSegment(plan, wall).length);
+  const longest = lengths.indexOf(Math.max(...lengths));
+  const byWall = new Map<number, SuggestionItem[]>();
+  items.forEach(item => {
+    const wall = item.wall !== null && item.wall < lengths.length ? item.wall : longest;
+    byWall.set(wall, [...(byWall.get(wall) ?? []), item]);
+  });
+
+  return [...byWall].flatMap(([wall, group]) => {
+    const length = lengths[wall]!;
+    let offset = Math.max(0, (length - group.reduce((sum, item) => sum + item.width, 0)) / 2);
+    return group.map(item => {
+      const module = moduleById(item.moduleId) ?? MODULE_LIBRARY[0]!;
+      const width = Math.min(item.width, length);
+      const placed: PlanFurniture = {
+        id: item.id,
+        moduleId: module.id,
+        name: module.name,
+        wall,
+        offset: round(Math.min(offset, length - width)),
+        width,
+        depth: item.depth,
+        height: item.height,
+      };
+      offset += item.width;
+      return placed;
+    });
+  });
+};
+
+/** Adds the items the client kept from a suggestion to the plan as editable furniture. */
+export const placeSuggestion = (plan: FloorPlan, suggestion: DesignSuggestion): FloorPlan => {
+  const items = suggestion.items.filter(item => item.enabled);
+  const placed = layoutSuggestionItems(plan, items).map(furniture => {
+    const item = items.find(candidate => candidate.id === furniture.id)!;
+    const params = moduleParams(moduleById(furniture.moduleId) ?? MODULE_LIBRARY[0]!, furniture);
+    return {
+      ...furniture,
+      id: crypto.randomUUID(),
+      shelves: params.shelves,
+      doors: params.doors,
+      ...(item.woodId !== suggestion.woodId ? { woodId: item.woodId } : {}),
+    };
+  });
+  return { ...plan, furniture: [...plan.furniture, ...placed] };
+};
+
+// --- Normalisation ---
+const isLength = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+const isOpeningKind = (value: unknown): value is OpeningKind => OPENING_KINDS.some(kind => kind === value);
+
+const normalizePoint = (raw: unknown): PlanPoint | null =>
+  isRecord(raw) && typeof raw.x === 'number' && Number.isFinite(raw.x) && typeof raw.y === 'number' && Number.isFinite(raw.y)
+    ? { x: raw.x, y: raw.y }
+    : null;
+
+/**
+ * A plan that arrived from outside the editor, such as a submitted request, or `null` when it has
+ * no usable outline. Openings and furniture that are malformed or stand on a missing wall are dropped.
+ */
+export const normalizeFloorPlan = (raw: unknown): FloorPlan | null => {
+  if (!isRecord(raw) || !Array.isArray(raw.corners)) return null;
+  const corners = raw.corners.map(normalizePoint);
+  if (corners.length < 3 || corners.some(corner => corner === null)) return null;
+  const isWall = (value: unknown): value is number => isCount(value) && value < corners.length;
+  const entries = (list: unknown) => (Array.isArray(list) ? list : []).filter(isRecord);
+
+  const openings = entries(raw.openings).flatMap((entry): PlanOpening[] =>
+    typeof entry.id === 'string' && isOpeningKind(entry.kind) && isWall(entry.wall) && isLength(entry.offset) && isLength(entry.width)
+      ? [{ id: entry.id, kind: entry.kind, wall: entry.wall, offset: entry.offset, width: entry.width }]
+      : []);
+  const furniture = entries(raw.furniture).flatMap((entry): PlanFurniture[] =>
+    typeof entry.id === 'string' && typeof entry.moduleId === 'string' && moduleById(entry.moduleId) && isWall(entry.wall)
+      && isLength(entry.offset) && isLength(entry.width) && isLength(entry.depth) && isLength(entry.height)
+      ? [{
+        id: entry.id,
+        moduleId: entry.moduleId,
+        name: typeof entry.name === 'string' ? entry.name : '',
+        wall: entry.wall,
+        offset: entry.offset,
+        width: entry.width,
+        depth: entry.depth,
+        height: entry.height,
+        ...(isCount(entry.shelves) ? { shelves: entry.shelves } : {}),
+        ...(isCount(entry.doors) ? { doors: entry.doors } : {}),
+        ...(typeof entry.woodId === 'string' ? { woodId: entry.woodId } : {}),
+      }]
+      : []);
+  return {
+    corners: corners.filter(corner => corner !== null),
+    wallThickness: isLength(raw.wallThickness) && raw.wallThickness > 0 ? raw.wallThickness : DEFAULT_WALL_THICKNESS,
+    openings,
+    furniture,
+  };
+};
@@ -0,0 +1,48 @@
+// --- Backend HTTP Client ---
+// Shared by every service that talks to the Maderarte backend. In development the
+// requests are answered by the stand-in API in `server/devApi.ts`.
+const API_BASE_URL = process.env.API_BASE_URL || '/api';
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+type RequestOptions = {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: unknown;
+  token?: string | null;
+  signal?: AbortSignal;
+};
+
+/** `path` is relative to the backend unless it is a full URL, as configurable endpoints may be. */
+export const apiRequest = async <T>(path: string, options: RequestOptions = {}): Promise<T> => {
+  const headers: Record<string, string> = { Accept: 'application/json' };
+  if (options.body !== undefined) headers['Content-Type'] = 'application/json';
+  if (options.token) headers['Authorization'] = `Bearer ${options.token}`;
+
+  let response: Response;
+  try {
+    response = await fetch(/^https?:\/\//.test(path) ? path : `${API_BASE_URL}${path}`, {
+      method: options.method || 'GET',
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      signal: options.signal,
+    });
+  } catch (e) {
+    if (options.signal?.aborted) throw e;
+    // Status 0 marks "never reached the server" so callers can tell offline apart from a rejection.
+    throw new ApiError(0, 'No se pudo conectar con el servidor. Revisa tu conexión.');
+  }
+
+  const payload = response.status === 204 ? null : await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ApiError(response.status, payload?.error || `Error inesperado del servidor (${response.status}).`);
+  }
+  return payload as T;
+};
@@ -0,0 +1,21 @@
+import type { Locale } from '../../types';
+import { es } from './messages/es';
+import { en } from './messages/en';
+import { pt } from './messages/pt';
+
+// --- Message Catalogs ---
+// Messages that take parameters are functions, so every language can order and pluralise
+// them its own way while the compiler checks the arguments.
+
+type Catalog<T> = T extends string
+  ? string
+  : T extends (...args: infer A) => string
+    ? (...args: A) => string
+    : { [K in keyof T]: Catalog<T[K]> };
+
+/** The shape of the Spanish catalog, which every other language must match. */
+export type Messages = Catalog<typeof es>;
+
+const CATALOGS: Record<Locale, Messages> = { es, en, pt };
+
+export const messagesFor = (locale: Locale): Messages => CATALOGS[locale] ?? es;
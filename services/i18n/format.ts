@@ -0,0 +1,17 @@
+import type { Locale } from '../../types';
+import { localeTag } from './locales';
+
+// --- Locale-aware Formatting ---
+
+export const formatNumber = (locale: Locale, value: number, options?: Intl.NumberFormatOptions) =>
+  value.toLocaleString(localeTag(locale), options);
+
+/** Whole currency amounts, as quotes are shown. */
+export const formatMoney = (locale: Locale, value: number, currency = 'EUR') =>
+  value.toLocaleString(localeTag(locale), { style: 'currency', currency, maximumFractionDigits: 0 });
+
+export const formatDate = (locale: Locale, date: Date | number, options?: Intl.DateTimeFormatOptions) =>
+  new Date(date).toLocaleDateString(localeTag(locale), options);
+
+export const formatDateTime = (locale: Locale, date: Date | number, options?: Intl.DateTimeFormatOptions) =>
+  new Date(date).toLocaleString(localeTag(locale), options);
@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+import type { Locale } from '../../types';
+import { messagesFor, Messages } from './catalogs';
+import { DEFAULT_LOCALE } from './locales';
+
+export type { Messages } from './catalogs';
+export { messagesFor } from './catalogs';
+export { LOCALES, DEFAULT_LOCALE, localeTag, loadLocale, storeLocale } from './locales';
+export { formatNumber, formatMoney, formatDate, formatDateTime } from './format';
+
+// --- Current Language ---
+// `App` provides the language kept in its state; components read it with `useI18n`.
+
+export const LocaleContext = createContext<Locale>(DEFAULT_LOCALE);
+
+export const useI18n = (): { locale: Locale; m: Messages } => {
+  const locale = useContext(LocaleContext);
+  return { locale, m: messagesFor(locale) };
+};
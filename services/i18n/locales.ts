@@ -0,0 +1,29 @@
+import type { Locale } from '../../types';
+
+// --- Locales ---
+export const LOCALES: { id: Locale; label: string; tag: string }[] = [
+  { id: 'es', label: 'Español', tag: 'es-ES' },
+  { id: 'en', label: 'English', tag: 'en-GB' },
+  { id: 'pt', label: 'Português', tag: 'pt-PT' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'es';
+
+/** BCP 47 tag used for `Intl` formatting. */
+export const localeTag = (locale: Locale) => LOCALES.find(entry => entry.id === locale)?.tag ?? 'es-ES';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(entry => entry.id === value);
+
+const LOCALE_STORAGE_KEY = 'maderarte.locale';
+
+/** The language chosen on a previous visit, else the first browser language we support. */
+export const loadLocale = (): Locale => {
+  const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+  if (isLocale(stored)) return stored;
+  const preferred = (navigator.languages ?? [navigator.language]).map(language => language.slice(0, 2).toLowerCase());
+  return preferred.find(isLocale) ?? DEFAULT_LOCALE;
+};
+
+export const storeLocale = (locale: Locale) => {
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+};
@@ -0,0 +1,769 @@
+import { MESSAGE_MAX_LENGTH, MESSAGE_MIN_LENGTH, NAME_MAX_LENGTH } from '../../contact/message';
+import type { Messages } from '../catalogs';
+
+// --- English Catalog ---
+
+export const en: Messages = {
+  common: {
+    back: 'Back',
+    optional: '(optional)',
+    loading: 'One moment...',
+  },
+
+  header: {
+    home: 'Home page',
+    services: 'Services',
+    about: 'About us',
+    contact: 'Contact',
+    projects: 'My Projects',
+    requests: 'Requests',
+    studio: (name) => `Go to my design studio (${name})`,
+    signOut: 'Sign Out',
+    signIn: 'Sign In',
+    language: 'Language',
+  },
+
+  footer: {
+    rights: 'All rights reserved.',
+  },
+
+  home: {
+    title: 'Transforming Spaces with the Warmth of Wood',
+    text: 'Design and manufacture of bespoke architectural furniture. Turn your vision into a tangible, lasting reality.',
+    cta: 'Start your Design',
+    inspiration: 'Inspiration and Trends',
+    inspirationLoading: 'Loading inspiration...',
+    inspirationError: 'Inspiration could not be loaded right now.',
+    inspirationFilter: 'Filter by space',
+    allSpaces: 'All',
+  },
+
+  services: {
+    title: 'Our Services',
+    subtitle: 'Wood design and craftsmanship for every corner of your life.',
+    back: '← Back to all services',
+    examples: 'Transformation Examples',
+    ctaTitle: 'Inspired to transform your space?',
+    cta: 'Start your Design Now',
+    pages: {
+      salas: {
+        name: 'Living Rooms',
+        summary: 'The living room is the heart of family life. We design entertainment centres, bespoke bookcases and occasional furniture that enrich the space you share.',
+        title: 'Living Rooms',
+        slogan: 'The Heart of your Home, Redefined in Wood',
+        examples: [
+          { title: 'Integrated Entertainment Centre', description: 'A clean design that combines storage and display, turning your living room into an elegant home cinema.' },
+          { title: 'Floor-to-Ceiling Shelving', description: 'A personal library that becomes the centrepiece of the room, made to measure in walnut.' },
+          { title: 'Entryway Unit with Bench', description: 'Function and elegance from the front door, with a bench and bespoke storage in maple.' },
+        ],
+      },
+      habitacion: {
+        name: 'Bedrooms',
+        summary: 'We create restful sanctuaries with bespoke wardrobes, headboards and storage that combine function and calm.',
+        title: 'Bedrooms',
+        slogan: 'Your Personal Sanctuary, Designed for Rest',
+        examples: [
+          { title: 'Wall-to-Wall Fitted Wardrobe', description: 'Storage that blends in seamlessly, making the most of space and order.' },
+          { title: 'Headboard with Floating Bedside Tables', description: 'A minimal, practical design that gives your bedroom a sense of space and modernity.' },
+          { title: 'Storage Bench at the Foot of the Bed', description: 'A versatile piece that adds extra seating and a discreet place for bedding or shoes.' },
+        ],
+      },
+      cocinas: {
+        name: 'Functional Kitchens',
+        summary: 'We turn your kitchen into a place of culinary inspiration with cabinets, islands and breakfast bars designed for function and to reflect your style.',
+        title: 'Functional Kitchens',
+        slogan: 'Where Flavour Meets Design',
+        examples: [
+          { title: 'Floor-to-Ceiling Cabinets', description: 'Maximise storage with oak cabinets that give a seamless, sophisticated look.' },
+          { title: 'Kitchen Island with Storage', description: 'The perfect meeting point for the family, combining food preparation with a relaxed social space.' },
+          { title: 'Open Shelving in Natural Wood', description: 'A rustic yet modern touch to display your tableware and add character to your kitchen walls.' },
+        ],
+      },
+      banos: {
+        name: 'Bathrooms with Natural Charm',
+        summary: 'We bring the warmth of wood to your bathroom with bespoke vanities and decorative accents, using treated timbers for lasting beauty.',
+        title: 'Bathrooms with Natural Charm',
+        slogan: 'Your Personal Sanctuary, Clad in Warmth',
+        examples: [
+          { title: 'Floating Teak Vanity', description: 'A centrepiece that pairs the moisture resistance of teak with a minimal, elegant design.' },
+          { title: 'Tall Storage Cabinet', description: 'Smart solutions for small spaces, offering generous storage without sacrificing style.' },
+          { title: 'Cedar Slat Feature Wall', description: 'Create a spa-like feature wall that adds texture, scent and a feeling of natural luxury to your bathroom.' },
+        ],
+      },
+      estudios: {
+        name: 'Studies and Home Offices',
+        summary: 'We create workspaces that help you focus, with ergonomic desks, smart shelving and integrated storage.',
+        title: 'Studies and Home Offices',
+        slogan: 'Spaces that Inspire Productivity',
+        examples: [
+          { title: 'Integrated Desk and Shelving', description: 'A unified, made-to-measure workspace that maximises both worktop and vertical storage.' },
+          { title: 'Bespoke Storage Wall', description: 'Organise your books and documents with a flexible system that blends perfectly into the wall.' },
+          { title: 'Low Storage Cabinets', description: 'An elegant way to hide printers and supplies, keeping your desk clean and tidy.' },
+        ],
+      },
+      gatos: {
+        name: 'Environmental Enrichment for Cats',
+        summary: 'We design structures and built-in furniture that satisfy your cats’ natural instincts while blending perfectly with your home.',
+        title: 'Enrichment for Cats',
+        slogan: 'Design that Purrs with Happiness',
+        examples: [
+          { title: 'Wall-Mounted Cat Highway', description: 'A circuit of shelves, bridges and scratching posts that satisfies their need to explore up high.' },
+          { title: 'Sculptural Activity Tower', description: 'A functional work of art that serves as lookout and scratcher, fitting in like any other piece of furniture.' },
+          { title: 'Cabinet with Built-in Scratcher', description: 'A resting and play station merged with a side cabinet, keeping things tidy and good-looking.' },
+        ],
+      },
+    },
+  },
+
+  about: {
+    title: 'About Maderarte',
+    subtitle: 'A passion for wood, a commitment to design.',
+    philosophyTitle: 'Our Philosophy',
+    philosophy: 'At Maderarte, we believe furniture is more than objects; it is the soul of a space. We combine traditional joinery with contemporary design to create pieces that tell a story. Every grain, every joint and every finish reflects our love of the craft and our commitment to lasting quality.',
+    missionTitle: 'Our Mission',
+    mission: 'Our mission is to turn your ideas into tangible reality, creating functional and inspiring spaces through wooden furniture design. We strive for excellence in every project, ensuring our clients’ satisfaction and respecting the environment by using sustainably sourced timber.',
+    teamTitle: 'Meet the Team',
+    founderRole: 'Founder & Lead Designer',
+    founderBio: 'With a vision that unites architecture and nature, Elena leads every project with creativity and meticulous attention to detail.',
+    craftsmanRole: 'Master Craftsman',
+    craftsmanBio: 'With more than 30 years of experience, Javier turns designs into works of art, mastering wood with unrivalled skill.',
+  },
+
+  notFound: {
+    title: 'Page not found',
+    text: 'The address you are looking for does not exist or has moved.',
+    home: 'Back to Home',
+    services: 'See Services',
+  },
+
+  contact: {
+    title: 'Get in Touch',
+    subtitle: 'Have an idea or a question? We are here to help you shape it.',
+    infoTitle: 'Contact Information',
+    address: 'Address',
+    phone: 'Phone',
+    email: 'Email',
+    hours: 'Opening hours',
+    hoursValue: 'Monday to Friday, 9:00 to 18:00',
+    formTitle: 'Send us a Message',
+    name: 'Name',
+    projectType: 'Project type',
+    unspecified: 'Not specified',
+    message: 'Message',
+    website: 'Website',
+    send: 'Send Message',
+    sending: 'Sending...',
+    outbox: (count) => `${count === 1 ? 'You have 1 message' : `You have ${count} messages`} waiting to be sent. It will go out as soon as you are back online.`,
+    queuedTitle: 'Message saved',
+    queuedText: 'You are offline right now. We will send your message automatically as soon as you are back online.',
+    sentTitle: 'Thank you for your message!',
+    sentText: 'We have received your enquiry and will get back to you shortly.',
+    another: 'Write another message',
+    sendError: 'The message could not be sent. Please try again.',
+    rateWait: (seconds) => `You have just sent us a message. Please wait ${seconds} seconds before sending another.`,
+    rateHourly: 'You have sent several messages in a row. Please try again in an hour.',
+    errors: {
+      nameRequired: 'Please enter your name.',
+      nameTooLong: `Your name cannot be longer than ${NAME_MAX_LENGTH} characters.`,
+      emailRequired: 'Please enter your email so we can reply.',
+      emailInvalid: 'The email address is not valid.',
+      projectTypeInvalid: 'Choose a project type from the list.',
+      messageRequired: 'Please write your message.',
+      messageTooShort: `Tell us a little more (at least ${MESSAGE_MIN_LENGTH} characters).`,
+      messageTooLong: `Your message cannot be longer than ${MESSAGE_MAX_LENGTH} characters.`,
+    },
+  },
+
+  spaces: {
+    'Sala': 'Living room',
+    'Habitación': 'Bedroom',
+    'Estudio': 'Study',
+    'Cocina': 'Kitchen',
+    'Baño': 'Bathroom',
+    'Espacio para Gatos': 'Cat Space',
+  },
+
+  stepper: {
+    label: 'Design progress',
+    select: 'Choose Space',
+    cats: 'Cat Details',
+    upload: 'Upload Photos',
+    design: 'Design and Refinement',
+    quote: 'Quote',
+    confirm: 'Confirmation',
+    status: (step, status) => `, Step ${step}, ${status}`,
+    completed: 'completed',
+    current: 'current',
+    next: 'next',
+  },
+
+  selectSpace: {
+    title: 'Welcome to your Design Studio',
+    question: 'Which space would you like to transform today?',
+  },
+
+  cats: {
+    title: (step) => `Step ${step}: Cat Details`,
+    intro: 'Tell us more about your companions so we can create the perfect space for them.',
+    count: 'How many cats do you have?',
+    fallbackName: (number) => `Cat ${number}`,
+    name: 'Name',
+    weight: 'Weight in kg (optional)',
+    size: 'Size',
+    sizePlaceholder: 'Choose a size',
+    age: 'Age',
+    agePlaceholder: 'Choose an age',
+    mobility: 'Mobility',
+    traits: 'Personality',
+    rulesTitle: 'What we will take into account',
+    continue: 'Continue to Upload Photos',
+    sizes: {
+      'pequeño': 'Small (up to 4 kg)',
+      'mediano': 'Medium (4-6 kg)',
+      'grande': 'Large (over 6 kg)',
+    },
+    ages: {
+      'joven': 'Young (0-2 years)',
+      'adulto': 'Adult (2-10 years)',
+      'viejito': 'Senior (over 10 years)',
+    },
+    mobilityIssues: {
+      'arthritis': 'Arthritis or stiffness',
+      'three-legged': 'Missing a leg',
+      'low-vision': 'Poor eyesight',
+      'overweight': 'Overweight',
+    },
+    traitNames: {
+      climber: 'Climber',
+      jumper: 'Big jumper',
+      hider: 'Likes to hide',
+      shy: 'Shy with the other cats',
+    },
+    rules: {
+      steps: (step, gap) => `Steps of at most ${step} in height and gaps of at most ${gap} between surfaces.`,
+      platforms: (depth, loadKg) => `Platforms at least ${depth} deep, each rated for ${loadKg} kg.`,
+      ramp: (slopeDeg) => `Access from the floor by a ramp with a slope of at most ${slopeDeg}°.`,
+      escapeRoutes: 'Every platform needs two ways off so no cat gets cornered.',
+      hideouts: 'At least one closed hideout along the route.',
+    },
+  },
+
+  upload: {
+    title: (step, space) => `Step ${step}: Photograph your ${space.toLowerCase()}`,
+    intro: 'For an accurate analysis, follow these tips:',
+    prepareTitle: 'Download and prepare:',
+    prepare: 'Download our reference sheet and print it on A4 at 100% (without fitting to page). Its four markers let us measure the real scale of each photo.',
+    clearTitle: 'Clear the space:',
+    clear: 'Remove all movable objects (chairs, small tables, decoration) for a clear view of the room.',
+    placeTitle: 'Place the reference:',
+    place: 'Lay the sheet flat on the floor, ideally against a main wall or in a well-lit corner.',
+    anglesTitle: 'Shoot from several angles:',
+    angles: 'Take several photos from different angles to give us a complete view of the space. It is essential that the reference sheet is clearly visible in',
+    anglesAll: 'ALL',
+    anglesEnd: 'the photos and not tilted too much.',
+    download: 'Download Reference',
+    downloadName: 'maderarte_reference.svg',
+    sheet: {
+      title: 'Maderarte · Scale reference',
+      print: 'Print at 100% (not fitted to the page) and lay it flat on the floor.',
+      ruler: 'Check the print: this ruler must measure 10 cm',
+    },
+    selected: (count) => `Files selected: ${count}`,
+    select: 'Select Images',
+    preview: (number) => `Preview ${number}`,
+    flagged: (count) => `${count === 1 ? 'One photo does not show' : `${count} photos do not show`} the reference sheet clearly. You can continue, but the measurements will be less accurate; we recommend taking them again.`,
+    analyze: 'Analyse Space',
+    preparing: 'Preparing photos…',
+    limit: (max) => `Up to ${max} photos. We downsize them and remove their location and other EXIF data before uploading.`,
+    rejected: {
+      notImage: (names) => `Left out because they are not images: ${names}.`,
+      unsupported: (names) => `We cannot read the format of ${names}. Export them as JPEG or PNG and upload them again.`,
+      tooMany: (max, count) => `Up to ${max} photos are accepted; ${count === 1 ? '1 was' : `${count} were`} left out.`,
+    },
+    quality: {
+      blurry: 'Blurry',
+      dark: 'Too dark',
+      overexposed: 'Overexposed',
+    },
+    qualityHints: {
+      blurry: 'Rest the phone on something or hold it with both hands and take the photo again',
+      dark: 'Turn the lights on or open the curtains',
+      overexposed: 'Avoid shooting towards a window or a spotlight',
+    },
+    qualityWarning: (count) => `${count === 1 ? 'One photo is' : `${count} photos are`} blurry or badly lit. You can continue, but the analysis will be less reliable; we recommend taking them again.`,
+    confirmQuality: (count) => `${count === 1 ? 'One photo is' : `${count} photos are`} blurry or badly lit, so the analysis may be less reliable. Analyse the space anyway?`,
+  },
+
+  scale: {
+    searching: 'Looking for the reference…',
+    markers: (count) => `${count} markers detected`,
+    ok: (pixelsPerMetre) => `Scale: ${pixelsPerMetre} px/m`,
+    partialHint: 'Only part of the sheet was visible; the scale is approximate',
+    partial: (pixelsPerMetre) => `Partial reference: ${pixelsPerMetre} px/m`,
+    obliqueHint: 'Photograph the sheet from a more frontal angle',
+    oblique: 'Reference too tilted',
+    missingHint: 'Make sure the whole printed sheet is visible in the photo',
+    missing: 'Reference not found',
+  },
+
+  studio: {
+    title: (step) => `Step ${step}: Visualise and Refine your Design`,
+    imageTitle: 'Your Transformed Space',
+    imageText: 'This is the AI’s interpretation of your requests. What would you like to change?',
+    viewPicker: 'View to refine',
+    view: (number) => `View ${number}`,
+    generated: (prompt) => `Generated design: ${prompt}`,
+    yourSpace: 'Your space',
+    allViews: 'This design in every view',
+    viewWithDesign: (number) => `View ${number} with the design applied`,
+    refineBase: 'Starting point for the refinement',
+    fromCurrent: 'Continue from the version shown',
+    fromOriginal: 'Start from the original photo',
+    applyAll: (count) => `Apply to all views (${count}) with the same furniture`,
+    refinePlaceholder: "E.g. 'Add a walnut bookcase on the right-hand wall'",
+    refineLabel: 'Prompt to refine the design',
+    refine: 'Refine',
+    analysisTitle: 'AI Analysis and Suggestions',
+    dimensions: 'Estimated Dimensions',
+    sketch: 'AI Sketch',
+    sketchHint: 'Adjust walls, openings and furniture in the plan editor.',
+    currentStyle: 'Current Style',
+    suggestions: 'Design Suggestions',
+    quote: 'I love it! Request a Quote',
+    plan: 'Editable Plan',
+    catHighway: 'Cat Highway',
+  },
+
+  dimensions: {
+    length: 'Length',
+    width: 'Width',
+    height: 'Height',
+    units: 'Unit system',
+    metric: 'Metric',
+    imperial: 'Imperial',
+    corrected: 'Corrected',
+    confidenceTitle: (percent) => `AI confidence: ${percent}%`,
+    confidence: (level) => `${level} confidence`,
+    high: 'High',
+    medium: 'Medium',
+    low: 'Low',
+    hint: 'Is a measurement wrong? Correct it and we will use it in the next renders and in your quote.',
+  },
+
+  versions: {
+    label: 'Version history',
+    original: 'Original',
+    yourPhoto: 'Your photo',
+    fromVersion: (number) => `from v${number}`,
+    fromOriginal: 'from the original',
+    saved: 'Saved render',
+  },
+
+  materials: {
+    woods: {
+      'pine': 'Pine',
+      'oak': 'Oak',
+      'maple': 'Maple',
+      'walnut': 'Walnut',
+      'teak': 'Teak',
+      'cedar': 'Cedar',
+    },
+    finishes: {
+      'oil': 'Natural oil',
+      'varnish': 'Matt varnish',
+      'lacquer': 'Coloured lacquer',
+      'marine-varnish': 'Marine varnish',
+    },
+    modules: {
+      'shelving': 'Shelving unit',
+      'base-cabinet': 'Base cabinet',
+      'wall-cabinet': 'Wall cabinet',
+      'floating-vanity': 'Floating vanity',
+      'wardrobe': 'Wardrobe',
+      'desk': 'Desk',
+      'bench': 'Bench',
+      'wall-shelf': 'Wall shelf',
+      'cat-shelf': 'Cat shelf',
+    },
+    sheets: {
+      'birch-plywood-18': 'Birch plywood 18 mm',
+      'oak-veneer-mdf-19': 'Oak-veneered MDF 19 mm',
+      'walnut-veneer-mdf-19': 'Walnut-veneered MDF 19 mm',
+      'mr-mdf-19': 'Moisture-resistant MDF 19 mm',
+      'marine-plywood-18': 'Marine plywood 18 mm',
+      'hdf-back-3': 'HDF back panel board 3 mm',
+    },
+  },
+
+  compare: {
+    modeLabel: 'Comparison mode',
+    modes: {
+      slider: 'Slider',
+      side: 'Side by side',
+      flicker: 'Toggle',
+    },
+    before: 'Before',
+    after: 'After',
+    originalAlt: 'Original photo',
+    position: 'Comparison position',
+    hold: 'Press and hold to see the original photo',
+    autoFlicker: 'Toggle automatically',
+    exporting: 'Generating…',
+    download: 'Download Before/After',
+    share: 'Share',
+    shareTitle: 'My Maderarte design',
+    shareText: 'See how my space would look with Maderarte furniture.',
+    credit: 'Designed with Maderarte',
+    exportError: 'The comparison image could not be generated.',
+  },
+
+  suggestions: {
+    onPlan: 'On the plan',
+    showOnPlan: 'Show on the plan',
+    longestWall: 'Longest wall',
+    wall: (number) => `Wall ${number}`,
+    band: (low, high) => `Guide price: ${low} – ${high}, VAT and installation included`,
+    render: 'Visualise',
+    place: 'Place on the plan',
+    item: (module, wood, size) => `${module}${wood ? ` in ${wood.toLowerCase()}` : ''}, ${size}`,
+    renderPrompt: (description, finish, items) =>
+      `${description}${finish ? ` Finish: ${finish.toLowerCase()}.` : ''}\nInclude only these pieces of furniture (width × depth × height):\n${items.join('\n')}`,
+    renderItem: (item, wall, finish) =>
+      `- ${item}${wall === null ? '' : `, on wall ${wall}`}${finish ? `, ${finish.toLowerCase()} finish` : ''}.`,
+  },
+
+  quote: {
+    title: (step) => `${step}. Your Estimated Quote`,
+    intro: 'Choose the proposal, the wood, the finish and the hardware. The price is worked out with our workshop’s current rates.',
+    ratesError: 'The rates could not be loaded. Please try again later.',
+    loadingRates: 'Loading rates...',
+    noRates: 'There are no rates for the materials of this space right now. Contact us for a tailored quote.',
+    proposal: 'Proposal',
+    wood: 'Wood',
+    finish: 'Finish',
+    hardware: 'Hardware',
+    noItems: 'You have switched off every piece of furniture in this proposal. Go back to the studio to switch some on.',
+    assumed: 'Furniture from the proposal at its suggested sizes. Place it on the editable plan to refine the price.',
+    fromPlan: 'Furniture taken from your editable plan.',
+    rangeNote: 'Guide range, VAT included. The workshop will confirm the final price after the site visit.',
+    categories: {
+      materials: 'Materials',
+      finish: 'Finish',
+      hardware: 'Hardware',
+      labour: 'Labour',
+      installation: 'Installation',
+    },
+    lines: {
+      module: (name, size, wood) => `${name} ${size} · ${wood}`,
+      finish: (name, area) => `${name} finish (${area} m²)`,
+      hardware: (name, modules, fronts) => `${name} hardware (${modules} ${modules === 1 ? 'module' : 'modules'}, ${fronts} ${fronts === 1 ? 'front' : 'fronts'})`,
+      labour: (hours) => `Workshop labour (${hours} h)`,
+      installation: 'Installation',
+      installationHighCeiling: 'Installation (high ceiling)',
+    },
+    subtotal: 'Subtotal',
+    vat: (percent) => `VAT (${percent}%)`,
+    total: 'Estimated total',
+    contactTitle: 'How can we reach you?',
+    name: 'Name',
+    email: 'Email',
+    phone: 'Phone (optional)',
+    notes: 'Notes for the workshop (optional)',
+    submit: 'Send Request',
+    contactErrors: {
+      missing: 'Your contact details are missing.',
+      nameRequired: 'Please enter your name.',
+      emailInvalid: 'The email address is not valid.',
+      phoneInvalid: 'The phone number is not valid.',
+      notesInvalid: 'The notes are not valid.',
+    },
+  },
+
+  plan: {
+    openings: {
+      door: 'Door',
+      window: 'Window',
+      opening: 'Opening',
+    },
+    addOnWall: (wall) => `Add to wall ${wall}:`,
+    module: 'Furniture module',
+    addFurniture: 'Add furniture',
+    exportSvg: 'Export SVG',
+    exportJson: 'Export JSON',
+    reset: 'Reset',
+    canvas: 'Floor plan editor. Drag walls, openings and furniture.',
+    hint: 'Drag a wall to move it or select it to set its length. Openings slide along their wall and furniture snaps to the nearest wall.',
+    wall: (number) => `Wall ${number}`,
+    onWall: (name, wall) => `${name} · wall ${wall}`,
+    length: 'Length',
+    kind: 'Type',
+    width: 'Width',
+    depth: 'Depth',
+    height: 'Height',
+    fromCorner: 'From the corner',
+    shelves: 'Shelves',
+    doors: 'Doors',
+    drawers: 'Drawers',
+    wood: 'Material',
+    designWood: 'As in the design',
+    remove: 'Remove',
+    downloadElevation: 'Download elevation as SVG',
+    frontAlt: (name) => `Front elevation of ${name}`,
+    sideAlt: (name) => `Side elevation of ${name}`,
+    frontTitle: (name) => `${name} · front elevation`,
+    sideTitle: 'Side elevation',
+    problems: {
+      width: (min, max) => `The width must be between ${min} and ${max}.`,
+      height: (min, max) => `The height must be between ${min} and ${max}.`,
+      depth: (min, max) => `The depth must be between ${min} and ${max}.`,
+      shelves: (min, max) => `This module takes between ${min} and ${max} shelves.`,
+      shelfGap: (shelves, gap, minimum) => `With ${shelves} shelves the gaps would be ${gap}; the smallest useful gap is ${minimum}.`,
+      doors: (min, max) => `This module takes between ${min} and ${max} doors.`,
+      drawers: (min, max) => `This module takes between ${min} and ${max} drawers.`,
+      doorWidth: (width, min, max) => `Each front would be ${width} wide; doors must be between ${min} and ${max}.`,
+      drawerWidth: (width, min, max) => `Each front would be ${width} wide; drawers must be between ${min} and ${max}.`,
+      span: (span, wood, maxSpan) =>
+        `The shelves would span ${span} unsupported; ${wood ? `in ${wood.toLowerCase()}` : 'with no material chosen'} the maximum is ${maxSpan}.`,
+      addDoors: 'Add doors (each pair comes with a divider) or reduce the width.',
+      split: 'Reduce the width or split the piece into several modules.',
+    },
+  },
+
+  catHighway: {
+    rulesTitle: 'Rules for your cats',
+    catLimits: (stepCm, gapCm, needsRamp) =>
+      `: steps of up to ${stepCm} cm, gaps of up to ${gapCm} cm${needsRamp ? ', needs a ramp' : ''}.`,
+    wall: 'Wall',
+    wallOption: (number, lengthCm) => `Wall ${number} (${lengthCm} cm)`,
+    peak: 'Maximum height (cm)',
+    platformWidth: 'Platform width (cm)',
+    download: 'Download elevation as SVG',
+    drawingAlt: (wall) => `Cat highway on wall ${wall}`,
+    ok: 'The route meets all of your cats’ rules.',
+    caption: (wallCm) => `${wallCm} cm wall · heights in cm`,
+    violations: {
+      noPlatforms: 'The route has no platforms.',
+      offWall: (id) => `${id} runs off the wall.`,
+      headroom: (id, headroom) => `${id} is less than ${headroom} below the ceiling; the cats could not stand up.`,
+      steepRamp: (id, slopeDeg, cats, maxDeg) =>
+        `Ramp ${id} has a ${slopeDeg}° slope; ${cats} needs ${maxDeg}° at most.`,
+      shallow: (id, depth, minimum) => `${id} is ${depth} deep; it needs at least ${minimum}.`,
+      load: (id, ratedKg, cat, weightKg, neededKg) =>
+        `${id} holds ${ratedKg} kg; for ${cat} (${weightKg} kg) to land safely it needs ${neededKg} kg. Use reinforced brackets.`,
+      overlap: (first, second) => `${first} and ${second} overlap.`,
+      step: (first, second, step, cats, maxStep) =>
+        `Between ${first} and ${second} there is a ${step} step; ${cats} can only climb ${maxStep}.`,
+      gap: (first, second, gap, cats, maxGap) =>
+        `Between ${first} and ${second} there is a ${gap} gap; ${cats} can only clear ${maxGap}.`,
+      needsRamp: (cats) => `${cats} needs a ramp to get up from the floor.`,
+      tooHigh: (id, height, cats) => `${id} is ${height} off the floor; ${cats} cannot reach it.`,
+      deadEnd: (id) => `${id} is a dead end: with several cats, every platform needs a second way out.`,
+      lowPeak: (reached, peak) => `The route stops at ${reached}; this wall is too short to reach ${peak} within the steps.`,
+      noHideout: 'There is no closed hideout for the cats that need to hide.',
+    },
+  },
+
+  request: {
+    sendFailed: (error) => `We could not send your request: ${error}`,
+    willRetry: 'We will try again automatically; your project stays saved in the meantime.',
+    checkDetails: 'Check the quote details and try again.',
+    retry: 'Retry now',
+    sending: 'Sending your request to the workshop…',
+    statusLabel: 'Status of your request',
+    statuses: {
+      'received': 'Received',
+      'in-review': 'In review',
+      'quoted': 'Quoted',
+      'accepted': 'Accepted',
+      'in-production': 'In production',
+      'installed': 'Installed',
+    },
+    finalQuote: 'Your final quote',
+    validUntil: (date) => `Valid until ${date}.`,
+    download: (name) => `Download ${name}`,
+  },
+
+  confirmation: {
+    sendingTitle: 'Sending your Design',
+    sentTitle: 'Design Sent!',
+    thanks: 'Thank you for trusting us. Your proposal has been sent to our production team.',
+    followUp: (email) => `We will review your estimated quote and contact you at ${email} to confirm the final price and next steps.`,
+    yourEmail: 'your email',
+    newDesign: 'Create a New Design',
+    cutList: 'Cut list for the workshop',
+    downloadError: 'The quote could not be downloaded. Please try again.',
+  },
+
+  loading: [
+    'Carving your ideas in wood...',
+    'Shaping your space...',
+    'One moment while creativity flows...',
+    'Reading the grain of the design...',
+    'Assembling the details...',
+  ],
+
+  progress: {
+    stages: {
+      validating: 'Checking the photos',
+      analyzing: 'Analysing the space',
+      rendering: 'Rendering the design',
+    },
+    renderingView: (current, total) => `Rendering the design (view ${current} of ${total})`,
+    retrying: (retry) => `The AI did not answer; retrying (attempt ${retry + 1})…`,
+    cancel: 'Cancel',
+  },
+
+  errors: {
+    projectOpen: 'The project could not be opened.',
+    fileRead: 'One or more files could not be read.',
+    noImages: 'Please upload at least one photo of your space.',
+    validation: 'Validation failed: the photos do not seem to show the same space or do not match the selected room type. Please check your photos.',
+    analysis: 'Something went wrong while analysing the photos. Please try again.',
+    noBaseImage: 'There is no base image to refine.',
+    partialViews: 'The design could not be applied to every view. The ones that were generated are in the history.',
+    refine: 'The image could not be refined. Try a different instruction.',
+    submit: 'The request could not be sent.',
+  },
+
+  aiErrors: {
+    network: 'We could not reach the AI. Check your internet connection and try again.',
+    timeout: 'The AI is taking too long to answer. Please try again in a few minutes.',
+    quota: 'The AI has reached its usage limit for now. Wait a few minutes and try again.',
+    safetyPhotos: 'The AI safety filters blocked the photos. Remove any that show people or documents and try again.',
+    safetyPrompt: 'The AI safety filters blocked the instruction. Rephrase it describing only furniture, materials and colours.',
+    invalidAnalysis: 'The AI returned an incomplete analysis. Try again; if it happens again, try other photos.',
+    invalidRender: 'The AI did not return an image. Try again or describe the change differently.',
+  },
+
+  auth: {
+    title: 'Your Design Studio',
+    subtitle: 'Sign in to create and save your wood designs.',
+    signIn: 'Sign In',
+    signUp: 'Create Account',
+    magic: 'Magic Link',
+    sendMagic: 'Send me a Link',
+    checkEmail: 'Check your email!',
+    magicSentBefore: 'We have sent a link to',
+    magicSentAfter: 'so you can sign in without a password. It expires in 15 minutes.',
+    name: 'Name',
+    email: 'Email',
+    password: 'Password',
+    magicHint: 'We will send you a one-time link to sign in without a password.',
+    error: 'Sign-in could not be completed. Please try again.',
+  },
+
+  projects: {
+    title: 'My Projects',
+    new: 'New Project',
+    loading: 'Loading your projects...',
+    empty: 'You have no saved projects yet. Every design you start will be saved here automatically.',
+    photoAlt: (name) => `Photo of project ${name}`,
+    renameLabel: 'New project name',
+    save: 'Save',
+    request: (status) => `Request: ${status}`,
+    requestPending: 'Request waiting to be sent',
+    noSpace: 'No space',
+    photos: (count) => `${count} ${count === 1 ? 'photo' : 'photos'}`,
+    updated: (date) => `Updated on ${date}`,
+    open: 'Continue',
+    rename: 'Rename',
+    duplicate: 'Duplicate',
+    copyName: (name) => `${name} (copy)`,
+    delete: 'Delete',
+    confirmDelete: (name) => `Delete "${name}"? This cannot be undone.`,
+    loadError: 'Your projects could not be loaded.',
+    deleteError: 'The project could not be deleted.',
+    renameError: 'The project could not be renamed.',
+    duplicateError: 'The project could not be duplicated.',
+  },
+
+  rates: {
+    title: 'Workshop Rates',
+    prices: (currency) => `Prices in ${currency}, excluding VAT.`,
+    updated: (date) => ` Last updated: ${date}.`,
+    general: 'General',
+    fields: {
+      vatRate: 'VAT (fraction)',
+      wasteFactor: 'Board waste (fraction)',
+      backPanelPricePerM2: 'Back panel, price per m²',
+      labourRatePerHour: 'Workshop, price per hour',
+      baseHoursPerModule: 'Base hours per module',
+      hoursPerM2Board: 'Hours per m² of board',
+      hoursPerFront: 'Hours per door or drawer',
+      installationRatePerHour: 'Installation, price per hour',
+      installationHoursPerModule: 'Installation hours per module',
+      installationMinimum: 'Minimum installation charge',
+      highCeilingSurcharge: 'High ceiling surcharge (fraction)',
+      rangeSpread: 'Spread of the range shown (fraction)',
+    },
+    tables: {
+      woods: 'Woods',
+      finishes: 'Finishes',
+      hardware: 'Hardware',
+    },
+    columns: {
+      pricePerM2: 'Price per m²',
+      labourFactor: 'Labour factor',
+      hoursPerM2: 'Hours per m²',
+      pricePerModule: 'Per module',
+      pricePerFront: 'Per front',
+    },
+    name: 'Name',
+    loadError: 'The rates could not be loaded.',
+    saved: 'Rates saved. New quotes already use these values.',
+    saveError: 'The rates could not be saved.',
+    saving: 'Saving…',
+    save: 'Save Rates',
+  },
+
+  cutList: {
+    fileStem: 'cut-list',
+    code: 'Code',
+    part: 'Part',
+    size: 'Length × width × thickness (mm)',
+    quantity: 'Qty',
+    grain: 'Grain',
+    edges: 'Edges',
+    grainAlong: 'Lengthwise',
+    grainFree: 'Any',
+    edgeCount: (long, short) => `${long} long, ${short} short`,
+    totals: (pieces, area, boardFeet) => `${pieces} ${pieces === 1 ? 'piece' : 'pieces'} · ${area} m² · ${boardFeet} board feet`,
+    sheets: (count, size, waste) => `${count} ${count === 1 ? 'sheet' : 'sheets'} of ${size} mm · ${waste} waste`,
+    oversize: (codes) => `Too large for one sheet: ${codes}`,
+    banding: 'Edge banding',
+    bandingLength: (metres) => `${metres} linear m`,
+    kerf: 'Saw kerf (mm)',
+    downloadCsv: 'Download cut list (CSV)',
+    print: 'Print diagrams',
+    printTitle: (name) => `Cut list ${name}`,
+    downloadDiagram: 'Download diagram as SVG',
+    diagramAlt: (sheet, index) => `Cutting diagram, ${sheet}, sheet ${index}`,
+    csv: {
+      code: 'Code',
+      module: 'Module',
+      part: 'Part',
+      length: 'Length (mm)',
+      width: 'Width (mm)',
+      thickness: 'Thickness (mm)',
+      quantity: 'Quantity',
+      material: 'Material',
+      grain: 'Grain',
+      bandingLong: 'Long edges',
+      bandingShort: 'Short edges',
+      yes: 'yes',
+      no: 'no',
+    },
+    parts: {
+      side: 'Side',
+      topAndBase: 'Top and base',
+      shelf: 'Shelf',
+      back: 'Back',
+      door: 'Door',
+      drawerFront: 'Drawer front',
+    },
+    diagram: {
+      caption: (sheet, size, index, count, waste) => `${sheet} · ${size} mm · sheet ${index} of ${count} · ${waste} waste`,
+      legend: 'Grain → along the sheet · sizes in mm (length × width)',
+    },
+  },
+};
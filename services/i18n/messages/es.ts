@@ -0,0 +1,802 @@
+import { MESSAGE_MAX_LENGTH, MESSAGE_MIN_LENGTH, NAME_MAX_LENGTH } from '../../contact/message';
+
+/** Texts of one service page; its photos and featured woods live in the space registry. */
+type ServicePageText = {
+  name: string;
+  summary: string;
+  title: string;
+  slogan: string;
+  examples: { title: string; description: string }[];
+};
+
+// --- Spanish Catalog ---
+// The source catalog: every other language must provide the same keys (see `Catalog`).
+
+export const es = {
+  common: {
+    back: 'Volver',
+    optional: '(opcional)',
+    loading: 'Un momento...',
+  },
+
+  header: {
+    home: 'Página de inicio',
+    services: 'Servicios',
+    about: 'Nosotros',
+    contact: 'Contacto',
+    projects: 'Mis Proyectos',
+    requests: 'Solicitudes',
+    studio: (name: string) => `Ir a mi estudio de diseño (${name})`,
+    signOut: 'Cerrar Sesión',
+    signIn: 'Acceder',
+    language: 'Idioma',
+  },
+
+  footer: {
+    rights: 'Todos los derechos reservados.',
+  },
+
+  home: {
+    title: 'Transformando Espacios con la Calidez de la Madera',
+    text: 'Diseño y fabricación de mobiliario arquitectónico a medida. Convierte tu visión en una realidad tangible y duradera.',
+    cta: 'Comienza tu Diseño',
+    inspiration: 'Inspiración y Tendencias',
+    inspirationLoading: 'Cargando inspiración...',
+    inspirationError: 'No se pudo cargar la inspiración en este momento.',
+    inspirationFilter: 'Filtrar por espacio',
+    allSpaces: 'Todos',
+  },
+
+  services: {
+    title: 'Nuestros Servicios',
+    subtitle: 'Diseño y artesanía en madera para cada rincón de tu vida.',
+    back: '← Volver a todos los servicios',
+    examples: 'Ejemplos de Transformación',
+    ctaTitle: '¿Inspirado para transformar tu espacio?',
+    cta: 'Comienza tu Diseño Ahora',
+    /** Service pages, keyed by the slug of their space type (see `services/spaces/registry.ts`). */
+    pages: {
+      salas: {
+        name: 'Salas y Estancias',
+        summary: 'El salón es el centro de la vida familiar. Diseñamos centros de entretenimiento, librerías a medida y muebles auxiliares que enriquecen tu espacio de convivencia.',
+        title: 'Salas y Estancias',
+        slogan: 'El Corazón de tu Hogar, Redefinido en Madera',
+        examples: [
+          { title: 'Centro de Entretenimiento Integrado', description: 'Un diseño limpio que combina almacenamiento y exhibición, convirtiendo tu sala en un cine en casa elegante.' },
+          { title: 'Estantería de Pared a Techo', description: 'Una biblioteca personal que se convierte en la protagonista del espacio, hecha a medida en madera de nogal.' },
+          { title: 'Mueble Recibidor con Banco', description: 'Funcionalidad y elegancia desde la entrada con un banco y almacenamiento a medida en madera de arce.' },
+        ],
+      },
+      habitacion: {
+        name: 'Habitaciones y Dormitorios',
+        summary: 'Creamos santuarios de descanso con armarios a medida, cabeceros y soluciones de almacenamiento que combinan funcionalidad y serenidad.',
+        title: 'Habitaciones y Dormitorios',
+        slogan: 'Tu Santuario Personal, Diseñado para el Descanso',
+        examples: [
+          { title: 'Armario a Medida de Pared a Pared', description: 'Soluciones de almacenamiento que se integran a la perfección, maximizando el espacio y el orden.' },
+          { title: 'Cabecero de Cama con Mesitas Flotantes', description: 'Un diseño minimalista y funcional que crea una sensación de amplitud y modernidad en tu dormitorio.' },
+          { title: 'Banco de Almacenamiento al Pie de la Cama', description: 'Una pieza versátil que ofrece un asiento adicional y un lugar discreto para guardar ropa de cama o zapatos.' },
+        ],
+      },
+      cocinas: {
+        name: 'Cocinas Funcionales',
+        summary: 'Transformamos tu cocina en un espacio de inspiración culinaria con gabinetes, islas y barras diseñadas para maximizar la funcionalidad y reflejar tu estilo.',
+        title: 'Cocinas Funcionales',
+        slogan: 'Donde el Sabor se Encuentra con el Diseño',
+        examples: [
+          { title: 'Gabinetes de Suelo a Techo', description: 'Maximiza el almacenamiento con gabinetes de roble que ofrecen un look continuo y sofisticado.' },
+          { title: 'Isla Central con Almacenamiento', description: 'El punto de encuentro perfecto para la familia, combinando preparación de alimentos y un espacio social informal.' },
+          { title: 'Estanterías Abiertas de Madera Natural', description: 'Un toque rústico y moderno para exhibir tu vajilla y añadir carácter a las paredes de tu cocina.' },
+        ],
+      },
+      banos: {
+        name: 'Baños con Encanto Natural',
+        summary: 'Llevamos la calidez de la madera a tu baño con vanidades a medida y acentos decorativos, utilizando maderas tratadas para una belleza duradera.',
+        title: 'Baños con Encanto Natural',
+        slogan: 'Tu Santuario Personal, Revestido de Calidez',
+        examples: [
+          { title: 'Vanidad Flotante de Teca', description: 'Una pieza central que combina la resistencia a la humedad de la teca con un diseño minimalista y elegante.' },
+          { title: 'Gabinete de Almacenamiento Vertical', description: 'Soluciones inteligentes para espacios reducidos, ofreciendo un amplio almacenamiento sin sacrificar el estilo.' },
+          { title: 'Acentos de Pared con Listones de Cedro', description: 'Crea una pared de acento tipo spa que añade textura, aroma y una sensación de lujo natural a tu baño.' },
+        ],
+      },
+      estudios: {
+        name: 'Estudios y Oficinas en Casa',
+        summary: 'Creamos entornos de trabajo que fomentan la concentración con escritorios ergonómicos, estanterías inteligentes y soluciones de almacenamiento integradas.',
+        title: 'Estudios y Oficinas en Casa',
+        slogan: 'Espacios que Inspiran Productividad',
+        examples: [
+          { title: 'Escritorio y Estantería Integrados', description: 'Un espacio de trabajo unificado y a medida que maximiza la superficie y el almacenamiento vertical.' },
+          { title: 'Pared de Almacenamiento a Medida', description: 'Organiza tus libros y documentos con un sistema flexible que se integra perfectamente a la pared.' },
+          { title: 'Gabinetes Bajos de Almacenamiento', description: 'Una solución elegante para ocultar impresoras y suministros, manteniendo una superficie de trabajo limpia y ordenada.' },
+        ],
+      },
+      gatos: {
+        name: 'Enriquecimiento Ambiental para Gatos',
+        summary: 'Diseñamos estructuras y mobiliario integrado que satisface los instintos naturales de tus felinos, integrándose perfectamente con la decoración de tu hogar.',
+        title: 'Enriquecimiento para Gatos',
+        slogan: 'Diseño que Ronronea de Felicidad',
+        examples: [
+          { title: 'Autopista de Pared para Gatos', description: 'Un circuito de estantes, puentes y postes rascadores que satisface su necesidad de explorar en las alturas.' },
+          { title: 'Torre de Actividades Escultural', description: 'Una pieza de arte funcional que sirve como torre de observación y rascador, integrándose como un mueble más.' },
+          { title: 'Mueble con Rascador Integrado', description: 'Una estación de descanso y juego que se fusiona con un mueble auxiliar, manteniendo el orden y la estética.' },
+        ],
+      },
+    } as Record<string, ServicePageText>,
+  },
+
+  about: {
+    title: 'Sobre Maderarte',
+    subtitle: 'Pasión por la madera, compromiso con el diseño.',
+    philosophyTitle: 'Nuestra Filosofía',
+    philosophy: 'En Maderarte, creemos que los muebles son más que objetos; son el alma de un espacio. Combinamos técnicas de carpintería tradicionales con diseño contemporáneo para crear piezas que cuentan una historia. Cada veta de la madera, cada unión y cada acabado es un testimonio de nuestro amor por el oficio y nuestro compromiso con la calidad duradera.',
+    missionTitle: 'Nuestra Misión',
+    mission: 'Nuestra misión es transformar tus ideas en realidad tangible, creando espacios funcionales y estéticamente inspiradores a través del diseño de mobiliario en madera. Buscamos la excelencia en cada proyecto, asegurando la satisfacción de nuestros clientes y el respeto por el medio ambiente utilizando maderas de fuentes sostenibles.',
+    teamTitle: 'Conoce al Equipo',
+    founderRole: 'Fundadora & Diseñadora Principal',
+    founderBio: 'Con una visión que une arquitectura y naturaleza, Elena lidera cada proyecto con creatividad y una atención meticulosa al detalle.',
+    craftsmanRole: 'Maestro Artesano',
+    craftsmanBio: 'Con más de 30 años de experiencia, Javier convierte los diseños en obras de arte, dominando la madera con una habilidad inigualable.',
+  },
+
+  notFound: {
+    title: 'Página no encontrada',
+    text: 'La dirección que buscas no existe o ha cambiado de lugar.',
+    home: 'Volver al Inicio',
+    services: 'Ver Servicios',
+  },
+
+  contact: {
+    title: 'Ponte en Contacto',
+    subtitle: '¿Tienes una idea o una pregunta? Estamos aquí para ayudarte a darle forma.',
+    infoTitle: 'Información de Contacto',
+    address: 'Dirección',
+    phone: 'Teléfono',
+    email: 'Email',
+    hours: 'Horario',
+    hoursValue: 'Lunes a Viernes, de 9:00 a 18:00',
+    formTitle: 'Envíanos un Mensaje',
+    name: 'Nombre',
+    projectType: 'Tipo de proyecto',
+    unspecified: 'Sin especificar',
+    message: 'Mensaje',
+    website: 'Sitio web',
+    send: 'Enviar Mensaje',
+    sending: 'Enviando...',
+    outbox: (count: number) => `${count === 1 ? 'Tienes 1 mensaje pendiente' : `Tienes ${count} mensajes pendientes`} de envío. Saldrá en cuanto vuelvas a tener conexión.`,
+    queuedTitle: 'Mensaje guardado',
+    queuedText: 'Ahora mismo no tienes conexión. Enviaremos tu mensaje automáticamente en cuanto vuelvas a estar en línea.',
+    sentTitle: '¡Gracias por tu mensaje!',
+    sentText: 'Hemos recibido tu consulta y nos pondremos en contacto contigo a la brevedad.',
+    another: 'Escribir otro mensaje',
+    sendError: 'No se pudo enviar el mensaje. Inténtalo de nuevo.',
+    rateWait: (seconds: number) => `Acabas de enviarnos un mensaje. Espera ${seconds} segundos antes de enviar otro.`,
+    rateHourly: 'Has enviado varios mensajes seguidos. Inténtalo de nuevo dentro de una hora.',
+    /** Keyed by the problems `validateContactMessage` reports. */
+    errors: {
+      nameRequired: 'Indica tu nombre.',
+      nameTooLong: `El nombre no puede superar los ${NAME_MAX_LENGTH} caracteres.`,
+      emailRequired: 'Indica tu email para poder responderte.',
+      emailInvalid: 'El email no es válido.',
+      projectTypeInvalid: 'Elige un tipo de proyecto de la lista.',
+      messageRequired: 'Escribe tu mensaje.',
+      messageTooShort: `Cuéntanos un poco más (mínimo ${MESSAGE_MIN_LENGTH} caracteres).`,
+      messageTooLong: `El mensaje no puede superar los ${MESSAGE_MAX_LENGTH} caracteres.`,
+    },
+  },
+
+  /** Space types, keyed by the id the journey stores. */
+  spaces: {
+    'Sala': 'Sala',
+    'Habitación': 'Habitación',
+    'Estudio': 'Estudio',
+    'Cocina': 'Cocina',
+    'Baño': 'Baño',
+    'Espacio para Gatos': 'Espacio para Gatos',
+  } as Record<string, string>,
+
+  stepper: {
+    label: 'Progreso del diseño',
+    select: 'Seleccionar Espacio',
+    cats: 'Detalles Felinos',
+    upload: 'Cargar Fotos',
+    design: 'Diseño y Refinamiento',
+    quote: 'Cotización',
+    confirm: 'Confirmación',
+    status: (step: number, status: string) => `, Paso ${step}, ${status}`,
+    completed: 'completado',
+    current: 'actual',
+    next: 'siguiente',
+  },
+
+  selectSpace: {
+    title: 'Bienvenido a tu Estudio de Diseño',
+    question: '¿Qué espacio te gustaría transformar hoy?',
+  },
+
+  cats: {
+    title: (step: number) => `Paso ${step}: Detalles Felinos`,
+    intro: 'Cuéntanos más sobre tus compañeros para crear el espacio perfecto para ellos.',
+    count: '¿Cuántos gatos tienes?',
+    fallbackName: (number: number) => `Gato ${number}`,
+    name: 'Nombre',
+    weight: 'Peso en kg (opcional)',
+    size: 'Tamaño',
+    sizePlaceholder: 'Selecciona un tamaño',
+    age: 'Edad',
+    agePlaceholder: 'Selecciona una edad',
+    mobility: 'Movilidad',
+    traits: 'Carácter',
+    rulesTitle: 'Lo que tendremos en cuenta',
+    continue: 'Continuar a Cargar Fotos',
+    sizes: {
+      'pequeño': 'Pequeño (hasta 4kg)',
+      'mediano': 'Mediano (4-6kg)',
+      'grande': 'Grande (más de 6kg)',
+    } as Record<string, string>,
+    ages: {
+      'joven': 'Joven (0-2 años)',
+      'adulto': 'Adulto (2-10 años)',
+      'viejito': 'Viejito (más de 10 años)',
+    } as Record<string, string>,
+    mobilityIssues: {
+      'arthritis': 'Artrosis o rigidez',
+      'three-legged': 'Le falta una pata',
+      'low-vision': 'Visión reducida',
+      'overweight': 'Sobrepeso',
+    },
+    traitNames: {
+      climber: 'Trepador',
+      jumper: 'Gran saltador',
+      hider: 'Le gusta esconderse',
+      shy: 'Tímido con los otros gatos',
+    },
+    /** Sentences `describeRules` builds; lengths arrive already formatted. */
+    rules: {
+      steps: (step: string, gap: string) => `Pasos de ${step} de altura como máximo y huecos de ${gap} como máximo entre superficies.`,
+      platforms: (depth: string, loadKg: number) => `Plataformas de al menos ${depth} de fondo, cada una preparada para ${loadKg} kg.`,
+      ramp: (slopeDeg: number) => `Acceso desde el suelo con rampa de ${slopeDeg}° de pendiente como máximo.`,
+      escapeRoutes: 'Cada plataforma necesita dos salidas para que ningún gato quede acorralado.',
+      hideouts: 'Al menos un refugio cerrado a lo largo del recorrido.',
+    },
+  },
+
+  upload: {
+    title: (step: number, space: string) => `Paso ${step}: Fotografía tu ${space}`,
+    intro: 'Para obtener un análisis preciso, sigue estos consejos:',
+    prepareTitle: 'Descarga y prepara:',
+    prepare: 'Descarga nuestra hoja de referencia e imprímela en A4 al 100 % (sin ajustar a la página). Sus cuatro marcadores nos permiten medir la escala real de cada foto.',
+    clearTitle: 'Despeja el espacio:',
+    clear: 'Retira todos los objetos móviles (sillas, mesas pequeñas, decoración) para tener una vista clara de la habitación.',
+    placeTitle: 'Ubica la referencia:',
+    place: 'Coloca la hoja plana en el suelo, preferiblemente contra una pared principal o en una esquina bien iluminada.',
+    anglesTitle: 'Captura desde múltiples ángulos:',
+    angles: 'Toma varias fotos desde diferentes ángulos para darnos una vista completa del espacio. Es crucial que la hoja de referencia sea claramente visible en',
+    anglesAll: 'TODAS',
+    anglesEnd: 'las fotos y que no quede demasiado inclinada.',
+    download: 'Descargar Referencia',
+    downloadName: 'referencia_maderarte.svg',
+    /** Printed on the reference sheet itself. */
+    sheet: {
+      title: 'Maderarte · Referencia de escala',
+      print: 'Imprime al 100 % (sin ajustar a la página) y colócala plana sobre el suelo.',
+      ruler: 'Comprueba la impresión: esta regla debe medir 10 cm',
+    },
+    selected: (count: number) => `Archivos seleccionados: ${count}`,
+    select: 'Seleccionar Imágenes',
+    preview: (number: number) => `Vista previa ${number}`,
+    flagged: (count: number) => `${count === 1 ? 'Una foto no muestra' : `${count} fotos no muestran`} la hoja de referencia con claridad. Puedes continuar, pero las medidas serán menos precisas; te recomendamos repetirlas.`,
+    analyze: 'Analizar Espacio',
+    preparing: 'Preparando fotos…',
+    limit: (max: number) => `Hasta ${max} fotos. Las reducimos y eliminamos su ubicación y demás datos EXIF antes de subirlas.`,
+    rejected: {
+      notImage: (names: string) => `Se han descartado porque no son imágenes: ${names}.`,
+      unsupported: (names: string) => `No podemos leer el formato de ${names}. Expórtalas como JPEG o PNG y vuelve a subirlas.`,
+      tooMany: (max: number, count: number) => `Se admiten hasta ${max} fotos; se ${count === 1 ? 'ha descartado 1' : `han descartado ${count}`}.`,
+    },
+    quality: {
+      blurry: 'Movida',
+      dark: 'Oscura',
+      overexposed: 'Sobreexpuesta',
+    },
+    qualityHints: {
+      blurry: 'Apoya el móvil o sujétalo con las dos manos y repite la foto',
+      dark: 'Enciende las luces o abre las cortinas',
+      overexposed: 'Evita fotografiar contra una ventana o un foco',
+    },
+    qualityWarning: (count: number) => `${count === 1 ? 'Una foto está movida' : `${count} fotos están movidas`} o mal iluminadas. Puedes continuar, pero el análisis será menos fiable; te recomendamos repetirlas.`,
+    confirmQuality: (count: number) => `${count === 1 ? 'Una foto está movida' : `${count} fotos están movidas`} o mal iluminadas y el análisis puede ser menos fiable. ¿Analizar el espacio de todos modos?`,
+  },
+
+  scale: {
+    searching: 'Buscando referencia…',
+    markers: (count: number) => `${count} marcadores detectados`,
+    ok: (pixelsPerMetre: string) => `Escala: ${pixelsPerMetre} px/m`,
+    partialHint: 'Solo se vio parte de la hoja; la escala es aproximada',
+    partial: (pixelsPerMetre: string) => `Referencia parcial: ${pixelsPerMetre} px/m`,
+    obliqueHint: 'Fotografía la hoja desde un ángulo más frontal',
+    oblique: 'Referencia demasiado inclinada',
+    missingHint: 'Asegúrate de que la hoja impresa se vea completa en la foto',
+    missing: 'Referencia no encontrada',
+  },
+
+  studio: {
+    title: (step: number) => `Paso ${step}: Visualiza y Refina tu Diseño`,
+    imageTitle: 'Tu Espacio Transformado',
+    imageText: 'Esta es una interpretación de la IA basada en tus peticiones. ¿Qué te gustaría cambiar?',
+    viewPicker: 'Vista a refinar',
+    view: (number: number) => `Vista ${number}`,
+    generated: (prompt: string) => `Diseño generado: ${prompt}`,
+    yourSpace: 'Tu espacio',
+    allViews: 'Este diseño en todas las vistas',
+    viewWithDesign: (number: number) => `Vista ${number} con el diseño aplicado`,
+    refineBase: 'Punto de partida del refinamiento',
+    fromCurrent: 'Seguir desde la versión mostrada',
+    fromOriginal: 'Empezar desde la foto original',
+    applyAll: (count: number) => `Aplicar a todas las vistas (${count}) con los mismos muebles`,
+    refinePlaceholder: "Ej: 'Añade una librería de nogal en la pared derecha'",
+    refineLabel: 'Prompt para refinar el diseño',
+    refine: 'Refinar',
+    analysisTitle: 'Análisis y Sugerencias de la IA',
+    dimensions: 'Dimensiones Estimadas',
+    sketch: 'Boceto de la IA',
+    sketchHint: 'Ajusta paredes, aberturas y muebles en el editor de plano.',
+    currentStyle: 'Estilo Actual',
+    suggestions: 'Sugerencias de Diseño',
+    quote: '¡Me encanta! Solicitar Cotización',
+    plan: 'Plano Editable',
+    catHighway: 'Autopista Felina',
+  },
+
+  dimensions: {
+    length: 'Largo',
+    width: 'Ancho',
+    height: 'Alto',
+    units: 'Sistema de unidades',
+    metric: 'Métrico',
+    imperial: 'Imperial',
+    corrected: 'Corregido',
+    confidenceTitle: (percent: number) => `Confianza de la IA: ${percent}%`,
+    confidence: (level: string) => `Confianza ${level}`,
+    high: 'Alta',
+    medium: 'Media',
+    low: 'Baja',
+    hint: '¿Alguna medida no es correcta? Corrígela y la usaremos en los siguientes renders y en tu cotización.',
+  },
+
+  versions: {
+    label: 'Historial de versiones',
+    original: 'Original',
+    yourPhoto: 'Tu foto',
+    fromVersion: (number: number) => `desde v${number}`,
+    fromOriginal: 'desde el original',
+    saved: 'Render guardado',
+  },
+
+  /** Names of catalog entries, keyed by id (see `services/materials/catalog.ts` and `services/modules/library.ts`). */
+  materials: {
+    woods: {
+      'pine': 'Pino',
+      'oak': 'Roble',
+      'maple': 'Arce',
+      'walnut': 'Nogal',
+      'teak': 'Teca',
+      'cedar': 'Cedro',
+    } as Record<string, string>,
+    finishes: {
+      'oil': 'Aceite natural',
+      'varnish': 'Barniz mate',
+      'lacquer': 'Laca de color',
+      'marine-varnish': 'Barniz marino',
+    } as Record<string, string>,
+    modules: {
+      'shelving': 'Estantería',
+      'base-cabinet': 'Gabinete bajo',
+      'wall-cabinet': 'Gabinete de pared',
+      'floating-vanity': 'Vanidad flotante',
+      'wardrobe': 'Armario',
+      'desk': 'Escritorio',
+      'bench': 'Banco',
+      'wall-shelf': 'Repisa',
+      'cat-shelf': 'Repisa para gatos',
+    } as Record<string, string>,
+    sheets: {
+      'birch-plywood-18': 'Contrachapado de abedul 18 mm',
+      'oak-veneer-mdf-19': 'MDF rechapado en roble 19 mm',
+      'walnut-veneer-mdf-19': 'MDF rechapado en nogal 19 mm',
+      'mr-mdf-19': 'MDF hidrófugo 19 mm',
+      'marine-plywood-18': 'Contrachapado marino 18 mm',
+      'hdf-back-3': 'Tablero HDF para traseras 3 mm',
+    } as Record<string, string>,
+  },
+
+  compare: {
+    modeLabel: 'Modo de comparación',
+    modes: {
+      slider: 'Deslizador',
+      side: 'Lado a lado',
+      flicker: 'Alternar',
+    },
+    before: 'Antes',
+    after: 'Después',
+    originalAlt: 'Foto original',
+    position: 'Posición de la comparación',
+    hold: 'Mantén pulsado para ver la foto original',
+    autoFlicker: 'Alternar automáticamente',
+    exporting: 'Generando…',
+    download: 'Descargar Antes/Después',
+    share: 'Compartir',
+    shareTitle: 'Mi diseño Maderarte',
+    shareText: 'Mira cómo quedaría mi espacio con muebles de Maderarte.',
+    /** Printed under the exported image. */
+    credit: 'Diseñado con Maderarte',
+    exportError: 'No se pudo generar la imagen comparativa.',
+  },
+
+  suggestions: {
+    onPlan: 'En el plano',
+    showOnPlan: 'Ver en el plano',
+    longestWall: 'Pared más larga',
+    wall: (number: number) => `Pared ${number}`,
+    band: (low: string, high: string) => `Orientativo: ${low} – ${high}, IVA e instalación incluidos`,
+    render: 'Visualizar',
+    place: 'Colocar en el plano',
+    /** Short label of an item; `size` arrives formatted, e.g. "80 × 35 × 200 cm". */
+    item: (module: string, wood: string | null, size: string) => `${module}${wood ? ` de ${wood.toLowerCase()}` : ''}, ${size}`,
+    /** Render prompt that only asks for the items the client kept. */
+    renderPrompt: (description: string, finish: string | null, items: string[]) =>
+      `${description}${finish ? ` Acabado: ${finish.toLowerCase()}.` : ''}\nIncluye únicamente estos muebles (ancho × fondo × alto):\n${items.join('\n')}`,
+    renderItem: (item: string, wall: number | null, finish: string | null) =>
+      `- ${item}${wall === null ? '' : `, en la pared ${wall}`}${finish ? `, acabado ${finish.toLowerCase()}` : ''}.`,
+  },
+
+  quote: {
+    title: (step: number) => `${step}. Tu Cotización Estimada`,
+    intro: 'Elige la propuesta, la madera, el acabado y los herrajes. El precio se calcula con las tarifas actuales de nuestro taller.',
+    ratesError: 'No se pudieron cargar las tarifas. Inténtalo de nuevo más tarde.',
+    loadingRates: 'Cargando tarifas...',
+    noRates: 'Ahora mismo no hay tarifas para los materiales de este espacio. Contáctanos para una cotización personalizada.',
+    proposal: 'Propuesta',
+    wood: 'Madera',
+    finish: 'Acabado',
+    hardware: 'Herrajes',
+    noItems: 'Has desactivado todos los muebles de esta propuesta. Vuelve al estudio para activar alguno.',
+    assumed: 'Muebles de la propuesta con sus medidas sugeridas. Colócalos en el plano editable para afinar el precio.',
+    fromPlan: 'Muebles tomados de tu plano editable.',
+    rangeNote: 'Rango orientativo, IVA incluido. El taller confirmará el precio final tras la visita técnica.',
+    /** Keyed by `QuoteCategory`. */
+    categories: {
+      materials: 'Materiales',
+      finish: 'Acabado',
+      hardware: 'Herrajes',
+      labour: 'Mano de obra',
+      installation: 'Instalación',
+    },
+    /** Descriptions of the estimate's lines; figures arrive already formatted. */
+    lines: {
+      module: (name: string, size: string, wood: string) => `${name} ${size} · ${wood}`,
+      finish: (name: string, area: string) => `Acabado ${name.toLowerCase()} (${area} m²)`,
+      hardware: (name: string, modules: number, fronts: number) => `Herrajes ${name.toLowerCase()} (${modules} ${modules === 1 ? 'módulo' : 'módulos'}, ${fronts} ${fronts === 1 ? 'frente' : 'frentes'})`,
+      labour: (hours: string) => `Mano de obra en taller (${hours} h)`,
+      installation: 'Instalación',
+      installationHighCeiling: 'Instalación (techo alto)',
+    },
+    subtotal: 'Subtotal',
+    vat: (percent: number) => `IVA (${percent}%)`,
+    total: 'Total estimado',
+    contactTitle: '¿Cómo te contactamos?',
+    name: 'Nombre',
+    email: 'Email',
+    phone: 'Teléfono (opcional)',
+    notes: 'Comentarios para el taller (opcional)',
+    submit: 'Enviar Solicitud',
+    /** Keyed by the problems `validateContact` reports. */
+    contactErrors: {
+      missing: 'Faltan los datos de contacto.',
+      nameRequired: 'Indica tu nombre.',
+      emailInvalid: 'El email no es válido.',
+      phoneInvalid: 'El teléfono no es válido.',
+      notesInvalid: 'Los comentarios no son válidos.',
+    },
+  },
+
+  plan: {
+    /** Keyed by `OpeningKind`. */
+    openings: {
+      door: 'Puerta',
+      window: 'Ventana',
+      opening: 'Vano',
+    },
+    addOnWall: (wall: number) => `Añadir en pared ${wall}:`,
+    module: 'Módulo de mobiliario',
+    addFurniture: 'Añadir mueble',
+    exportSvg: 'Exportar SVG',
+    exportJson: 'Exportar JSON',
+    reset: 'Restablecer',
+    canvas: 'Editor del plano. Arrastra paredes, aberturas y muebles.',
+    hint: 'Arrastra una pared para moverla o selecciónala para fijar su longitud. Las aberturas se deslizan por su pared y los muebles se ajustan a la pared más cercana.',
+    wall: (number: number) => `Pared ${number}`,
+    onWall: (name: string, wall: number) => `${name} · pared ${wall}`,
+    length: 'Longitud',
+    kind: 'Tipo',
+    width: 'Ancho',
+    depth: 'Fondo',
+    height: 'Alto',
+    fromCorner: 'Desde la esquina',
+    shelves: 'Estantes',
+    doors: 'Puertas',
+    drawers: 'Cajones',
+    wood: 'Material',
+    designWood: 'Según el diseño',
+    remove: 'Eliminar',
+    downloadElevation: 'Descargar alzado en SVG',
+    frontAlt: (name: string) => `Alzado frontal de ${name}`,
+    sideAlt: (name: string) => `Alzado lateral de ${name}`,
+    /** Titles drawn on the elevation SVGs. */
+    frontTitle: (name: string) => `${name} · alzado frontal`,
+    sideTitle: 'Alzado lateral',
+    /** What `validateModule` reports; lengths arrive already formatted. */
+    problems: {
+      width: (min: string, max: string) => `El ancho debe estar entre ${min} y ${max}.`,
+      height: (min: string, max: string) => `El alto debe estar entre ${min} y ${max}.`,
+      depth: (min: string, max: string) => `El fondo debe estar entre ${min} y ${max}.`,
+      shelves: (min: number, max: number) => `Este módulo admite entre ${min} y ${max} estantes.`,
+      shelfGap: (shelves: number, gap: string, minimum: string) => `Con ${shelves} estantes los huecos quedarían de ${gap}; el mínimo útil es ${minimum}.`,
+      doors: (min: number, max: number) => `Este módulo admite entre ${min} y ${max} puertas.`,
+      drawers: (min: number, max: number) => `Este módulo admite entre ${min} y ${max} cajones.`,
+      doorWidth: (width: string, min: string, max: string) => `Cada frente mediría ${width}; las puertas deben medir entre ${min} y ${max}.`,
+      drawerWidth: (width: string, min: string, max: string) => `Cada frente mediría ${width}; los cajones deben medir entre ${min} y ${max}.`,
+      span: (span: string, wood: string | null, maxSpan: string) =>
+        `Los estantes tendrían un vano libre de ${span}; ${wood ? `en ${wood.toLowerCase()}` : 'sin material definido'} el máximo sin apoyo es ${maxSpan}.`,
+      addDoors: 'Añade puertas (cada par lleva una división) o reduce el ancho.',
+      split: 'Reduce el ancho o divide el mueble en varios módulos.',
+    },
+  },
+
+  catHighway: {
+    rulesTitle: 'Reglas para tus gatos',
+    /** Follows the cat's name. */
+    catLimits: (stepCm: number, gapCm: number, needsRamp: boolean) =>
+      `: pasos de hasta ${stepCm} cm, huecos de hasta ${gapCm} cm${needsRamp ? ', necesita rampa' : ''}.`,
+    wall: 'Pared',
+    wallOption: (number: number, lengthCm: number) => `Pared ${number} (${lengthCm} cm)`,
+    peak: 'Altura máxima (cm)',
+    platformWidth: 'Ancho de plataforma (cm)',
+    download: 'Descargar alzado en SVG',
+    drawingAlt: (wall: number) => `Autopista felina sobre la pared ${wall}`,
+    ok: 'El recorrido cumple todas las reglas de tus gatos.',
+    /** Printed under the elevation. */
+    caption: (wallCm: number) => `Pared de ${wallCm} cm · alturas en cm`,
+    /** What `checkCatHighway` reports; `cats` is a list of names and lengths arrive already formatted. */
+    violations: {
+      noPlatforms: 'El recorrido no tiene ninguna plataforma.',
+      offWall: (id: string) => `${id} se sale de la pared.`,
+      headroom: (id: string, headroom: string) => `${id} queda a menos de ${headroom} del techo; los gatos no podrían ponerse de pie.`,
+      steepRamp: (id: string, slopeDeg: number, cats: string, maxDeg: number) =>
+        `La rampa ${id} tiene ${slopeDeg}° de pendiente; ${cats} necesita ${maxDeg}° como máximo.`,
+      shallow: (id: string, depth: string, minimum: string) => `${id} tiene ${depth} de fondo; hacen falta al menos ${minimum}.`,
+      load: (id: string, ratedKg: number, cat: string, weightKg: number, neededKg: number) =>
+        `${id} soporta ${ratedKg} kg; para que ${cat} (${weightKg} kg) aterrice con seguridad necesita ${neededKg} kg. Usa escuadras reforzadas.`,
+      overlap: (first: string, second: string) => `${first} y ${second} se solapan.`,
+      step: (first: string, second: string, step: string, cats: string, maxStep: string) =>
+        `Entre ${first} y ${second} hay un paso de ${step}; ${cats} solo puede subir ${maxStep}.`,
+      gap: (first: string, second: string, gap: string, cats: string, maxGap: string) =>
+        `Entre ${first} y ${second} hay un hueco de ${gap}; ${cats} solo puede salvar ${maxGap}.`,
+      needsRamp: (cats: string) => `${cats} necesita una rampa para subir desde el suelo.`,
+      tooHigh: (id: string, height: string, cats: string) => `${id} está a ${height} del suelo; ${cats} no puede llegar a él.`,
+      deadEnd: (id: string) => `${id} es un callejón sin salida: con varios gatos, cada plataforma necesita una segunda salida.`,
+      lowPeak: (reached: string, peak: string) => `El recorrido se queda en ${reached}; esta pared no da para llegar a ${peak} respetando los pasos.`,
+      noHideout: 'Falta un refugio cerrado para los gatos que necesitan esconderse.',
+    },
+  },
+
+  request: {
+    sendFailed: (error: string) => `No pudimos enviar tu solicitud: ${error}`,
+    willRetry: 'Volveremos a intentarlo automáticamente; tu proyecto queda guardado mientras tanto.',
+    checkDetails: 'Revisa los datos de la cotización y vuelve a intentarlo.',
+    retry: 'Reintentar ahora',
+    sending: 'Enviando tu solicitud al taller…',
+    statusLabel: 'Estado de tu solicitud',
+    /** Keyed by `WorkshopRequestStatus`. */
+    statuses: {
+      'received': 'Recibido',
+      'in-review': 'En revisión',
+      'quoted': 'Cotizado',
+      'accepted': 'Aceptado',
+      'in-production': 'En producción',
+      'installed': 'Instalado',
+    },
+    finalQuote: 'Tu cotización final',
+    validUntil: (date: string) => `Válida hasta el ${date}.`,
+    download: (name: string) => `Descargar ${name}`,
+  },
+
+  confirmation: {
+    sendingTitle: 'Enviando tu Diseño',
+    sentTitle: '¡Diseño Enviado!',
+    thanks: 'Gracias por confiar en nosotros. Tu propuesta ha sido enviada a nuestro equipo de producción.',
+    followUp: (email: string) => `Revisaremos tu cotización estimada y te contactaremos en ${email} para confirmar el precio final y los siguientes pasos.`,
+    yourEmail: 'tu email',
+    newDesign: 'Crear un Nuevo Diseño',
+    cutList: 'Despiece para el taller',
+    downloadError: 'No se pudo descargar la cotización. Inténtalo de nuevo.',
+  },
+
+  loading: [
+    'Tallando tus ideas en madera...',
+    'Dando forma a tu espacio...',
+    'Un momento mientras la creatividad fluye...',
+    'Analizando las vetas del diseño...',
+    'Ensamblando los detalles...',
+  ],
+
+  progress: {
+    stages: {
+      validating: 'Validando las fotos',
+      analyzing: 'Analizando el espacio',
+      rendering: 'Generando el diseño',
+    },
+    renderingView: (current: number, total: number) => `Generando el diseño (vista ${current} de ${total})`,
+    retrying: (retry: number) => `La IA no respondió; reintentando (intento ${retry + 1})…`,
+    cancel: 'Cancelar',
+  },
+
+  errors: {
+    projectOpen: 'No se pudo abrir el proyecto.',
+    fileRead: 'Error al leer uno o más archivos.',
+    noImages: 'Por favor, sube al menos una imagen de tu espacio.',
+    validation: 'Validación fallida: Las imágenes no parecen ser del mismo espacio o no coinciden con el tipo de habitación seleccionado. Por favor, verifica tus fotos.',
+    analysis: 'Ocurrió un error al analizar la imagen. Inténtalo de nuevo.',
+    noBaseImage: 'No hay imagen base para refinar.',
+    partialViews: 'No se pudo aplicar el diseño a todas las vistas. Las que sí se generaron están en el historial.',
+    refine: 'No se pudo refinar la imagen. Inténtalo con otra instrucción.',
+    submit: 'No se pudo enviar la solicitud.',
+  },
+
+  /** Failed AI requests, by kind of failure (see `services/ai/requests.ts`). */
+  aiErrors: {
+    network: 'No pudimos conectar con la IA. Revisa tu conexión a internet y vuelve a intentarlo.',
+    timeout: 'La IA está tardando demasiado en responder. Vuelve a intentarlo en unos minutos.',
+    quota: 'La IA ha alcanzado su límite de uso por ahora. Espera unos minutos y vuelve a intentarlo.',
+    safetyPhotos: 'Los filtros de seguridad de la IA han bloqueado las fotos. Retira las que muestren personas o documentos y vuelve a intentarlo.',
+    safetyPrompt: 'Los filtros de seguridad de la IA han bloqueado la instrucción. Reformúlala describiendo solo muebles, materiales y colores.',
+    invalidAnalysis: 'La IA devolvió un análisis incompleto. Vuelve a intentarlo; si se repite, prueba con otras fotos.',
+    invalidRender: 'La IA no devolvió ninguna imagen. Vuelve a intentarlo o describe el cambio de otra forma.',
+  },
+
+  auth: {
+    title: 'Tu Estudio de Diseño',
+    subtitle: 'Accede a tu cuenta para crear y guardar tus diseños en madera.',
+    signIn: 'Iniciar Sesión',
+    signUp: 'Crear Cuenta',
+    magic: 'Enlace Mágico',
+    sendMagic: 'Enviarme un Enlace',
+    checkEmail: '¡Revisa tu correo!',
+    magicSentBefore: 'Te hemos enviado un enlace a',
+    magicSentAfter: 'para acceder sin contraseña. Caduca en 15 minutos.',
+    name: 'Nombre',
+    email: 'Email',
+    password: 'Contraseña',
+    magicHint: 'Te enviaremos un enlace de un solo uso para entrar sin contraseña.',
+    error: 'No se pudo completar el acceso. Inténtalo de nuevo.',
+  },
+
+  projects: {
+    title: 'Mis Proyectos',
+    new: 'Nuevo Proyecto',
+    loading: 'Cargando tus proyectos...',
+    empty: 'Aún no tienes proyectos guardados. Cada diseño que comiences se guardará aquí automáticamente.',
+    photoAlt: (name: string) => `Foto del proyecto ${name}`,
+    renameLabel: 'Nuevo nombre del proyecto',
+    save: 'Guardar',
+    request: (status: string) => `Solicitud: ${status}`,
+    requestPending: 'Solicitud pendiente de envío',
+    noSpace: 'Sin espacio',
+    photos: (count: number) => `${count} ${count === 1 ? 'foto' : 'fotos'}`,
+    updated: (date: string) => `Actualizado el ${date}`,
+    open: 'Continuar',
+    rename: 'Renombrar',
+    duplicate: 'Duplicar',
+    copyName: (name: string) => `${name} (copia)`,
+    delete: 'Eliminar',
+    confirmDelete: (name: string) => `¿Eliminar "${name}"? Esta acción no se puede deshacer.`,
+    loadError: 'No se pudieron cargar tus proyectos.',
+    deleteError: 'No se pudo eliminar el proyecto.',
+    renameError: 'No se pudo renombrar el proyecto.',
+    duplicateError: 'No se pudo duplicar el proyecto.',
+  },
+
+  rates: {
+    title: 'Tarifas del Taller',
+    prices: (currency: string) => `Precios en ${currency}, sin IVA.`,
+    updated: (date: string) => ` Última actualización: ${date}.`,
+    general: 'General',
+    /** Keyed by the `RateTables` field. */
+    fields: {
+      vatRate: 'IVA (fracción)',
+      wasteFactor: 'Desperdicio de tablero (fracción)',
+      backPanelPricePerM2: 'Trasera, precio por m²',
+      labourRatePerHour: 'Taller, precio por hora',
+      baseHoursPerModule: 'Horas base por módulo',
+      hoursPerM2Board: 'Horas por m² de tablero',
+      hoursPerFront: 'Horas por puerta o cajón',
+      installationRatePerHour: 'Instalación, precio por hora',
+      installationHoursPerModule: 'Horas de instalación por módulo',
+      installationMinimum: 'Instalación mínima',
+      highCeilingSurcharge: 'Recargo por techo alto (fracción)',
+      rangeSpread: 'Margen del rango mostrado (fracción)',
+    },
+    tables: {
+      woods: 'Maderas',
+      finishes: 'Acabados',
+      hardware: 'Herrajes',
+    },
+    /** Keyed by the field of the table rows. */
+    columns: {
+      pricePerM2: 'Precio por m²',
+      labourFactor: 'Factor de mano de obra',
+      hoursPerM2: 'Horas por m²',
+      pricePerModule: 'Por módulo',
+      pricePerFront: 'Por frente',
+    },
+    name: 'Nombre',
+    loadError: 'No se pudieron cargar las tarifas.',
+    saved: 'Tarifas guardadas. Las nuevas cotizaciones ya usan estos valores.',
+    saveError: 'No se pudieron guardar las tarifas.',
+    saving: 'Guardando…',
+    save: 'Guardar Tarifas',
+  },
+
+  cutList: {
+    /** Start of the downloaded file names. */
+    fileStem: 'despiece',
+    code: 'Código',
+    part: 'Pieza',
+    size: 'Largo × ancho × grosor (mm)',
+    quantity: 'Cant.',
+    grain: 'Veta',
+    edges: 'Cantos',
+    grainAlong: 'A lo largo',
+    grainFree: 'Libre',
+    edgeCount: (long: number, short: number) => `${long} largos, ${short} cortos`,
+    totals: (pieces: number, area: string, boardFeet: string) => `${pieces} piezas · ${area} m² · ${boardFeet} pies tablares`,
+    sheets: (count: number, size: string, waste: string) => `${count} ${count === 1 ? 'hoja' : 'hojas'} de ${size} mm · desperdicio ${waste}`,
+    oversize: (codes: string) => `No caben en una hoja: ${codes}`,
+    banding: 'Canto',
+    bandingLength: (metres: string) => `${metres} m lineales`,
+    kerf: 'Corte de sierra (mm)',
+    downloadCsv: 'Descargar despiece (CSV)',
+    print: 'Imprimir diagramas',
+    printTitle: (name: string) => `Despiece ${name}`,
+    downloadDiagram: 'Descargar diagrama en SVG',
+    diagramAlt: (sheet: string, index: number) => `Diagrama de corte, ${sheet}, hoja ${index}`,
+    csv: {
+      code: 'Código',
+      module: 'Módulo',
+      part: 'Pieza',
+      length: 'Largo (mm)',
+      width: 'Ancho (mm)',
+      thickness: 'Grosor (mm)',
+      quantity: 'Cantidad',
+      material: 'Material',
+      grain: 'Veta',
+      bandingLong: 'Canto largo',
+      bandingShort: 'Canto corto',
+      yes: 'sí',
+      no: 'no',
+    },
+    /** Names of the panels each module is cut into. */
+    parts: {
+      side: 'Lateral',
+      topAndBase: 'Techo y base',
+      shelf: 'Estante',
+      back: 'Trasera',
+      door: 'Puerta',
+      drawerFront: 'Frente de cajón',
+    },
+    diagram: {
+      caption: (sheet: string, size: string, index: number, count: number, waste: string) => `${sheet} · ${size} mm · hoja ${index} de ${count} · desperdicio ${waste}`,
+      legend: 'Veta → a lo largo de la hoja · medidas en mm (largo × ancho)',
+    },
+  },
+};
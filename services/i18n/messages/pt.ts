@@ -0,0 +1,769 @@
+import { MESSAGE_MAX_LENGTH, MESSAGE_MIN_LENGTH, NAME_MAX_LENGTH } from '../../contact/message';
+import type { Messages } from '../catalogs';
+
+// --- Portuguese Catalog ---
+
+export const pt: Messages = {
+  common: {
+    back: 'Voltar',
+    optional: '(opcional)',
+    loading: 'Um momento...',
+  },
+
+  header: {
+    home: 'Página inicial',
+    services: 'Serviços',
+    about: 'Sobre nós',
+    contact: 'Contacto',
+    projects: 'Os Meus Projetos',
+    requests: 'Pedidos',
+    studio: (name) => `Ir para o meu estúdio de design (${name})`,
+    signOut: 'Terminar Sessão',
+    signIn: 'Entrar',
+    language: 'Idioma',
+  },
+
+  footer: {
+    rights: 'Todos os direitos reservados.',
+  },
+
+  home: {
+    title: 'Transformar Espaços com o Calor da Madeira',
+    text: 'Design e fabrico de mobiliário arquitetónico por medida. Transforme a sua visão numa realidade tangível e duradoura.',
+    cta: 'Comece o seu Design',
+    inspiration: 'Inspiração e Tendências',
+    inspirationLoading: 'A carregar inspiração...',
+    inspirationError: 'Não foi possível carregar a inspiração neste momento.',
+    inspirationFilter: 'Filtrar por espaço',
+    allSpaces: 'Todos',
+  },
+
+  services: {
+    title: 'Os Nossos Serviços',
+    subtitle: 'Design e artesanato em madeira para cada canto da sua vida.',
+    back: '← Voltar a todos os serviços',
+    examples: 'Exemplos de Transformação',
+    ctaTitle: 'Inspirado para transformar o seu espaço?',
+    cta: 'Comece o seu Design Agora',
+    pages: {
+      salas: {
+        name: 'Salas de Estar',
+        summary: 'A sala é o centro da vida familiar. Desenhamos móveis de televisão, estantes por medida e móveis auxiliares que enriquecem o seu espaço de convívio.',
+        title: 'Salas de Estar',
+        slogan: 'O Coração da sua Casa, Redefinido em Madeira',
+        examples: [
+          { title: 'Móvel de Entretenimento Integrado', description: 'Um design limpo que combina arrumação e exposição, transformando a sua sala num cinema em casa elegante.' },
+          { title: 'Estante do Chão ao Teto', description: 'Uma biblioteca pessoal que se torna a protagonista do espaço, feita por medida em nogueira.' },
+          { title: 'Móvel de Entrada com Banco', description: 'Funcionalidade e elegância logo à entrada, com um banco e arrumação por medida em ácer.' },
+        ],
+      },
+      habitacion: {
+        name: 'Quartos',
+        summary: 'Criamos santuários de descanso com roupeiros por medida, cabeceiras e soluções de arrumação que combinam funcionalidade e serenidade.',
+        title: 'Quartos',
+        slogan: 'O seu Santuário Pessoal, Desenhado para o Descanso',
+        examples: [
+          { title: 'Roupeiro por Medida de Parede a Parede', description: 'Soluções de arrumação que se integram na perfeição, aproveitando ao máximo o espaço e a ordem.' },
+          { title: 'Cabeceira com Mesas de Cabeceira Suspensas', description: 'Um design minimalista e funcional que cria uma sensação de amplitude e modernidade no seu quarto.' },
+          { title: 'Banco de Arrumação aos Pés da Cama', description: 'Uma peça versátil que oferece um assento extra e um lugar discreto para guardar roupa de cama ou sapatos.' },
+        ],
+      },
+      cocinas: {
+        name: 'Cozinhas Funcionais',
+        summary: 'Transformamos a sua cozinha num espaço de inspiração culinária com armários, ilhas e balcões pensados para a funcionalidade e para refletir o seu estilo.',
+        title: 'Cozinhas Funcionais',
+        slogan: 'Onde o Sabor Encontra o Design',
+        examples: [
+          { title: 'Armários do Chão ao Teto', description: 'Maximize a arrumação com armários de carvalho que oferecem um visual contínuo e sofisticado.' },
+          { title: 'Ilha Central com Arrumação', description: 'O ponto de encontro perfeito para a família, combinando a preparação de refeições com um espaço social descontraído.' },
+          { title: 'Prateleiras Abertas em Madeira Natural', description: 'Um toque rústico e moderno para expor a sua loiça e dar carácter às paredes da cozinha.' },
+        ],
+      },
+      banos: {
+        name: 'Casas de Banho com Encanto Natural',
+        summary: 'Levamos o calor da madeira à sua casa de banho com móveis de lavatório por medida e apontamentos decorativos, usando madeiras tratadas para uma beleza duradoura.',
+        title: 'Casas de Banho com Encanto Natural',
+        slogan: 'O seu Santuário Pessoal, Revestido de Calor',
+        examples: [
+          { title: 'Móvel de Lavatório Suspenso em Teca', description: 'Uma peça central que junta a resistência da teca à humidade a um design minimalista e elegante.' },
+          { title: 'Coluna de Arrumação', description: 'Soluções inteligentes para espaços pequenos, com muita arrumação sem sacrificar o estilo.' },
+          { title: 'Parede de Destaque com Ripas de Cedro', description: 'Crie uma parede de destaque ao estilo spa que acrescenta textura, aroma e uma sensação de luxo natural.' },
+        ],
+      },
+      estudios: {
+        name: 'Escritórios em Casa',
+        summary: 'Criamos ambientes de trabalho que favorecem a concentração, com secretárias ergonómicas, estantes inteligentes e arrumação integrada.',
+        title: 'Escritórios em Casa',
+        slogan: 'Espaços que Inspiram Produtividade',
+        examples: [
+          { title: 'Secretária e Estante Integradas', description: 'Um espaço de trabalho unificado e por medida que aproveita ao máximo a superfície e a arrumação vertical.' },
+          { title: 'Parede de Arrumação por Medida', description: 'Organize os seus livros e documentos com um sistema flexível que se integra perfeitamente na parede.' },
+          { title: 'Armários Baixos de Arrumação', description: 'Uma solução elegante para esconder impressoras e material, mantendo a secretária limpa e arrumada.' },
+        ],
+      },
+      gatos: {
+        name: 'Enriquecimento Ambiental para Gatos',
+        summary: 'Desenhamos estruturas e mobiliário integrado que satisfazem os instintos naturais dos seus felinos, integrando-se perfeitamente na decoração da sua casa.',
+        title: 'Enriquecimento para Gatos',
+        slogan: 'Design que Ronrona de Felicidade',
+        examples: [
+          { title: 'Autoestrada de Parede para Gatos', description: 'Um circuito de prateleiras, pontes e postes arranhadores que satisfaz a necessidade de explorar nas alturas.' },
+          { title: 'Torre de Atividades Escultural', description: 'Uma peça de arte funcional que serve de miradouro e arranhador, integrando-se como mais um móvel.' },
+          { title: 'Móvel com Arranhador Integrado', description: 'Uma estação de descanso e brincadeira fundida num móvel auxiliar, mantendo a ordem e a estética.' },
+        ],
+      },
+    },
+  },
+
+  about: {
+    title: 'Sobre a Maderarte',
+    subtitle: 'Paixão pela madeira, compromisso com o design.',
+    philosophyTitle: 'A Nossa Filosofia',
+    philosophy: 'Na Maderarte, acreditamos que os móveis são mais do que objetos; são a alma de um espaço. Combinamos técnicas tradicionais de carpintaria com design contemporâneo para criar peças que contam uma história. Cada veio, cada junta e cada acabamento é testemunho do nosso amor pelo ofício e do nosso compromisso com a qualidade duradoura.',
+    missionTitle: 'A Nossa Missão',
+    mission: 'A nossa missão é transformar as suas ideias em realidade, criando espaços funcionais e inspiradores através do design de mobiliário em madeira. Procuramos a excelência em cada projeto, garantindo a satisfação dos nossos clientes e o respeito pelo ambiente com madeiras de origem sustentável.',
+    teamTitle: 'Conheça a Equipa',
+    founderRole: 'Fundadora & Designer Principal',
+    founderBio: 'Com uma visão que une arquitetura e natureza, a Elena lidera cada projeto com criatividade e uma atenção meticulosa ao detalhe.',
+    craftsmanRole: 'Mestre Artesão',
+    craftsmanBio: 'Com mais de 30 anos de experiência, o Javier transforma os desenhos em obras de arte, dominando a madeira com uma habilidade inigualável.',
+  },
+
+  notFound: {
+    title: 'Página não encontrada',
+    text: 'O endereço que procura não existe ou mudou de lugar.',
+    home: 'Voltar ao Início',
+    services: 'Ver Serviços',
+  },
+
+  contact: {
+    title: 'Entre em Contacto',
+    subtitle: 'Tem uma ideia ou uma pergunta? Estamos aqui para o ajudar a dar-lhe forma.',
+    infoTitle: 'Informação de Contacto',
+    address: 'Morada',
+    phone: 'Telefone',
+    email: 'Email',
+    hours: 'Horário',
+    hoursValue: 'Segunda a sexta, das 9:00 às 18:00',
+    formTitle: 'Envie-nos uma Mensagem',
+    name: 'Nome',
+    projectType: 'Tipo de projeto',
+    unspecified: 'Não especificado',
+    message: 'Mensagem',
+    website: 'Site',
+    send: 'Enviar Mensagem',
+    sending: 'A enviar...',
+    outbox: (count) => `${count === 1 ? 'Tem 1 mensagem pendente' : `Tem ${count} mensagens pendentes`} de envio. Sairá assim que voltar a ter ligação.`,
+    queuedTitle: 'Mensagem guardada',
+    queuedText: 'Neste momento não tem ligação. Enviaremos a sua mensagem automaticamente assim que voltar a estar online.',
+    sentTitle: 'Obrigado pela sua mensagem!',
+    sentText: 'Recebemos o seu pedido e entraremos em contacto consigo com a maior brevidade.',
+    another: 'Escrever outra mensagem',
+    sendError: 'Não foi possível enviar a mensagem. Tente novamente.',
+    rateWait: (seconds) => `Acabou de nos enviar uma mensagem. Aguarde ${seconds} segundos antes de enviar outra.`,
+    rateHourly: 'Enviou várias mensagens seguidas. Tente novamente dentro de uma hora.',
+    errors: {
+      nameRequired: 'Indique o seu nome.',
+      nameTooLong: `O nome não pode ter mais de ${NAME_MAX_LENGTH} caracteres.`,
+      emailRequired: 'Indique o seu email para lhe podermos responder.',
+      emailInvalid: 'O email não é válido.',
+      projectTypeInvalid: 'Escolha um tipo de projeto da lista.',
+      messageRequired: 'Escreva a sua mensagem.',
+      messageTooShort: `Conte-nos um pouco mais (mínimo de ${MESSAGE_MIN_LENGTH} caracteres).`,
+      messageTooLong: `A mensagem não pode ter mais de ${MESSAGE_MAX_LENGTH} caracteres.`,
+    },
+  },
+
+  spaces: {
+    'Sala': 'Sala',
+    'Habitación': 'Quarto',
+    'Estudio': 'Escritório',
+    'Cocina': 'Cozinha',
+    'Baño': 'Casa de banho',
+    'Espacio para Gatos': 'Espaço para Gatos',
+  },
+
+  stepper: {
+    label: 'Progresso do design',
+    select: 'Escolher Espaço',
+    cats: 'Detalhes Felinos',
+    upload: 'Carregar Fotos',
+    design: 'Design e Afinação',
+    quote: 'Orçamento',
+    confirm: 'Confirmação',
+    status: (step, status) => `, Passo ${step}, ${status}`,
+    completed: 'concluído',
+    current: 'atual',
+    next: 'seguinte',
+  },
+
+  selectSpace: {
+    title: 'Bem-vindo ao seu Estúdio de Design',
+    question: 'Que espaço gostaria de transformar hoje?',
+  },
+
+  cats: {
+    title: (step) => `Passo ${step}: Detalhes Felinos`,
+    intro: 'Fale-nos mais dos seus companheiros para criarmos o espaço perfeito para eles.',
+    count: 'Quantos gatos tem?',
+    fallbackName: (number) => `Gato ${number}`,
+    name: 'Nome',
+    weight: 'Peso em kg (opcional)',
+    size: 'Tamanho',
+    sizePlaceholder: 'Escolha um tamanho',
+    age: 'Idade',
+    agePlaceholder: 'Escolha uma idade',
+    mobility: 'Mobilidade',
+    traits: 'Personalidade',
+    rulesTitle: 'O que vamos ter em conta',
+    continue: 'Continuar para Carregar Fotos',
+    sizes: {
+      'pequeño': 'Pequeno (até 4 kg)',
+      'mediano': 'Médio (4-6 kg)',
+      'grande': 'Grande (mais de 6 kg)',
+    },
+    ages: {
+      'joven': 'Jovem (0-2 anos)',
+      'adulto': 'Adulto (2-10 anos)',
+      'viejito': 'Sénior (mais de 10 anos)',
+    },
+    mobilityIssues: {
+      'arthritis': 'Artrose ou rigidez',
+      'three-legged': 'Falta-lhe uma pata',
+      'low-vision': 'Visão reduzida',
+      'overweight': 'Excesso de peso',
+    },
+    traitNames: {
+      climber: 'Trepador',
+      jumper: 'Grande saltador',
+      hider: 'Gosta de se esconder',
+      shy: 'Tímido com os outros gatos',
+    },
+    rules: {
+      steps: (step, gap) => `Degraus de no máximo ${step} de altura e espaços de no máximo ${gap} entre superfícies.`,
+      platforms: (depth, loadKg) => `Plataformas com pelo menos ${depth} de profundidade, cada uma preparada para ${loadKg} kg.`,
+      ramp: (slopeDeg) => `Acesso a partir do chão por uma rampa com inclinação máxima de ${slopeDeg}°.`,
+      escapeRoutes: 'Cada plataforma precisa de duas saídas para que nenhum gato fique encurralado.',
+      hideouts: 'Pelo menos um refúgio fechado ao longo do percurso.',
+    },
+  },
+
+  upload: {
+    title: (step, space) => `Passo ${step}: Fotografe o seu espaço (${space.toLowerCase()})`,
+    intro: 'Para uma análise precisa, siga estas dicas:',
+    prepareTitle: 'Descarregue e prepare:',
+    prepare: 'Descarregue a nossa folha de referência e imprima-a em A4 a 100 % (sem ajustar à página). Os seus quatro marcadores permitem-nos medir a escala real de cada foto.',
+    clearTitle: 'Desimpeça o espaço:',
+    clear: 'Retire todos os objetos móveis (cadeiras, mesas pequenas, decoração) para ter uma vista desimpedida da divisão.',
+    placeTitle: 'Coloque a referência:',
+    place: 'Pouse a folha no chão, de preferência junto a uma parede principal ou num canto bem iluminado.',
+    anglesTitle: 'Fotografe de vários ângulos:',
+    angles: 'Tire várias fotos de ângulos diferentes para nos dar uma vista completa do espaço. É essencial que a folha de referência seja bem visível em',
+    anglesAll: 'TODAS',
+    anglesEnd: 'as fotos e que não fique demasiado inclinada.',
+    download: 'Descarregar Referência',
+    downloadName: 'referencia_maderarte.svg',
+    sheet: {
+      title: 'Maderarte · Referência de escala',
+      print: 'Imprima a 100 % (sem ajustar à página) e coloque-a plana no chão.',
+      ruler: 'Verifique a impressão: esta régua deve medir 10 cm',
+    },
+    selected: (count) => `Ficheiros selecionados: ${count}`,
+    select: 'Selecionar Imagens',
+    preview: (number) => `Pré-visualização ${number}`,
+    flagged: (count) => `${count === 1 ? 'Uma foto não mostra' : `${count} fotos não mostram`} a folha de referência com clareza. Pode continuar, mas as medidas serão menos precisas; recomendamos repeti-las.`,
+    analyze: 'Analisar Espaço',
+    preparing: 'A preparar as fotos…',
+    limit: (max) => `Até ${max} fotos. Reduzimo-las e removemos a localização e os restantes dados EXIF antes de as enviar.`,
+    rejected: {
+      notImage: (names) => `Foram descartados porque não são imagens: ${names}.`,
+      unsupported: (names) => `Não conseguimos ler o formato de ${names}. Exporte-as como JPEG ou PNG e volte a enviá-las.`,
+      tooMany: (max, count) => `São aceites até ${max} fotos; ${count === 1 ? 'foi descartada 1' : `foram descartadas ${count}`}.`,
+    },
+    quality: {
+      blurry: 'Tremida',
+      dark: 'Escura',
+      overexposed: 'Sobreexposta',
+    },
+    qualityHints: {
+      blurry: 'Apoie o telemóvel ou segure-o com as duas mãos e repita a foto',
+      dark: 'Acenda as luzes ou abra as cortinas',
+      overexposed: 'Evite fotografar contra uma janela ou um foco',
+    },
+    qualityWarning: (count) => `${count === 1 ? 'Uma foto está tremida' : `${count} fotos estão tremidas`} ou mal iluminadas. Pode continuar, mas a análise será menos fiável; recomendamos repeti-las.`,
+    confirmQuality: (count) => `${count === 1 ? 'Uma foto está tremida' : `${count} fotos estão tremidas`} ou mal iluminadas e a análise pode ser menos fiável. Analisar o espaço mesmo assim?`,
+  },
+
+  scale: {
+    searching: 'À procura da referência…',
+    markers: (count) => `${count} marcadores detetados`,
+    ok: (pixelsPerMetre) => `Escala: ${pixelsPerMetre} px/m`,
+    partialHint: 'Só se viu parte da folha; a escala é aproximada',
+    partial: (pixelsPerMetre) => `Referência parcial: ${pixelsPerMetre} px/m`,
+    obliqueHint: 'Fotografe a folha de um ângulo mais frontal',
+    oblique: 'Referência demasiado inclinada',
+    missingHint: 'Certifique-se de que a folha impressa se vê por inteiro na foto',
+    missing: 'Referência não encontrada',
+  },
+
+  studio: {
+    title: (step) => `Passo ${step}: Visualize e Afine o seu Design`,
+    imageTitle: 'O seu Espaço Transformado',
+    imageText: 'Esta é uma interpretação da IA com base nos seus pedidos. O que gostaria de mudar?',
+    viewPicker: 'Vista a afinar',
+    view: (number) => `Vista ${number}`,
+    generated: (prompt) => `Design gerado: ${prompt}`,
+    yourSpace: 'O seu espaço',
+    allViews: 'Este design em todas as vistas',
+    viewWithDesign: (number) => `Vista ${number} com o design aplicado`,
+    refineBase: 'Ponto de partida da afinação',
+    fromCurrent: 'Continuar a partir da versão apresentada',
+    fromOriginal: 'Começar a partir da foto original',
+    applyAll: (count) => `Aplicar a todas as vistas (${count}) com os mesmos móveis`,
+    refinePlaceholder: "Ex.: 'Acrescente uma estante de nogueira na parede da direita'",
+    refineLabel: 'Instrução para afinar o design',
+    refine: 'Afinar',
+    analysisTitle: 'Análise e Sugestões da IA',
+    dimensions: 'Dimensões Estimadas',
+    sketch: 'Esboço da IA',
+    sketchHint: 'Ajuste paredes, aberturas e móveis no editor de planta.',
+    currentStyle: 'Estilo Atual',
+    suggestions: 'Sugestões de Design',
+    quote: 'Adoro! Pedir Orçamento',
+    plan: 'Planta Editável',
+    catHighway: 'Autoestrada Felina',
+  },
+
+  dimensions: {
+    length: 'Comprimento',
+    width: 'Largura',
+    height: 'Altura',
+    units: 'Sistema de unidades',
+    metric: 'Métrico',
+    imperial: 'Imperial',
+    corrected: 'Corrigido',
+    confidenceTitle: (percent) => `Confiança da IA: ${percent}%`,
+    confidence: (level) => `Confiança ${level}`,
+    high: 'Alta',
+    medium: 'Média',
+    low: 'Baixa',
+    hint: 'Alguma medida não está correta? Corrija-a e usá-la-emos nos próximos renders e no seu orçamento.',
+  },
+
+  versions: {
+    label: 'Histórico de versões',
+    original: 'Original',
+    yourPhoto: 'A sua foto',
+    fromVersion: (number) => `a partir da v${number}`,
+    fromOriginal: 'a partir do original',
+    saved: 'Render guardado',
+  },
+
+  materials: {
+    woods: {
+      'pine': 'Pinho',
+      'oak': 'Carvalho',
+      'maple': 'Ácer',
+      'walnut': 'Nogueira',
+      'teak': 'Teca',
+      'cedar': 'Cedro',
+    },
+    finishes: {
+      'oil': 'Óleo natural',
+      'varnish': 'Verniz mate',
+      'lacquer': 'Lacado a cor',
+      'marine-varnish': 'Verniz marítimo',
+    },
+    modules: {
+      'shelving': 'Estante',
+      'base-cabinet': 'Armário baixo',
+      'wall-cabinet': 'Armário de parede',
+      'floating-vanity': 'Móvel de lavatório suspenso',
+      'wardrobe': 'Roupeiro',
+      'desk': 'Secretária',
+      'bench': 'Banco',
+      'wall-shelf': 'Prateleira',
+      'cat-shelf': 'Prateleira para gatos',
+    },
+    sheets: {
+      'birch-plywood-18': 'Contraplacado de bétula 18 mm',
+      'oak-veneer-mdf-19': 'MDF folheado a carvalho 19 mm',
+      'walnut-veneer-mdf-19': 'MDF folheado a nogueira 19 mm',
+      'mr-mdf-19': 'MDF hidrófugo 19 mm',
+      'marine-plywood-18': 'Contraplacado marítimo 18 mm',
+      'hdf-back-3': 'Placa de HDF para fundos 3 mm',
+    },
+  },
+
+  compare: {
+    modeLabel: 'Modo de comparação',
+    modes: {
+      slider: 'Deslizador',
+      side: 'Lado a lado',
+      flicker: 'Alternar',
+    },
+    before: 'Antes',
+    after: 'Depois',
+    originalAlt: 'Foto original',
+    position: 'Posição da comparação',
+    hold: 'Mantenha premido para ver a foto original',
+    autoFlicker: 'Alternar automaticamente',
+    exporting: 'A gerar…',
+    download: 'Descarregar Antes/Depois',
+    share: 'Partilhar',
+    shareTitle: 'O meu design Maderarte',
+    shareText: 'Veja como ficaria o meu espaço com móveis Maderarte.',
+    credit: 'Desenhado com Maderarte',
+    exportError: 'Não foi possível gerar a imagem comparativa.',
+  },
+
+  suggestions: {
+    onPlan: 'Na planta',
+    showOnPlan: 'Ver na planta',
+    longestWall: 'Parede mais comprida',
+    wall: (number) => `Parede ${number}`,
+    band: (low, high) => `Indicativo: ${low} – ${high}, IVA e instalação incluídos`,
+    render: 'Visualizar',
+    place: 'Colocar na planta',
+    item: (module, wood, size) => `${module}${wood ? ` de ${wood.toLowerCase()}` : ''}, ${size}`,
+    renderPrompt: (description, finish, items) =>
+      `${description}${finish ? ` Acabamento: ${finish.toLowerCase()}.` : ''}\nInclui apenas estes móveis (largura × profundidade × altura):\n${items.join('\n')}`,
+    renderItem: (item, wall, finish) =>
+      `- ${item}${wall === null ? '' : `, na parede ${wall}`}${finish ? `, acabamento ${finish.toLowerCase()}` : ''}.`,
+  },
+
+  quote: {
+    title: (step) => `${step}. O Seu Orçamento Estimado`,
+    intro: 'Escolha a proposta, a madeira, o acabamento e as ferragens. O preço é calculado com as tarifas atuais da nossa oficina.',
+    ratesError: 'Não foi possível carregar as tarifas. Tente novamente mais tarde.',
+    loadingRates: 'A carregar tarifas...',
+    noRates: 'De momento não há tarifas para os materiais deste espaço. Contacte-nos para um orçamento personalizado.',
+    proposal: 'Proposta',
+    wood: 'Madeira',
+    finish: 'Acabamento',
+    hardware: 'Ferragens',
+    noItems: 'Desativou todos os móveis desta proposta. Volte ao estúdio para ativar algum.',
+    assumed: 'Móveis da proposta com as medidas sugeridas. Coloque-os na planta editável para afinar o preço.',
+    fromPlan: 'Móveis retirados da sua planta editável.',
+    rangeNote: 'Intervalo indicativo, IVA incluído. A oficina confirmará o preço final após a visita técnica.',
+    categories: {
+      materials: 'Materiais',
+      finish: 'Acabamento',
+      hardware: 'Ferragens',
+      labour: 'Mão de obra',
+      installation: 'Instalação',
+    },
+    lines: {
+      module: (name, size, wood) => `${name} ${size} · ${wood}`,
+      finish: (name, area) => `Acabamento ${name.toLowerCase()} (${area} m²)`,
+      hardware: (name, modules, fronts) => `Ferragens ${name.toLowerCase()} (${modules} ${modules === 1 ? 'módulo' : 'módulos'}, ${fronts} ${fronts === 1 ? 'frente' : 'frentes'})`,
+      labour: (hours) => `Mão de obra na oficina (${hours} h)`,
+      installation: 'Instalação',
+      installationHighCeiling: 'Instalação (teto alto)',
+    },
+    subtotal: 'Subtotal',
+    vat: (percent) => `IVA (${percent}%)`,
+    total: 'Total estimado',
+    contactTitle: 'Como o contactamos?',
+    name: 'Nome',
+    email: 'Email',
+    phone: 'Telefone (opcional)',
+    notes: 'Comentários para a oficina (opcional)',
+    submit: 'Enviar Pedido',
+    contactErrors: {
+      missing: 'Faltam os dados de contacto.',
+      nameRequired: 'Indique o seu nome.',
+      emailInvalid: 'O email não é válido.',
+      phoneInvalid: 'O telefone não é válido.',
+      notesInvalid: 'Os comentários não são válidos.',
+    },
+  },
+
+  plan: {
+    openings: {
+      door: 'Porta',
+      window: 'Janela',
+      opening: 'Vão',
+    },
+    addOnWall: (wall) => `Adicionar na parede ${wall}:`,
+    module: 'Módulo de mobiliário',
+    addFurniture: 'Adicionar móvel',
+    exportSvg: 'Exportar SVG',
+    exportJson: 'Exportar JSON',
+    reset: 'Repor',
+    canvas: 'Editor da planta. Arraste paredes, aberturas e móveis.',
+    hint: 'Arraste uma parede para a mover ou selecione-a para definir o seu comprimento. As aberturas deslizam ao longo da sua parede e os móveis encostam à parede mais próxima.',
+    wall: (number) => `Parede ${number}`,
+    onWall: (name, wall) => `${name} · parede ${wall}`,
+    length: 'Comprimento',
+    kind: 'Tipo',
+    width: 'Largura',
+    depth: 'Profundidade',
+    height: 'Altura',
+    fromCorner: 'A partir do canto',
+    shelves: 'Prateleiras',
+    doors: 'Portas',
+    drawers: 'Gavetas',
+    wood: 'Material',
+    designWood: 'Conforme o design',
+    remove: 'Eliminar',
+    downloadElevation: 'Descarregar alçado em SVG',
+    frontAlt: (name) => `Alçado frontal de ${name}`,
+    sideAlt: (name) => `Alçado lateral de ${name}`,
+    frontTitle: (name) => `${name} · alçado frontal`,
+    sideTitle: 'Alçado lateral',
+    problems: {
+      width: (min, max) => `A largura deve estar entre ${min} e ${max}.`,
+      height: (min, max) => `A altura deve estar entre ${min} e ${max}.`,
+      depth: (min, max) => `A profundidade deve estar entre ${min} e ${max}.`,
+      shelves: (min, max) => `Este módulo admite entre ${min} e ${max} prateleiras.`,
+      shelfGap: (shelves, gap, minimum) => `Com ${shelves} prateleiras os vãos ficariam com ${gap}; o mínimo útil é ${minimum}.`,
+      doors: (min, max) => `Este módulo admite entre ${min} e ${max} portas.`,
+      drawers: (min, max) => `Este módulo admite entre ${min} e ${max} gavetas.`,
+      doorWidth: (width, min, max) => `Cada frente mediria ${width}; as portas devem medir entre ${min} e ${max}.`,
+      drawerWidth: (width, min, max) => `Cada frente mediria ${width}; as gavetas devem medir entre ${min} e ${max}.`,
+      span: (span, wood, maxSpan) =>
+        `As prateleiras teriam um vão livre de ${span}; ${wood ? `em ${wood.toLowerCase()}` : 'sem material definido'} o máximo sem apoio é ${maxSpan}.`,
+      addDoors: 'Acrescente portas (cada par leva uma divisória) ou reduza a largura.',
+      split: 'Reduza a largura ou divida o móvel em vários módulos.',
+    },
+  },
+
+  catHighway: {
+    rulesTitle: 'Regras para os seus gatos',
+    catLimits: (stepCm, gapCm, needsRamp) =>
+      `: degraus até ${stepCm} cm, espaços até ${gapCm} cm${needsRamp ? ', precisa de rampa' : ''}.`,
+    wall: 'Parede',
+    wallOption: (number, lengthCm) => `Parede ${number} (${lengthCm} cm)`,
+    peak: 'Altura máxima (cm)',
+    platformWidth: 'Largura da plataforma (cm)',
+    download: 'Descarregar alçado em SVG',
+    drawingAlt: (wall) => `Autoestrada felina na parede ${wall}`,
+    ok: 'O percurso cumpre todas as regras dos seus gatos.',
+    caption: (wallCm) => `Parede de ${wallCm} cm · alturas em cm`,
+    violations: {
+      noPlatforms: 'O percurso não tem nenhuma plataforma.',
+      offWall: (id) => `${id} sai fora da parede.`,
+      headroom: (id, headroom) => `${id} fica a menos de ${headroom} do teto; os gatos não conseguiriam pôr-se de pé.`,
+      steepRamp: (id, slopeDeg, cats, maxDeg) =>
+        `A rampa ${id} tem ${slopeDeg}° de inclinação; ${cats} precisa de ${maxDeg}° no máximo.`,
+      shallow: (id, depth, minimum) => `${id} tem ${depth} de profundidade; são precisos pelo menos ${minimum}.`,
+      load: (id, ratedKg, cat, weightKg, neededKg) =>
+        `${id} suporta ${ratedKg} kg; para que ${cat} (${weightKg} kg) aterre em segurança precisa de ${neededKg} kg. Use esquadros reforçados.`,
+      overlap: (first, second) => `${first} e ${second} sobrepõem-se.`,
+      step: (first, second, step, cats, maxStep) =>
+        `Entre ${first} e ${second} há um degrau de ${step}; ${cats} só consegue subir ${maxStep}.`,
+      gap: (first, second, gap, cats, maxGap) =>
+        `Entre ${first} e ${second} há um espaço de ${gap}; ${cats} só consegue transpor ${maxGap}.`,
+      needsRamp: (cats) => `${cats} precisa de uma rampa para subir do chão.`,
+      tooHigh: (id, height, cats) => `${id} está a ${height} do chão; ${cats} não consegue lá chegar.`,
+      deadEnd: (id) => `${id} é um beco sem saída: com vários gatos, cada plataforma precisa de uma segunda saída.`,
+      lowPeak: (reached, peak) => `O percurso fica-se pelos ${reached}; esta parede não permite chegar aos ${peak} respeitando os degraus.`,
+      noHideout: 'Falta um refúgio fechado para os gatos que precisam de se esconder.',
+    },
+  },
+
+  request: {
+    sendFailed: (error) => `Não conseguimos enviar o seu pedido: ${error}`,
+    willRetry: 'Voltaremos a tentar automaticamente; o seu projeto fica guardado entretanto.',
+    checkDetails: 'Reveja os dados do orçamento e tente novamente.',
+    retry: 'Tentar agora',
+    sending: 'A enviar o seu pedido para a oficina…',
+    statusLabel: 'Estado do seu pedido',
+    statuses: {
+      'received': 'Recebido',
+      'in-review': 'Em análise',
+      'quoted': 'Orçamentado',
+      'accepted': 'Aceite',
+      'in-production': 'Em produção',
+      'installed': 'Instalado',
+    },
+    finalQuote: 'O seu orçamento final',
+    validUntil: (date) => `Válido até ${date}.`,
+    download: (name) => `Descarregar ${name}`,
+  },
+
+  confirmation: {
+    sendingTitle: 'A Enviar o seu Design',
+    sentTitle: 'Design Enviado!',
+    thanks: 'Obrigado pela sua confiança. A sua proposta foi enviada à nossa equipa de produção.',
+    followUp: (email) => `Vamos rever o seu orçamento estimado e contactá-lo em ${email} para confirmar o preço final e os próximos passos.`,
+    yourEmail: 'o seu email',
+    newDesign: 'Criar um Novo Design',
+    cutList: 'Plano de corte para a oficina',
+    downloadError: 'Não foi possível descarregar o orçamento. Tente novamente.',
+  },
+
+  loading: [
+    'A esculpir as suas ideias em madeira...',
+    'A dar forma ao seu espaço...',
+    'Um momento enquanto a criatividade flui...',
+    'A analisar os veios do design...',
+    'A montar os detalhes...',
+  ],
+
+  progress: {
+    stages: {
+      validating: 'A validar as fotos',
+      analyzing: 'A analisar o espaço',
+      rendering: 'A gerar o design',
+    },
+    renderingView: (current, total) => `A gerar o design (vista ${current} de ${total})`,
+    retrying: (retry) => `A IA não respondeu; a tentar de novo (tentativa ${retry + 1})…`,
+    cancel: 'Cancelar',
+  },
+
+  errors: {
+    projectOpen: 'Não foi possível abrir o projeto.',
+    fileRead: 'Erro ao ler um ou mais ficheiros.',
+    noImages: 'Carregue pelo menos uma foto do seu espaço.',
+    validation: 'Falha na validação: as fotos não parecem ser do mesmo espaço ou não correspondem ao tipo de divisão escolhido. Verifique as suas fotos.',
+    analysis: 'Ocorreu um erro ao analisar as fotos. Tente novamente.',
+    noBaseImage: 'Não há imagem base para afinar.',
+    partialViews: 'Não foi possível aplicar o design a todas as vistas. As que foram geradas estão no histórico.',
+    refine: 'Não foi possível afinar a imagem. Tente outra instrução.',
+    submit: 'Não foi possível enviar o pedido.',
+  },
+
+  aiErrors: {
+    network: 'Não conseguimos ligar à IA. Verifique a sua ligação à internet e tente novamente.',
+    timeout: 'A IA está a demorar demasiado a responder. Tente novamente dentro de alguns minutos.',
+    quota: 'A IA atingiu o seu limite de utilização por agora. Aguarde alguns minutos e tente novamente.',
+    safetyPhotos: 'Os filtros de segurança da IA bloquearam as fotos. Retire as que mostrem pessoas ou documentos e tente novamente.',
+    safetyPrompt: 'Os filtros de segurança da IA bloquearam a instrução. Reformule-a descrevendo apenas móveis, materiais e cores.',
+    invalidAnalysis: 'A IA devolveu uma análise incompleta. Tente novamente; se voltar a acontecer, experimente outras fotos.',
+    invalidRender: 'A IA não devolveu nenhuma imagem. Tente novamente ou descreva a alteração de outra forma.',
+  },
+
+  auth: {
+    title: 'O seu Estúdio de Design',
+    subtitle: 'Entre na sua conta para criar e guardar os seus designs em madeira.',
+    signIn: 'Iniciar Sessão',
+    signUp: 'Criar Conta',
+    magic: 'Link Mágico',
+    sendMagic: 'Enviar-me um Link',
+    checkEmail: 'Verifique o seu email!',
+    magicSentBefore: 'Enviámos um link para',
+    magicSentAfter: 'para entrar sem palavra-passe. Expira dentro de 15 minutos.',
+    name: 'Nome',
+    email: 'Email',
+    password: 'Palavra-passe',
+    magicHint: 'Enviar-lhe-emos um link de utilização única para entrar sem palavra-passe.',
+    error: 'Não foi possível concluir o acesso. Tente novamente.',
+  },
+
+  projects: {
+    title: 'Os Meus Projetos',
+    new: 'Novo Projeto',
+    loading: 'A carregar os seus projetos...',
+    empty: 'Ainda não tem projetos guardados. Cada design que começar será guardado aqui automaticamente.',
+    photoAlt: (name) => `Foto do projeto ${name}`,
+    renameLabel: 'Novo nome do projeto',
+    save: 'Guardar',
+    request: (status) => `Pedido: ${status}`,
+    requestPending: 'Pedido por enviar',
+    noSpace: 'Sem espaço',
+    photos: (count) => `${count} ${count === 1 ? 'foto' : 'fotos'}`,
+    updated: (date) => `Atualizado a ${date}`,
+    open: 'Continuar',
+    rename: 'Mudar o nome',
+    duplicate: 'Duplicar',
+    copyName: (name) => `${name} (cópia)`,
+    delete: 'Eliminar',
+    confirmDelete: (name) => `Eliminar "${name}"? Esta ação não pode ser anulada.`,
+    loadError: 'Não foi possível carregar os seus projetos.',
+    deleteError: 'Não foi possível eliminar o projeto.',
+    renameError: 'Não foi possível mudar o nome do projeto.',
+    duplicateError: 'Não foi possível duplicar o projeto.',
+  },
+
+  rates: {
+    title: 'Tarifas da Oficina',
+    prices: (currency) => `Preços em ${currency}, sem IVA.`,
+    updated: (date) => ` Última atualização: ${date}.`,
+    general: 'Geral',
+    fields: {
+      vatRate: 'IVA (fração)',
+      wasteFactor: 'Desperdício de placa (fração)',
+      backPanelPricePerM2: 'Fundo, preço por m²',
+      labourRatePerHour: 'Oficina, preço por hora',
+      baseHoursPerModule: 'Horas base por módulo',
+      hoursPerM2Board: 'Horas por m² de placa',
+      hoursPerFront: 'Horas por porta ou gaveta',
+      installationRatePerHour: 'Instalação, preço por hora',
+      installationHoursPerModule: 'Horas de instalação por módulo',
+      installationMinimum: 'Instalação mínima',
+      highCeilingSurcharge: 'Acréscimo por teto alto (fração)',
+      rangeSpread: 'Margem do intervalo apresentado (fração)',
+    },
+    tables: {
+      woods: 'Madeiras',
+      finishes: 'Acabamentos',
+      hardware: 'Ferragens',
+    },
+    columns: {
+      pricePerM2: 'Preço por m²',
+      labourFactor: 'Fator de mão de obra',
+      hoursPerM2: 'Horas por m²',
+      pricePerModule: 'Por módulo',
+      pricePerFront: 'Por frente',
+    },
+    name: 'Nome',
+    loadError: 'Não foi possível carregar as tarifas.',
+    saved: 'Tarifas guardadas. Os novos orçamentos já usam estes valores.',
+    saveError: 'Não foi possível guardar as tarifas.',
+    saving: 'A guardar…',
+    save: 'Guardar Tarifas',
+  },
+
+  cutList: {
+    fileStem: 'plano-de-corte',
+    code: 'Código',
+    part: 'Peça',
+    size: 'Comprimento × largura × espessura (mm)',
+    quantity: 'Qtd.',
+    grain: 'Veio',
+    edges: 'Orlas',
+    grainAlong: 'Ao comprido',
+    grainFree: 'Livre',
+    edgeCount: (long, short) => `${long} compridas, ${short} curtas`,
+    totals: (pieces, area, boardFeet) => `${pieces} ${pieces === 1 ? 'peça' : 'peças'} · ${area} m² · ${boardFeet} pés-tábua`,
+    sheets: (count, size, waste) => `${count} ${count === 1 ? 'placa' : 'placas'} de ${size} mm · desperdício ${waste}`,
+    oversize: (codes) => `Não cabem numa placa: ${codes}`,
+    banding: 'Orla',
+    bandingLength: (metres) => `${metres} m lineares`,
+    kerf: 'Espessura do corte (mm)',
+    downloadCsv: 'Descarregar plano de corte (CSV)',
+    print: 'Imprimir diagramas',
+    printTitle: (name) => `Plano de corte ${name}`,
+    downloadDiagram: 'Descarregar diagrama em SVG',
+    diagramAlt: (sheet, index) => `Diagrama de corte, ${sheet}, placa ${index}`,
+    csv: {
+      code: 'Código',
+      module: 'Módulo',
+      part: 'Peça',
+      length: 'Comprimento (mm)',
+      width: 'Largura (mm)',
+      thickness: 'Espessura (mm)',
+      quantity: 'Quantidade',
+      material: 'Material',
+      grain: 'Veio',
+      bandingLong: 'Orla comprida',
+      bandingShort: 'Orla curta',
+      yes: 'sim',
+      no: 'não',
+    },
+    parts: {
+      side: 'Lateral',
+      topAndBase: 'Tampo e base',
+      shelf: 'Prateleira',
+      back: 'Fundo',
+      door: 'Porta',
+      drawerFront: 'Frente de gaveta',
+    },
+    diagram: {
+      caption: (sheet, size, index, count, waste) => `${sheet} · ${size} mm · placa ${index} de ${count} · desperdício ${waste}`,
+      legend: 'Veio → ao longo da placa · medidas em mm (comprimento × largura)',
+    },
+  },
+};
@@ -0,0 +1,143 @@
+import type { InspirationTip, Locale } from '../../types';
+import type { DesignAIProvider } from '../ai/types';
+import { messagesFor } from '../i18n/catalogs';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+import { SPACE_TYPES, spaceTypeById } from '../spaces/registry';
+
+// --- Inspiration Feed ---
+// The homepage paints the cached feed straight away and refreshes it in the background once it
+// is older than `INSPIRATION_TTL_MS`. The model makes up image URLs, so every image is loaded
+// before it is shown and a broken one is swapped for a photo of our own projects, or for the
+// drawing of its space bundled with the site when those photos do not load either.
+export const INSPIRATION_TTL_MS = 12 * 60 * 60_000;
+
+const IMAGE_TIMEOUT_MS = 8_000;
+
+const storageKey = (locale: Locale) => `maderarte.inspiration.${locale}`;
+
+type CachedFeed = {
+  fetchedAt: number;
+  tips: InspirationTip[];
+};
+
+export type InspirationFeed = {
+  tips: InspirationTip[];
+  /** False once the feed is older than `INSPIRATION_TTL_MS` and should be refreshed. */
+  isFresh: boolean;
+};
+
+export const cachedInspiration = (locale: Locale): InspirationFeed | null => {
+  try {
+    const cached: CachedFeed | null = JSON.parse(localStorage.getItem(storageKey(locale)) || 'null');
+    if (!cached || !Array.isArray(cached.tips) || cached.tips.length === 0) return null;
+    return { tips: cached.tips, isFresh: Date.now() - cached.fetchedAt < INSPIRATION_TTL_MS };
+  } catch {
+    return null;
+  }
+};
+
+const saveInspiration = (locale: Locale, tips: InspirationTip[]) => {
+  const cached: CachedFeed = { fetchedAt: Date.now(), tips };
+  localStorage.setItem(storageKey(locale), JSON.stringify(cached));
+};
+
+// --- Curated Photos ---
+/**
+ * The examples of the service pages: photos of our own projects, with their texts. They are
+ * followed by each space's bundled drawing, with the texts of its first example, which always loads.
+ */
+const curatedTips = (locale: Locale): InspirationTip[] => {
+  const pages = messagesFor(locale).services.pages;
+  const spaces = SPACE_TYPES.map(space => ({
+    space,
+    texts: (pages[space.slug] ?? messagesFor(DEFAULT_LOCALE).services.pages[space.slug])?.examples ?? [],
+  }));
+  const photos = spaces.flatMap(({ space, texts }) => space.examples.flatMap((example, index) => texts[index]
+    ? [{ title: texts[index].title, description: texts[index].description, imageUrl: example.imgSrc, spaceType: space.id }]
+    : []));
+  const drawings = spaces.flatMap(({ space, texts }) => texts[0]
+    ? [{ title: texts[0].title, description: texts[0].description, imageUrl: space.illustration, spaceType: space.id }]
+    : []);
+  return [...photos, ...drawings];
+};
+
+// --- Image Checks ---
+// Remembered for the session, so a refresh does not download the same photos again.
+const imageChecks = new Map<string, Promise<boolean>>();
+
+const imageLoads = (url: string): Promise<boolean> => {
+  let check = imageChecks.get(url);
+  if (!check) {
+    check = new Promise(resolve => {
+      const img = new Image();
+      const finish = (loaded: boolean) => {
+        clearTimeout(timer);
+        img.onload = img.onerror = null;
+        resolve(loaded);
+      };
+      const timer = setTimeout(() => finish(false), IMAGE_TIMEOUT_MS);
+      img.onload = () => finish(img.naturalWidth > 0);
+      img.onerror = () => finish(false);
+      img.src = url;
+    });
+    imageChecks.set(url, check);
+  }
+  return check;
+};
+
+/**
+ * Keeps the tips whose image loads. A broken image is replaced by a curated photo of the same
+ * space, or, when there is none, the whole tip by a curated one.
+ */
+const withWorkingImages = async (tips: InspirationTip[], locale: Locale): Promise<InspirationTip[]> => {
+  const loads = await Promise.all(tips.map(tip => imageLoads(tip.imageUrl)));
+  const used = new Set(tips.filter((_, index) => loads[index]).map(tip => tip.imageUrl));
+  const curated = curatedTips(locale);
+  const nextCurated = async (spaceType?: string) => {
+    for (const candidate of curated) {
+      if (used.has(candidate.imageUrl) || (spaceType && candidate.spaceType !== spaceType)) continue;
+      if (await imageLoads(candidate.imageUrl)) {
+        used.add(candidate.imageUrl);
+        return candidate;
+      }
+    }
+    return null;
+  };
+
+  const result: InspirationTip[] = [];
+  for (const [index, tip] of tips.entries()) {
+    if (loads[index]) {
+      result.push(tip);
+      continue;
+    }
+    const sameSpace = tip.spaceType ? await nextCurated(tip.spaceType) : null;
+    const replacement = sameSpace ? { ...tip, imageUrl: sameSpace.imageUrl } : await nextCurated();
+    if (replacement) result.push(replacement);
+  }
+  return result;
+};
+
+/** Drops malformed tips and space types the registry does not know. */
+const normalizeTips = (tips: unknown): InspirationTip[] =>
+  (Array.isArray(tips) ? tips : [])
+    .filter(tip => typeof tip?.title === 'string' && typeof tip?.description === 'string' && typeof tip?.imageUrl === 'string')
+    .map(({ title, description, imageUrl, spaceType }) => ({
+      title,
+      description,
+      imageUrl,
+      ...(spaceTypeById(spaceType) ? { spaceType } : {}),
+    }));
+
+/** Asks the model for a new feed, checks its images and caches it. Rejects when the model fails. */
+export const refreshInspiration = async (ai: DesignAIProvider, locale: Locale): Promise<InspirationTip[]> => {
+  const tips = await withWorkingImages(normalizeTips(await ai.getInspiration(locale)), locale);
+  if (tips.length > 0) saveInspiration(locale, tips);
+  return tips;
+};
+
+/** One project photo per space, or its drawing when no photo loads; shown when there is no cache and the model fails. Not cached. */
+export const curatedInspiration = async (locale: Locale): Promise<InspirationTip[]> => {
+  const tips = curatedTips(locale);
+  const loads = await Promise.all(tips.map(tip => imageLoads(tip.imageUrl)));
+  return SPACE_TYPES.flatMap(space => tips.find((tip, index) => loads[index] && tip.spaceType === space.id) ?? []);
+};
@@ -0,0 +1,92 @@
+import { spaceTypeById } from '../spaces/registry';
+import type { Messages } from '../i18n/catalogs';
+
+// --- Materials Catalog ---
+// What the workshop actually stocks. Suggestions, quotes and the analysis prompt refer to
+// these entries by id, so prose elsewhere in the app never has to name a material.
+
+export type MoistureResistance = 'low' | 'medium' | 'high';
+
+export type WoodSpecies = {
+  id: string;
+  name: string;
+  botanicalName: string;
+  /** Representative colours of the finished wood, light to dark, for swatches. */
+  swatch: [string, string];
+  /** Janka hardness in newtons. */
+  hardness: number;
+  moistureResistance: MoistureResistance;
+  /** Longest unsupported span of an 18 mm shelf loaded with books before it visibly sags, in metres. */
+  maxShelfSpan: number;
+  /** Sheet-priced species are sold per m² of 18 mm board; solid lumber per board foot. */
+  price: { value: number; per: 'm2' | 'board-foot' };
+};
+
+export type SheetGood = {
+  id: string;
+  name: string;
+  thicknessMm: number;
+  lengthMm: number;
+  widthMm: number;
+  pricePerSheet: number;
+  moistureResistant: boolean;
+  /** Species of the face veneer, when the sheet has one. */
+  veneerId?: string;
+};
+
+export type Finish = {
+  id: string;
+  name: string;
+  sheen: 'mate' | 'satinado' | 'brillo';
+  moistureResistant: boolean;
+};
+
+export const WOOD_SPECIES: WoodSpecies[] = [
+  { id: 'pine', name: 'Pino', botanicalName: 'Pinus sylvestris', swatch: ['#E8CFA0', '#D4B07A'], hardness: 1700, moistureResistance: 'low', maxShelfSpan: 0.7, price: { value: 38, per: 'm2' } },
+  { id: 'oak', name: 'Roble', botanicalName: 'Quercus robur', swatch: ['#C9A26B', '#A67B45'], hardness: 5400, moistureResistance: 'medium', maxShelfSpan: 0.9, price: { value: 85, per: 'm2' } },
+  { id: 'maple', name: 'Arce', botanicalName: 'Acer saccharum', swatch: ['#EFDDBC', '#D9C199'], hardness: 6400, moistureResistance: 'low', maxShelfSpan: 0.95, price: { value: 95, per: 'm2' } },
+  { id: 'walnut', name: 'Nogal', botanicalName: 'Juglans nigra', swatch: ['#7A5230', '#4F3320'], hardness: 4500, moistureResistance: 'medium', maxShelfSpan: 0.85, price: { value: 17, per: 'board-foot' } },
+  { id: 'teak', name: 'Teca', botanicalName: 'Tectona grandis', swatch: ['#B9824A', '#8C5A2B'], hardness: 4400, moistureResistance: 'high', maxShelfSpan: 0.85, price: { value: 21, per: 'board-foot' } },
+  { id: 'cedar', name: 'Cedro', botanicalName: 'Thuja plicata', swatch: ['#C98B5E', '#9C6440'], hardness: 1600, moistureResistance: 'high', maxShelfSpan: 0.6, price: { value: 9, per: 'board-foot' } },
+];
+
+export const SHEET_GOODS: SheetGood[] = [
+  { id: 'birch-plywood-18', name: 'Contrachapado de abedul 18 mm', thicknessMm: 18, lengthMm: 2500, widthMm: 1250, pricePerSheet: 118, moistureResistant: false },
+  { id: 'oak-veneer-mdf-19', name: 'MDF rechapado en roble 19 mm', thicknessMm: 19, lengthMm: 2440, widthMm: 1220, pricePerSheet: 96, moistureResistant: false, veneerId: 'oak' },
+  { id: 'walnut-veneer-mdf-19', name: 'MDF rechapado en nogal 19 mm', thicknessMm: 19, lengthMm: 2440, widthMm: 1220, pricePerSheet: 142, moistureResistant: false, veneerId: 'walnut' },
+  { id: 'mr-mdf-19', name: 'MDF hidrófugo 19 mm', thicknessMm: 19, lengthMm: 2440, widthMm: 1220, pricePerSheet: 64, moistureResistant: true },
+  { id: 'marine-plywood-18', name: 'Contrachapado marino 18 mm', thicknessMm: 18, lengthMm: 2500, widthMm: 1220, pricePerSheet: 165, moistureResistant: true },
+  { id: 'hdf-back-3', name: 'Tablero HDF para traseras 3 mm', thicknessMm: 3, lengthMm: 2440, widthMm: 1220, pricePerSheet: 42, moistureResistant: false },
+];
+
+export const FINISHES: Finish[] = [
+  { id: 'oil', name: 'Aceite natural', sheen: 'mate', moistureResistant: false },
+  { id: 'varnish', name: 'Barniz mate', sheen: 'mate', moistureResistant: false },
+  { id: 'lacquer', name: 'Laca de color', sheen: 'satinado', moistureResistant: true },
+  { id: 'marine-varnish', name: 'Barniz marino', sheen: 'satinado', moistureResistant: true },
+];
+
+/** Board feet in one m² of 18 mm board. */
+const BOARD_FEET_PER_M2 = 0.018 / 0.0023597372;
+
+export const woodById = (id: string | undefined) => WOOD_SPECIES.find(w => w.id === id);
+export const finishById = (id: string | undefined) => FINISHES.find(f => f.id === id);
+
+/** Names in the client's language; ids the catalogs do not list keep the name above. */
+export const woodName = (m: Messages, id: string) => m.materials.woods[id] ?? woodById(id)?.name ?? id;
+export const finishName = (m: Messages, id: string) => m.materials.finishes[id] ?? finishById(id)?.name ?? id;
+export const sheetName = (m: Messages, id: string) => m.materials.sheets[id] ?? SHEET_GOODS.find(s => s.id === id)?.name ?? id;
+
+/** Price of the species per m² of 18 mm board, whichever way it is sold. */
+export const pricePerM2 = (wood: WoodSpecies) =>
+  Math.round((wood.price.per === 'm2' ? wood.price.value : wood.price.value * BOARD_FEET_PER_M2) * 100) / 100;
+
+/** Woods, sheets and finishes that may be proposed for a space. */
+export const materialsForSpace = (spaceType: string | null) => {
+  const wet = !!spaceTypeById(spaceType)?.wet;
+  return {
+    woods: wet ? WOOD_SPECIES.filter(w => w.moistureResistance === 'high') : WOOD_SPECIES,
+    sheets: wet ? SHEET_GOODS.filter(s => s.moistureResistant) : SHEET_GOODS,
+    finishes: wet ? FINISHES.filter(f => f.moistureResistant) : FINISHES,
+  };
+};
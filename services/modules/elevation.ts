@@ -0,0 +1,128 @@
+import type { Locale } from '../../types';
+import { messagesFor } from '../i18n/catalogs';
+import { formatNumber } from '../i18n/format';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+import { BOARD_M, ModuleDefinition, ModuleParams, bayCount, moduleName } from './library';
+
+// --- Elevation Drawings ---
+// Front and side views of a parametric module, drawn in millimetres with dimension lines.
+// The output is standalone SVG, shown through <img> and downloadable as is.
+
+const GAP_MM = 3;
+const DRAWER_ROW_MAX_MM = 300;
+const SHELF_SETBACK_MM = 20;
+const BACK_MM = 8;
+
+type Box = { w: number; h: number };
+
+const mm = (metres: number) => Math.round(metres * 1000);
+const cmLabel = (millimetres: number, locale: Locale) => `${formatNumber(locale, millimetres / 10, { maximumFractionDigits: 1 })} cm`;
+
+const frame = ({ w, h }: Box) => {
+  const unit = Math.max(w, h) / 40;
+  return { unit, margin: unit * 6, font: unit * 1.6 };
+};
+
+/** A dimension line with end ticks and its measurement, offset from the edge it measures. */
+const dimension = (x1: number, y1: number, x2: number, y2: number, length: number, font: number, locale: Locale) => {
+  const vertical = x1 === x2;
+  const tick = font * 0.4;
+  const ticks = [[x1, y1], [x2, y2]].map(([x, y]) =>
+    `<line x1="${x! - tick}" y1="${y! + tick}" x2="${x! + tick}" y2="${y! - tick}"/>`).join('');
+  const label = vertical
+    ? `<text x="${x1 + font * 0.6}" y="${(y1 + y2) / 2}" transform="rotate(90 ${x1 + font * 0.6} ${(y1 + y2) / 2})" text-anchor="middle">${cmLabel(length, locale)}</text>`
+    : `<text x="${(x1 + x2) / 2}" y="${y1 + font * 1.3}" text-anchor="middle">${cmLabel(length, locale)}</text>`;
+  return `<g class="dimension" stroke="#8D6E63" fill="#8D6E63"><line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}"/>${ticks}<g stroke="none">${label}</g></g>`;
+};
+
+const document = (box: Box, title: string, body: string) => {
+  const { margin, font, unit } = frame(box);
+  const width = box.w + margin * 2;
+  const height = box.h + margin * 2;
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" font-family="Roboto, Arial, sans-serif" font-size="${font}" fill="none" stroke="#3D352E" stroke-width="${unit * 0.15}">
+<text x="${margin}" y="${margin - font * 1.2}" fill="#3D352E" stroke="none" font-weight="700">${title}</text>
+<g transform="translate(${margin} ${margin})">
+${body}
+</g>
+</svg>`;
+};
+
+/** Evenly spaced positions of `count` boards between `start` and `end`. */
+const spaced = (start: number, end: number, count: number) =>
+  Array.from({ length: count }, (_, i) => start + ((end - start) * (i + 1)) / (count + 1));
+
+export const frontElevationSVG = (definition: ModuleDefinition, params: ModuleParams, locale: Locale = DEFAULT_LOCALE): string => {
+  const W = mm(params.width);
+  const H = mm(params.height);
+  const T = mm(BOARD_M);
+  const { font, unit } = frame({ w: W, h: H });
+  const parts: string[] = [`<rect x="0" y="0" width="${W}" height="${H}" fill="#F3E5D8"/>`];
+
+  // Carcass: sides, top, base and the dividers between bays.
+  const bays = bayCount(definition, params);
+  const dividers = spaced(0, W, bays - 1);
+  parts.push(`<rect x="${T}" y="${T}" width="${W - 2 * T}" height="${H - 2 * T}"/>`);
+  dividers.forEach(x => parts.push(`<rect x="${x - T / 2}" y="${T}" width="${T}" height="${H - 2 * T}" fill="#E4CDB6"/>`));
+
+  const drawerRow = definition.fronts === 'drawers' && params.doors > 0 ? Math.min(H, DRAWER_ROW_MAX_MM) : 0;
+  const hidden = definition.fronts === 'doors' && params.doors > 0;
+  const bayEdges = [0, ...dividers, W];
+  const shelves: string[] = [];
+  for (let b = 0; b < bays; b++) {
+    spaced(drawerRow || T, H - T, params.shelves).forEach(y => {
+      shelves.push(`<line x1="${bayEdges[b]! + T}" y1="${y}" x2="${bayEdges[b + 1]! - T}" y2="${y}"${hidden ? ` stroke-dasharray="${unit} ${unit * 0.6}"` : ''}/>`);
+    });
+  }
+
+  if (params.doors > 0 && definition.fronts !== 'open') {
+    const frontWidth = (W - GAP_MM * (params.doors + 1)) / params.doors;
+    const frontHeight = definition.fronts === 'doors' ? H - 2 * GAP_MM : drawerRow - 2 * GAP_MM;
+    for (let i = 0; i < params.doors; i++) {
+      const x = GAP_MM + i * (frontWidth + GAP_MM);
+      parts.push(`<rect x="${x}" y="${GAP_MM}" width="${frontWidth}" height="${frontHeight}" fill="#EAD7C3"/>`);
+      if (definition.fronts === 'doors') {
+        // Doors open in pairs from the middle, so handles sit on the meeting edges.
+        const handleX = i % 2 === 0 && i < params.doors - 1 ? x + frontWidth - unit : x + unit;
+        const handleY = definition.mounting === 'wall' ? frontHeight - unit * 3 : Math.min(frontHeight / 2, 1000);
+        parts.push(`<line x1="${handleX}" y1="${handleY - unit * 2}" x2="${handleX}" y2="${handleY + unit * 2}" stroke-width="${unit * 0.4}"/>`);
+      } else {
+        parts.push(`<line x1="${x + frontWidth / 2 - unit * 2}" y1="${GAP_MM + unit * 1.5}" x2="${x + frontWidth / 2 + unit * 2}" y2="${GAP_MM + unit * 1.5}" stroke-width="${unit * 0.4}"/>`);
+      }
+    }
+  }
+  // Shelves behind doors are drawn last, dashed, so they show through like hidden lines.
+  parts.push(...shelves);
+
+  parts.push(dimension(0, H + font * 1.5, W, H + font * 1.5, W, font, locale));
+  parts.push(dimension(W + font * 1.5, 0, W + font * 1.5, H, H, font, locale));
+  const m = messagesFor(locale);
+  return document({ w: W, h: H }, m.plan.frontTitle(moduleName(m, definition.id)), parts.join('\n'));
+};
+
+export const sideElevationSVG = (definition: ModuleDefinition, params: ModuleParams, locale: Locale = DEFAULT_LOCALE): string => {
+  const D = mm(params.depth);
+  const H = mm(params.height);
+  const T = mm(BOARD_M);
+  const { font, unit } = frame({ w: D, h: H });
+  const parts: string[] = [
+    `<rect x="0" y="0" width="${D}" height="${H}" fill="#F3E5D8"/>`,
+    // The wall behind, then the back panel set into the carcass.
+    `<line x1="${D + unit}" y1="${-unit * 2}" x2="${D + unit}" y2="${H + unit * 2}" stroke-dasharray="${unit * 2} ${unit}"/>`,
+    `<rect x="${D - BACK_MM - T / 2}" y="${T}" width="${BACK_MM}" height="${H - 2 * T}" fill="#E4CDB6"/>`,
+    `<line x1="0" y1="${T}" x2="${D}" y2="${T}"/>`,
+    `<line x1="0" y1="${H - T}" x2="${D}" y2="${H - T}"/>`,
+  ];
+  const drawerRow = definition.fronts === 'drawers' && params.doors > 0 ? Math.min(H, DRAWER_ROW_MAX_MM) : 0;
+  spaced(drawerRow || T, H - T, params.shelves).forEach(y => {
+    parts.push(`<line x1="${T}" y1="${y}" x2="${D - SHELF_SETBACK_MM - T}" y2="${y}" stroke-width="${unit * 0.35}"/>`);
+  });
+  if (drawerRow) {
+    parts.push(`<rect x="${T}" y="${GAP_MM}" width="${D - 2 * T - BACK_MM}" height="${drawerRow - 2 * GAP_MM}" stroke-dasharray="${unit} ${unit * 0.6}"/>`);
+  }
+  if (definition.fronts !== 'open' && params.doors > 0) {
+    parts.push(`<rect x="${-T}" y="${GAP_MM}" width="${T}" height="${(drawerRow || H) - 2 * GAP_MM}" fill="#EAD7C3"/>`);
+  }
+  parts.push(dimension(0, H + font * 1.5, D, H + font * 1.5, D, font, locale));
+  parts.push(dimension(D + font * 2.5, 0, D + font * 2.5, H, H, font, locale));
+  return document({ w: D, h: H }, messagesFor(locale).plan.sideTitle, parts.join('\n'));
+};
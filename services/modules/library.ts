@@ -0,0 +1,159 @@
+import { woodById, woodName } from '../materials/catalog';
+import { messagesFor, Messages } from '../i18n/catalogs';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+
+// --- Parametric Module Library ---
+// Every piece of furniture the workshop builds, as a parametric box: outer size, shelves,
+// fronts and material. Plans, quotes, cut lists and elevations all read these definitions.
+
+export type ModuleFronts = 'open' | 'doors' | 'drawers';
+
+export type ModuleParams = {
+  width: number;
+  height: number;
+  depth: number;
+  shelves: number;
+  /** Door leaves, or drawers on drawer modules. Always 0 on open modules. */
+  doors: number;
+  /** Materials catalog id; modules without one use the wood chosen for the whole design. */
+  woodId?: string;
+};
+
+type Range = [number, number];
+
+export type ModuleDefinition = {
+  id: string;
+  name: string;
+  fronts: ModuleFronts;
+  mounting: 'floor' | 'wall';
+  /** Default outer size in metres. */
+  width: number;
+  height: number;
+  depth: number;
+  limits: { width: Range; height: Range; depth: Range; shelves: Range; doors: Range };
+};
+
+export const MODULE_LIBRARY: ModuleDefinition[] = [
+  {
+    id: 'shelving', name: 'Estantería', fronts: 'open', mounting: 'floor', width: 0.8, height: 2.0, depth: 0.35,
+    limits: { width: [0.4, 3.6], height: [0.6, 3.0], depth: [0.2, 0.6], shelves: [1, 10], doors: [0, 0] },
+  },
+  {
+    id: 'base-cabinet', name: 'Gabinete bajo', fronts: 'doors', mounting: 'floor', width: 0.8, height: 0.8, depth: 0.45,
+    limits: { width: [0.3, 3.6], height: [0.5, 1.0], depth: [0.3, 0.7], shelves: [0, 3], doors: [1, 8] },
+  },
+  {
+    id: 'wall-cabinet', name: 'Gabinete de pared', fronts: 'doors', mounting: 'wall', width: 0.8, height: 0.7, depth: 0.33,
+    limits: { width: [0.3, 2.4], height: [0.3, 1.0], depth: [0.2, 0.4], shelves: [0, 3], doors: [1, 6] },
+  },
+  {
+    id: 'floating-vanity', name: 'Vanidad flotante', fronts: 'drawers', mounting: 'wall', width: 1.0, height: 0.5, depth: 0.46,
+    limits: { width: [0.5, 1.6], height: [0.3, 0.6], depth: [0.35, 0.55], shelves: [0, 1], doors: [1, 4] },
+  },
+  {
+    id: 'wardrobe', name: 'Armario', fronts: 'doors', mounting: 'floor', width: 1.8, height: 2.4, depth: 0.6,
+    limits: { width: [0.5, 4.0], height: [1.6, 3.0], depth: [0.5, 0.7], shelves: [1, 8], doors: [1, 8] },
+  },
+  {
+    id: 'desk', name: 'Escritorio', fronts: 'drawers', mounting: 'floor', width: 1.4, height: 0.75, depth: 0.6,
+    limits: { width: [0.8, 3.6], height: [0.7, 0.8], depth: [0.45, 0.8], shelves: [0, 2], doors: [0, 4] },
+  },
+  {
+    id: 'bench', name: 'Banco', fronts: 'drawers', mounting: 'floor', width: 1.4, height: 0.45, depth: 0.4,
+    limits: { width: [0.6, 3.0], height: [0.35, 0.6], depth: [0.3, 0.6], shelves: [0, 1], doors: [0, 4] },
+  },
+  {
+    id: 'wall-shelf', name: 'Repisa', fronts: 'open', mounting: 'wall', width: 0.8, height: 0.3, depth: 0.25,
+    limits: { width: [0.3, 2.4], height: [0.15, 0.6], depth: [0.15, 0.4], shelves: [0, 1], doors: [0, 0] },
+  },
+  {
+    id: 'cat-shelf', name: 'Repisa para gatos', fronts: 'open', mounting: 'wall', width: 0.6, height: 0.15, depth: 0.3,
+    limits: { width: [0.4, 1.2], height: [0.1, 0.4], depth: [0.25, 0.45], shelves: [0, 0], doors: [0, 0] },
+  },
+];
+
+/** Carcass board thickness assumed when checking sizes. */
+export const BOARD_M = 0.019;
+const MIN_SHELF_GAP_M = 0.18;
+const DOOR_WIDTH_M: Range = [0.25, 0.6];
+const DRAWER_WIDTH_M: Range = [0.3, 1.0];
+/** Shelf span used when no material is known, matching the weakest stocked species. */
+const FALLBACK_SHELF_SPAN_M = 0.6;
+
+const clamp = (value: number, [min, max]: Range) => Math.min(max, Math.max(min, value));
+const cm = (metres: number) => `${Math.round(metres * 100)} cm`;
+
+export const moduleById = (id: string) => MODULE_LIBRARY.find(m => m.id === id);
+
+/** Name of a module in the client's language. */
+export const moduleName = (m: Messages, id: string) => m.materials.modules[id] ?? moduleById(id)?.name ?? id;
+
+/** Sensible shelf and front counts for a module of the given size. */
+export const moduleParams = (definition: ModuleDefinition, size: Partial<ModuleParams> = {}): ModuleParams => {
+  const width = size.width ?? definition.width;
+  const height = size.height ?? definition.height;
+  const depth = size.depth ?? definition.depth;
+  const shelfPitch = definition.fronts === 'open' ? 0.35 : 0.5;
+  const frontWidth = definition.fronts === 'drawers' ? 0.6 : 0.5;
+  return {
+    width,
+    height,
+    depth,
+    // Drawer units are mostly drawers and knee space, so extra shelves are opt-in.
+    shelves: size.shelves ?? (definition.fronts === 'drawers' ? definition.limits.shelves[0] : clamp(Math.round(height / shelfPitch) - 1, definition.limits.shelves)),
+    doors: size.doors ?? (definition.fronts === 'open' ? 0 : clamp(Math.round(width / frontWidth), definition.limits.doors)),
+    woodId: size.woodId,
+  };
+};
+
+/** Vertical sections: doors are hung in pairs, with a divider between every pair. */
+export const bayCount = (definition: ModuleDefinition, params: ModuleParams) =>
+  definition.fronts === 'doors' ? Math.max(1, Math.ceil(params.doors / 2)) : 1;
+
+export const shelfSpan = (definition: ModuleDefinition, params: ModuleParams) => {
+  const bays = bayCount(definition, params);
+  return (params.width - (bays + 1) * BOARD_M) / bays;
+};
+
+/** Everything that would make the module unbuildable or unsafe, as messages for the client. */
+export const validateModule = (definition: ModuleDefinition, params: ModuleParams, fallbackWoodId?: string, m: Messages = messagesFor(DEFAULT_LOCALE)): string[] => {
+  const phrases = m.plan.problems;
+  const problems: string[] = [];
+  const { limits } = definition;
+  const checkRange = (value: number, [min, max]: Range, message: (min: string, max: string) => string) => {
+    if (value < min - 1e-6 || value > max + 1e-6) problems.push(message(cm(min), cm(max)));
+  };
+  checkRange(params.width, limits.width, phrases.width);
+  checkRange(params.height, limits.height, phrases.height);
+  checkRange(params.depth, limits.depth, phrases.depth);
+
+  if (params.shelves < limits.shelves[0] || params.shelves > limits.shelves[1]) {
+    problems.push(phrases.shelves(limits.shelves[0], limits.shelves[1]));
+  } else if (params.shelves > 0) {
+    const gap = (params.height - (params.shelves + 2) * BOARD_M) / (params.shelves + 1);
+    if (gap < MIN_SHELF_GAP_M) problems.push(phrases.shelfGap(params.shelves, cm(gap), cm(MIN_SHELF_GAP_M)));
+  }
+
+  if (definition.fronts !== 'open') {
+    const doors = definition.fronts === 'doors';
+    if (params.doors < limits.doors[0] || params.doors > limits.doors[1]) {
+      problems.push((doors ? phrases.doors : phrases.drawers)(limits.doors[0], limits.doors[1]));
+    } else if (params.doors > 0) {
+      const frontWidth = params.width / params.doors;
+      const [min, max] = doors ? DOOR_WIDTH_M : DRAWER_WIDTH_M;
+      if (frontWidth < min || frontWidth > max) {
+        problems.push((doors ? phrases.doorWidth : phrases.drawerWidth)(cm(frontWidth), cm(min), cm(max)));
+      }
+    }
+  }
+
+  // On open modules the boards themselves are shelves, so they are checked even without extra shelves.
+  const wood = woodById(params.woodId ?? fallbackWoodId);
+  const maxSpan = wood?.maxShelfSpan ?? FALLBACK_SHELF_SPAN_M;
+  const span = shelfSpan(definition, params);
+  if ((params.shelves > 0 || definition.fronts === 'open') && span > maxSpan) {
+    const fix = definition.fronts === 'doors' ? phrases.addDoors : phrases.split;
+    problems.push(`${phrases.span(cm(span), wood ? woodName(m, wood.id) : null, cm(maxSpan))} ${fix}`);
+  }
+  return problems;
+};
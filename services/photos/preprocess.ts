@@ -0,0 +1,186 @@
+import { readAsBase64 } from '../../utils/imageData';
+
+// --- Photo Preprocessing ---
+// Every photo is prepared in the browser before it is stored or sent to the model: decoded
+// upright, downsized and re-encoded as JPEG. Re-encoding through a canvas leaves the EXIF block
+// behind, so the GPS position and camera details never leave the client's device.
+
+export type PhotoOptions = {
+  /** Longest side of the prepared photo, in pixels. */
+  maxDimension: number;
+  /** JPEG quality between 0 and 1. */
+  quality: number;
+  maxPhotos: number;
+};
+
+export const DEFAULT_PHOTO_OPTIONS: PhotoOptions = {
+  maxDimension: Number(process.env.PHOTO_MAX_DIMENSION) || 2048,
+  quality: 0.85,
+  maxPhotos: 8,
+};
+
+export type PhotoIssue = 'blurry' | 'dark' | 'overexposed';
+
+export type PhotoQuality = {
+  /** Variance of the Laplacian on the scoring image; low values mean few sharp edges. */
+  sharpness: number;
+  /** Mean luminance between 0 and 1. */
+  brightness: number;
+  /** Share of pixels blown out to white. */
+  clipped: number;
+  issues: PhotoIssue[];
+};
+
+export type PreparedPhoto = {
+  file: File;
+  base64: string;
+  quality: PhotoQuality;
+};
+
+/** Why a selected file was left out; the catalogs word each reason. */
+export type PhotoRejection = 'notImage' | 'unsupported' | 'tooMany';
+
+export type RejectedPhoto = {
+  name: string;
+  reason: PhotoRejection;
+};
+
+// --- Tuning ---
+/** Photos are scored at this size, so the thresholds do not depend on the camera's resolution. */
+const SCORING_SIDE = 512;
+const MIN_SHARPNESS = 40;
+const MIN_BRIGHTNESS = 0.22;
+const MAX_CLIPPED = 0.2;
+const MAX_BRIGHTNESS = 0.88;
+
+// --- Quality Scoring ---
+/** Scores a photo for blur, darkness and overexposure. */
+export const scorePhoto = (image: ImageData): PhotoQuality => {
+  const { width, height, data } = image;
+  const gray = new Float32Array(width * height);
+  let sum = 0;
+  let blownOut = 0;
+  for (let i = 0; i < gray.length; i++) {
+    const luma = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    gray[i] = luma;
+    sum += luma;
+    if (luma >= 250) blownOut++;
+  }
+
+  let count = 0;
+  let mean = 0;
+  let squares = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      count++;
+      const delta = laplacian - mean;
+      mean += delta / count;
+      squares += delta * (laplacian - mean);
+    }
+  }
+
+  const sharpness = count > 0 ? squares / count : 0;
+  const brightness = gray.length > 0 ? sum / gray.length / 255 : 0;
+  const clipped = gray.length > 0 ? blownOut / gray.length : 0;
+  const issues: PhotoIssue[] = [];
+  if (sharpness < MIN_SHARPNESS) issues.push('blurry');
+  if (brightness < MIN_BRIGHTNESS) issues.push('dark');
+  if (clipped > MAX_CLIPPED || brightness > MAX_BRIGHTNESS) issues.push('overexposed');
+  return { sharpness, brightness, clipped, issues };
+};
+
+// --- Pipeline ---
+/** iPhones save HEIC by default; some systems report it without a type, so the extension counts too. */
+const isHeic = (file: File) => /^image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+/**
+ * Converts a HEIC photo to JPEG for browsers that cannot decode it. The converter is large, so
+ * it is only downloaded when such a photo turns up.
+ */
+const convertHeic = async (file: File): Promise<Blob> => {
+  const { default: heic2any } = await import('heic2any');
+  const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.95 });
+  return Array.isArray(converted) ? converted[0]! : converted;
+};
+
+// `from-image` applies the EXIF orientation while decoding, so the pixels come out upright
+// and the re-encoded JPEG needs no orientation tag.
+const decodeBitmap = (source: Blob) => createImageBitmap(source, { imageOrientation: 'from-image' });
+
+const decodePhoto = async (file: File): Promise<ImageBitmap | null> => {
+  try {
+    return await decodeBitmap(file);
+  } catch {
+    // Safari decodes HEIC itself; other browsers get it converted first.
+    if (!isHeic(file)) return null;
+  }
+  try {
+    return await decodeBitmap(await convertHeic(file));
+  } catch (e) {
+    console.error(`Could not convert ${file.name} from HEIC:`, e);
+    return null;
+  }
+};
+
+const drawScaled = (source: CanvasImageSource, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D no disponible.');
+  // JPEG has no transparency: transparent areas of PNG or WebP photos would turn black.
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+  return { canvas, ctx };
+};
+
+const toJpeg = (canvas: HTMLCanvasElement, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('No se pudo codificar la foto.'))), 'image/jpeg', quality);
+  });
+
+const jpegName = (name: string) => `${name.replace(/\.[^.]*$/, '') || 'foto'}.jpg`;
+
+const preparePhoto = async (file: File, bitmap: ImageBitmap, options: PhotoOptions): Promise<PreparedPhoto> => {
+  const ratio = Math.min(1, options.maxDimension / Math.max(bitmap.width, bitmap.height));
+  const { canvas } = drawScaled(bitmap, Math.round(bitmap.width * ratio), Math.round(bitmap.height * ratio));
+  bitmap.close();
+
+  const scoringRatio = Math.min(1, SCORING_SIDE / Math.max(canvas.width, canvas.height));
+  const scoring = drawScaled(canvas, Math.round(canvas.width * scoringRatio), Math.round(canvas.height * scoringRatio));
+  const quality = scorePhoto(scoring.ctx.getImageData(0, 0, scoring.canvas.width, scoring.canvas.height));
+
+  const blob = await toJpeg(canvas, options.quality);
+  const prepared = new File([blob], jpegName(file.name), { type: 'image/jpeg', lastModified: file.lastModified });
+  return { file: prepared, base64: await readAsBase64(prepared), quality };
+};
+
+/**
+ * Prepares the selected files one at a time, to keep memory low with large phone photos.
+ * Files that are not images, cannot be decoded or exceed `maxPhotos` are returned as rejected.
+ */
+export const preparePhotos = async (files: File[], options: PhotoOptions = DEFAULT_PHOTO_OPTIONS) => {
+  const photos: PreparedPhoto[] = [];
+  const rejected: RejectedPhoto[] = [];
+  for (const file of files) {
+    // Some systems report HEIC photos without a type, so only a known non-image type is refused outright.
+    if (file.type && !file.type.startsWith('image/')) {
+      rejected.push({ name: file.name, reason: 'notImage' });
+      continue;
+    }
+    if (photos.length >= options.maxPhotos) {
+      rejected.push({ name: file.name, reason: 'tooMany' });
+      continue;
+    }
+    const bitmap = await decodePhoto(file);
+    if (!bitmap) {
+      rejected.push({ name: file.name, reason: file.type ? 'unsupported' : 'notImage' });
+      continue;
+    }
+    photos.push(await preparePhoto(file, bitmap, options));
+  }
+  return { photos, rejected };
+};
@@ -0,0 +1,193 @@
+import type { AIResponse, CatDetails, FloorPlan, QuoteSelection, RenderVersion, WorkshopSubmission } from '../types';
+
+// --- Types ---
+/** Everything needed to resume a design journey exactly where the client left it. */
+export type DesignProject = {
+  id: string;
+  ownerId: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  designStep: number;
+  selectedSpace: string | null;
+  aiResponse: AIResponse | null;
+  /** Missing on projects saved before the plan editor existed. */
+  floorPlan?: FloorPlan | null;
+  numberOfCats: number;
+  cats: CatDetails[];
+  /** Render history without the images, which live in the assets store. Missing on older projects. */
+  renderVersions?: Omit<RenderVersion, 'imageBase64'>[];
+  currentVersionId?: string | null;
+  selectedPhotoIndex?: number;
+  quoteSelection?: QuoteSelection | null;
+  /** Missing on projects never submitted to the workshop. */
+  submission?: WorkshopSubmission | null;
+};
+
+export type ProjectSummary = DesignProject & {
+  photoCount: number;
+  thumbnail: Blob | null;
+};
+
+/** A project together with its binary assets, as needed to restore `AppState`. */
+export type LoadedProject = {
+  project: DesignProject;
+  photos: File[];
+  /** Render images keyed by version id. Projects saved before versioning hold one render keyed `'render'`. */
+  renders: Map<string, Blob>;
+};
+
+type StoredAsset = {
+  id: string;
+  projectId: string;
+  kind: 'photo' | 'render';
+  position: number;
+  name: string;
+  blob: Blob;
+};
+
+// --- Database ---
+const DB_NAME = 'maderarte';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const ASSETS = 'assets';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const projects = db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        projects.createIndex('ownerId', 'ownerId');
+        const assets = db.createObjectStore(ASSETS, { keyPath: 'id' });
+        assets.createIndex('projectId', 'projectId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const assetsOf = async (tx: IDBTransaction, projectId: string): Promise<StoredAsset[]> => {
+  const assets: StoredAsset[] = await promisify(tx.objectStore(ASSETS).index('projectId').getAll(projectId));
+  return assets.sort((a, b) => a.position - b.position);
+};
+
+const replaceAssets = async (tx: IDBTransaction, projectId: string, kind: StoredAsset['kind'], files: { name: string; blob: Blob }[]) => {
+  const store = tx.objectStore(ASSETS);
+  const existing = (await assetsOf(tx, projectId)).filter(a => a.kind === kind);
+  existing.forEach(asset => store.delete(asset.id));
+  files.forEach((file, position) => {
+    store.put({ id: crypto.randomUUID(), projectId, kind, position, name: file.name, blob: file.blob });
+  });
+};
+
+// --- Queries ---
+export const listProjects = async (ownerId: string): Promise<ProjectSummary[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS, ASSETS], 'readonly');
+  const projects: DesignProject[] = await promisify(tx.objectStore(PROJECTS).index('ownerId').getAll(ownerId));
+  const summaries = await Promise.all(projects.map(async project => {
+    const photos = (await assetsOf(tx, project.id)).filter(a => a.kind === 'photo');
+    return { ...project, photoCount: photos.length, thumbnail: photos[0]?.blob ?? null };
+  }));
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<LoadedProject | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS, ASSETS], 'readonly');
+  const project: DesignProject | undefined = await promisify(tx.objectStore(PROJECTS).get(id));
+  if (!project) return null;
+  const assets = await assetsOf(tx, id);
+  const photos = assets
+    .filter(a => a.kind === 'photo')
+    .map(a => new File([a.blob], a.name, { type: a.blob.type }));
+  const renders = new Map(assets.filter(a => a.kind === 'render').map(a => [a.name, a.blob]));
+  return { project, photos, renders };
+};
+
+// --- Mutations ---
+/** Creates or updates a project, keeping its original creation date. */
+export const saveProject = async (project: Omit<DesignProject, 'createdAt' | 'updatedAt'>): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  const store = tx.objectStore(PROJECTS);
+  const existing: DesignProject | undefined = await promisify(store.get(project.id));
+  const now = Date.now();
+  store.put({ ...project, createdAt: existing?.createdAt ?? now, updatedAt: now });
+  await completion(tx);
+};
+
+export const saveProjectPhotos = async (projectId: string, photos: File[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(ASSETS, 'readwrite');
+  await replaceAssets(tx, projectId, 'photo', photos.map(photo => ({ name: photo.name, blob: photo })));
+  await completion(tx);
+};
+
+/** Stores the image of a new render version; versions are never rewritten, so earlier ones stay untouched. */
+export const addProjectRender = async (projectId: string, versionId: string, render: Blob): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(ASSETS, 'readwrite');
+  const renders = (await assetsOf(tx, projectId)).filter(a => a.kind === 'render');
+  tx.objectStore(ASSETS).put({ id: crypto.randomUUID(), projectId, kind: 'render', position: renders.length, name: versionId, blob: render });
+  await completion(tx);
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECTS, 'readwrite');
+  const store = tx.objectStore(PROJECTS);
+  const project: DesignProject | undefined = await promisify(store.get(id));
+  if (project) store.put({ ...project, name, updatedAt: Date.now() });
+  await completion(tx);
+};
+
+/**
+ * `copyName` names the copy after the original, in the client's language. The copy starts
+ * without the original's workshop request, so it can be submitted on its own.
+ */
+export const duplicateProject = async (id: string, copyName: (name: string) => string): Promise<DesignProject | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS, ASSETS], 'readwrite');
+  const projects = tx.objectStore(PROJECTS);
+  const original: DesignProject | undefined = await promisify(projects.get(id));
+  if (!original) return null;
+  const now = Date.now();
+  const copy: DesignProject = { ...original, id: crypto.randomUUID(), name: copyName(original.name), submission: null, createdAt: now, updatedAt: now };
+  projects.put(copy);
+  const assets = await assetsOf(tx, id);
+  assets.forEach(asset => tx.objectStore(ASSETS).put({ ...asset, id: crypto.randomUUID(), projectId: copy.id }));
+  await completion(tx);
+  return copy;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS, ASSETS], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  const assets = await assetsOf(tx, id);
+  assets.forEach(asset => tx.objectStore(ASSETS).delete(asset.id));
+  await completion(tx);
+};
@@ -0,0 +1,192 @@
+import type { AIResponse, FloorPlan, Locale, QuoteSelection, RoomDimensions } from '../../types';
+import { MODULE_LIBRARY, ModuleFronts, ModuleParams, moduleById, moduleParams } from '../modules/library';
+import { finishName, woodName } from '../materials/catalog';
+import { enabledItems, itemModule } from '../suggestions/items';
+import { messagesFor } from '../i18n/catalogs';
+import { formatNumber } from '../i18n/format';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+import { metresOf } from '../../utils/dimensions';
+import type { FinishRate, RateTables, WoodRate } from './rateTables';
+
+// --- Quote Engine ---
+// Turns furniture modules into an itemised estimate. Every figure comes from the rate tables,
+// so the workshop can re-price without touching code.
+
+export type QuoteModule = ModuleParams & {
+  moduleId: string;
+  name: string;
+  fronts: ModuleFronts;
+};
+
+export type QuoteCategory = 'materials' | 'finish' | 'hardware' | 'labour' | 'installation';
+
+export type QuoteLine = {
+  category: QuoteCategory;
+  description: string;
+  amount: number;
+};
+
+export type QuoteEstimate = {
+  currency: string;
+  modules: QuoteModule[];
+  /** True when sizes were assumed from the suggestion text rather than placed on the plan. */
+  modulesAssumed: boolean;
+  lines: QuoteLine[];
+  labourHours: number;
+  subtotal: number;
+  vat: number;
+  total: number;
+  low: number;
+  high: number;
+};
+
+const HIGH_CEILING_M = 2.7;
+/** Extra spread when module sizes were not placed on the plan by the client. */
+const ASSUMED_SIZES_SPREAD = 0.1;
+/** Extra spread for fully unconfirmed room measurements. */
+const UNCERTAIN_DIMENSIONS_SPREAD = 0.1;
+
+const money = (value: number) => Math.round(value * 100) / 100;
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+/** Furniture placed on the plan wins; otherwise the items the client kept from the chosen suggestion. */
+export const quoteModules = (plan: FloorPlan | null, analysis: AIResponse, suggestionIndex: number): { modules: QuoteModule[]; assumed: boolean } => {
+  if (plan && plan.furniture.length > 0) {
+    return {
+      assumed: false,
+      modules: plan.furniture.map(item => {
+        const module = moduleById(item.moduleId) ?? MODULE_LIBRARY[0]!;
+        return { ...moduleParams(module, item), moduleId: item.moduleId, name: item.name, fronts: module.fronts };
+      }),
+    };
+  }
+  const suggestion = analysis.suggestions[suggestionIndex] ?? analysis.suggestions[0];
+  return { assumed: true, modules: suggestion ? enabledItems(suggestion).map(item => itemModule(item, suggestion)) : [] };
+};
+
+/** Board surfaces of one module in m²: the carcass (sides, top, base, shelves) and its fronts. */
+export const moduleAreas = (module: QuoteModule) => {
+  const { width: w, depth: d, height: h } = module;
+  const carcass = 2 * h * d + 2 * w * d + module.shelves * w * d;
+  const fronts = module.fronts === 'doors' ? w * h : module.fronts === 'drawers' ? w * Math.min(h, 0.3) : 0;
+  return { carcass, fronts, back: w * h };
+};
+
+const formatSize = (module: QuoteModule, locale: Locale) =>
+  [module.width, module.depth, module.height].map(v => formatNumber(locale, v, { minimumFractionDigits: 2, maximumFractionDigits: 2 })).join(' × ') + ' m';
+
+/** Board, finish area, fronts and workshop hours of one module. */
+const moduleCost = (module: QuoteModule, wood: WoodRate, finish: FinishRate, rates: RateTables) => {
+  const areas = moduleAreas(module);
+  const board = areas.carcass + areas.fronts;
+  return {
+    materials: board * (1 + rates.wasteFactor) * wood.pricePerM2 + areas.back * rates.backPanelPricePerM2,
+    finishArea: board,
+    fronts: module.fronts === 'open' ? 0 : module.doors,
+    hours: rates.baseHoursPerModule
+      + board * rates.hoursPerM2Board * wood.labourFactor
+      + (module.fronts === 'open' ? 0 : module.doors) * rates.hoursPerFront
+      + board * finish.hoursPerM2,
+  };
+};
+
+/**
+ * Price range of one module on its own, VAT and installation included, so the items of a
+ * proposal can be compared before the client asks for the full quote.
+ */
+export const moduleCostBand = (module: QuoteModule, woodId: string, finishId: string, rates: RateTables) => {
+  const wood = rates.woods.find(w => w.id === (module.woodId ?? woodId)) ?? rates.woods[0]!;
+  const finish = rates.finishes.find(f => f.id === finishId) ?? rates.finishes[0]!;
+  const hardware = rates.hardware[0]!;
+  const cost = moduleCost(module, wood, finish, rates);
+  const net = cost.materials
+    + cost.finishArea * finish.pricePerM2
+    + hardware.pricePerModule + cost.fronts * hardware.pricePerFront
+    + cost.hours * rates.labourRatePerHour
+    + rates.installationHoursPerModule * rates.installationRatePerHour;
+  const total = net * (1 + rates.vatRate);
+  const spread = rates.rangeSpread + ASSUMED_SIZES_SPREAD;
+  return { currency: rates.currency, low: roundTo(total * (1 - spread), 10), high: roundTo(total * (1 + spread), 10) };
+};
+
+/** Line descriptions are written in `locale`; hardware keeps the name the workshop gave it. */
+export const estimateQuote = (
+  modules: QuoteModule[],
+  selection: QuoteSelection,
+  dimensions: RoomDimensions,
+  rates: RateTables,
+  modulesAssumed = false,
+  locale: Locale = DEFAULT_LOCALE,
+): QuoteEstimate => {
+  const m = messagesFor(locale);
+  const text = m.quote.lines;
+  const designWood = rates.woods.find(w => w.id === selection.woodId) ?? rates.woods[0]!;
+  const finish = rates.finishes.find(f => f.id === selection.finishId) ?? rates.finishes[0]!;
+  const hardware = rates.hardware.find(h => h.id === selection.hardwareId) ?? rates.hardware[0]!;
+
+  const lines: QuoteLine[] = [];
+  let finishArea = 0;
+  let fronts = 0;
+  let labourHours = 0;
+
+  modules.forEach(module => {
+    const wood = rates.woods.find(w => w.id === module.woodId) ?? designWood;
+    const cost = moduleCost(module, wood, finish, rates);
+    lines.push({
+      category: 'materials',
+      description: text.module(m.materials.modules[module.moduleId] ?? module.name, formatSize(module, locale), woodName(m, wood.id)),
+      amount: money(cost.materials),
+    });
+    finishArea += cost.finishArea;
+    fronts += cost.fronts;
+    labourHours += cost.hours;
+  });
+
+  lines.push({
+    category: 'finish',
+    description: text.finish(finishName(m, finish.id), formatNumber(locale, finishArea, { maximumFractionDigits: 1 })),
+    amount: money(finishArea * finish.pricePerM2),
+  });
+  lines.push({
+    category: 'hardware',
+    description: text.hardware(hardware.name, modules.length, fronts),
+    amount: money(modules.length * hardware.pricePerModule + fronts * hardware.pricePerFront),
+  });
+  labourHours = Math.round(labourHours * 10) / 10;
+  lines.push({
+    category: 'labour',
+    description: text.labour(formatNumber(locale, labourHours)),
+    amount: money(labourHours * rates.labourRatePerHour),
+  });
+
+  const highCeiling = metresOf(dimensions.height) > HIGH_CEILING_M;
+  const installation = Math.max(rates.installationMinimum, modules.length * rates.installationHoursPerModule * rates.installationRatePerHour)
+    * (highCeiling ? 1 + rates.highCeilingSurcharge : 1);
+  lines.push({
+    category: 'installation',
+    description: highCeiling ? text.installationHighCeiling : text.installation,
+    amount: money(installation),
+  });
+
+  const subtotal = money(lines.reduce((sum, line) => sum + line.amount, 0));
+  const vat = money(subtotal * rates.vatRate);
+  const total = money(subtotal + vat);
+
+  // The range widens with every measurement the client has not confirmed.
+  const estimates = [dimensions.length, dimensions.width, dimensions.height];
+  const uncertainty = estimates.reduce((sum, e) => sum + (e.corrected ? 0 : 1 - e.confidence), 0) / estimates.length;
+  const spread = rates.rangeSpread + uncertainty * UNCERTAIN_DIMENSIONS_SPREAD + (modulesAssumed ? ASSUMED_SIZES_SPREAD : 0);
+
+  return {
+    currency: rates.currency,
+    modules,
+    modulesAssumed,
+    lines,
+    labourHours,
+    subtotal,
+    vat,
+    total,
+    low: roundTo(total * (1 - spread), 10),
+    high: roundTo(total * (1 + spread), 10),
+  };
+};
@@ -0,0 +1,137 @@
+import { FINISHES, WOOD_SPECIES, pricePerM2 } from '../materials/catalog';
+import { isRecord } from '../../utils/records';
+
+// --- Rate Tables ---
+// Everything the quote engine charges for. The workshop edits these through the API, so the
+// same shape is shared by the client, the engine and the backend. Wood and finish rows are
+// keyed by materials catalog id.
+
+export type WoodRate = {
+  /** Materials catalog id. */
+  id: string;
+  name: string;
+  /** Price of 18 mm solid/veneered board, per m². */
+  pricePerM2: number;
+  /** Multiplier on machining hours; hardwoods take longer than softwoods. */
+  labourFactor: number;
+};
+
+export type FinishRate = {
+  /** Materials catalog id. */
+  id: string;
+  name: string;
+  /** Per m² of board, both faces. */
+  pricePerM2: number;
+  hoursPerM2: number;
+};
+
+export type HardwareOption = {
+  id: string;
+  name: string;
+  /** Fixings, levellers and wall anchors every module needs. */
+  pricePerModule: number;
+  /** Hinges, runners or handles for each door or drawer front. */
+  pricePerFront: number;
+};
+
+export type RateTables = {
+  currency: string;
+  vatRate: number;
+  woods: WoodRate[];
+  finishes: FinishRate[];
+  hardware: HardwareOption[];
+  /** Thin back panels, per m². */
+  backPanelPricePerM2: number;
+  /** Extra board bought to cover offcuts and defects, as a fraction. */
+  wasteFactor: number;
+  labourRatePerHour: number;
+  /** Set-up, assembly and quality check for every module. */
+  baseHoursPerModule: number;
+  hoursPerM2Board: number;
+  hoursPerFront: number;
+  installationRatePerHour: number;
+  installationHoursPerModule: number;
+  /** Minimum installation charge (travel and call-out). */
+  installationMinimum: number;
+  /** Installation surcharge when ceilings are higher than 2.7 m, as a fraction. */
+  highCeilingSurcharge: number;
+  /** Half-width of the price range shown to clients, as a fraction of the total. */
+  rangeSpread: number;
+  updatedAt?: number;
+};
+
+const FINISH_COSTS: Record<string, Pick<FinishRate, 'pricePerM2' | 'hoursPerM2'>> = {
+  oil: { pricePerM2: 9, hoursPerM2: 0.25 },
+  varnish: { pricePerM2: 12, hoursPerM2: 0.35 },
+  lacquer: { pricePerM2: 22, hoursPerM2: 0.6 },
+  'marine-varnish': { pricePerM2: 18, hoursPerM2: 0.5 },
+};
+
+export const DEFAULT_RATE_TABLES: RateTables = {
+  currency: 'EUR',
+  vatRate: 0.21,
+  // Harder species take longer to machine and sand.
+  woods: WOOD_SPECIES.map(wood => ({
+    id: wood.id,
+    name: wood.name,
+    pricePerM2: pricePerM2(wood),
+    labourFactor: Math.round((0.8 + wood.hardness / 20000) * 100) / 100,
+  })),
+  finishes: FINISHES.map(finish => ({ id: finish.id, name: finish.name, ...FINISH_COSTS[finish.id]! })),
+  hardware: [
+    { id: 'standard', name: 'Estándar', pricePerModule: 15, pricePerFront: 12 },
+    { id: 'soft-close', name: 'Cierre suave', pricePerModule: 20, pricePerFront: 28 },
+    { id: 'premium', name: 'Premium sin tiradores', pricePerModule: 30, pricePerFront: 55 },
+  ],
+  backPanelPricePerM2: 14,
+  wasteFactor: 0.15,
+  labourRatePerHour: 32,
+  baseHoursPerModule: 2,
+  hoursPerM2Board: 0.8,
+  hoursPerFront: 0.5,
+  installationRatePerHour: 35,
+  installationHoursPerModule: 1.5,
+  installationMinimum: 120,
+  highCeilingSurcharge: 0.15,
+  rangeSpread: 0.1,
+};
+
+const isNonNegative = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isNamed = (value: unknown): value is Record<string, unknown> & { id: string; name: string } =>
+  isRecord(value) && typeof value.id === 'string' && value.id !== '' && typeof value.name === 'string' && value.name.trim() !== '';
+
+const isWoodRate = (item: unknown): item is WoodRate =>
+  isNamed(item) && isNonNegative(item.pricePerM2) && isNonNegative(item.labourFactor);
+const isFinishRate = (item: unknown): item is FinishRate =>
+  isNamed(item) && isNonNegative(item.pricePerM2) && isNonNegative(item.hoursPerM2);
+const isHardwareOption = (item: unknown): item is HardwareOption =>
+  isNamed(item) && isNonNegative(item.pricePerModule) && isNonNegative(item.pricePerFront);
+
+const isTable = <Row>(list: unknown, isRow: (item: unknown) => item is Row): list is Row[] =>
+  Array.isArray(list) && list.length > 0 && list.every(isRow);
+
+const tableProblem = (key: string, list: unknown) => Array.isArray(list) && list.length > 0
+  ? `La tabla "${key}" tiene filas incompletas.`
+  : `La tabla "${key}" no puede estar vacía.`;
+
+/** Describes the first problem with a rate table submitted for saving, or `null` when it is usable. */
+export const validateRateTables = (rates: unknown): string | null => {
+  if (!isRecord(rates)) return 'Las tarifas no son válidas.';
+  const numbers: (keyof RateTables)[] = [
+    'vatRate', 'backPanelPricePerM2', 'wasteFactor', 'labourRatePerHour', 'baseHoursPerModule', 'hoursPerM2Board',
+    'hoursPerFront', 'installationRatePerHour', 'installationHoursPerModule', 'installationMinimum', 'highCeilingSurcharge', 'rangeSpread',
+  ];
+  const invalid = numbers.find(key => !isNonNegative(rates[key]));
+  if (invalid) return `El valor de "${invalid}" debe ser un número positivo.`;
+  if (Number(rates.vatRate) > 1 || Number(rates.rangeSpread) > 1) return 'El IVA y el margen del rango se expresan como fracción (p. ej. 0.21).';
+
+  const { woods, finishes, hardware } = rates;
+  if (!isTable(woods, isWoodRate)) return tableProblem('woods', woods);
+  if (!isTable(finishes, isFinishRate)) return tableProblem('finishes', finishes);
+  if (!isTable(hardware, isHardwareOption)) return tableProblem('hardware', hardware);
+  const unknownWood = woods.find(row => !WOOD_SPECIES.some(wood => wood.id === row.id));
+  if (unknownWood) return `La madera "${unknownWood.id}" no está en el catálogo de materiales.`;
+  const unknownFinish = finishes.find(row => !FINISHES.some(finish => finish.id === row.id));
+  if (unknownFinish) return `El acabado "${unknownFinish.id}" no está en el catálogo de materiales.`;
+  return null;
+};
@@ -0,0 +1,18 @@
+import { apiRequest, ApiError } from '../http';
+import { DEFAULT_RATE_TABLES, RateTables } from './rateTables';
+
+// --- Rate Tables API ---
+
+/** Current workshop rates. Offline, the bundled defaults keep the quote step usable. */
+export const fetchRateTables = async (signal?: AbortSignal): Promise<RateTables> => {
+  try {
+    return await apiRequest<RateTables>('/pricing/rates', { signal });
+  } catch (e) {
+    if (e instanceof ApiError && e.status === 0) return DEFAULT_RATE_TABLES;
+    throw e;
+  }
+};
+
+/** Only workshop accounts may save; anyone else gets a 403 `ApiError`. */
+export const saveRateTables = (token: string, rates: RateTables): Promise<RateTables> =>
+  apiRequest<RateTables>('/pricing/rates', { method: 'PUT', body: rates, token });
@@ -0,0 +1,213 @@
+import type { AppState, CatDetails, ContactDetails, DesignSuggestion, FinalQuote, FloorPlan, QuoteSelection, RequestFileInfo, RoomDimensions, WorkshopRequestStatus, WorkshopSubmission } from '../../types';
+import type { StaffRole } from '../auth';
+import { hasCatStep, spaceTypeById } from '../spaces/registry';
+import { normalizeFloorPlan } from '../floorPlan/model';
+import { normalizeSuggestions } from '../suggestions/items';
+import { normalizeCats } from '../cats/rules';
+import { messagesFor } from '../i18n/catalogs';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+import { normalizeDimensions } from '../../utils/dimensions';
+import { isRecord } from '../../utils/records';
+
+// --- Workshop Requests ---
+// A quote request carries a complete snapshot of the project, so the workshop can prepare
+// the quote without access to the client's browser storage.
+
+/**
+ * The pipeline every request moves through, in order. Clients see these statuses in their own
+ * language (`request.statuses` in the locale catalogs); staff see new requests as "Nuevo".
+ */
+export const REQUEST_STATUSES: { value: WorkshopRequestStatus; staffLabel: string }[] = [
+  { value: 'received', staffLabel: 'Nuevo' },
+  { value: 'in-review', staffLabel: 'En revisión' },
+  { value: 'quoted', staffLabel: 'Cotizado' },
+  { value: 'accepted', staffLabel: 'Aceptado' },
+  { value: 'in-production', staffLabel: 'En producción' },
+  { value: 'installed', staffLabel: 'Instalado' },
+];
+
+export const staffStatusLabel = (status: WorkshopRequestStatus) =>
+  REQUEST_STATUSES.find(entry => entry.value === status)?.staffLabel ?? status;
+
+/** Requests move one step at a time, forwards or back to undo a mistake. */
+export const adjacentStatuses = (status: WorkshopRequestStatus): WorkshopRequestStatus[] => {
+  const index = REQUEST_STATUSES.findIndex(entry => entry.value === status);
+  return [REQUEST_STATUSES[index - 1], REQUEST_STATUSES[index + 1]].filter(entry => entry !== undefined).map(entry => entry.value);
+};
+
+export const isFinalStatus = (status: WorkshopRequestStatus) => status === REQUEST_STATUSES[REQUEST_STATUSES.length - 1]!.value;
+
+/** A file as sent to the backend, with its contents. */
+export type RequestFile = { name: string; mimeType: string; base64: string };
+
+export type WorkshopRequestSnapshot = {
+  id: string;
+  projectId: string;
+  projectName: string;
+  contact: ContactDetails;
+  spaceType: string | null;
+  photos: RequestFile[];
+  /** The render the client had on screen, or `null` when they kept the original photo. */
+  render: (RequestFile & { prompt: string }) | null;
+  dimensions: RoomDimensions | null;
+  floorPlan: FloorPlan | null;
+  suggestions: DesignSuggestion[];
+  quoteSelection: QuoteSelection | null;
+  cats: CatDetails[];
+};
+
+/** What the backend reports to the client about a request; the snapshot itself is not sent back. */
+export type WorkshopRequest = {
+  id: string;
+  projectId: string;
+  status: WorkshopRequestStatus;
+  submittedAt: number;
+  updatedAt: number;
+  finalQuote: FinalQuote | null;
+};
+
+// --- Back-office ---
+export type StaffMember = { id: string; name: string; role: StaffRole };
+
+export type RequestNote = { id: string; authorName: string; text: string; createdAt: number };
+
+export type StatusChange = { status: WorkshopRequestStatus; changedAt: number; changedBy: string };
+
+/** The snapshot as stored, with its images kept as files. */
+export type StoredSnapshot = Omit<WorkshopRequestSnapshot, 'photos' | 'render'> & {
+  photos: RequestFileInfo[];
+  render: (RequestFileInfo & { prompt: string }) | null;
+};
+
+/** A request as the workshop sees it, with its internal notes and history. */
+export type StaffRequest = WorkshopRequest & {
+  ownerId: string;
+  assignee: StaffMember | null;
+  notes: RequestNote[];
+  history: StatusChange[];
+  snapshot: StoredSnapshot;
+};
+
+export type FinalQuoteInput = Omit<FinalQuote, 'attachment' | 'attachedAt'> & { attachment: RequestFile | null };
+
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const validateFinalQuote = (quote: unknown): string | null => {
+  if (!isRecord(quote)) return 'La cotización no es válida.';
+  if (typeof quote.total !== 'number' || !Number.isFinite(quote.total) || quote.total <= 0) return 'Indica el importe total de la cotización.';
+  if (typeof quote.currency !== 'string' || !/^[A-Z]{3}$/.test(quote.currency)) return 'La moneda no es válida.';
+  if (quote.validUntil !== null && (typeof quote.validUntil !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(quote.validUntil))) {
+    return 'La fecha de validez no es válida.';
+  }
+  if (typeof quote.message !== 'string') return 'El mensaje para el cliente no es válido.';
+  if (quote.attachment !== null) {
+    const { attachment } = quote;
+    if (!isRecord(attachment) || typeof attachment.base64 !== 'string' || !attachment.base64 || typeof attachment.name !== 'string') return 'El documento adjunto no es válido.';
+    if (attachment.mimeType !== 'application/pdf' && !String(attachment.mimeType).startsWith('image/')) return 'Adjunta la cotización en PDF o como imagen.';
+    if (attachment.base64.length * 0.75 > MAX_ATTACHMENT_BYTES) return 'El documento adjunto no puede superar los 10 MB.';
+  }
+  return null;
+};
+
+export const emptyContact = (): ContactDetails => ({ name: '', email: '', phone: '', notes: '' });
+
+const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+/** What is wrong with the contact details; the catalogs word each problem (`quote.contactErrors`). */
+export type ContactDetailsProblem = 'missing' | 'nameRequired' | 'emailInvalid' | 'phoneInvalid' | 'notesInvalid';
+
+export const validateContact = (contact: unknown): ContactDetailsProblem | null => {
+  if (!isRecord(contact)) return 'missing';
+  if (typeof contact.name !== 'string' || !contact.name.trim()) return 'nameRequired';
+  if (typeof contact.email !== 'string' || !isValidEmail(contact.email.trim())) return 'emailInvalid';
+  if (typeof contact.phone !== 'string' || (contact.phone.trim() && !/^\+?[\d\s().-]{6,20}$/.test(contact.phone.trim()))) {
+    return 'phoneInvalid';
+  }
+  if (typeof contact.notes !== 'string') return 'notesInvalid';
+  return null;
+};
+
+const REQUEST_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Request ids are UUIDs from `crypto.randomUUID`; the backend names the request's folder after them. */
+export const isRequestId = (id: unknown): id is string => typeof id === 'string' && REQUEST_ID_PATTERN.test(id);
+
+const isImage = (image: unknown) => isRecord(image) && typeof image.base64 === 'string' && image.base64 !== '' && typeof image.mimeType === 'string';
+
+export const validateRequestSnapshot = (snapshot: unknown): string | null => {
+  if (!isRecord(snapshot)) return 'La solicitud no es válida.';
+  if (!isRequestId(snapshot.id)) return 'El identificador de la solicitud no es válido.';
+  if (typeof snapshot.projectId !== 'string' || !snapshot.projectId) return 'La solicitud no indica su proyecto.';
+  const contactProblem = validateContact(snapshot.contact);
+  if (contactProblem) return messagesFor(DEFAULT_LOCALE).quote.contactErrors[contactProblem];
+  if (!Array.isArray(snapshot.photos) || snapshot.photos.length === 0 || !snapshot.photos.every(isImage)) {
+    return 'La solicitud debe incluir las fotos del espacio.';
+  }
+  if (snapshot.render !== null && !isImage(snapshot.render)) return 'La imagen del diseño no es válida.';
+  if (!Array.isArray(snapshot.suggestions) || snapshot.suggestions.length === 0) return 'La solicitud debe incluir las propuestas de diseño.';
+  if (!Array.isArray(snapshot.cats)) return 'Los datos de los gatos no son válidos.';
+  return null;
+};
+
+const text = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const toRequestFile = (image: Record<string, unknown>): RequestFile =>
+  ({ name: text(image.name), mimeType: text(image.mimeType), base64: text(image.base64) });
+
+const normalizeQuoteSelection = (raw: unknown, suggestions: DesignSuggestion[]): QuoteSelection | null => {
+  if (!isRecord(raw)) return null;
+  const { suggestionIndex, woodId, finishId, hardwareId } = raw;
+  if (typeof suggestionIndex !== 'number' || !Number.isInteger(suggestionIndex) || suggestionIndex < 0 || suggestionIndex >= suggestions.length) return null;
+  if (typeof woodId !== 'string' || typeof finishId !== 'string' || typeof hardwareId !== 'string') return null;
+  return { suggestionIndex, woodId, finishId, hardwareId };
+};
+
+/**
+ * Rebuilds a snapshot that passed `validateRequestSnapshot` from the fields the workshop reads,
+ * each narrowed or normalized, so unknown keys and malformed parts never reach the back-office.
+ */
+export const normalizeRequestSnapshot = (snapshot: unknown): WorkshopRequestSnapshot => {
+  const fields = isRecord(snapshot) ? snapshot : {};
+  const contact = isRecord(fields.contact) ? fields.contact : {};
+  const spaceType = typeof fields.spaceType === 'string' && spaceTypeById(fields.spaceType) ? fields.spaceType : null;
+  const dimensions = fields.dimensions == null ? null : normalizeDimensions(fields.dimensions);
+  const suggestions = normalizeSuggestions(fields.suggestions, spaceType, dimensions ?? normalizeDimensions(null));
+  const render = isRecord(fields.render) && isImage(fields.render) ? fields.render : null;
+  return {
+    id: text(fields.id),
+    projectId: text(fields.projectId),
+    projectName: text(fields.projectName).trim(),
+    contact: { name: text(contact.name), email: text(contact.email), phone: text(contact.phone), notes: text(contact.notes) },
+    spaceType,
+    photos: (Array.isArray(fields.photos) ? fields.photos : []).filter(isRecord).filter(isImage).map(toRequestFile),
+    render: render && { ...toRequestFile(render), prompt: text(render.prompt) },
+    dimensions,
+    floorPlan: normalizeFloorPlan(fields.floorPlan),
+    suggestions,
+    quoteSelection: normalizeQuoteSelection(fields.quoteSelection, suggestions),
+    cats: normalizeCats(fields.cats),
+  };
+};
+
+/** Snapshot of the journey in `state` for the given submission. */
+export const buildRequestSnapshot = (state: AppState, submission: WorkshopSubmission): WorkshopRequestSnapshot => {
+  const render = state.renderVersions.find(version => version.id === state.currentVersionId) ?? null;
+  return {
+    id: submission.requestId,
+    projectId: state.projectId ?? submission.requestId,
+    projectName: state.projectName,
+    contact: submission.contact,
+    spaceType: state.selectedSpace,
+    photos: state.uploadedImages.map((file, index) => ({
+      name: file.name,
+      mimeType: file.type || 'image/jpeg',
+      base64: state.uploadedImageBase64s[index] ?? '',
+    })),
+    render: render && { name: `${render.id}.${render.mimeType.split('/')[1] ?? 'png'}`, mimeType: render.mimeType, base64: render.imageBase64, prompt: render.prompt },
+    dimensions: state.aiResponse?.dimensions ?? null,
+    floorPlan: state.floorPlan,
+    suggestions: state.aiResponse?.suggestions ?? [],
+    quoteSelection: state.quoteSelection,
+    cats: hasCatStep(state.selectedSpace) ? state.cats : [],
+  };
+};
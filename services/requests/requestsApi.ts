@@ -0,0 +1,28 @@
+import { apiRequest, ApiError } from '../http';
+import type { RequestFile, WorkshopRequest, WorkshopRequestSnapshot } from './model';
+
+// --- Workshop Requests API ---
+
+/** Submitting the same snapshot id twice returns the request created the first time. */
+export const submitWorkshopRequest = (token: string, snapshot: WorkshopRequestSnapshot): Promise<WorkshopRequest> =>
+  apiRequest<WorkshopRequest>('/requests', { method: 'POST', body: snapshot, token });
+
+export const fetchWorkshopRequest = (token: string, id: string, signal?: AbortSignal): Promise<WorkshopRequest> =>
+  apiRequest<WorkshopRequest>(`/requests/${encodeURIComponent(id)}`, { token, signal });
+
+/** Photos, render and quote document of a request. Clients can only fetch the quote document. */
+export const fetchRequestFile = (token: string, id: string, file: string, signal?: AbortSignal): Promise<RequestFile> =>
+  apiRequest<RequestFile>(`/requests/${encodeURIComponent(id)}/files/${encodeURIComponent(file)}`, { token, signal });
+
+/** How often an open project asks for the status of its request. */
+export const STATUS_REFRESH_MS = 60_000;
+
+const RETRY_BASE_MS = 5_000;
+const RETRY_MAX_MS = 5 * 60_000;
+
+/** Offline, timeouts, rate limits and server errors may pass; other rejections will not change on their own. */
+export const isRetryable = (e: unknown) =>
+  !(e instanceof ApiError) || e.status === 0 || e.status === 408 || e.status === 429 || e.status >= 500;
+
+/** Exponential backoff after `attempts` failed attempts, capped at five minutes. */
+export const retryDelay = (attempts: number) => Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
@@ -0,0 +1,24 @@
+import { apiRequest } from '../http';
+import type { WorkshopRequestStatus } from '../../types';
+import type { FinalQuoteInput, StaffMember, StaffRequest } from './model';
+
+// --- Back-office API ---
+// Staff-only endpoints; client accounts get a 403 `ApiError`.
+
+export const listStaffRequests = (token: string, signal?: AbortSignal): Promise<StaffRequest[]> =>
+  apiRequest<StaffRequest[]>('/staff/requests', { token, signal });
+
+export const fetchStaffRequest = (token: string, id: string, signal?: AbortSignal): Promise<StaffRequest> =>
+  apiRequest<StaffRequest>(`/staff/requests/${encodeURIComponent(id)}`, { token, signal });
+
+export const listStaffMembers = (token: string, signal?: AbortSignal): Promise<StaffMember[]> =>
+  apiRequest<StaffMember[]>('/staff/members', { token, signal });
+
+export const updateStaffRequest = (token: string, id: string, changes: { status?: WorkshopRequestStatus; assigneeId?: string | null }): Promise<StaffRequest> =>
+  apiRequest<StaffRequest>(`/staff/requests/${encodeURIComponent(id)}`, { method: 'PATCH', body: changes, token });
+
+export const addRequestNote = (token: string, id: string, text: string): Promise<StaffRequest> =>
+  apiRequest<StaffRequest>(`/staff/requests/${encodeURIComponent(id)}/notes`, { method: 'POST', body: { text }, token });
+
+export const attachFinalQuote = (token: string, id: string, quote: FinalQuoteInput): Promise<StaffRequest> =>
+  apiRequest<StaffRequest>(`/staff/requests/${encodeURIComponent(id)}/quote`, { method: 'PUT', body: quote, token });
@@ -0,0 +1,127 @@
+import type { AppState, PublicPage } from '../types';
+import { studioSteps, StudioStep } from './spaces/registry';
+
+// --- Routes ---
+// AppState stays the single source of truth; these helpers translate it to and from the URL
+// so every page and wizard step can be bookmarked, shared and reached with back/forward.
+
+export const NOT_FOUND_PAGE: PublicPage = 'not-found';
+const PROJECT_PARAM = 'proyecto';
+const REQUEST_PARAM = 'solicitud';
+
+const PUBLIC_PATHS: Record<string, string> = {
+  home: '/',
+  services: '/servicios',
+  about: '/nosotros',
+  contact: '/contacto',
+};
+
+const STUDIO_STEP_SLUGS: Record<StudioStep, string> = {
+  select: 'espacio',
+  cats: 'gatos',
+  upload: 'fotos',
+  design: 'diseno',
+  quote: 'cotizacion',
+  confirm: 'confirmacion',
+};
+
+export type ParsedRoute =
+  | { page: 'public'; publicPage: PublicPage }
+  | { page: 'auth' }
+  | { page: 'projects' }
+  | { page: 'workshop' }
+  | { page: 'backoffice'; requestId: string | null }
+  | { page: 'private'; stepSlug: string; projectId: string | null };
+
+const studioSlugs = (state: Pick<AppState, 'selectedSpace'>) => studioSteps(state.selectedSpace).map(step => STUDIO_STEP_SLUGS[step]);
+
+/** Path of a public page such as `'services/salas'`, for use in link hrefs. */
+export const publicPath = (page: PublicPage): string => {
+  if (page.startsWith('services/')) return `${PUBLIC_PATHS.services}/${page.split('/')[1]}`;
+  return PUBLIC_PATHS[page] ?? PUBLIC_PATHS.home;
+};
+
+/** The URL that represents the given state, or `null` when the current URL should be kept (404s). */
+export const pathForState = (state: AppState): string | null => {
+  switch (state.page) {
+    case 'public':
+      return state.publicPage === NOT_FOUND_PAGE ? null : publicPath(state.publicPage);
+    case 'auth':
+      return '/acceder';
+    case 'projects':
+      return '/proyectos';
+    case 'workshop':
+      return '/taller';
+    case 'backoffice':
+      return `/taller/solicitudes${state.backOfficeRequestId ? `?${REQUEST_PARAM}=${encodeURIComponent(state.backOfficeRequestId)}` : ''}`;
+    case 'private': {
+      const slug = studioSlugs(state)[state.designStep - 1] ?? STUDIO_STEP_SLUGS.select;
+      const query = state.projectId ? `?${PROJECT_PARAM}=${encodeURIComponent(state.projectId)}` : '';
+      return `/estudio/${slug}${query}`;
+    }
+  }
+};
+
+export const parseLocation = ({ pathname, search }: { pathname: string; search: string }): ParsedRoute => {
+  let segments: string[];
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    // A malformed escape such as `%E0` in a hand-typed or truncated link.
+    return { page: 'public', publicPage: NOT_FOUND_PAGE };
+  }
+  const [first, second, ...rest] = segments;
+  if (rest.length > 0) return { page: 'public', publicPage: NOT_FOUND_PAGE };
+
+  if (!first && !second) return { page: 'public', publicPage: 'home' };
+  if (first === 'servicios') return { page: 'public', publicPage: second ? `services/${second}` : 'services' };
+  if (second) {
+    if (first === 'estudio') {
+      return { page: 'private', stepSlug: second, projectId: new URLSearchParams(search).get(PROJECT_PARAM) };
+    }
+    if (first === 'taller' && second === 'solicitudes') {
+      return { page: 'backoffice', requestId: new URLSearchParams(search).get(REQUEST_PARAM) };
+    }
+    return { page: 'public', publicPage: NOT_FOUND_PAGE };
+  }
+
+  switch (first) {
+    case 'nosotros': return { page: 'public', publicPage: 'about' };
+    case 'contacto': return { page: 'public', publicPage: 'contact' };
+    case 'acceder': return { page: 'auth' };
+    case 'proyectos': return { page: 'projects' };
+    case 'taller': return { page: 'workshop' };
+    case 'estudio': return { page: 'private', stepSlug: STUDIO_STEP_SLUGS.select, projectId: null };
+    default: return { page: 'public', publicPage: NOT_FOUND_PAGE };
+  }
+};
+
+/**
+ * Wizard step for a URL slug, clamped to what the journey can actually show: no step past
+ * space selection without a space, and no design or confirmation step before an analysis.
+ */
+export const resolveStudioStep = (state: Pick<AppState, 'selectedSpace' | 'aiResponse'>, stepSlug: string): number => {
+  const slugs = studioSlugs(state);
+  const requested = slugs.indexOf(stepSlug) + 1 || 1;
+  if (!state.selectedSpace) return 1;
+  const uploadStep = slugs.indexOf(STUDIO_STEP_SLUGS.upload) + 1;
+  return state.aiResponse ? requested : Math.min(requested, uploadStep);
+};
+
+/** State changes needed to show a parsed route on top of the current journey. */
+export const applyRoute = (state: AppState, route: ParsedRoute): AppState => {
+  switch (route.page) {
+    case 'public':
+      return { ...state, page: 'public', publicPage: route.publicPage };
+    case 'auth':
+      return { ...state, page: state.session ? 'projects' : 'auth' };
+    case 'projects':
+      return { ...state, page: 'projects' };
+    case 'workshop':
+      return { ...state, page: 'workshop' };
+    case 'backoffice':
+      return { ...state, page: 'backoffice', backOfficeRequestId: route.requestId };
+    case 'private':
+      return { ...state, page: 'private', designStep: resolveStudioStep(state, route.stepSlug) };
+  }
+};
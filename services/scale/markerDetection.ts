@@ -0,0 +1,280 @@
+import { MARKER_CODES, MARKER_GRID, MARKER_POSITIONS_M, MARKER_SIZE_M, markerBits } from './referenceTarget';
+
+// --- Types ---
+export type Point = { x: number; y: number };
+
+export type DetectedMarker = {
+  id: number;
+  /** Corners in image pixels, clockwise from the marker's own top-left. */
+  corners: [Point, Point, Point, Point];
+  centre: Point;
+  sidePx: number;
+};
+
+export type ScaleStatus = 'ok' | 'partial' | 'oblique' | 'missing';
+
+export type ScaleMeasurement = {
+  status: ScaleStatus;
+  markersFound: number;
+  /** Pixels per metre on the reference sheet, in original image pixels. */
+  pixelsPerMetre: number | null;
+  /** Ratio between the most and least compressed directions of the sheet (1 = seen head-on). */
+  foreshortening: number | null;
+  imageWidth: number;
+  imageHeight: number;
+};
+
+type GrayImage = { width: number; height: number; data: Uint8ClampedArray };
+
+// --- Tuning ---
+const MAX_ANALYSIS_SIDE = 1280;
+const THRESHOLD_RATIO = 0.82;
+const MIN_MARKER_PIXELS = 64;
+const MAX_BIT_ERRORS = 2;
+const MAX_BORDER_ERRORS = 2;
+/** Below this ratio the sheet is seen too edge-on for the scale to be trusted. */
+const MIN_FORESHORTENING = 0.35;
+
+// --- Image Preparation ---
+const toGray = (image: ImageData): GrayImage => {
+  const { width, height, data } = image;
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = (data[p] * 299 + data[p + 1] * 587 + data[p + 2] * 114) / 1000;
+  }
+  return { width, height, data: gray };
+};
+
+/** Marks pixels noticeably darker than their neighbourhood, using an integral image. */
+const adaptiveThreshold = ({ width, height, data }: GrayImage): Uint8Array => {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+  const radius = Math.max(15, Math.floor(Math.min(width, height) / 16));
+  const dark = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      dark[y * width + x] = data[y * width + x] < mean * THRESHOLD_RATIO ? 1 : 0;
+    }
+  }
+  return dark;
+};
+
+// --- Candidate Quads ---
+type DarkRegion = {
+  pixels: number;
+  minX: Point; maxX: Point; minY: Point; maxY: Point;
+  minSum: Point; maxSum: Point; minDiff: Point; maxDiff: Point;
+};
+
+/** Dark connected components (4-connectivity), keeping only the extreme points we need. */
+const findDarkRegions = (dark: Uint8Array, width: number, height: number): DarkRegion[] => {
+  const visited = new Uint8Array(dark.length);
+  const stack = new Int32Array(dark.length);
+  const regions: DarkRegion[] = [];
+  const maxPixels = dark.length * 0.05;
+
+  for (let start = 0; start < dark.length; start++) {
+    if (!dark[start] || visited[start]) continue;
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+    const sx = start % width;
+    const sy = (start - sx) / width;
+    const first = { x: sx, y: sy };
+    const blob: DarkRegion = { pixels: 0, minX: first, maxX: first, minY: first, maxY: first, minSum: first, maxSum: first, minDiff: first, maxDiff: first };
+
+    while (top > 0) {
+      const index = stack[--top];
+      const x = index % width;
+      const y = (index - x) / width;
+      blob.pixels++;
+      if (x < blob.minX.x) blob.minX = { x, y };
+      if (x > blob.maxX.x) blob.maxX = { x, y };
+      if (y < blob.minY.y) blob.minY = { x, y };
+      if (y > blob.maxY.y) blob.maxY = { x, y };
+      if (x + y < blob.minSum.x + blob.minSum.y) blob.minSum = { x, y };
+      if (x + y > blob.maxSum.x + blob.maxSum.y) blob.maxSum = { x, y };
+      if (x - y < blob.minDiff.x - blob.minDiff.y) blob.minDiff = { x, y };
+      if (x - y > blob.maxDiff.x - blob.maxDiff.y) blob.maxDiff = { x, y };
+
+      if (x > 0 && dark[index - 1] && !visited[index - 1]) { visited[index - 1] = 1; stack[top++] = index - 1; }
+      if (x < width - 1 && dark[index + 1] && !visited[index + 1]) { visited[index + 1] = 1; stack[top++] = index + 1; }
+      if (y > 0 && dark[index - width] && !visited[index - width]) { visited[index - width] = 1; stack[top++] = index - width; }
+      if (y < height - 1 && dark[index + width] && !visited[index + width]) { visited[index + width] = 1; stack[top++] = index + width; }
+    }
+    if (blob.pixels >= MIN_MARKER_PIXELS && blob.pixels <= maxPixels) regions.push(blob);
+  }
+  return regions;
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const quadArea = (q: Point[]) =>
+  Math.abs(q.reduce((sum, p, i) => {
+    const n = q[(i + 1) % q.length];
+    return sum + p.x * n.y - n.x * p.y;
+  }, 0)) / 2;
+
+/**
+ * The blob's outer corners. Diagonal extremes work for upright squares and axis extremes for
+ * squares rotated near 45°; whichever encloses more area is the better fit.
+ */
+const blobCorners = (blob: DarkRegion): [Point, Point, Point, Point] => {
+  const diagonal: [Point, Point, Point, Point] = [blob.minSum, blob.maxDiff, blob.maxSum, blob.minDiff];
+  const axis: [Point, Point, Point, Point] = [blob.minY, blob.maxX, blob.maxY, blob.minX];
+  return quadArea(axis) > quadArea(diagonal) ? axis : diagonal;
+};
+
+const bilinear = (q: Point[], u: number, v: number): Point => {
+  const top = { x: q[0].x + (q[1].x - q[0].x) * u, y: q[0].y + (q[1].y - q[0].y) * u };
+  const bottom = { x: q[3].x + (q[2].x - q[3].x) * u, y: q[3].y + (q[2].y - q[3].y) * u };
+  return { x: top.x + (bottom.x - top.x) * v, y: top.y + (bottom.y - top.y) * v };
+};
+
+/** Reads the 6×6 grid inside a quad; returns null when the black border ring is not there. */
+const readGrid = (dark: Uint8Array, width: number, height: number, quad: Point[]): number[] | null => {
+  const cells: number[] = [];
+  let borderErrors = 0;
+  for (let row = 0; row < MARKER_GRID; row++) {
+    for (let col = 0; col < MARKER_GRID; col++) {
+      const p = bilinear(quad, (col + 0.5) / MARKER_GRID, (row + 0.5) / MARKER_GRID);
+      let votes = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const x = Math.min(width - 1, Math.max(0, Math.round(p.x) + dx));
+          const y = Math.min(height - 1, Math.max(0, Math.round(p.y) + dy));
+          votes += dark[y * width + x];
+        }
+      }
+      const bit = votes >= 5 ? 1 : 0;
+      const isBorder = row === 0 || col === 0 || row === MARKER_GRID - 1 || col === MARKER_GRID - 1;
+      if (isBorder) {
+        if (!bit && ++borderErrors > MAX_BORDER_ERRORS) return null;
+      } else {
+        cells.push(bit);
+      }
+    }
+  }
+  return cells;
+};
+
+const rotateBits = (bits: number[]) =>
+  Array.from({ length: 16 }, (_, i) => {
+    const row = Math.floor(i / 4);
+    const col = i % 4;
+    return bits[(3 - col) * 4 + row];
+  });
+
+/** Identifies a 4×4 code against the dictionary, returning the id and how many quarter turns it was read at. */
+const identify = (bits: number[]): { id: number; turns: number } | null => {
+  let best: { id: number; turns: number; errors: number } | null = null;
+  let rotated = bits;
+  for (let turns = 0; turns < 4; turns++) {
+    for (let id = 0; id < MARKER_CODES.length; id++) {
+      const expected = markerBits(id);
+      const errors = expected.reduce((n, bit, i) => n + (bit !== rotated[i] ? 1 : 0), 0);
+      if (errors <= MAX_BIT_ERRORS && (!best || errors < best.errors)) best = { id, turns, errors };
+    }
+    rotated = rotateBits(rotated);
+  }
+  return best && { id: best.id, turns: best.turns };
+};
+
+export const detectMarkers = (image: ImageData): DetectedMarker[] => {
+  const gray = toGray(image);
+  const { width, height } = gray;
+  const dark = adaptiveThreshold(gray);
+  const found = new Map<number, DetectedMarker>();
+
+  for (const blob of findDarkRegions(dark, width, height)) {
+    const corners = blobCorners(blob);
+    const sides = corners.map((c, i) => distance(c, corners[(i + 1) % 4]));
+    const shortest = Math.min(...sides);
+    if (shortest < MARKER_GRID * 2) continue;
+    const area = quadArea(corners);
+    // The border ring alone covers 5/9 of the marker; anything much sparser is not a marker.
+    if (blob.pixels < area * 0.45 || blob.pixels > area * 1.05) continue;
+
+    const bits = readGrid(dark, width, height, corners);
+    const match = bits && identify(bits);
+    if (!match) continue;
+
+    // Re-order the corners so index 0 is the marker's own top-left.
+    const ordered = [0, 1, 2, 3].map(i => corners[(i + 4 - match.turns) % 4]) as DetectedMarker['corners'];
+    const marker: DetectedMarker = {
+      id: match.id,
+      corners: ordered,
+      centre: { x: corners.reduce((s, c) => s + c.x, 0) / 4, y: corners.reduce((s, c) => s + c.y, 0) / 4 },
+      sidePx: sides.reduce((s, d) => s + d, 0) / 4,
+    };
+    const existing = found.get(marker.id);
+    if (!existing || existing.sidePx < marker.sidePx) found.set(marker.id, marker);
+  }
+  return [...found.values()];
+};
+
+// --- Scale ---
+/**
+ * Turns the detected markers into a pixels-per-metre figure. With two or more markers the
+ * distances between their centres are used; a lone marker falls back to its own side length.
+ * Under perspective the sheet is compressed along one direction, so the least compressed
+ * direction gives the scale and the ratio between both measures the obliqueness.
+ */
+export const measureScale = (markers: DetectedMarker[], imageWidth: number, imageHeight: number, pixelRatio = 1): ScaleMeasurement => {
+  const base = { markersFound: markers.length, imageWidth, imageHeight };
+  if (markers.length === 0) {
+    return { ...base, status: 'missing', pixelsPerMetre: null, foreshortening: null };
+  }
+
+  const estimates: number[] = [];
+  if (markers.length >= 2) {
+    for (let i = 0; i < markers.length; i++) {
+      for (let j = i + 1; j < markers.length; j++) {
+        const [ax, ay] = MARKER_POSITIONS_M[markers[i].id];
+        const [bx, by] = MARKER_POSITIONS_M[markers[j].id];
+        estimates.push(distance(markers[i].centre, markers[j].centre) / Math.hypot(ax - bx, ay - by));
+      }
+    }
+  } else {
+    const sides = markers[0].corners.map((c, i, all) => distance(c, all[(i + 1) % 4]));
+    estimates.push(Math.max(...sides) / MARKER_SIZE_M, Math.min(...sides) / MARKER_SIZE_M);
+  }
+
+  const pixelsPerMetre = Math.max(...estimates) * pixelRatio;
+  const foreshortening = Math.min(...estimates) / Math.max(...estimates);
+  const status: ScaleStatus = foreshortening < MIN_FORESHORTENING
+    ? 'oblique'
+    : markers.length < 2 ? 'partial' : 'ok';
+  return { ...base, status, pixelsPerMetre, foreshortening };
+};
+
+/** Finds the printed reference sheet in a photo and measures its scale, entirely in the browser. */
+export const measurePhotoScale = async (file: Blob): Promise<ScaleMeasurement> => {
+  const bitmap = await createImageBitmap(file);
+  const ratio = Math.min(1, MAX_ANALYSIS_SIDE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * ratio);
+  const height = Math.round(bitmap.height * ratio);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D no disponible.');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const markers = detectMarkers(ctx.getImageData(0, 0, width, height));
+  return measureScale(markers, Math.round(width / ratio), Math.round(height / ratio), 1 / ratio);
+};
@@ -0,0 +1,73 @@
+import type { Messages } from '../i18n/catalogs';
+
+// --- Printable Reference Target ---
+// Four fiducial markers printed at known positions. Each marker is a 6×6 grid: a black
+// border ring around a 4×4 code that identifies the marker and its rotation. The same
+// definitions drive the printable and the detector, so they can never drift apart.
+
+/** Inner 4×4 codes, row-major, 1 = black. Every pair differs in ≥7 bits under any rotation. */
+export const MARKER_CODES = [
+  0b0001100111100010,
+  0b0000111101010111,
+  0b1101011011000100,
+  0b1001001010010011,
+];
+
+export const MARKER_GRID = 6;
+/** Printed side of each marker, in metres. */
+export const MARKER_SIZE_M = 0.04;
+/** Distance between the centres of adjacent markers, in metres. */
+export const MARKER_SPACING_M = 0.15;
+
+/** Marker centres on the sheet, in metres: top-left, top-right, bottom-right, bottom-left. */
+export const MARKER_POSITIONS_M: [number, number][] = [
+  [0, 0],
+  [MARKER_SPACING_M, 0],
+  [MARKER_SPACING_M, MARKER_SPACING_M],
+  [0, MARKER_SPACING_M],
+];
+
+export const markerBits = (id: number): number[] =>
+  Array.from({ length: 16 }, (_, i) => (MARKER_CODES[id] >> (15 - i)) & 1);
+
+const markerSVG = (id: number, centreX: number, centreY: number) => {
+  const size = MARKER_SIZE_M * 1000;
+  const cell = size / MARKER_GRID;
+  const left = centreX - size / 2;
+  const top = centreY - size / 2;
+  const bits = markerBits(id);
+  let cells = `<rect x="${left}" y="${top}" width="${size}" height="${size}" fill="#000"/>`;
+  bits.forEach((bit, i) => {
+    if (bit) return;
+    const row = Math.floor(i / 4) + 1;
+    const col = (i % 4) + 1;
+    cells += `<rect x="${left + col * cell}" y="${top + row * cell}" width="${cell}" height="${cell}" fill="#fff"/>`;
+  });
+  return cells;
+};
+
+/** A4 sheet in millimetres; print at 100% scale. `text` is printed in the client's language. */
+export const referenceTargetSVG = (text: Messages['upload']['sheet']): string => {
+  const pageWidth = 210;
+  const pageHeight = 297;
+  const spacing = MARKER_SPACING_M * 1000;
+  const originX = (pageWidth - spacing) / 2;
+  const originY = 70;
+  const markers = MARKER_POSITIONS_M
+    .map(([x, y], id) => markerSVG(id, originX + x * 1000, originY + y * 1000))
+    .join('');
+  const rulerY = originY + spacing + 45;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${pageWidth}mm" height="${pageHeight}mm" viewBox="0 0 ${pageWidth} ${pageHeight}">`
+    + `<rect width="${pageWidth}" height="${pageHeight}" fill="#fff"/>`
+    + `<text x="${pageWidth / 2}" y="25" font-family="Georgia, serif" font-size="9" text-anchor="middle">${text.title}</text>`
+    + `<text x="${pageWidth / 2}" y="35" font-family="sans-serif" font-size="4.5" text-anchor="middle">${text.print}</text>`
+    + markers
+    + `<line x1="${pageWidth / 2 - 50}" y1="${rulerY}" x2="${pageWidth / 2 + 50}" y2="${rulerY}" stroke="#000" stroke-width="0.5"/>`
+    + Array.from({ length: 11 }, (_, i) => `<line x1="${pageWidth / 2 - 50 + i * 10}" y1="${rulerY - 3}" x2="${pageWidth / 2 - 50 + i * 10}" y2="${rulerY}" stroke="#000" stroke-width="0.4"/>`).join('')
+    + `<text x="${pageWidth / 2}" y="${rulerY + 8}" font-family="sans-serif" font-size="4.5" text-anchor="middle">${text.ruler}</text>`
+    + `</svg>`;
+};
+
+export const referenceTargetURL = (text: Messages['upload']['sheet']): string =>
+  `data:image/svg+xml;charset=utf-8,${encodeURIComponent(referenceTargetSVG(text))}`;
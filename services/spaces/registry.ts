@@ -0,0 +1,160 @@
+import type { Locale, ServiceExample } from '../../types';
+
+// --- Space Types ---
+// Every space the studio designs for, in the order the site lists them. Service pages, the
+// space picker, the wizard steps and the prompts are all generated from this list, so a new
+// space is a new entry here plus its texts in the locale catalogs (`spaces` and `services.pages`).
+
+/** Wizard steps a space can add between choosing it and uploading photos. */
+export type ExtraStudioStep = 'cats';
+
+export type StudioStep = 'select' | ExtraStudioStep | 'upload' | 'design' | 'quote' | 'confirm';
+
+export type SpaceType = {
+  /** Id stored in projects and requests; also the key of its name in the `spaces` catalog. */
+  id: string;
+  /** Service page under /servicios, and the key of its texts in `services.pages`. */
+  slug: string;
+  /** `d` attributes of the 24×24 line icon's paths. */
+  icon: string[];
+  theme: {
+    color: string;
+    /** Background the service page header fades from. */
+    tint: string;
+  };
+  /** Drawn in the accent colour in the space picker. */
+  featured?: boolean;
+  /** Photos and featured woods of the service page's examples, in the order of their texts. */
+  examples: Pick<ServiceExample, 'imgSrc' | 'woodId'>[];
+  /** Drawing bundled under `public/`, for when none of the photos loads. */
+  illustration: string;
+  /** Whether the photos are checked to show this kind of room before the analysis. */
+  validatePhotos: boolean;
+  /** Water splashes or steam: only moisture-resistant materials are offered. */
+  wet?: boolean;
+  extraSteps: ExtraStudioStep[];
+  /** Extra guidance for the analysis, per language. */
+  promptHints?: Partial<Record<Locale, string>>;
+};
+
+export const SPACE_TYPES: SpaceType[] = [
+  {
+    id: 'Sala',
+    slug: 'salas',
+    icon: ['M20 9V6a2 2 0 0 0-2-2H6a2 2 0 0 0-2 2v3', 'M2 11h20', 'M4 11v5a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2v-5'],
+    theme: { color: '#A1887F', tint: '#fdfcfb' },
+    examples: [
+      { imgSrc: 'https://images.unsplash.com/photo-1616046229478-9901c5536a45?q=80&w=2070&auto=format&fit=crop' },
+      { imgSrc: 'https://images.unsplash.com/photo-1615875605825-5eb9bb5c4245?q=80&w=1964&auto=format&fit=crop', woodId: 'walnut' },
+      { imgSrc: 'https://images.unsplash.com/photo-1594455734310-541147d3b514?q=80&w=1974&auto=format&fit=crop', woodId: 'maple' },
+    ],
+    illustration: '/spaces/salas.svg',
+    // Living rooms are often open plan, so their photos rarely look like a single room.
+    validatePhotos: false,
+    extraSteps: [],
+  },
+  {
+    id: 'Habitación',
+    slug: 'habitacion',
+    icon: ['M2 12h20v6H2z', 'M2 10V6a2 2 0 0 1 2-2h16a2 2 0 0 1 2 2v4H2z', 'M6 8v2', 'M18 8v2'],
+    theme: { color: '#BCAAA4', tint: '#fdfcfb' },
+    examples: [
+      { imgSrc: 'https://images.unsplash.com/photo-1616627561957-334259b5b6a7?q=80&w=1964&auto=format&fit=crop' },
+      { imgSrc: 'https://images.unsplash.com/photo-1595526114035-0d45ed16433d?q=80&w=1974&auto=format&fit=crop' },
+      { imgSrc: 'https://images.unsplash.com/photo-1565530493233-a3a7b62a3651?q=80&w=1974&auto=format&fit=crop' },
+    ],
+    illustration: '/spaces/habitacion.svg',
+    validatePhotos: true,
+    extraSteps: [],
+    promptHints: {
+      es: 'Deja al menos 60 cm de paso libre alrededor de la cama y prioriza el almacenamiento cerrado.',
+      en: 'Leave at least 60 cm of clear passage around the bed and favour closed storage.',
+      pt: 'Deixa pelo menos 60 cm de passagem livre à volta da cama e dá prioridade ao arrumo fechado.',
+    },
+  },
+  {
+    id: 'Cocina',
+    slug: 'cocinas',
+    icon: ['M21 14H3v6a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-6z', 'M3 14V4a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2v10', 'M15 8v2', 'M9 8v2'],
+    theme: { color: '#FF8A65', tint: '#fff8f5' },
+    examples: [
+      { imgSrc: 'https://images.unsplash.com/photo-1579824218331-ea85d37a1599?q=80&w=1935&auto=format&fit=crop', woodId: 'oak' },
+      { imgSrc: '/spaces/cocinas.svg' },
+      { imgSrc: 'https://images.unsplash.com/photo-1594393049229-9b1274316b99?q=80&w=1974&auto=format&fit=crop' },
+    ],
+    illustration: '/spaces/cocinas.svg',
+    validatePhotos: true,
+    extraSteps: [],
+    promptHints: {
+      es: 'Respeta la posición de fregadero, cocina y nevera, y mantén libre el triángulo de trabajo entre ellos.',
+      en: 'Keep the sink, hob and fridge where they are, and keep the work triangle between them clear.',
+      pt: 'Respeita a posição do lava-loiça, placa e frigorífico, e mantém livre o triângulo de trabalho entre eles.',
+    },
+  },
+  {
+    id: 'Baño',
+    slug: 'banos',
+    icon: ['M21 10H3v8a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-8z', 'M5 10V7a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2v3', 'M7 15v-3'],
+    theme: { color: '#4DB6AC', tint: '#f0faf9' },
+    examples: [
+      { imgSrc: 'https://images.unsplash.com/photo-1625621422479-11029c3139ae?q=80&w=1965&auto=format&fit=crop', woodId: 'teak' },
+      { imgSrc: 'https://images.unsplash.com/photo-1616238268423-a8321773a45d?q=80&w=1964&auto=format&fit=crop' },
+      { imgSrc: 'https://images.unsplash.com/photo-1593902341259-882f254f15f9?q=80&w=1964&auto=format&fit=crop', woodId: 'cedar' },
+    ],
+    illustration: '/spaces/banos.svg',
+    validatePhotos: true,
+    wet: true,
+    extraSteps: [],
+    promptHints: {
+      es: 'Separa los muebles de la ducha o bañera y prefiere muebles suspendidos que dejen ventilar el suelo.',
+      en: 'Keep furniture away from the shower or bath and prefer wall-hung units that let the floor air.',
+      pt: 'Afasta os móveis do duche ou da banheira e prefere móveis suspensos que deixem o chão arejar.',
+    },
+  },
+  {
+    id: 'Estudio',
+    slug: 'estudios',
+    icon: ['M2 3h6a4 4 0 0 1 4 4v14a3 3 0 0 0-3-3H2z', 'M22 3h-6a4 4 0 0 0-4 4v14a3 3 0 0 1 3-3h7z'],
+    theme: { color: '#5D4037', tint: '#fbfaf9' },
+    examples: [
+      { imgSrc: 'https://images.unsplash.com/photo-1497215728101-856f4ea42174?q=80&w=2070&auto=format&fit=crop' },
+      { imgSrc: 'https://images.unsplash.com/photo-1524758631624-e2822e304c36?q=80&w=2070&auto=format&fit=crop' },
+      { imgSrc: 'https://images.unsplash.com/photo-1586023492125-27b2c045efd7?q=80&w=1974&auto=format&fit=crop' },
+    ],
+    illustration: '/spaces/estudios.svg',
+    validatePhotos: true,
+    extraSteps: [],
+    promptHints: {
+      es: 'Coloca el escritorio cerca de la luz natural y prevé el paso de cables y enchufes.',
+      en: 'Place the desk near natural light and allow for cables and sockets.',
+      pt: 'Coloca a secretária perto da luz natural e prevê a passagem de cabos e tomadas.',
+    },
+  },
+  {
+    id: 'Espacio para Gatos',
+    slug: 'gatos',
+    icon: ['M12 5c.67 0 1.35.09 2 .26 1.78-2 5.03-2.84 6.42-2.08.39.21.61.62.58.97-.02.2-.12.39-.28.52-1.14.93-2.24 2.44-2.65 4.31a9.23 9.23 0 0 1-1.25 4.3-1.001 1.001 0 0 1-1.5-.42 1 1 0 0 0-1.6- .33c-1.22.95-2.64 1.4-4.1 1.4-4.42 0-8-3.58-8-8s3.58-8 8-8c.46 0 .91.04 1.35.12'],
+    theme: { color: 'var(--accent-color)', tint: '#f7fcf7' },
+    featured: true,
+    examples: [
+      { imgSrc: 'https://images.unsplash.com/photo-1598939748535-a78203f563d7?q=80&w=1974&auto=format&fit=crop' },
+      { imgSrc: 'https://images.unsplash.com/photo-1610121183358-da47c0b6e115?q=80&w=1974&auto=format&fit=crop' },
+      { imgSrc: 'https://images.unsplash.com/photo-1588012885473-39294921f450?q=80&w=1974&auto=format&fit=crop' },
+    ],
+    illustration: '/spaces/gatos.svg',
+    // Cat furniture goes in any room, so there is no room type to check the photos against.
+    validatePhotos: false,
+    extraSteps: ['cats'],
+  },
+];
+
+export const spaceTypeById = (id: string | null | undefined) => SPACE_TYPES.find(space => space.id === id);
+
+export const spaceTypeBySlug = (slug: string | undefined) => SPACE_TYPES.find(space => space.slug === slug);
+
+/** The wizard's steps for the chosen space, in order; before choosing one only the generic steps are known. */
+export const studioSteps = (spaceId: string | null | undefined): StudioStep[] =>
+  ['select', ...(spaceTypeById(spaceId)?.extraSteps ?? []), 'upload', 'design', 'quote', 'confirm'];
+
+/** Whether the space's journey asks about the household's cats. */
+export const hasCatStep = (spaceId: string | null | undefined) => !!spaceTypeById(spaceId)?.extraSteps.includes('cats');
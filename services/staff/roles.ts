@@ -0,0 +1,26 @@
+import type { WorkshopRequestStatus } from '../../types';
+import type { StaffRole } from '../auth';
+
+// --- Staff Roles ---
+// Shared by the back-office and the stand-in backend so both enforce the same permissions.
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  admin: 'Administración',
+  designer: 'Diseño',
+  carpenter: 'Carpintería',
+};
+
+/** Statuses that belong to the workshop floor; carpenters only move requests between these. */
+const PRODUCTION_STATUSES: WorkshopRequestStatus[] = ['accepted', 'in-production', 'installed'];
+
+export const canEditRates = (role: StaffRole | null | undefined) => role === 'admin';
+
+/** Assigning designers and attaching the final quote are design decisions. */
+export const canAssign = (role: StaffRole | null | undefined) => role === 'admin' || role === 'designer';
+
+export const canQuote = canAssign;
+
+export const canMoveRequest = (role: StaffRole | null | undefined, from: WorkshopRequestStatus, to: WorkshopRequestStatus) => {
+  if (role === 'admin' || role === 'designer') return true;
+  return role === 'carpenter' && PRODUCTION_STATUSES.includes(from) && PRODUCTION_STATUSES.includes(to);
+};
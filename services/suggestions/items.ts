@@ -0,0 +1,174 @@
+import type { DesignSuggestion, Locale, RoomDimensions, SuggestionItem } from '../../types';
+import { finishById, finishName, materialsForSpace, woodById, woodName } from '../materials/catalog';
+import { MODULE_LIBRARY, moduleById, moduleName, moduleParams } from '../modules/library';
+import type { QuoteModule } from '../quote/engine';
+import { messagesFor, Messages } from '../i18n/catalogs';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+import { metresOf } from '../../utils/dimensions';
+import { isRecord } from '../../utils/records';
+
+// --- Suggestion Items ---
+// Each suggestion lists the furniture it proposes as library modules, so a proposal can be
+// drawn on the plan, toggled piece by piece, rendered and priced from the same data.
+
+/** Words that name each module, in the language the suggestion was written in. */
+const SUGGESTION_KEYWORDS: Record<Locale, [RegExp, string][]> = {
+  es: [
+    [/armario|ropero|vestidor/i, 'wardrobe'],
+    [/escritorio/i, 'desk'],
+    [/banco|banqueta/i, 'bench'],
+    [/vanidad|mueble de lavabo/i, 'floating-vanity'],
+    [/para gatos|felin|pasarela/i, 'cat-shelf'],
+    [/repisa|estantes? flotantes?|plataformas?/i, 'wall-shelf'],
+    [/alacena|gabinetes? (?:de pared|altos?|superiores?)/i, 'wall-cabinet'],
+    [/gabinete|aparador|cajonera|isla|centro de entretenimiento|mueble/i, 'base-cabinet'],
+    [/estanter|librer|biblioteca|torre|estantes/i, 'shelving'],
+  ],
+  en: [
+    [/wardrobe|closet|armoire/i, 'wardrobe'],
+    [/\bdesk/i, 'desk'],
+    [/\bbench|window seat/i, 'bench'],
+    [/vanity|washstand/i, 'floating-vanity'],
+    [/for (?:the )?cats|\bcat (?:shel|walk|highway)|feline|catwalk/i, 'cat-shelf'],
+    [/floating shel|wall shel|ledge|platforms?/i, 'wall-shelf'],
+    [/(?:wall|upper|overhead) cabinet/i, 'wall-cabinet'],
+    [/cabinet|sideboard|credenza|chest of drawers|dresser|island|media (?:unit|console)|entertainment (?:unit|cent)/i, 'base-cabinet'],
+    [/shelving|bookcase|bookshel|librar|tower|shelves/i, 'shelving'],
+  ],
+  pt: [
+    [/roupeiro|guarda-roupa|closet/i, 'wardrobe'],
+    [/secretária|escrivaninha/i, 'desk'],
+    [/banco|banqueta/i, 'bench'],
+    [/lavatório|vanity/i, 'floating-vanity'],
+    [/para gatos|felin|passadiço|passarela/i, 'cat-shelf'],
+    [/prateleiras? (?:flutuantes?|de parede)|plataformas?/i, 'wall-shelf'],
+    [/armários? (?:de parede|altos?|superiores?|suspensos?)/i, 'wall-cabinet'],
+    [/armário|aparador|cómoda|gaveteiro|ilha|móvel de tv|móvel/i, 'base-cabinet'],
+    [/estante|biblioteca|torre|prateleiras/i, 'shelving'],
+  ],
+};
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+const clamp = (value: number, [min, max]: [number, number]) => Math.min(max, Math.max(min, value));
+
+/**
+ * Items implied by the text of a suggestion, for models that returned none and for projects
+ * saved before suggestions had items. Runs take half of the longest wall, built as several
+ * modules no wider than the library default so shelves stay within their span.
+ */
+const inferItems = (suggestion: Omit<DesignSuggestion, 'items'>, dimensions: RoomDimensions, locale: Locale): SuggestionItem[] => {
+  const text = `${suggestion.styleName} ${suggestion.description}`;
+  const matched = (SUGGESTION_KEYWORDS[locale] ?? SUGGESTION_KEYWORDS[DEFAULT_LOCALE])
+    .filter(([pattern]) => pattern.test(text))
+    .map(([, id]) => moduleById(id)!)
+    .filter((module, index, all) => all.indexOf(module) === index);
+  const modules = matched.length > 0 ? matched : [MODULE_LIBRARY[0]!];
+  const longestWall = Math.max(metresOf(dimensions.length), metresOf(dimensions.width));
+  const roomHeight = metresOf(dimensions.height);
+
+  return modules.flatMap(module => {
+    const run = longestWall > 0 ? Math.max(module.width, Math.min(3.6, roundTo(longestWall / 2, 0.1))) : module.width;
+    const count = Math.ceil(run / module.width - 1e-6);
+    const width = Math.round((run / count) * 100) / 100;
+    const height = module.height >= 2 && roomHeight > 0 ? Math.min(module.height, roundTo(roomHeight - 0.1, 0.05)) : module.height;
+    return Array.from({ length: count }, () => ({
+      moduleId: module.id,
+      wall: null,
+      width,
+      depth: module.depth,
+      height,
+      woodId: suggestion.woodId,
+      finishId: suggestion.finishId,
+      enabled: true,
+    }));
+  }).map((item, index) => ({ id: `item-${index + 1}`, ...item }));
+};
+
+const numberOr = (value: unknown, fallback: number) => (typeof value === 'number' && Number.isFinite(value) ? value : fallback);
+
+/** Keeps items that name a library module, clamped to its limits and to materials allowed in the space. */
+const normalizeItems = (raw: unknown, suggestion: Omit<DesignSuggestion, 'items'>, spaceType: string | null): SuggestionItem[] => {
+  const { woods, finishes } = materialsForSpace(spaceType);
+  const list = Array.isArray(raw) ? raw : [];
+  return list.flatMap((item: unknown, index): SuggestionItem[] => {
+    if (!isRecord(item)) return [];
+    const module = typeof item.moduleId === 'string' ? moduleById(item.moduleId) : undefined;
+    if (!module) return [];
+    const { limits } = module;
+    return [{
+      // Ids only need to be unique within their suggestion; positional ones keep analyses reproducible.
+      id: typeof item.id === 'string' && item.id ? item.id : `item-${index + 1}`,
+      moduleId: module.id,
+      wall: typeof item.wall === 'number' && Number.isInteger(item.wall) && item.wall >= 0 ? item.wall : null,
+      width: roundTo(clamp(numberOr(item.width, module.width), limits.width), 0.01),
+      depth: roundTo(clamp(numberOr(item.depth, module.depth), limits.depth), 0.01),
+      height: roundTo(clamp(numberOr(item.height, module.height), limits.height), 0.01),
+      woodId: woods.find(w => w.id === item.woodId)?.id ?? suggestion.woodId,
+      finishId: finishes.find(f => f.id === item.finishId)?.id ?? suggestion.finishId,
+      enabled: item.enabled !== false,
+    }];
+  });
+};
+
+/**
+ * Makes every suggestion point at stocked materials allowed in the space and list its furniture.
+ * Ids the model invented, and suggestions saved before the catalog existed, fall back to the
+ * species named in the description and then to the first allowed entry. `locale` is the
+ * language the suggestions are written in; projects saved before there was a choice are Spanish.
+ */
+export const normalizeSuggestions = (raw: unknown, spaceType: string | null, dimensions: RoomDimensions, locale: Locale = DEFAULT_LOCALE): DesignSuggestion[] => {
+  const { woods, finishes } = materialsForSpace(spaceType);
+  const list = Array.isArray(raw) ? raw : [];
+  return list.map((entry: unknown) => {
+    const item = isRecord(entry) ? entry : {};
+    const styleName = typeof item.styleName === 'string' ? item.styleName : '';
+    const description = typeof item.description === 'string' ? item.description : '';
+    const text = `${styleName} ${description}`.toLowerCase();
+    const wood = woods.find(w => w.id === item.woodId)
+      ?? woods.find(w => text.includes(w.name.toLowerCase()) || text.includes(woodName(messagesFor(locale), w.id).toLowerCase()))
+      ?? woods[0]!;
+    const finish = finishes.find(f => f.id === item.finishId) ?? finishes[0]!;
+    const suggestion = { styleName, description, woodId: wood.id, finishId: finish.id };
+    const items = normalizeItems(item.items, suggestion, spaceType);
+    return { ...suggestion, items: items.length > 0 ? items : inferItems(suggestion, dimensions, locale) };
+  });
+};
+
+/**
+ * The item as a module to price or cut. Items in the suggestion's own wood follow whatever
+ * wood the client picks for the quote; only items in a different wood keep theirs.
+ */
+export const itemModule = (item: SuggestionItem, suggestion: DesignSuggestion): QuoteModule => {
+  const module = moduleById(item.moduleId) ?? MODULE_LIBRARY[0]!;
+  return {
+    ...moduleParams(module, { width: item.width, height: item.height, depth: item.depth }),
+    woodId: item.woodId === suggestion.woodId ? undefined : item.woodId,
+    moduleId: module.id,
+    name: module.name,
+    fronts: module.fronts,
+  };
+};
+
+export const enabledItems = (suggestion: DesignSuggestion) => suggestion.items.filter(item => item.enabled);
+
+const cm = (metres: number) => Math.round(metres * 100);
+
+/** Short label of an item, e.g. "Estantería de roble, 80 × 35 × 200 cm". Staff screens use the Spanish default. */
+export const describeItem = (item: SuggestionItem, m: Messages = messagesFor(DEFAULT_LOCALE)) =>
+  m.suggestions.item(
+    moduleName(m, item.moduleId),
+    woodById(item.woodId) ? woodName(m, item.woodId) : null,
+    `${cm(item.width)} × ${cm(item.depth)} × ${cm(item.height)} cm`,
+  );
+
+/** Render prompt for a suggestion that only asks for the items the client kept. */
+export const suggestionRenderPrompt = (suggestion: DesignSuggestion, m: Messages) =>
+  m.suggestions.renderPrompt(
+    suggestion.description,
+    finishById(suggestion.finishId) ? finishName(m, suggestion.finishId) : null,
+    enabledItems(suggestion).map(item => m.suggestions.renderItem(
+      describeItem(item, m),
+      item.wall === null ? null : item.wall + 1,
+      item.finishId !== suggestion.finishId ? finishName(m, item.finishId) : null,
+    )),
+  );
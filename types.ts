@@ -0,0 +1,246 @@
+import type { AuthSession } from './services/auth';
+import type { ScaleMeasurement } from './services/scale/markerDetection';
+import type { PhotoQuality } from './services/photos/preprocess';
+
+// --- State Management and Types ---
+export type PublicPage = string;
+
+export type CatMobilityIssue = 'arthritis' | 'three-legged' | 'low-vision' | 'overweight';
+export type CatTrait = 'climber' | 'jumper' | 'hider' | 'shy';
+
+/** A cat of the household. Size and age hold the option values of the cat details form. */
+export type CatDetails = {
+  name: string;
+  size: string;
+  age: string;
+  /** Weight in kg, or null when unknown and the size class stands in for it. */
+  weightKg: number | null;
+  mobilityIssues: CatMobilityIssue[];
+  traits: CatTrait[];
+};
+
+export type AppState = {
+  session: AuthSession | null;
+  isRestoringSession: boolean;
+  page: 'public' | 'auth' | 'projects' | 'private' | 'workshop' | 'backoffice';
+  publicPage: PublicPage;
+  /** Request open in the back-office, or `null` for the list. */
+  backOfficeRequestId: string | null;
+  projectId: string | null;
+  projectName: string;
+  designStep: number;
+  selectedSpace: string | null;
+  uploadedImages: File[];
+  uploadedImageBase64s: string[];
+  /** Reference-sheet scale per uploaded photo; `null` while it is still being measured. */
+  scaleMeasurements: (ScaleMeasurement | null)[];
+  /** Blur and exposure scores per uploaded photo; empty for photos of projects saved before they were scored. */
+  photoQuality: PhotoQuality[];
+  /** True while newly selected photos are being prepared for upload. */
+  isPreparingPhotos: boolean;
+  aiResponse: AIResponse | null;
+  floorPlan: FloorPlan | null;
+  /** Every refinement render of the journey; they form a tree through `parentId`. */
+  renderVersions: RenderVersion[];
+  /** The render on screen, or `null` for the original photo of the selected view. */
+  currentVersionId: string | null;
+  /** Uploaded photo being refined in the studio. */
+  selectedPhotoIndex: number;
+  quoteSelection: QuoteSelection | null;
+  /** The quote request sent to the workshop for this project, once the client submits it. */
+  submission: WorkshopSubmission | null;
+  isLoading: boolean;
+  /** Stages of the AI task behind `isLoading`, or `null` when something else is loading. */
+  aiProgress: AIProgress | null;
+  error: string | null;
+  numberOfCats: number;
+  cats: CatDetails[];
+  unitSystem: UnitSystem;
+  locale: Locale;
+};
+
+export type AIStage = 'validating' | 'analyzing' | 'rendering';
+
+export type AIProgress = {
+  /** Every stage of the task in order, so the overlay can show what is done and what is left. */
+  stages: AIStage[];
+  stage: AIStage;
+  /** Retries of the current request so far. */
+  retries: number;
+  /** The view being rendered when a change is applied to several photos. */
+  view?: { current: number; total: number };
+};
+
+export type LengthUnit = 'm' | 'cm' | 'ft' | 'in';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export type Locale = 'es' | 'en' | 'pt';
+
+export type DimensionEstimate = {
+  value: number;
+  unit: LengthUnit;
+  /** Model confidence between 0 and 1; client corrections are always 1. */
+  confidence: number;
+  corrected?: boolean;
+};
+
+export type RoomDimensions = {
+  length: DimensionEstimate;
+  width: DimensionEstimate;
+  height: DimensionEstimate;
+};
+
+/** One piece of furniture a suggestion proposes, sized like a module of `services/modules/library.ts`. */
+export type SuggestionItem = {
+  id: string;
+  moduleId: string;
+  /** Plan wall the item stands against; `null` when the model did not say, which means the longest wall. */
+  wall: number | null;
+  width: number;
+  depth: number;
+  height: number;
+  woodId: string;
+  finishId: string;
+  /** Whether the client keeps the item in renders and quotes. */
+  enabled: boolean;
+};
+
+/** A design proposal; materials are ids from the catalog in `services/materials/catalog.ts`. */
+export type DesignSuggestion = {
+  styleName: string;
+  description: string;
+  woodId: string;
+  finishId: string;
+  items: SuggestionItem[];
+};
+
+export type AIResponse = {
+  dimensions: RoomDimensions;
+  floorPlan: string;
+  currentStyle: string;
+  suggestions: DesignSuggestion[];
+};
+
+/** One refinement of a view, built on a parent render or on the original photo (`parentId: null`). */
+export type RenderVersion = {
+  id: string;
+  parentId: string | null;
+  /** Index of the uploaded photo (view) this render belongs to. */
+  photoIndex: number;
+  /** Shared by the renders of one "apply to all views" request. */
+  batchId?: string;
+  prompt: string;
+  createdAt: number;
+  mimeType: string;
+  imageBase64: string;
+};
+
+/** The client's choices on the quote step; prices come from the workshop's rate tables. */
+export type QuoteSelection = {
+  suggestionIndex: number;
+  woodId: string;
+  finishId: string;
+  hardwareId: string;
+};
+
+// --- Workshop Requests ---
+export type ContactDetails = {
+  name: string;
+  email: string;
+  phone: string;
+  notes: string;
+};
+
+export type WorkshopRequestStatus = 'received' | 'in-review' | 'quoted' | 'accepted' | 'in-production' | 'installed';
+
+/** A file kept with a request on the backend, fetched separately by its stored `file` name. */
+export type RequestFileInfo = {
+  name: string;
+  mimeType: string;
+  file: string;
+};
+
+/** The workshop's final quote for a request. */
+export type FinalQuote = {
+  total: number;
+  currency: string;
+  /** ISO date (yyyy-mm-dd) until which the price holds, if any. */
+  validUntil: string | null;
+  /** Message for the client. */
+  message: string;
+  attachment: RequestFileInfo | null;
+  attachedAt: number;
+};
+
+/** The client's side of a quote request: queued until the workshop confirms receipt, then tracked by status. */
+export type WorkshopSubmission = {
+  /** Generated by the client so retried submissions are recognised as the same request. */
+  requestId: string;
+  contact: ContactDetails;
+  submittedAt: number;
+  /** `null` while the request has not reached the workshop yet. */
+  status: WorkshopRequestStatus | null;
+  /** Attached by the workshop once it quotes the request. Missing on submissions saved before quotes were attached. */
+  finalQuote?: FinalQuote | null;
+  attempts: number;
+  /** When the next automatic attempt is due; `null` after a rejection that retrying cannot fix. */
+  nextAttemptAt: number | null;
+  lastError: string | null;
+};
+
+// --- Floor Plan ---
+/** A point on the plan in metres; y grows downwards, as in SVG. */
+export type PlanPoint = { x: number; y: number };
+
+export type OpeningKind = 'door' | 'window' | 'opening';
+
+/** A door, window or bare opening cut into wall `wall`, starting `offset` metres from the wall's first corner. */
+export type PlanOpening = {
+  id: string;
+  kind: OpeningKind;
+  wall: number;
+  offset: number;
+  width: number;
+};
+
+/** A wooden module standing against wall `wall`, measured like an opening. */
+export type PlanFurniture = {
+  id: string;
+  moduleId: string;
+  name: string;
+  wall: number;
+  offset: number;
+  width: number;
+  depth: number;
+  height: number;
+  /** Parametric details; plans saved before the module library get the library defaults. */
+  shelves?: number;
+  doors?: number;
+  /** Materials catalog id when this module differs from the wood chosen for the design. */
+  woodId?: string;
+};
+
+/** Editable room plan. Wall `i` runs from `corners[i]` to `corners[i + 1]` (wrapping around). */
+export type FloorPlan = {
+  corners: PlanPoint[];
+  wallThickness: number;
+  openings: PlanOpening[];
+  furniture: PlanFurniture[];
+};
+
+export type ServiceExample = {
+  imgSrc: string;
+  title: string;
+  description: string;
+  /** Materials catalog id of the featured wood. */
+  woodId?: string;
+};
+
+export type InspirationTip = {
+  title: string;
+  description: string;
+  imageUrl: string;
+  /** Id of the space type the tip is about (see `services/spaces/registry.ts`), when it is about one. */
+  spaceType?: string;
+};
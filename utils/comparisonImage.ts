@@ -0,0 +1,45 @@
+const MAX_HEIGHT = 1080;
+const GAP = 16;
+const LABEL_BAND = 64;
+const FOOTER_BAND = 40;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('No se pudo cargar la imagen.'));
+    img.src = src;
+  });
+
+/** Side-by-side "before | after" JPEG with captions and a credit line, sized so both halves share one height. */
+export const composeBeforeAfter = async (beforeSrc: string, afterSrc: string, labels: [string, string], credit: string): Promise<Blob> => {
+  const [before, after] = await Promise.all([loadImage(beforeSrc), loadImage(afterSrc)]);
+  const height = Math.min(MAX_HEIGHT, before.naturalHeight, after.naturalHeight);
+  const beforeWidth = Math.round(before.naturalWidth * height / before.naturalHeight);
+  const afterWidth = Math.round(after.naturalWidth * height / after.naturalHeight);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = beforeWidth + GAP + afterWidth;
+  canvas.height = LABEL_BAND + height + FOOTER_BAND;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D no disponible.');
+
+  ctx.fillStyle = '#F8F5F2';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(before, 0, LABEL_BAND, beforeWidth, height);
+  ctx.drawImage(after, beforeWidth + GAP, LABEL_BAND, afterWidth, height);
+
+  ctx.fillStyle = '#3D352E';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = '600 32px "Playfair Display", Georgia, serif';
+  ctx.fillText(labels[0], beforeWidth / 2, LABEL_BAND / 2);
+  ctx.fillText(labels[1], beforeWidth + GAP + afterWidth / 2, LABEL_BAND / 2);
+  ctx.font = '20px Roboto, sans-serif';
+  ctx.fillStyle = '#8D6E63';
+  ctx.fillText(credit, canvas.width / 2, LABEL_BAND + height + FOOTER_BAND / 2);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('No se pudo generar la imagen.'))), 'image/jpeg', 0.9);
+  });
+};
@@ -0,0 +1,95 @@
+import type { DimensionEstimate, LengthUnit, Locale, RoomDimensions, UnitSystem } from '../types';
+import { DEFAULT_LOCALE, localeTag } from '../services/i18n/locales';
+import { isRecord } from './records';
+
+// --- Units ---
+const METRES_PER_UNIT: Record<LengthUnit, number> = {
+  m: 1,
+  cm: 0.01,
+  ft: 0.3048,
+  in: 0.0254,
+};
+
+export const DIMENSION_KEYS = ['length', 'width', 'height'] as const;
+export type DimensionKey = typeof DIMENSION_KEYS[number];
+
+export const DIMENSION_LABELS: Record<DimensionKey, string> = {
+  length: 'Largo',
+  width: 'Ancho',
+  height: 'Alto',
+};
+
+export const toMetres = (value: number, unit: LengthUnit) => value * (METRES_PER_UNIT[unit] ?? 1);
+
+export const metresOf = (estimate: DimensionEstimate) => toMetres(estimate.value, estimate.unit);
+
+/** Value shown in (and typed into) the dimension inputs: metres, or decimal feet. */
+export const toDisplayValue = (metres: number, system: UnitSystem) =>
+  system === 'metric' ? metres : metres / METRES_PER_UNIT.ft;
+
+export const fromDisplayValue = (value: number, system: UnitSystem) =>
+  system === 'metric' ? value : toMetres(value, 'ft');
+
+export const formatLength = (metres: number, system: UnitSystem, locale: Locale = DEFAULT_LOCALE): string => {
+  if (system === 'metric') {
+    return `${metres.toLocaleString(localeTag(locale), { minimumFractionDigits: 2, maximumFractionDigits: 2 })} m`;
+  }
+  const totalInches = Math.round(metres / METRES_PER_UNIT.in);
+  return `${Math.floor(totalInches / 12)}′ ${totalInches % 12}″`;
+};
+
+export const confidenceLevel = (confidence: number): 'high' | 'medium' | 'low' =>
+  confidence >= 0.75 ? 'high' : confidence >= 0.45 ? 'medium' : 'low';
+
+const UNIT_SYSTEM_STORAGE_KEY = 'maderarte.unitSystem';
+
+export const loadUnitSystem = (): UnitSystem =>
+  localStorage.getItem(UNIT_SYSTEM_STORAGE_KEY) === 'imperial' ? 'imperial' : 'metric';
+
+export const storeUnitSystem = (system: UnitSystem) => {
+  localStorage.setItem(UNIT_SYSTEM_STORAGE_KEY, system);
+};
+
+// --- Normalisation ---
+const UNKNOWN_CONFIDENCE = 0.5;
+
+const isLengthUnit = (value: unknown): value is LengthUnit => typeof value === 'string' && Object.hasOwn(METRES_PER_UNIT, value);
+
+const normalizeEstimate = (raw: unknown): DimensionEstimate => {
+  const estimate = isRecord(raw) ? raw : {};
+  const value = Number(estimate.value);
+  const unit = isLengthUnit(estimate.unit) ? estimate.unit : 'm';
+  const confidence = Number(estimate.confidence);
+  return {
+    value: Number.isFinite(value) && value > 0 ? toMetres(value, unit) : 0,
+    unit: 'm',
+    confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : UNKNOWN_CONFIDENCE,
+    ...(estimate.corrected ? { corrected: true } : {}),
+  };
+};
+
+/**
+ * Converts whatever the model (or an older saved project) produced into metres. Projects
+ * saved before dimensions were structured stored a sentence like "Largo: 5 m, Ancho: 4 m…",
+ * from which the first three numbers are taken as length, width and height.
+ */
+export const normalizeDimensions = (raw: unknown): RoomDimensions => {
+  if (typeof raw === 'string') {
+    const [length = 0, width = 0, height = 0] = (raw.match(/\d+(?:[.,]\d+)?/g) || [])
+      .map(n => parseFloat(n.replace(',', '.')));
+    const legacy = (value: number): DimensionEstimate => ({ value, unit: 'm', confidence: UNKNOWN_CONFIDENCE });
+    return { length: legacy(length), width: legacy(width), height: legacy(height) };
+  }
+  const dims = isRecord(raw) ? raw : {};
+  return {
+    length: normalizeEstimate(dims.length),
+    width: normalizeEstimate(dims.width),
+    height: normalizeEstimate(dims.height),
+  };
+};
+
+export const correctDimension = (dimensions: RoomDimensions, key: DimensionKey, metres: number): RoomDimensions => ({
+  ...dimensions,
+  [key]: { value: metres, unit: 'm', confidence: 1, corrected: true },
+});
+
@@ -0,0 +1,22 @@
+// --- Image Data Helpers ---
+// The Gemini API exchanges images as bare base64 strings, while storage and uploads use Blobs.
+
+/** Reads a Blob as base64, without the `data:` URL prefix. */
+export const readAsBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      resolve((reader.result as string).split(',')[1]);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
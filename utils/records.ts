@@ -0,0 +1,6 @@
+// --- Record Helpers ---
+// Narrowing for data that arrives as `unknown`: request bodies, model replies and stored projects.
+
+/** True for plain objects, so their fields can be read and checked one by one. */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -0,0 +1,40 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { sanitizeSVG } from './sanitizeSvg';
+import { findSanitizerLeaks } from './svgAttackCorpus';
+
+describe('sanitizeSVG', () => {
+  it('neutralises every entry of the attack corpus', () => {
+    expect(findSanitizerLeaks(sanitizeSVG)).toEqual([]);
+  });
+
+  it('keeps a plan whose root declares the SVG namespace', () => {
+    const clean = sanitizeSVG('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 300"><polygon class="room" points="0,0 400,0 400,300 0,300"/></svg>');
+    expect(clean).toContain('<polygon class="room" points="0,0 400,0 400,300 0,300"/>');
+    expect(clean).toContain('viewBox="0 0 400 300"');
+  });
+
+  it('keeps a plan whose root has no xmlns', () => {
+    const clean = sanitizeSVG('<svg viewBox="0 0 400 300"><polygon class="room" points="0,0 400,0 400,300 0,300"/><line class="door" x1="10" y1="0" x2="90" y2="0"/></svg>');
+    expect(clean).toContain('xmlns="http://www.w3.org/2000/svg"');
+    expect(clean).toContain('<polygon class="room"');
+    expect(clean).toContain('<line class="door"');
+    expect(clean).toContain('viewBox="0 0 400 300"');
+  });
+
+  it('drops the handlers of a root without xmlns', () => {
+    const clean = sanitizeSVG('<svg viewBox="0 0 100 100" onload="alert(1)"><rect width="10" height="10"/></svg>');
+    expect(clean).toContain('<rect width="10" height="10"/>');
+    expect(clean).not.toMatch(/onload/);
+  });
+
+  it('rejects a root in another namespace', () => {
+    expect(sanitizeSVG('<svg xmlns="http://www.w3.org/1999/xhtml" viewBox="0 0 10 10"><rect width="1" height="1"/></svg>')).toBe('');
+  });
+
+  it('rejects input that is not SVG', () => {
+    expect(sanitizeSVG('')).toBe('');
+    expect(sanitizeSVG('<html><body>Plano</body></html>')).toBe('');
+    expect(sanitizeSVG('no es un plano')).toBe('');
+  });
+});
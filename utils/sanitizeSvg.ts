@@ -0,0 +1,166 @@
+// --- SVG Sanitizer ---
+// Floor plans come straight from a model and end up in `dangerouslySetInnerHTML`, so we never
+// clean the markup in place. The SVG is parsed with DOMParser and a brand-new tree is built
+// from an explicit allowlist: unknown elements are dropped with their whole subtree, unknown
+// attributes are dropped, and the values that survive are checked against strict patterns.
+// Anything that can load a resource or run code (href, style, url(), event handlers,
+// <use>, <foreignObject>, animations) is simply not on the list.
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+const ALLOWED_ELEMENTS = new Set([
+  'svg', 'g', 'title', 'desc',
+  'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'path',
+  'text', 'tspan',
+]);
+
+const TEXT_ELEMENTS = new Set(['title', 'desc', 'text', 'tspan']);
+
+const NUMBER = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?(?:px|%)?$/i;
+const NUMBER_LIST = /^[-+\d.e\s,]*$/i;
+const PATH_DATA = /^[MLHVCSQTAZmlhvcsqtaz\d\s,.eE+-]*$/;
+const PAINT = /^(?:none|currentColor|transparent|#[0-9a-f]{3,8}|[a-z]{3,20}|(?:rgb|rgba|hsl|hsla)\([\d\s.,%]+\))$/i;
+const TRANSFORM = /^(?:\s*(?:matrix|translate|scale|rotate|skewX|skewY)\([-+\d.e\s,]*\)\s*,?)+$/i;
+const KEYWORD = /^[a-z0-9-]{1,32}$/i;
+const FONT_FAMILY = /^[\w\s,'"-]{1,100}$/;
+const CLASS_LIST = /^[\w\s-]{1,100}$/;
+
+const ATTRIBUTE_PATTERNS = new Map<string, RegExp>(Object.entries({
+  x: NUMBER, y: NUMBER, x1: NUMBER, y1: NUMBER, x2: NUMBER, y2: NUMBER,
+  cx: NUMBER, cy: NUMBER, r: NUMBER, rx: NUMBER, ry: NUMBER,
+  width: NUMBER, height: NUMBER, dx: NUMBER_LIST, dy: NUMBER_LIST,
+  points: NUMBER_LIST, d: PATH_DATA, transform: TRANSFORM,
+  fill: PAINT, stroke: PAINT,
+  'stroke-width': NUMBER, 'stroke-dasharray': NUMBER_LIST, 'stroke-linecap': KEYWORD, 'stroke-linejoin': KEYWORD,
+  opacity: NUMBER, 'fill-opacity': NUMBER, 'stroke-opacity': NUMBER, 'fill-rule': KEYWORD,
+  'font-size': NUMBER, 'font-family': FONT_FAMILY, 'font-weight': KEYWORD,
+  'text-anchor': KEYWORD, 'dominant-baseline': KEYWORD,
+  class: CLASS_LIST,
+}));
+
+const MAX_ELEMENTS = 5000;
+const MAX_TEXT_LENGTH = 500;
+const MAX_ATTRIBUTE_LENGTH = 20000;
+const FALLBACK_VIEWBOX = '0 0 100 100';
+
+const parseViewBox = (value: string | null) => {
+  const parts = (value ?? '').trim().split(/[\s,]+/).map(Number);
+  if (parts.length !== 4 || parts.some(n => !Number.isFinite(n)) || parts[2]! <= 0 || parts[3]! <= 0) return null;
+  return parts.join(' ');
+};
+
+/** Uses the declared viewBox, else the declared pixel size, else the extent of the drawn shapes. */
+const normalisedViewBox = (source: Element, clean: Element) => {
+  const declared = parseViewBox(source.getAttribute('viewBox'));
+  if (declared) return declared;
+
+  const width = parseFloat(source.getAttribute('width') ?? '');
+  const height = parseFloat(source.getAttribute('height') ?? '');
+  if (width > 0 && height > 0 && !/%/.test((source.getAttribute('width') ?? '') + (source.getAttribute('height') ?? ''))) {
+    return `0 0 ${width} ${height}`;
+  }
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const pushPairs = (values: number[]) => {
+    for (let i = 0; i + 1 < values.length; i += 2) {
+      xs.push(values[i]!);
+      ys.push(values[i + 1]!);
+    }
+  };
+  const n = (el: Element, name: string) => parseFloat(el.getAttribute(name) ?? '0') || 0;
+  clean.querySelectorAll('rect, line, circle, ellipse, polygon, polyline').forEach(el => {
+    switch (el.tagName) {
+      case 'rect':
+        pushPairs([n(el, 'x'), n(el, 'y'), n(el, 'x') + n(el, 'width'), n(el, 'y') + n(el, 'height')]);
+        break;
+      case 'line':
+        pushPairs([n(el, 'x1'), n(el, 'y1'), n(el, 'x2'), n(el, 'y2')]);
+        break;
+      case 'circle':
+      case 'ellipse': {
+        const rx = n(el, 'r') || n(el, 'rx');
+        const ry = n(el, 'r') || n(el, 'ry');
+        pushPairs([n(el, 'cx') - rx, n(el, 'cy') - ry, n(el, 'cx') + rx, n(el, 'cy') + ry]);
+        break;
+      }
+      default:
+        pushPairs((el.getAttribute('points') ?? '').trim().split(/[\s,]+/).map(Number).filter(Number.isFinite));
+    }
+  });
+  if (xs.length === 0) return FALLBACK_VIEWBOX;
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const w = Math.max(...xs) - minX;
+  const h = Math.max(...ys) - minY;
+  if (w <= 0 || h <= 0) return FALLBACK_VIEWBOX;
+  const pad = Math.max(w, h) * 0.05;
+  return `${minX - pad} ${minY - pad} ${w + pad * 2} ${h + pad * 2}`;
+};
+
+/**
+ * Returns a safe, responsive copy of an untrusted SVG, or an empty string when the input is
+ * not a well-formed SVG document.
+ */
+export const sanitizeSVG = (svgString: string): string => {
+  if (typeof svgString !== 'string' || !svgString.trim()) return '';
+  let source = new DOMParser().parseFromString(svgString, 'image/svg+xml');
+  // Models often leave out the xmlns. Such a root parses in no namespace, so it is parsed
+  // again with the SVG namespace declared; every other check still applies to the result.
+  if (source.documentElement.localName === 'svg' && source.documentElement.namespaceURI === null) {
+    source = new DOMParser().parseFromString(svgString.replace(/<svg(?=[\s/>])/, `<svg xmlns="${SVG_NS}"`), 'image/svg+xml');
+  }
+  const root = source.documentElement;
+  // A DOCTYPE can declare entities that expand into huge or surprising content.
+  if (source.doctype || source.querySelector('parsererror') || root.namespaceURI !== SVG_NS || root.localName !== 'svg') {
+    return '';
+  }
+
+  const target = document.implementation.createDocument(SVG_NS, 'svg', null);
+  let elementCount = 0;
+
+  const copyChildren = (from: Element, to: Element) => {
+    from.childNodes.forEach(node => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        if (TEXT_ELEMENTS.has(to.localName)) {
+          to.appendChild(target.createTextNode((node.textContent ?? '').slice(0, MAX_TEXT_LENGTH)));
+        }
+        return;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+      const el = node as Element;
+      // Checking the namespace stops tricks like <html:script> from hiding inside an allowed name.
+      if (el.namespaceURI !== SVG_NS || !ALLOWED_ELEMENTS.has(el.localName) || el.localName === 'svg') return;
+      if (++elementCount > MAX_ELEMENTS) return;
+
+      const copy = target.createElementNS(SVG_NS, el.localName);
+      copyAttributes(el, copy);
+      copyChildren(el, copy);
+      to.appendChild(copy);
+    });
+  };
+
+  const copyAttributes = (from: Element, to: Element) => {
+    Array.from(from.attributes).forEach(attr => {
+      // Namespaced attributes (xlink:href, xml:base, …) are never needed for a plan.
+      if (attr.namespaceURI) return;
+      const pattern = ATTRIBUTE_PATTERNS.get(attr.name);
+      const value = attr.value.trim();
+      if (pattern && value.length <= MAX_ATTRIBUTE_LENGTH && pattern.test(value)) to.setAttribute(attr.name, value);
+    });
+  };
+
+  const clean = target.documentElement;
+  copyChildren(root, clean);
+
+  clean.setAttribute('viewBox', normalisedViewBox(root, clean));
+  clean.setAttribute('width', '100%');
+  clean.setAttribute('preserveAspectRatio', 'xMidYMid meet');
+  clean.setAttribute('role', 'img');
+  ['font-family', 'font-size', 'fill', 'stroke'].forEach(name => {
+    const value = root.getAttribute(name)?.trim();
+    if (value && ATTRIBUTE_PATTERNS.get(name)!.test(value)) clean.setAttribute(name, value);
+  });
+
+  return new XMLSerializer().serializeToString(clean);
+};
